@@ -53,6 +53,8 @@ export interface InvokeAPI {
  * API for tenant-aware state management
  *
  * State is automatically scoped by tenant and plugin.
+ * Governed by permissions.state: namespaces grant access to shared
+ * namespaces, quotas limit entries, total size and operations per minute.
  */
 export interface StateAPI {
   /**
@@ -100,6 +102,94 @@ export interface StateAPI {
    * @param ttlMs Time to live in milliseconds (optional)
    */
   setMany<T = unknown>(entries: Map<string, T> | Record<string, T>, ttlMs?: number): Promise<void>;
+
+  /**
+   * Atomically add delta to a numeric value (missing key counts as 0)
+   *
+   * @param key State key
+   * @param delta Amount to add (default: 1)
+   * @param ttlMs Time to live in milliseconds (optional)
+   * @returns New value
+   */
+  increment(key: string, delta?: number, ttlMs?: number): Promise<number>;
+
+  /**
+   * Atomically replace value if current value equals expected
+   *
+   * Values are compared structurally (JSON). Pass undefined as expected
+   * to require that the key is absent.
+   *
+   * @returns True if value was replaced
+   */
+  compareAndSet<T = unknown>(key: string, expected: T | undefined, value: T, ttlMs?: number): Promise<boolean>;
+
+  /**
+   * Set value only if key does not exist
+   *
+   * @returns True if value was set
+   */
+  setIfAbsent<T = unknown>(key: string, value: T, ttlMs?: number): Promise<boolean>;
+
+  /**
+   * List keys in this namespace
+   *
+   * @param prefix Only keys starting with prefix (optional)
+   * @returns Keys without tenant/namespace prefix, sorted
+   */
+  listKeys(prefix?: string): Promise<string[]>;
+
+  /**
+   * Acquire a named lock with a lease
+   *
+   * Waits up to options.waitMs for the lock. The lease expires after
+   * options.ttlMs even if the holder crashes. Locks still held when the
+   * handler finishes are released via lifecycle cleanup.
+   *
+   * @param name Lock name
+   * @throws TimeoutError if lock was not acquired within waitMs
+   */
+  lock(name: string, options?: StateLockOptions): Promise<StateLock>;
+
+  /**
+   * Access another state namespace (same tenant)
+   *
+   * The plugin's own namespace (its plugin ID) is always allowed. Other
+   * namespaces must match permissions.state.namespaces, e.g. 'mind:*' to
+   * share 'mind:index' between plugins, or another plugin's ID to read
+   * and write that plugin's state.
+   *
+   * @param name Namespace name
+   * @throws PermissionError if namespace is not declared
+   */
+  namespace(name: string): StateAPI;
+}
+
+/**
+ * Options for StateAPI.lock()
+ */
+export interface StateLockOptions {
+  /** Lease duration in milliseconds (default: 30000) */
+  ttlMs?: number;
+  /** Max time to wait for the lock in milliseconds (default: 10000, 0 = try once) */
+  waitMs?: number;
+  /** Delay between acquire attempts in milliseconds (default: 50) */
+  retryIntervalMs?: number;
+}
+
+/**
+ * Lock held via StateAPI.lock()
+ */
+export interface StateLock {
+  /** Lock name */
+  readonly name: string;
+  /** Release the lock (no-op if already released or lease expired) */
+  release(): Promise<void>;
+  /**
+   * Renew the lease
+   *
+   * @returns False if the lock is no longer held by this owner
+   */
+  extend(ttlMs?: number): Promise<boolean>;
 }
 
 // ============================================================================
@@ -232,13 +322,87 @@ export interface ExecOptions {
    * Whether to throw on non-zero exit code
    */
   throwOnError?: boolean;
+
+  /**
+   * Data written to stdin before it is closed
+   */
+  input?: string | Uint8Array;
+
+  /**
+   * Kills the command when aborted (default: ctx.signal)
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Chunk of output from a spawned command
+ */
+export interface ShellOutputChunk {
+  stream: 'stdout' | 'stderr';
+  data: string;
+}
+
+/**
+ * Exit status of a spawned command
+ */
+export interface ShellExitStatus {
+  /**
+   * Exit code (-1 when killed by a signal)
+   */
+  code: number;
+
+  /**
+   * Signal that killed the command, if any
+   */
+  signal?: string;
+
+  /**
+   * Whether command succeeded (code === 0)
+   */
+  ok: boolean;
+}
+
+/**
+ * Running command started with ShellAPI.spawn()
+ *
+ * Iterate it for stdout/stderr as they arrive. Output is buffered only up to
+ * a limit, after which the command is paused until it is consumed. When
+ * nobody iterates (e.g. only wait() is used), the oldest output is dropped
+ * instead, so the command never stalls.
+ */
+export interface ShellProcess extends AsyncIterable<ShellOutputChunk> {
+  /**
+   * Process ID (undefined if the command failed to start)
+   */
+  readonly pid: number | undefined;
+
+  /**
+   * Write to stdin
+   */
+  write(data: string | Uint8Array): Promise<void>;
+
+  /**
+   * Close stdin
+   */
+  end(): void;
+
+  /**
+   * Terminate the command (default: SIGTERM)
+   */
+  kill(signal?: string): void;
+
+  /**
+   * Wait for exit. Rejects on abort, timeout, spawn failure or,
+   * with throwOnError, a non-zero exit code.
+   */
+  wait(): Promise<ShellExitStatus>;
 }
 
 /**
  * API for shell command execution
  *
- * Requires shell.allowed permission.
- * Commands are checked against whitelist if specified.
+ * Requires shell.allow permission. Entries match the command and,
+ * optionally, its arguments: 'git', 'git status*', 'npm run build', '*'.
  */
 export interface ShellAPI {
   /**
@@ -249,8 +413,74 @@ export interface ShellAPI {
    * @param options Execution options
    */
   exec(command: string, args?: string[], options?: ExecOptions): Promise<ExecResult>;
+
+  /**
+   * Start a command and stream its output
+   *
+   * stdin stays open for write() until end() (or is closed after options.input).
+   *
+   * @param command Command to execute
+   * @param args Command arguments
+   * @param options Execution options
+   */
+  spawn(command: string, args?: string[], options?: ExecOptions): ShellProcess;
 }
 
+// ============================================================================
+// Secrets API
+// ============================================================================
+
+/**
+ * API for reading secrets
+ *
+ * Requires secrets.read permission. Every value handed out is redacted from
+ * the execution's logger, trace events and serialized errors.
+ */
+export interface SecretsAPI {
+  /**
+   * Get a secret
+   *
+   * @param name Secret name
+   * @returns Secret value, or undefined if not set
+   * @throws PermissionError if name is not in permissions.secrets.read
+   */
+  get(name: string): Promise<string | undefined>;
+}
+
+// ============================================================================
+// Stream API
+// ============================================================================
+
+/**
+ * API for incremental output of long-running handlers
+ *
+ * On REST routes that declare `stream`, progress and chunks reach the client
+ * as they happen (Server-Sent Events or NDJSON). Elsewhere they are dropped,
+ * so handlers can report unconditionally.
+ */
+export interface StreamAPI {
+  /**
+   * Report progress
+   *
+   * @param update Percent done (0-100) and/or a status message
+   */
+  progress(update: { percent?: number; message?: string }): Promise<void>;
+
+  /**
+   * Send an incremental result chunk
+   *
+   * @param chunk JSON-serializable value
+   */
+  write(chunk: unknown): Promise<void>;
+}
+
+/**
+ * Event produced by StreamAPI, delivered to the host by the execution backend
+ */
+export type StreamEvent =
+  | { type: 'progress'; percent?: number; message?: string; timestamp: string }
+  | { type: 'chunk'; data: unknown; timestamp: string };
+
 // ============================================================================
 // Events API
 // ============================================================================
@@ -330,11 +560,21 @@ export interface PluginAPI {
    */
   readonly shell: ShellAPI;
 
+  /**
+   * Secrets (redacted from logs and errors)
+   */
+  readonly secrets: SecretsAPI;
+
   /**
    * Event publishing
    */
   readonly events: EventsAPI;
 
+  /**
+   * Progress and incremental output (streaming REST routes)
+   */
+  readonly stream: StreamAPI;
+
   /**
    * Lifecycle management
    */
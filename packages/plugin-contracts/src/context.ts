@@ -61,8 +61,12 @@ export interface PluginContextV3<TConfig = unknown> {
 
   /**
    * Plugin configuration (typed)
+   *
+   * The manifest's configSection of the active kb.config.json profile,
+   * validated against configSchema with defaults applied.
+   * undefined when the plugin declares no configSection.
    */
-  readonly config?: TConfig;
+  readonly config: TConfig;
 
   // ==========================================================================
   // Cancellation
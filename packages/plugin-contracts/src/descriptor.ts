@@ -9,6 +9,26 @@
 
 import type { HostType, HostContext } from './host-context.js';
 import type { PermissionSpec } from './permissions.js';
+import type { ConfigSchema } from './manifest.js';
+
+/**
+ * Descriptor signature algorithm
+ * - hmac-sha256: shared secret (single trust domain)
+ * - ed25519: hosts sign with a private key, runtimes only hold public keys
+ */
+export type DescriptorSignatureAlgorithm = 'hmac-sha256' | 'ed25519';
+
+/**
+ * Host signature over the canonical serialization of the descriptor
+ * (every field except `signature`).
+ */
+export interface DescriptorSignature {
+  alg: DescriptorSignatureAlgorithm;
+  /** Signing key id, selects the verification key (key rotation) */
+  keyId: string;
+  /** Base64 signature */
+  value: string;
+}
 
 /**
  * Plugin context descriptor.
@@ -24,4 +44,8 @@ export interface PluginContextDescriptor {
   tenantId?: string;
   /** Config section from manifest (for useConfig auto-detection) */
   configSection?: string;
+  /** Config schema from manifest (validation and defaults for ctx.config) */
+  configSchema?: ConfigSchema;
+  /** Set by the host; runtimes with a keyring refuse unsigned or altered descriptors */
+  signature?: DescriptorSignature;
 }
@@ -128,6 +128,39 @@ export class RateLimitError extends PluginError {
   }
 }
 
+/**
+ * Resource quota kind (PermissionSpec.quotas)
+ */
+export type QuotaKind = 'memory' | 'cpu' | 'timeout' | 'stateEntries' | 'stateSize' | 'responseSize';
+
+const QUOTA_ERROR_CODES: Record<QuotaKind, string> = {
+  memory: 'QUOTA_MEMORY_EXCEEDED',
+  cpu: 'QUOTA_CPU_EXCEEDED',
+  timeout: 'QUOTA_TIMEOUT_EXCEEDED',
+  stateEntries: 'QUOTA_STATE_ENTRIES_EXCEEDED',
+  stateSize: 'QUOTA_STATE_SIZE_EXCEEDED',
+  responseSize: 'QUOTA_RESPONSE_SIZE_EXCEEDED',
+};
+
+/**
+ * Resource quota exceeded error
+ *
+ * Execution quotas (memory, cpu, timeout) kill the handler;
+ * state quotas (stateEntries, stateSize) reject the write;
+ * responseSize (network.maxResponseBytes) fails the fetch body.
+ */
+export class QuotaExceededError extends PluginError {
+  constructor(
+    public readonly quota: QuotaKind,
+    public readonly limit: number,
+    public readonly used?: number,
+    message: string = `${quota} quota exceeded (limit: ${limit})`
+  ) {
+    super(message, QUOTA_ERROR_CODES[quota], { quota, limit, used });
+    this.name = 'QuotaExceededError';
+  }
+}
+
 /**
  * Platform service error (e.g., LLM, cache, storage)
  */
@@ -142,6 +175,16 @@ export class PlatformError extends PluginError {
   }
 }
 
+/**
+ * Descriptor signature missing or invalid (permissions may have been altered in transit)
+ */
+export class DescriptorSignatureError extends PluginError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 'DESCRIPTOR_SIGNATURE_INVALID', details);
+    this.name = 'DescriptorSignatureError';
+  }
+}
+
 /**
  * Serialized error for IPC transport
  */
@@ -164,7 +207,14 @@ export const ErrorCode = {
   VALIDATION_ERROR: 'VALIDATION_ERROR',
   NOT_FOUND: 'NOT_FOUND',
   RATE_LIMIT: 'RATE_LIMIT',
+  QUOTA_MEMORY_EXCEEDED: 'QUOTA_MEMORY_EXCEEDED',
+  QUOTA_CPU_EXCEEDED: 'QUOTA_CPU_EXCEEDED',
+  QUOTA_TIMEOUT_EXCEEDED: 'QUOTA_TIMEOUT_EXCEEDED',
+  QUOTA_STATE_ENTRIES_EXCEEDED: 'QUOTA_STATE_ENTRIES_EXCEEDED',
+  QUOTA_STATE_SIZE_EXCEEDED: 'QUOTA_STATE_SIZE_EXCEEDED',
+  QUOTA_RESPONSE_SIZE_EXCEEDED: 'QUOTA_RESPONSE_SIZE_EXCEEDED',
   PLATFORM_ERROR: 'PLATFORM_ERROR',
+  DESCRIPTOR_SIGNATURE_INVALID: 'DESCRIPTOR_SIGNATURE_INVALID',
   INTERNAL_ERROR: 'INTERNAL_ERROR',
   IPC_ERROR: 'IPC_ERROR',
 } as const;
@@ -230,6 +230,31 @@ export interface RestResponse<T = unknown> {
   headers?: Record<string, string>;
 }
 
+const REST_RESPONSE_KEYS = new Set(['status', 'body', 'headers']);
+
+/**
+ * Check whether a handler result is a RestResponse
+ *
+ * Only objects limited to status/body/headers with an integer HTTP status
+ * (100-599) and string headers qualify, so plain data such as
+ * `{ status: 'ok' }` is still sent as the body.
+ */
+export function isRestResponse(value: unknown): value is RestResponse {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {return false;}
+
+  const candidate = value as Record<string, unknown>;
+  if (!Object.keys(candidate).every((key) => REST_RESPONSE_KEYS.has(key))) {return false;}
+
+  const { status, headers } = candidate;
+  if (typeof status !== 'number' || !Number.isInteger(status) || status < 100 || status > 599) {return false;}
+  if (headers === undefined) {return true;}
+
+  return headers !== null
+    && typeof headers === 'object'
+    && !Array.isArray(headers)
+    && Object.values(headers).every((v) => typeof v === 'string');
+}
+
 /**
  * REST endpoint definition
  */
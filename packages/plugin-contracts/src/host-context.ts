@@ -37,6 +37,24 @@ export interface RestHostContext {
   readonly traceId: string;
   /** Tenant ID for multi-tenancy (optional) */
   readonly tenantId?: string;
+  /** Authenticated caller (routes with `security` other than 'none') */
+  readonly identity?: RequestIdentity;
+}
+
+/**
+ * Caller identity established by a REST authenticator
+ */
+export interface RequestIdentity {
+  /** Security scheme that authenticated the request */
+  readonly scheme: 'user' | 'token' | 'oauth';
+  /** User (or service account) ID */
+  readonly userId?: string;
+  /** Tenant the caller belongs to (overrides the X-Tenant-Id header) */
+  readonly tenantId?: string;
+  /** Granted scopes (token/oauth) */
+  readonly scopes?: string[];
+  /** Additional JSON-serializable claims */
+  readonly claims?: Record<string, unknown>;
 }
 
 /**
@@ -16,6 +16,7 @@ export type {
   HostType,
   CliHostContext,
   RestHostContext,
+  RequestIdentity,
   WorkflowHostContext,
   WebhookHostContext,
   CronHostContext,
@@ -42,7 +43,11 @@ export type { ExecutionMeta, RunResult } from './execution.js';
 export type { ExecutionTarget } from './execution-target.js';
 
 // Plugin Context Descriptor
-export type { PluginContextDescriptor } from './descriptor.js';
+export type {
+  PluginContextDescriptor,
+  DescriptorSignature,
+  DescriptorSignatureAlgorithm,
+} from './descriptor.js';
 
 // UI
 export type {
@@ -78,12 +83,14 @@ export {
   ValidationError,
   NotFoundError,
   RateLimitError,
+  QuotaExceededError,
   PlatformError,
+  DescriptorSignatureError,
   ErrorCode,
   isPluginError,
   wrapError,
 } from './errors.js';
-export type { SerializedError, ErrorCodeType } from './errors.js';
+export type { SerializedError, ErrorCodeType, QuotaKind } from './errors.js';
 
 // Runtime
 export type {
@@ -122,11 +129,19 @@ export type {
   InvokeAPI,
   InvokeOptions,
   StateAPI,
+  StateLock,
+  StateLockOptions,
   ArtifactsAPI,
   ArtifactInfo,
   ShellAPI,
   ExecResult,
   ExecOptions,
+  ShellOutputChunk,
+  ShellExitStatus,
+  ShellProcess,
+  SecretsAPI,
+  StreamAPI,
+  StreamEvent,
   EventsAPI,
   LifecycleAPI,
   CleanupFn,
@@ -216,6 +231,7 @@ export type {
   WebhookHandler,
   WebhookDefinition,
 } from './handlers.js';
+export { isRestResponse } from './handlers.js';
 
 // Runner utilities
 export type { ExecutionMetaOptions } from './runner.js';
@@ -228,6 +244,9 @@ export type {
   ServiceRuntime,
   ServiceEnvVar,
   SchemaRef,
+  JsonSchema,
+  JsonSchemaType,
+  ConfigSchema,
   DisplayMetadata,
   PluginDependency,
   PlatformRequirements,
@@ -235,6 +254,7 @@ export type {
   CliCommandDecl,
   CliGroupMeta,
   RestRouteDecl,
+  RestStreamMode,
   RestConfig,
   WebSocketChannelDecl,
   WebSocketConfig,
@@ -65,6 +65,9 @@ export function validateManifest(manifest: ManifestV3): { valid: boolean; errors
       if (!route.handler) {
         errors.push(`REST route "${route.method} ${route.path}" missing handler path`);
       }
+      if (route.stream !== undefined && route.stream !== 'sse' && route.stream !== 'ndjson') {
+        errors.push(`REST route "${route.method} ${route.path}" has invalid stream mode: ${String(route.stream)} (expected sse or ndjson)`);
+      }
     }
   }
 
@@ -75,6 +75,58 @@ export type SchemaRef =
   | { $ref: string } // OpenAPI JSON Schema reference
   | { zod: string }; // Zod schema reference: './path/to/schema.ts#exportedSchema'
 
+/**
+ * JSON Schema subset validated by the runtime (plugin config, REST input/output)
+ *
+ * `default` values fill in missing properties before the handler sees them.
+ *
+ * @example
+ * ```json
+ * {
+ *   "type": "object",
+ *   "properties": {
+ *     "model": { "type": "string", "default": "gpt-4o-mini" },
+ *     "maxFiles": { "type": "integer", "default": 100 }
+ *   },
+ *   "required": ["model"]
+ * }
+ * ```
+ */
+export interface JsonSchema {
+  /** A type, or the list of accepted types (e.g. ['string', 'null']) */
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  /** Used when the value is missing */
+  default?: unknown;
+  /** Allowed values */
+  enum?: unknown[];
+  /** Object properties */
+  properties?: Record<string, JsonSchema>;
+  /** Object properties that must be present (after defaults) */
+  required?: string[];
+  /** false rejects unknown properties, a schema validates them (default: allowed) */
+  additionalProperties?: boolean | JsonSchema;
+  /** Array items */
+  items?: JsonSchema;
+  /** Number bounds */
+  minimum?: number;
+  maximum?: number;
+  /** String constraints */
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+/**
+ * JSON Schema type name
+ */
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * Schema for the plugin's kb.config.json section
+ */
+export type ConfigSchema = JsonSchema;
+
 /**
  * Display metadata for plugin
  */
@@ -169,6 +221,8 @@ export interface CliCommandDecl {
   handlerPath?: string;
   /** Command-specific permissions (overrides plugin defaults) */
   permissions?: PermissionSpec;
+  /** Pre-import this handler in pool workers (worker pool warmup mode 'marked') */
+  warmup?: boolean;
 }
 
 /**
@@ -193,6 +247,11 @@ export interface ErrorSpec {
   description?: string;
 }
 
+/**
+ * Response streaming mode of a REST route
+ */
+export type RestStreamMode = 'sse' | 'ndjson';
+
 /**
  * REST route declaration
  */
@@ -215,8 +274,15 @@ export interface RestRouteDecl {
   handler: string;
   /** Security requirements */
   security?: ('none' | 'user' | 'token' | 'oauth')[];
+  /**
+   * Stream logs, progress and chunks (ctx.api.stream) while the handler runs:
+   * 'sse' (text/event-stream) or 'ndjson' (application/x-ndjson)
+   */
+  stream?: RestStreamMode;
   /** Route-specific permissions (overrides plugin defaults) */
   permissions?: PermissionSpec;
+  /** Pre-import this handler in pool workers (worker pool warmup mode 'marked') */
+  warmup?: boolean;
 }
 
 /**
@@ -270,6 +336,9 @@ export interface WebSocketChannelDecl {
 
   /** Idle timeout (auto-disconnect after this many ms of inactivity) */
   idleTimeoutMs?: number;
+
+  /** Pre-import this handler in pool workers (worker pool warmup mode 'marked') */
+  warmup?: boolean;
 }
 
 /**
@@ -526,6 +595,11 @@ export interface ManifestV3 {
    */
   configSection?: string;
 
+  /**
+   * Schema for the configSection (validated, defaults applied → ctx.config)
+   */
+  configSchema?: ConfigSchema;
+
   /** Display metadata */
   display?: DisplayMetadata;
 
@@ -26,6 +26,17 @@ export interface PermissionSpec {
   network?: {
     /** Allowed URL patterns for fetch (glob: *, **.domain.com, etc.) */
     fetch?: string[];
+    /**
+     * Allowed HTTP methods per host pattern (e.g. { 'api.github.com': ['GET'] }).
+     * Hosts without a matching entry allow every method.
+     */
+    methods?: Record<string, string[]>;
+    /** Max redirects followed per request, each re-checked against fetch (default: 20) */
+    maxRedirects?: number;
+    /** Max response body size in bytes (default: unlimited) */
+    maxResponseBytes?: number;
+    /** Request timeout in milliseconds, including reading the body (default: none) */
+    timeoutMs?: number;
   };
 
   /**
@@ -36,6 +47,14 @@ export interface PermissionSpec {
     read?: string[];
   };
 
+  /**
+   * Secret permissions (ctx.api.secrets)
+   */
+  secrets?: {
+    /** Allowed secret names (exact or prefix with *) */
+    read?: string[];
+  };
+
   /**
    * Platform service permissions
    */
@@ -153,7 +172,10 @@ export interface PermissionSpec {
    * Shell execution permissions
    */
   shell?: {
-    /** Whitelist of allowed commands (empty = shell disabled) */
+    /**
+     * Whitelist of allowed commands (empty = shell disabled).
+     * Optional argument patterns follow the command: 'git status*', 'npm run build'.
+     */
     allow?: string[];
   };
 
@@ -209,6 +231,9 @@ export const DEFAULT_PERMISSIONS: PermissionSpec = {
   env: {
     read: [], // Only NODE_ENV, CI, DEBUG (always allowed by runtime)
   },
+  secrets: {
+    read: [], // No secrets by default
+  },
   platform: {
     llm: false,
     vectorStore: false,
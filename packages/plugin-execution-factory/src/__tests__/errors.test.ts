@@ -21,6 +21,7 @@ import {
   WorkerCrashedError,
   WorkerUnhealthyError,
 } from '../errors.js';
+import { normalizeError } from '../utils.js';
 
 describe('isKnownErrorCode()', () => {
   it('returns true for all known codes', () => {
@@ -29,6 +30,7 @@ describe('isKnownErrorCode()', () => {
       'HANDLER_CONTRACT_ERROR', 'HANDLER_NOT_FOUND', 'WORKSPACE_ERROR',
       'VALIDATION_ERROR', 'UNKNOWN_ERROR',
       'QUEUE_FULL', 'ACQUIRE_TIMEOUT', 'WORKER_CRASHED', 'WORKER_UNHEALTHY',
+      'QUOTA_MEMORY_EXCEEDED', 'QUOTA_CPU_EXCEEDED', 'QUOTA_TIMEOUT_EXCEEDED',
     ];
     for (const code of codes) {
       expect(isKnownErrorCode(code)).toBe(true);
@@ -199,3 +201,24 @@ describe('Pool errors', () => {
     expect(err.message).toContain('heartbeat timeout');
   });
 });
+
+describe('normalizeError()', () => {
+  it('keeps known execution codes', () => {
+    const err = Object.assign(new Error('slow'), { code: 'TIMEOUT' });
+    const result = normalizeError(err);
+    expect(result.code).toBe('TIMEOUT');
+    expect(result.pluginCode).toBeUndefined();
+  });
+
+  it('clamps plugin codes to HANDLER_ERROR and keeps them as pluginCode', () => {
+    const err = Object.assign(new Error('exists'), { code: 'ITEM_EXISTS', details: { id: '1' } });
+    const result = normalizeError(err);
+    expect(result.code).toBe('HANDLER_ERROR');
+    expect(result.pluginCode).toBe('ITEM_EXISTS');
+    expect(result.details).toEqual({ id: '1' });
+  });
+
+  it('has no pluginCode for errors without a code', () => {
+    expect(normalizeError(new Error('boom'))).not.toHaveProperty('pluginCode');
+  });
+});
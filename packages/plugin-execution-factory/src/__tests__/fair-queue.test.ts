@@ -0,0 +1,119 @@
+/**
+ * @module @kb-labs/plugin-execution-factory/__tests__/fair-queue
+ *
+ * Unit tests for priority + weighted fair queue used by the worker pool.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  PriorityFairQueue,
+  normalizePriority,
+} from '../backends/worker-pool/fair-queue.js';
+
+const flow = (key: string, weight = 1) => ({ key, weight });
+
+function drainAll<T>(queue: PriorityFairQueue<T>): T[] {
+  const out: T[] = [];
+  let item = queue.dequeue();
+  while (item !== undefined) {
+    out.push(item);
+    item = queue.dequeue();
+  }
+  return out;
+}
+
+describe('normalizePriority()', () => {
+  it('defaults to normal', () => {
+    expect(normalizePriority(undefined)).toBe('normal');
+  });
+
+  it('passes through class names', () => {
+    expect(normalizePriority('critical')).toBe('critical');
+    expect(normalizePriority('low')).toBe('low');
+  });
+
+  it('maps numeric job priorities to classes', () => {
+    expect(normalizePriority(95)).toBe('critical');
+    expect(normalizePriority(80)).toBe('high');
+    expect(normalizePriority(50)).toBe('normal');
+    expect(normalizePriority(10)).toBe('low');
+  });
+});
+
+describe('PriorityFairQueue', () => {
+  it('dequeues higher priority classes first', () => {
+    const queue = new PriorityFairQueue<string>();
+    queue.enqueue('low', 'low', flow('t'), flow('p'));
+    queue.enqueue('normal', 'normal', flow('t'), flow('p'));
+    queue.enqueue('critical', 'critical', flow('t'), flow('p'));
+    queue.enqueue('high', 'high', flow('t'), flow('p'));
+
+    expect(drainAll(queue)).toEqual(['critical', 'high', 'normal', 'low']);
+  });
+
+  it('keeps FIFO order within a single flow', () => {
+    const queue = new PriorityFairQueue<number>();
+    for (let i = 0; i < 5; i++) {
+      queue.enqueue(i, 'normal', flow('t'), flow('p'));
+    }
+
+    expect(drainAll(queue)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('interleaves plugins so a noisy plugin cannot starve others', () => {
+    const queue = new PriorityFairQueue<string>();
+    for (let i = 0; i < 10; i++) {
+      queue.enqueue(`noisy-${i}`, 'normal', flow('t'), flow('noisy'));
+    }
+    queue.enqueue('quiet-0', 'normal', flow('t'), flow('quiet'));
+
+    const order = drainAll(queue);
+
+    expect(order.indexOf('quiet-0')).toBeLessThanOrEqual(1);
+  });
+
+  it('shares across tenants before plugins', () => {
+    const queue = new PriorityFairQueue<string>();
+    // Tenant A floods with three plugins, tenant B has one plugin
+    for (let i = 0; i < 3; i++) {
+      queue.enqueue(`a1-${i}`, 'normal', flow('A'), flow('p1'));
+      queue.enqueue(`a2-${i}`, 'normal', flow('A'), flow('p2'));
+      queue.enqueue(`a3-${i}`, 'normal', flow('A'), flow('p3'));
+    }
+    for (let i = 0; i < 3; i++) {
+      queue.enqueue(`b-${i}`, 'normal', flow('B'), flow('p1'));
+    }
+
+    const firstSix = drainAll(queue).slice(0, 6);
+
+    expect(firstSix.filter((id) => id.startsWith('b-'))).toHaveLength(3);
+  });
+
+  it('honors weights', () => {
+    const queue = new PriorityFairQueue<string>();
+    for (let i = 0; i < 30; i++) {
+      queue.enqueue(`heavy-${i}`, 'normal', flow('t'), flow('heavy', 3));
+      queue.enqueue(`light-${i}`, 'normal', flow('t'), flow('light', 1));
+    }
+
+    const firstEight = drainAll(queue).slice(0, 8);
+
+    expect(firstEight.filter((id) => id.startsWith('heavy-'))).toHaveLength(6);
+  });
+
+  it('removes items and reports depth per class', () => {
+    const queue = new PriorityFairQueue<{ id: string }>();
+    queue.enqueue({ id: 'a' }, 'high', flow('t'), flow('p'));
+    queue.enqueue({ id: 'b' }, 'normal', flow('t'), flow('p'));
+    queue.enqueue({ id: 'c' }, 'normal', flow('t'), flow('q'));
+
+    expect(queue.depthByPriority()).toEqual({ critical: 0, high: 1, normal: 2, low: 0 });
+
+    expect(queue.remove((item) => item.id === 'b')).toEqual({ id: 'b' });
+    expect(queue.length).toBe(2);
+    expect(queue.remove((item) => item.id === 'missing')).toBeUndefined();
+
+    expect(queue.drain().map((item) => item.id).sort()).toEqual(['a', 'c']);
+    expect(queue.length).toBe(0);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * @module @kb-labs/plugin-execution-factory/__tests__/platform-stream-server
+ *
+ * Tests for the parent-side streaming RPC server (llm.stream, subscriptions,
+ * credit-based flow control over Unix socket).
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as net from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { PlatformServices } from '@kb-labs/plugin-contracts';
+import { PlatformStreamServer } from '../backends/platform-stream-server.js';
+
+function connect(socketPath: string) {
+  const socket = net.connect(socketPath);
+  const frames: Array<Record<string, any>> = [];
+  let buffer = '';
+
+  socket.on('data', (data) => {
+    buffer += data.toString('utf8');
+    let index: number;
+    while ((index = buffer.indexOf('\n')) !== -1) {
+      frames.push(JSON.parse(buffer.slice(0, index)));
+      buffer = buffer.slice(index + 1);
+    }
+  });
+
+  return {
+    frames,
+    send: (msg: unknown) => socket.write(JSON.stringify(msg) + '\n'),
+    ready: new Promise<void>((resolve) => socket.once('connect', () => resolve())),
+    close: () => socket.destroy(),
+  };
+}
+
+async function waitFor(predicate: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !predicate(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+function streamRequest(requestId: string, overrides: Record<string, unknown> = {}) {
+  return {
+    version: 2,
+    type: 'adapter:stream',
+    requestId,
+    adapter: 'llm',
+    method: 'stream',
+    args: ['prompt', { model: 'm' }],
+    context: { authToken: 'token' },
+    ...overrides,
+  };
+}
+
+describe('PlatformStreamServer', () => {
+  let socketPath: string;
+  let server: PlatformStreamServer;
+  let finalized: boolean;
+  let streamArgs: unknown[];
+  let llmStream: (...args: unknown[]) => AsyncIterable<string>;
+  let handlers: Map<string, (event: unknown) => void>;
+
+  beforeEach(async () => {
+    socketPath = path.join(os.tmpdir(), `kb-stream-server-${process.pid}-${Date.now()}.sock.stream`);
+    finalized = false;
+    llmStream = async function* () {
+      yield 'a';
+      yield 'b';
+    };
+
+    handlers = new Map();
+    const platform = {
+      eventBus: {
+        subscribe: (topic: string, handler: (event: unknown) => void) => {
+          handlers.set(topic, handler);
+          return () => handlers.delete(topic);
+        },
+      },
+      llm: {
+        stream: (...args: unknown[]) => {
+          streamArgs = args;
+          return llmStream(...args);
+        },
+      },
+    } as unknown as PlatformServices;
+
+    server = new PlatformStreamServer(platform, { socketPath, authToken: 'token', maxBufferedEvents: 3 });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('streams chunks followed by end frame', async () => {
+    const client = connect(socketPath);
+    await client.ready;
+
+    client.send(streamRequest('s1'));
+    await waitFor(() => client.frames.length === 3);
+
+    expect(streamArgs).toEqual(['prompt', { model: 'm' }]);
+    expect(client.frames).toEqual([
+      { type: 'stream:chunk', requestId: 's1', data: 'a' },
+      { type: 'stream:chunk', requestId: 's1', data: 'b' },
+      { type: 'stream:end', requestId: 's1' },
+    ]);
+    client.close();
+  });
+
+  it('sends error frame when source throws', async () => {
+    llmStream = async function* () {
+      yield 'a';
+      throw Object.assign(new Error('provider down'), { code: 'PLATFORM_ERROR' });
+    };
+    const client = connect(socketPath);
+    await client.ready;
+
+    client.send(streamRequest('s1'));
+    await waitFor(() => client.frames.length === 2);
+
+    expect(client.frames[1]).toEqual({
+      type: 'stream:error',
+      requestId: 's1',
+      error: { message: 'provider down', code: 'PLATFORM_ERROR' },
+    });
+    client.close();
+  });
+
+  it('rejects bad tokens and non-streamable methods', async () => {
+    const client = connect(socketPath);
+    await client.ready;
+
+    client.send(streamRequest('s1', { context: { authToken: 'wrong' } }));
+    client.send(streamRequest('s2', { adapter: 'cache', method: 'get' }));
+    await waitFor(() => client.frames.length === 2);
+
+    expect(client.frames.map((f) => [f.requestId, f.type, f.error?.code]).sort()).toEqual([
+      ['s1', 'stream:error', 'PERMISSION_DENIED'],
+      ['s2', 'stream:error', 'INVALID_REQUEST'],
+    ]);
+    client.close();
+  });
+
+  it('stops the source on cancel', async () => {
+    let release: () => void = () => {};
+    llmStream = async function* () {
+      try {
+        yield 'a';
+        await new Promise<void>((resolve) => {
+          release = resolve;
+        });
+        yield 'b';
+      } finally {
+        finalized = true;
+      }
+    };
+    const client = connect(socketPath);
+    await client.ready;
+
+    client.send(streamRequest('s1'));
+    await waitFor(() => client.frames.length === 1);
+    client.send({ type: 'stream:cancel', requestId: 's1' });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    release();
+
+    await waitFor(() => finalized);
+    expect(finalized).toBe(true);
+    expect(client.frames).toEqual([{ type: 'stream:chunk', requestId: 's1', data: 'a' }]);
+    client.close();
+  });
+
+  it('stops the source when the child disconnects', async () => {
+    llmStream = async function* () {
+      try {
+        for (;;) {
+          yield 'x';
+          await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+      } finally {
+        finalized = true;
+      }
+    };
+    const client = connect(socketPath);
+    await client.ready;
+
+    client.send(streamRequest('s1'));
+    await waitFor(() => client.frames.length > 0);
+    client.close();
+
+    await waitFor(() => finalized);
+    expect(finalized).toBe(true);
+  });
+
+  it('pulls the source only while the child has credits', async () => {
+    let pulled = 0;
+    llmStream = async function* () {
+      for (let i = 0; i < 5; i++) {
+        pulled++;
+        yield String(i);
+      }
+    };
+    const client = connect(socketPath);
+    await client.ready;
+
+    client.send(streamRequest('s1', { credits: 2 }));
+    await waitFor(() => client.frames.length === 2);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(client.frames.map((f) => f.data)).toEqual(['0', '1']);
+    expect(pulled).toBe(2);
+
+    client.send({ type: 'stream:credit', requestId: 's1', credits: 10 });
+    await waitFor(() => client.frames.length === 6);
+
+    expect(client.frames.map((f) => f.data ?? f.type)).toEqual(['0', '1', '2', '3', '4', 'stream:end']);
+    client.close();
+  });
+
+  it('delivers subscription events and unsubscribes on cancel', async () => {
+    const client = connect(socketPath);
+    await client.ready;
+
+    client.send(streamRequest('s1', { type: 'adapter:subscribe', adapter: 'eventBus', method: 'subscribe', args: ['build'] }));
+    await waitFor(() => handlers.has('build'));
+    handlers.get('build')!({ id: 1 });
+    handlers.get('build')!({ id: 2 });
+    await waitFor(() => client.frames.length === 2);
+
+    expect(client.frames).toEqual([
+      { type: 'stream:chunk', requestId: 's1', data: { id: 1 } },
+      { type: 'stream:chunk', requestId: 's1', data: { id: 2 } },
+    ]);
+
+    client.send({ type: 'stream:cancel', requestId: 's1' });
+    await waitFor(() => !handlers.has('build'));
+    expect(handlers.has('build')).toBe(false);
+    client.close();
+  });
+
+  it('fails subscriptions that overflow the buffer', async () => {
+    const client = connect(socketPath);
+    await client.ready;
+
+    client.send(streamRequest('s1', {
+      type: 'adapter:subscribe',
+      adapter: 'eventBus',
+      method: 'subscribe',
+      args: ['build'],
+      credits: 1,
+    }));
+    await waitFor(() => handlers.has('build'));
+    const emit = handlers.get('build')!;
+    emit(0);
+    await waitFor(() => client.frames.length === 1);
+    for (let i = 1; i < 10; i++) {
+      emit(i);
+    }
+    await waitFor(() => client.frames.length === 2);
+
+    expect(client.frames[0]).toEqual({ type: 'stream:chunk', requestId: 's1', data: 0 });
+    expect(client.frames[1]).toMatchObject({ type: 'stream:error', error: { code: 'SUBSCRIPTION_OVERFLOW' } });
+    expect(handlers.has('build')).toBe(false);
+    client.close();
+  });
+
+  it('rejects subscriptions to unknown methods', async () => {
+    const client = connect(socketPath);
+    await client.ready;
+
+    client.send(streamRequest('s1', { type: 'adapter:subscribe', adapter: 'llm', method: 'stream' }));
+    await waitFor(() => client.frames.length === 1);
+
+    expect(client.frames[0]).toMatchObject({ type: 'stream:error', error: { code: 'INVALID_REQUEST' } });
+    client.close();
+  });
+});
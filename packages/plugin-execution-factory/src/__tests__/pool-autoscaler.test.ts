@@ -0,0 +1,152 @@
+/**
+ * @module @kb-labs/plugin-execution-factory/__tests__/pool-autoscaler
+ *
+ * Unit tests for the worker pool autoscaler decisions.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { PoolAutoscaler } from '../backends/worker-pool/pool-autoscaler.js';
+import {
+  DEFAULT_AUTOSCALE_CONFIG,
+  DEFAULT_WORKER_POOL_CONFIG,
+  type ScalingDecision,
+  type WorkerState,
+} from '../backends/worker-pool/types.js';
+import type { Worker } from '../backends/worker-pool/worker.js';
+
+function fakeWorker(id: string, state: WorkerState, idleSince?: number): Worker {
+  return { id, state, info: { id, state, idleSince } } as unknown as Worker;
+}
+
+function setup(options: {
+  workers?: Worker[];
+  queueLength?: number;
+  oldestWaitMs?: number;
+  min?: number;
+  max?: number;
+}) {
+  const workers = new Map((options.workers ?? []).map((w) => [w.id, w]));
+  const state = { queueLength: options.queueLength ?? 0, oldestWaitMs: options.oldestWaitMs ?? 0 };
+  const decisions: ScalingDecision[] = [];
+  const onSpawnWorker = vi.fn(async () => {});
+  const onRetireWorker = vi.fn((worker: Worker) => {
+    workers.delete(worker.id);
+  });
+
+  const autoscaler = new PoolAutoscaler(
+    workers,
+    { ...DEFAULT_WORKER_POOL_CONFIG, min: options.min ?? 1, max: options.max ?? 4 },
+    { ...DEFAULT_AUTOSCALE_CONFIG, enabled: true },
+    {
+      onGetQueueLength: () => state.queueLength,
+      onGetOldestQueueWaitMs: () => state.oldestWaitMs,
+      onSpawnWorker,
+      onRetireWorker,
+      onScalingDecision: (decision) => decisions.push(decision),
+      onIsShuttingDown: () => false,
+    }
+  );
+
+  return { autoscaler, workers, state, decisions, onSpawnWorker, onRetireWorker };
+}
+
+describe('PoolAutoscaler', () => {
+  it('scales up when queue depth reaches threshold', () => {
+    const { autoscaler, decisions, onSpawnWorker } = setup({
+      workers: [fakeWorker('w1', 'busy')],
+      queueLength: 2,
+    });
+
+    const decision = autoscaler.evaluate(10_000);
+
+    expect(decision).toMatchObject({ direction: 'up', from: 1, to: 2, reason: 'queue-depth' });
+    expect(onSpawnWorker).toHaveBeenCalledTimes(1);
+    expect(decisions).toHaveLength(1);
+  });
+
+  it('scales up when oldest request waited too long', () => {
+    const { autoscaler } = setup({
+      workers: [fakeWorker('w1', 'busy')],
+      queueLength: 1,
+      oldestWaitMs: 300,
+    });
+
+    expect(autoscaler.evaluate(10_000)).toMatchObject({ direction: 'up', reason: 'queue-wait' });
+  });
+
+  it('respects scale-up cooldown', () => {
+    const { autoscaler, onSpawnWorker } = setup({
+      workers: [fakeWorker('w1', 'busy')],
+      queueLength: 3,
+    });
+
+    autoscaler.evaluate(10_000);
+    expect(autoscaler.evaluate(10_500)).toBeNull();
+    expect(autoscaler.evaluate(11_000)).toMatchObject({ direction: 'up' });
+    expect(onSpawnWorker).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not exceed max', () => {
+    const { autoscaler } = setup({
+      workers: [fakeWorker('w1', 'busy'), fakeWorker('w2', 'busy')],
+      queueLength: 10,
+      max: 2,
+    });
+
+    expect(autoscaler.evaluate(10_000)).toBeNull();
+  });
+
+  it('does not over-provision while workers are starting', () => {
+    const { autoscaler } = setup({
+      workers: [fakeWorker('w1', 'busy'), fakeWorker('w2', 'starting'), fakeWorker('w3', 'starting')],
+      queueLength: 2,
+    });
+
+    expect(autoscaler.evaluate(10_000)).toBeNull();
+  });
+
+  it('scales down the longest idle worker after idle period', () => {
+    const { autoscaler, onRetireWorker } = setup({
+      workers: [fakeWorker('w1', 'idle', 1_000), fakeWorker('w2', 'idle', 500)],
+    });
+
+    const decision = autoscaler.evaluate(100_000);
+
+    expect(decision).toMatchObject({ direction: 'down', from: 2, to: 1, reason: 'idle' });
+    expect(onRetireWorker).toHaveBeenCalledWith(expect.objectContaining({ id: 'w2' }));
+  });
+
+  it('never scales below min', () => {
+    const { autoscaler } = setup({
+      workers: [fakeWorker('w1', 'idle', 0)],
+      min: 1,
+    });
+
+    expect(autoscaler.evaluate(100_000)).toBeNull();
+  });
+
+  it('does not scale down while requests are queued (hysteresis)', () => {
+    const { autoscaler } = setup({
+      workers: [fakeWorker('w1', 'idle', 0), fakeWorker('w2', 'busy')],
+      queueLength: 1,
+      max: 2,
+    });
+
+    expect(autoscaler.evaluate(100_000)).toBeNull();
+  });
+
+  it('waits for scale-down cooldown after scale-up', () => {
+    const { autoscaler, state, workers } = setup({
+      workers: [fakeWorker('w1', 'busy')],
+      queueLength: 2,
+    });
+
+    autoscaler.evaluate(100_000);
+
+    // Burst absorbed, extra worker idle long enough but cooldown not elapsed
+    state.queueLength = 0;
+    workers.set('w2', fakeWorker('w2', 'idle', 0));
+    expect(autoscaler.evaluate(110_000)).toBeNull();
+    expect(autoscaler.evaluate(130_000)).toMatchObject({ direction: 'down' });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * @module @kb-labs/plugin-execution-factory/__tests__/pool-queue
+ *
+ * Unit tests for the worker pool queue: queued requests keep their
+ * real-time callbacks (onLog / onStream) until a worker runs them.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { ExecutionRequest, ExecutionResult } from '../types.js';
+import type { WorkerPoolConfig } from '../backends/worker-pool/types.js';
+import type { Worker } from '../backends/worker-pool/worker.js';
+import { PoolQueueManager } from '../backends/worker-pool/pool-queue.js';
+
+function makeRequest(executionId: string): ExecutionRequest {
+  return {
+    executionId,
+    pluginRoot: '/plugins/demo',
+    handlerRef: './dist/rest/review.js',
+    input: {},
+    timeoutMs: 5_000,
+    descriptor: {
+      hostType: 'rest',
+      pluginId: '@kb-labs/demo',
+      pluginVersion: '1.0.0',
+      requestId: 'req-1',
+      permissions: {},
+      hostContext: { host: 'rest' },
+    },
+  } as unknown as ExecutionRequest;
+}
+
+describe('PoolQueueManager', () => {
+  it('passes the callbacks of queued requests to the worker', async () => {
+    let available: Worker | null = null;
+    const result: ExecutionResult = { ok: true, data: 'done', executionTimeMs: 1 };
+    const onExecuteOnWorker = vi.fn().mockResolvedValue(result);
+
+    const queue = new PoolQueueManager({ acquireTimeoutMs: 1_000 } as WorkerPoolConfig, {
+      onTrackQueueWaitTime: vi.fn(),
+      onGetAvailableWorker: () => available,
+      onExecuteOnWorker,
+      onAcquireTimeout: vi.fn(),
+    });
+
+    const callbacks = { onLog: vi.fn(), onStream: vi.fn() };
+    const queued = queue.queueRequest(makeRequest('exec-1'), undefined, 5_000, Date.now(), callbacks);
+
+    available = {} as Worker;
+    queue.processQueue();
+
+    await expect(queued).resolves.toBe(result);
+    expect(onExecuteOnWorker).toHaveBeenCalledWith(
+      available,
+      expect.objectContaining({ executionId: 'exec-1' }),
+      5_000,
+      expect.any(Number),
+      callbacks
+    );
+  });
+});
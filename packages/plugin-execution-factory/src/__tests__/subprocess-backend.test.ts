@@ -1,4 +1,6 @@
 import { describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs';
+import { noopUI } from '@kb-labs/plugin-contracts';
 import type { ExecutionRequest } from '../types.js';
 
 vi.mock('node:fs', async (importOriginal) => {
@@ -66,3 +68,44 @@ describe('SubprocessBackend diagnostics', () => {
     );
   });
 });
+
+describe('SubprocessBackend UI', () => {
+  async function runWith(uiProvider?: () => typeof noopUI) {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    const { SubprocessBackend } = await import('../backends/subprocess.js');
+    const runner = {
+      runInSubprocess: vi.fn(async (_options: { ui?: unknown }) => ({ ok: true, data: 'done', executionMeta: {} })),
+    };
+    const backend = new SubprocessBackend({
+      platform: createPlatform(),
+      runner: runner as any,
+      uiProvider,
+      ipcServerFactory: vi.fn(async () => ({
+        start: vi.fn(async () => {}),
+        close: vi.fn(async () => {}),
+        getConnectionInfo: () => '/tmp/kb-test.sock',
+        getAuthToken: () => 'token',
+      })),
+    });
+
+    try {
+      const result = await backend.execute(createRequest());
+      expect(result.ok).toBe(true);
+      return runner.runInSubprocess.mock.calls[0]![0];
+    } finally {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+    }
+  }
+
+  it('leaves ctx.ui to the child without a uiProvider', async () => {
+    const runOptions = await runWith();
+
+    expect(runOptions.ui).toBeUndefined();
+  });
+
+  it('serves ctx.ui from the uiProvider', async () => {
+    const runOptions = await runWith(() => noopUI);
+
+    expect(runOptions.ui).toBe(noopUI);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * @module @kb-labs/plugin-execution-factory/__tests__/worker-platform
+ *
+ * Tests for the platform services of worker-pool workers:
+ * RPC over the execution's platform socket, no-op fallback without one.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as net from 'node:net';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+const noopPlatform = vi.hoisted(() => ({ logger: {}, cache: {} }));
+
+vi.mock('@kb-labs/core-platform/noop', () => ({
+  createNoOpPlatform: vi.fn(() => noopPlatform),
+}));
+
+interface ReceivedCall {
+  adapter: string;
+  method: string;
+  args: unknown[];
+  context?: { authToken?: string; executionId?: string };
+}
+
+/**
+ * Minimal platform socket server (newline-delimited JSON RPC)
+ */
+async function startPlatformServer(
+  socketPath: string,
+  onCall: (call: ReceivedCall) => unknown
+): Promise<{ server: net.Server; connections: () => number }> {
+  let connections = 0;
+  const server = net.createServer((socket) => {
+    connections++;
+    let buffer = '';
+    socket.on('data', (data) => {
+      buffer += data.toString('utf8');
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex);
+        buffer = buffer.slice(newlineIndex + 1);
+        if (!line.trim()) {continue;}
+
+        const request = JSON.parse(line) as ReceivedCall & { requestId: string };
+        const response = {
+          type: 'adapter:response',
+          requestId: request.requestId,
+          result: onCall(request),
+        };
+        socket.write(JSON.stringify(response) + '\n', 'utf8');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(socketPath, resolve));
+  return { server, connections: () => connections };
+}
+
+describe('openWorkerPlatform()', () => {
+  const savedEnv = { ...process.env };
+  let socketPath: string;
+  let server: net.Server | null = null;
+
+  beforeEach(() => {
+    vi.resetModules();
+    socketPath = path.join(os.tmpdir(), `kb-worker-platform-${Math.random().toString(36).slice(2, 9)}.sock`);
+  });
+
+  afterEach(async () => {
+    const { closeWorkerPlatform } = await import('../backends/worker-pool/worker-platform.js');
+    await closeWorkerPlatform();
+    if (server) {
+      await new Promise<void>((resolve) => server!.close(() => resolve()));
+      server = null;
+    }
+    if (fs.existsSync(socketPath)) {
+      fs.unlinkSync(socketPath);
+    }
+    process.env = { ...savedEnv };
+    vi.restoreAllMocks();
+  });
+
+  it('reaches the parent platform over the execution socket with its token', async () => {
+    const calls: ReceivedCall[] = [];
+    const started = await startPlatformServer(socketPath, (call) => {
+      calls.push(call);
+      return call.adapter === 'cache' && call.method === 'get' ? { hits: 3 } : null;
+    });
+    server = started.server;
+
+    process.env.KB_EXECUTION_ID = 'exec-1';
+
+    const { openWorkerPlatform, closeWorkerPlatform } = await import('../backends/worker-pool/worker-platform.js');
+    const platform = await openWorkerPlatform({ socketPath, authToken: 'exec-token' });
+
+    await expect(platform.cache.get('stats')).resolves.toEqual({ hits: 3 });
+    expect(calls[0]).toMatchObject({
+      adapter: 'cache',
+      method: 'get',
+      args: ['stats'],
+      context: { authToken: 'exec-token', executionId: 'exec-1' },
+    });
+    // The token is not left in the environment handlers can read
+    expect(process.env.KB_PLATFORM_SOCKET_TOKEN).toBeUndefined();
+
+    // Each execution gets its own connection
+    await closeWorkerPlatform();
+    await openWorkerPlatform({ socketPath, authToken: 'exec-token' });
+    expect(started.connections()).toBe(2);
+  });
+
+  it('falls back to no-op platform services without a socket', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const { openWorkerPlatform } = await import('../backends/worker-pool/worker-platform.js');
+
+    await expect(openWorkerPlatform(undefined)).resolves.toBe(noopPlatform);
+    await expect(openWorkerPlatform(undefined)).resolves.toBe(noopPlatform);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('No platform socket for execution'));
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * @module @kb-labs/plugin-execution-factory/__tests__/worker-pool-backend
+ *
+ * Tests for the platform socket WorkerPoolBackend serves to workers:
+ * one server per execution, calls checked against its permissions, and
+ * never shared with a handler that outlived its execution.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { ExecutionRequest } from '../types.js';
+import { WorkerPoolBackend } from '../backends/worker-pool/backend.js';
+
+/**
+ * Worker that skips the handler and calls its platform socket directly,
+ * as a handler with raw socket access could
+ */
+const WORKER_SCRIPT = `
+import * as fs from 'node:fs';
+import * as net from 'node:net';
+
+let nextId = 0;
+
+function call(socketPath, authToken, adapter, method, args) {
+  return new Promise((resolve, reject) => {
+    const requestId = 'raw-' + nextId++;
+    const socket = net.createConnection(socketPath);
+    let buffer = '';
+    socket.on('connect', () => {
+      socket.write(JSON.stringify({
+        version: 2,
+        type: 'adapter:call',
+        requestId,
+        adapter,
+        method,
+        args,
+        timeout: 5000,
+        context: { authToken },
+      }) + '\\n');
+    });
+    socket.on('data', (data) => {
+      buffer += data.toString('utf8');
+      const newlineIndex = buffer.indexOf('\\n');
+      if (newlineIndex !== -1) {
+        socket.end();
+        resolve(JSON.parse(buffer.slice(0, newlineIndex)));
+      }
+    });
+    socket.on('error', reject);
+  });
+}
+
+async function execute(message) {
+  const { socketPath, authToken } = message.platformSocket;
+  if (message.request.input.hang) {
+    // Handler that never returns, keeping the worker's connection
+    fs.writeFileSync(message.request.input.pidFile, String(process.pid));
+    return;
+  }
+  const data = {
+    pid: process.pid,
+    socketPath,
+    poolSocket: process.env.KB_SOCKET_PATH ?? null,
+    denied: await call(socketPath, authToken, 'llm', 'complete', ['hi']),
+    allowed: await call(socketPath, authToken, 'cache', 'get', ['my-plugin:key']),
+    otherKey: await call(socketPath, authToken, 'cache', 'get', ['other:key']),
+    forged: await call(socketPath, 'forged-token', 'cache', 'get', ['my-plugin:key']),
+  };
+  process.send({
+    type: 'result',
+    requestId: message.requestId,
+    result: { ok: true, data, executionTimeMs: 0 },
+  });
+}
+
+process.on('message', (message) => {
+  if (message.type === 'execute') {
+    execute(message).catch((error) => {
+      process.send({ type: 'error', requestId: message.requestId, error: { message: String(error) } });
+    });
+  } else if (message.type === 'shutdown') {
+    process.exit(0);
+  }
+});
+
+process.send({ type: 'ready', pid: process.pid });
+`;
+
+interface RawResponse {
+  result?: unknown;
+  error?: { message: string };
+}
+
+interface RawCallsResult {
+  pid: number;
+  socketPath: string;
+  poolSocket: string | null;
+  denied: RawResponse;
+  allowed: RawResponse;
+  otherKey: RawResponse;
+  forged: RawResponse;
+}
+
+function createPlatform() {
+  const logger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    trace: vi.fn(),
+    fatal: vi.fn(),
+    child: vi.fn(() => logger),
+  };
+
+  return {
+    logger,
+    llm: { complete: vi.fn(async () => ({ content: 'leaked' })) },
+    cache: { get: vi.fn(async () => 'cached') },
+  } as any;
+}
+
+function createRequest(executionId: string, input: Record<string, unknown> = {}): ExecutionRequest {
+  return {
+    executionId,
+    handlerRef: './handler.js',
+    pluginRoot: '/tmp/plugin',
+    input,
+    descriptor: {
+      hostType: 'cli',
+      pluginId: 'my-plugin',
+      pluginVersion: '1.0.0',
+      requestId: executionId,
+      permissions: { platform: { cache: { namespaces: ['my-plugin:'] } } },
+      hostContext: { host: 'cli', argv: [], flags: {} },
+    },
+  } as unknown as ExecutionRequest;
+}
+
+describe('WorkerPoolBackend platform socket', () => {
+  let testDir: string;
+  let workerScript: string;
+
+  beforeAll(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-worker-pool-backend-'));
+    workerScript = path.join(testDir, 'raw-socket-worker.mjs');
+    fs.writeFileSync(workerScript, WORKER_SCRIPT);
+  });
+
+  afterAll(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('checks raw socket calls against the permissions of the execution', async () => {
+    const platform = createPlatform();
+    const backend = new WorkerPoolBackend({ platform, workerScript, min: 1, max: 1 });
+
+    try {
+      const result = await backend.execute(createRequest('exec-raw-1'));
+
+      expect(result.ok).toBe(true);
+      const data = result.data as RawCallsResult;
+
+      // No pool-wide socket in the worker environment
+      expect(data.poolSocket).toBeNull();
+
+      expect(data.denied.error?.message).toContain("Platform service 'llm' access denied");
+      expect(platform.llm.complete).not.toHaveBeenCalled();
+
+      expect(data.allowed.error).toBeUndefined();
+      expect(platform.cache.get).toHaveBeenCalledWith('my-plugin:key');
+
+      expect(data.otherKey.error?.message).toContain("Cache key 'other:key' not allowed");
+      expect(platform.cache.get).toHaveBeenCalledTimes(1);
+
+      expect(data.forged.error?.message).toContain('invalid auth token');
+
+      // The server lives only as long as its execution
+      expect(fs.existsSync(data.socketPath)).toBe(false);
+
+      const next = await backend.execute(createRequest('exec-raw-2'));
+      expect((next.data as RawCallsResult).socketPath).not.toBe(data.socketPath);
+    } finally {
+      await backend.shutdown();
+    }
+  }, 20_000);
+
+  it('keeps the code of errors raised around the pool', async () => {
+    const platform = createPlatform();
+    const backend = new WorkerPoolBackend({
+      platform,
+      workerScript,
+      min: 1,
+      max: 1,
+      ipcServerFactory: async () => {
+        throw Object.assign(new Error('Platform socket refused'), { code: 'PERMISSION_DENIED' });
+      },
+    });
+
+    try {
+      const result = await backend.execute(createRequest('exec-refused'));
+
+      expect(result.ok).toBe(false);
+      expect(result.error).toMatchObject({ code: 'PERMISSION_DENIED', message: 'Platform socket refused' });
+    } finally {
+      await backend.shutdown();
+    }
+  }, 20_000);
+
+  it('replaces a worker whose handler ran past the timeout', async () => {
+    const platform = createPlatform();
+    const backend = new WorkerPoolBackend({ platform, workerScript, min: 1, max: 1 });
+    const pidFile = path.join(testDir, 'hung-worker.pid');
+
+    try {
+      const timedOut = await backend.execute({
+        ...createRequest('exec-hang', { hang: true, pidFile }),
+        timeoutMs: 300,
+      });
+
+      expect(timedOut.ok).toBe(false);
+      expect(timedOut.error?.code).toBe('TIMEOUT');
+
+      // The next execution gets a fresh worker, not the one still running the handler
+      const next = await backend.execute(createRequest('exec-after-hang'));
+      const hungPid = Number(fs.readFileSync(pidFile, 'utf8'));
+
+      expect(next.ok).toBe(true);
+      expect((next.data as RawCallsResult).pid).not.toBe(hungPid);
+      expect(() => process.kill(hungPid, 0)).toThrow();
+      expect((next.data as RawCallsResult).allowed.error).toBeUndefined();
+    } finally {
+      await backend.shutdown();
+    }
+  }, 20_000);
+});
@@ -0,0 +1,125 @@
+/**
+ * @module @kb-labs/plugin-execution-factory/__tests__/worker-pool-warmup
+ *
+ * Unit tests for worker pool warmup handler selection.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ManifestV3 } from '@kb-labs/plugin-contracts';
+import type { ExecutionRequest } from '../types.js';
+import type { WorkerPoolConfig } from '../backends/worker-pool/types.js';
+import { PoolStatsTracker } from '../backends/worker-pool/pool-stats.js';
+import {
+  collectMarkedWarmupHandlers,
+  selectWarmupHandlers,
+} from '../backends/worker-pool/warmup.js';
+
+function makeRequest(handlerRef: string, pluginRoot = '/plugins/demo'): ExecutionRequest {
+  return {
+    executionId: `exec-${handlerRef}`,
+    pluginRoot,
+    handlerRef,
+    input: {},
+    descriptor: {
+      hostType: 'rest',
+      pluginId: '@kb-labs/demo',
+      pluginVersion: '1.0.0',
+      requestId: 'req-1',
+      permissions: {},
+      hostContext: { host: 'rest' },
+    },
+  } as unknown as ExecutionRequest;
+}
+
+function warmupConfig(overrides: Partial<WorkerPoolConfig['warmup']> = {}): WorkerPoolConfig['warmup'] {
+  return { mode: 'none', topN: 5, maxHandlers: 20, ...overrides };
+}
+
+describe('collectMarkedWarmupHandlers()', () => {
+  it('collects marked CLI, REST and WS handlers once', () => {
+    const manifest = {
+      schema: 'kb.plugin/3',
+      id: '@kb-labs/demo',
+      version: '1.0.0',
+      cli: {
+        commands: [
+          { id: 'hot', describe: 'hot', handler: './dist/cli/hot.js', warmup: true },
+          { id: 'cold', describe: 'cold', handler: './dist/cli/cold.js' },
+        ],
+      },
+      rest: {
+        routes: [
+          { method: 'GET', path: '/search', handler: './dist/rest/search.js', warmup: true },
+          { method: 'POST', path: '/search', handler: './dist/rest/search.js', warmup: true },
+        ],
+      },
+      ws: {
+        channels: [{ path: '/live', handler: './dist/ws/live.js', warmup: true }],
+      },
+    } as unknown as ManifestV3;
+
+    expect(collectMarkedWarmupHandlers(manifest, '/plugins/demo')).toEqual([
+      { pluginRoot: '/plugins/demo', handlerRef: './dist/cli/hot.js' },
+      { pluginRoot: '/plugins/demo', handlerRef: './dist/rest/search.js' },
+      { pluginRoot: '/plugins/demo', handlerRef: './dist/ws/live.js' },
+    ]);
+  });
+
+  it('returns empty list when nothing is marked', () => {
+    const manifest = { schema: 'kb.plugin/3', id: 'x', version: '1.0.0' } as unknown as ManifestV3;
+    expect(collectMarkedWarmupHandlers(manifest, '/p')).toEqual([]);
+  });
+});
+
+describe('selectWarmupHandlers()', () => {
+  it('returns nothing in none mode', () => {
+    const tracker = new PoolStatsTracker();
+    tracker.trackHandlerRequest(makeRequest('./a.js'));
+    expect(selectWarmupHandlers(warmupConfig(), tracker)).toEqual([]);
+  });
+
+  it('ranks handlers by request count in top-n mode', () => {
+    const tracker = new PoolStatsTracker();
+    for (let i = 0; i < 3; i++) {tracker.trackHandlerRequest(makeRequest('./b.js'));}
+    tracker.trackHandlerRequest(makeRequest('./a.js'));
+    for (let i = 0; i < 5; i++) {tracker.trackHandlerRequest(makeRequest('./c.js'));}
+
+    const selected = selectWarmupHandlers(warmupConfig({ mode: 'top-n', topN: 2 }), tracker);
+
+    expect(selected.map((h) => h.handlerRef)).toEqual(['./c.js', './b.js']);
+  });
+
+  it('caps top-n by maxHandlers', () => {
+    const tracker = new PoolStatsTracker();
+    tracker.trackHandlerRequest(makeRequest('./a.js'));
+    tracker.trackHandlerRequest(makeRequest('./b.js'));
+    tracker.trackHandlerRequest(makeRequest('./c.js'));
+
+    const selected = selectWarmupHandlers(warmupConfig({ mode: 'top-n', topN: 5, maxHandlers: 2 }), tracker);
+
+    expect(selected).toHaveLength(2);
+  });
+
+  it('counts same handlerRef from different plugin roots separately', () => {
+    const tracker = new PoolStatsTracker();
+    tracker.trackHandlerRequest(makeRequest('./a.js', '/plugins/one'));
+    tracker.trackHandlerRequest(makeRequest('./a.js', '/plugins/two'));
+
+    expect(tracker.getTopHandlers(5)).toHaveLength(2);
+  });
+
+  it('uses configured handlers in marked mode, capped by maxHandlers', () => {
+    const handlers = [
+      { pluginRoot: '/p', handlerRef: './a.js' },
+      { pluginRoot: '/p', handlerRef: './b.js' },
+      { pluginRoot: '/p', handlerRef: './c.js' },
+    ];
+
+    const selected = selectWarmupHandlers(
+      warmupConfig({ mode: 'marked', maxHandlers: 2, handlers }),
+      new PoolStatsTracker()
+    );
+
+    expect(selected).toEqual(handlers.slice(0, 2));
+  });
+});
@@ -4,4 +4,4 @@
  * Adapter layer - wraps plugin-runtime implementations to match core-contracts interfaces.
  */
 
-export { SubprocessRunnerAdapter } from './subprocess-runner-adapter.js';
+export { SubprocessRunnerAdapter, type HostSubprocessRunOptions, type UISubprocessRunOptions } from './subprocess-runner-adapter.js';
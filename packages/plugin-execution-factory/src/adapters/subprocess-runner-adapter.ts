@@ -38,9 +38,33 @@ import type {
   SubprocessRunOptions,
   RunResult,
 } from '@kb-labs/core-contracts';
-import type { PluginContextDescriptor } from '@kb-labs/plugin-contracts';
+import type { PluginContextDescriptor, StreamEvent, UIFacade } from '@kb-labs/plugin-contracts';
 import { runInSubprocess } from '@kb-labs/plugin-runtime';
 
+/**
+ * SubprocessRunOptions plus host-side services for the runner.
+ * Runners that don't know about them fall back to their defaults.
+ */
+export interface HostSubprocessRunOptions extends SubprocessRunOptions {
+  /** Plugin package directory (readable under the Node permission model) */
+  pluginRoot?: string;
+  /** Serves the handler's ctx.ui (otherwise the child uses its stdout UI) */
+  ui?: UIFacade;
+  /** Receives debug logs, e.g. environment variables withheld from the child */
+  logger?: {
+    debug?: (message: string, meta?: Record<string, unknown>) => void;
+  };
+  /** Receives ctx.api.stream progress and chunks */
+  onStream?: (event: StreamEvent) => void;
+  /** File state store directory for ctx.api.state (default: platform cache) */
+  stateDir?: string;
+}
+
+/**
+ * @deprecated Use HostSubprocessRunOptions
+ */
+export type UISubprocessRunOptions = HostSubprocessRunOptions;
+
 /**
  * Adapter for plugin-runtime's runInSubprocess.
  *
@@ -52,19 +76,25 @@ export class SubprocessRunnerAdapter implements ISubprocessRunner {
    *
    * Maps SubprocessRunOptions (contract) → RunInSubprocessOptions (runtime).
    */
-  async runInSubprocess<T>(options: SubprocessRunOptions): Promise<RunResult<T>> {
+  async runInSubprocess<T>(options: HostSubprocessRunOptions): Promise<RunResult<T>> {
     // The types are already aligned, so we can pass through directly
     // SubprocessRunOptions from contracts matches RunInSubprocessOptions from runtime
     return runInSubprocess<T>({
       descriptor: options.descriptor as PluginContextDescriptor,
       socketPath: options.platformSocketPath,
+      platformAuthToken: options.platformAuthToken,
       handlerPath: options.handlerPath,
       input: options.input,
       timeoutMs: options.timeoutMs,
       signal: options.signal,
       cwd: options.cwd,
       outdir: options.outdir,
+      pluginRoot: options.pluginRoot,
+      ui: options.ui,
+      logger: options.logger,
       onLog: options.onLog,
+      onStream: options.onStream,
+      stateDir: options.stateDir,
     });
   }
 }
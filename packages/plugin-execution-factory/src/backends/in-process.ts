@@ -50,7 +50,7 @@ import type {
 import type { PlatformServices, UIFacade } from '@kb-labs/plugin-contracts';
 import type { IWorkspaceProvider, WorkspaceDescriptor } from '@kb-labs/core-platform';
 import { noopUI } from '@kb-labs/plugin-contracts';
-import { runInProcess } from '@kb-labs/plugin-runtime';
+import { runInProcess, toStreamEvent, type StateStore } from '@kb-labs/plugin-runtime';
 import { localWorkspaceManager } from '../workspace/local.js';
 import type { WorkspaceLease } from '../workspace/types.js';
 import { normalizeError } from '../utils.js';
@@ -75,6 +75,11 @@ export interface InProcessBackendOptions {
    * Optional default plugin invoker for ctx.api.invoke.
    */
   pluginInvoker?: PluginInvokerFn;
+  /**
+   * Durable backend for ctx.api.state.
+   * Default: platform cache.
+   */
+  stateStore?: StateStore;
 }
 
 /**
@@ -92,11 +97,13 @@ export class InProcessBackend implements ExecutionBackend {
   private readonly platform: PlatformServices;
   private readonly uiProvider: (hostType: HostType) => UIFacade;
   private readonly pluginInvoker?: PluginInvokerFn;
+  private readonly stateStore?: StateStore;
 
   constructor(options: InProcessBackendOptions) {
     this.platform = options.platform;
     this.uiProvider = options.uiProvider ?? (() => noopUI);
     this.pluginInvoker = options.pluginInvoker;
+    this.stateStore = options.stateStore;
   }
 
   async execute(
@@ -166,11 +173,17 @@ export class InProcessBackend implements ExecutionBackend {
       const ui = this.uiProvider(request.descriptor.hostType);
       const pluginInvoker = options?.pluginInvoker ?? this.pluginInvoker;
 
-      // 5. Create eventEmitter from onLog callback (if provided)
+      // 5. Create eventEmitter from onLog/onStream callbacks (if provided)
       const onLog = options?.onLog;
-      const eventEmitter = onLog
+      const onStream = options?.onStream;
+      const eventEmitter = onLog || onStream
         ? async (name: string, payload?: unknown) => {
-            if ((name === 'log.line' || name.endsWith(':log.line')) && payload && typeof payload === 'object') {
+            const streamEvent = toStreamEvent(name, payload);
+            if (streamEvent) {
+              onStream?.(streamEvent);
+              return;
+            }
+            if (onLog && (name === 'log.line' || name.endsWith(':log.line')) && payload && typeof payload === 'object') {
               const p = payload as Record<string, unknown>;
               onLog({
                 level: (p.level as string) ?? 'info',
@@ -199,6 +212,7 @@ export class InProcessBackend implements ExecutionBackend {
         signal: options?.signal,
         cwd: lease.cwd,           // From WorkspaceLease
         outdir: undefined,        // Optional, defaults to cwd/.kb/output
+        stateStore: this.stateStore,
       });
 
       // 6. Success is determined by absence of thrown error
@@ -0,0 +1,378 @@
+/**
+ * @module @kb-labs/plugin-execution-factory/backends/platform-stream-server
+ *
+ * Parent-side server for streaming platform calls from sandboxed children.
+ *
+ * Runs next to the UnixSocketServer (request/response RPC) on
+ * getStreamSocketPath(socketPath), using the same newline-delimited JSON:
+ * - `adapter:stream` starts iterating platform[adapter][method](...args)
+ * - `adapter:subscribe` registers a callback subscription (eventBus, logs)
+ *   and buffers its values until the child can take them
+ * - every value is sent as `stream:chunk`, then `stream:end` or `stream:error`
+ * - `stream:credit` grants more chunks; the source is only pulled with credit
+ * - `stream:cancel` (or the child disconnecting) returns the source iterator,
+ *   which also unsubscribes subscriptions
+ *
+ * Writes also wait for socket drain, so a slow child slows down the source.
+ */
+
+import * as net from 'node:net';
+import * as fs from 'node:fs';
+import type { PlatformServices } from '@kb-labs/plugin-contracts';
+import type {
+  RPCStreamCancel,
+  RPCStreamCredit,
+  RPCStreamFrame,
+  RPCStreamRequest,
+} from '@kb-labs/plugin-runtime';
+
+type PlatformService = Record<string, (...args: unknown[]) => unknown>;
+
+/**
+ * Registers `emit` as the callback of a platform subscription API
+ * and returns its unsubscribe function
+ */
+type SubscribeAdapter = (
+  service: PlatformService,
+  args: unknown[],
+  emit: (value: unknown) => void
+) => () => void;
+
+/**
+ * Platform methods that may be called as streams
+ */
+export const STREAMABLE_METHODS: Readonly<Record<string, readonly string[]>> = {
+  llm: ['stream'],
+};
+
+/**
+ * Platform methods that may be called as subscriptions
+ */
+export const SUBSCRIBABLE_METHODS: Readonly<Record<string, Readonly<Record<string, SubscribeAdapter>>>> = {
+  eventBus: {
+    subscribe: (service, [topic], emit) => service.subscribe!(topic, emit) as () => void,
+  },
+  logs: {
+    subscribe: (service, [filters], emit) => service.subscribe!(emit, filters) as () => void,
+  },
+};
+
+/**
+ * Subscription values buffered while the child has no credit
+ */
+export const DEFAULT_MAX_BUFFERED_EVENTS = 1000;
+
+export interface PlatformStreamServerOptions {
+  /** Socket path to listen on */
+  socketPath: string;
+  /** Token children must send in request context */
+  authToken?: string;
+  /** Buffered subscription values before the subscription fails (default: 1000) */
+  maxBufferedEvents?: number;
+}
+
+interface ActiveStream {
+  iterator: AsyncIterator<unknown>;
+  /** Chunks the child can still take (Infinity when it doesn't use credits) */
+  credits: number;
+  /** Source failed; report it without waiting for credit */
+  failed?: boolean;
+  /** Wakes a stream waiting for credit */
+  wake?: () => void;
+}
+
+class StreamSocketClosedError extends Error {
+  constructor() {
+    super('Stream socket closed');
+    this.name = 'StreamSocketClosedError';
+  }
+}
+
+function codedError(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * Adapt a callback subscription to an iterator with a bounded buffer.
+ * Overflow drops the buffer and fails the subscription with
+ * SUBSCRIPTION_OVERFLOW rather than blocking the publisher or growing
+ * without limit.
+ */
+function subscriptionIterator(
+  subscribe: (emit: (value: unknown) => void) => () => void,
+  maxBuffered: number,
+  onFailure: () => void
+): AsyncIterator<unknown> {
+  const buffer: unknown[] = [];
+  let failure: Error | null = null;
+  let done = false;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    const resolve = wake;
+    wake = null;
+    resolve?.();
+  };
+
+  const unsubscribe = subscribe((value) => {
+    if (done) {return;}
+    if (buffer.length >= maxBuffered) {
+      failure = codedError(`Subscription buffer overflow (${maxBuffered} events)`, 'SUBSCRIPTION_OVERFLOW');
+      buffer.length = 0;
+      stop();
+      onFailure();
+      return;
+    }
+    buffer.push(value);
+    notify();
+  });
+
+  function stop(): void {
+    if (done) {return;}
+    done = true;
+    unsubscribe();
+    notify();
+  }
+
+  return {
+    async next(): Promise<IteratorResult<unknown>> {
+      for (;;) {
+        if (buffer.length > 0) {
+          return { value: buffer.shift(), done: false };
+        }
+        if (failure) {
+          throw failure;
+        }
+        if (done) {
+          return { value: undefined, done: true };
+        }
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+    },
+    async return(): Promise<IteratorResult<unknown>> {
+      buffer.length = 0;
+      stop();
+      return { value: undefined, done: true };
+    },
+  };
+}
+
+/**
+ * Serves streaming platform calls over a Unix socket.
+ */
+export class PlatformStreamServer {
+  private server: net.Server | null = null;
+  private readonly sockets = new Set<net.Socket>();
+
+  constructor(
+    private readonly platform: PlatformServices,
+    private readonly options: PlatformStreamServerOptions
+  ) {}
+
+  async start(): Promise<void> {
+    // Remove stale socket from a crashed process
+    fs.rmSync(this.options.socketPath, { force: true });
+
+    const server = net.createServer((socket) => this.handleConnection(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.socketPath, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    this.sockets.clear();
+
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+    fs.rmSync(this.options.socketPath, { force: true });
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    const active = new Map<string, ActiveStream>();
+    let buffer = '';
+
+    this.sockets.add(socket);
+
+    socket.on('data', (data) => {
+      buffer += data.toString('utf8');
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex);
+        buffer = buffer.slice(newlineIndex + 1);
+        if (line.trim().length === 0) {continue;}
+
+        let msg: RPCStreamRequest | RPCStreamCredit | RPCStreamCancel;
+        try {
+          msg = JSON.parse(line);
+        } catch {
+          continue;
+        }
+
+        if (msg.type === 'adapter:stream' || msg.type === 'adapter:subscribe') {
+          void this.runStream(socket, active, msg);
+        } else if (msg.type === 'stream:credit') {
+          this.grant(active, msg.requestId, msg.credits);
+        } else if (msg.type === 'stream:cancel') {
+          this.cancel(active, msg.requestId);
+        }
+      }
+    });
+
+    socket.on('close', () => {
+      this.sockets.delete(socket);
+      for (const requestId of [...active.keys()]) {
+        this.cancel(active, requestId);
+      }
+    });
+
+    // 'close' follows and cancels active streams
+    socket.on('error', () => {});
+  }
+
+  private async runStream(
+    socket: net.Socket,
+    active: Map<string, ActiveStream>,
+    request: RPCStreamRequest
+  ): Promise<void> {
+    const { requestId } = request;
+    let started = false;
+
+    try {
+      if (this.options.authToken && request.context?.authToken !== this.options.authToken) {
+        throw codedError('Unauthorized stream request', 'PERMISSION_DENIED');
+      }
+
+      const stream = {
+        credits: typeof request.credits === 'number' ? request.credits : Infinity,
+      } as ActiveStream;
+      stream.iterator = this.open(request, () => {
+        stream.failed = true;
+        this.wake(stream);
+      });
+      active.set(requestId, stream);
+      started = true;
+
+      for (;;) {
+        // Don't pull the source until the child can take another chunk
+        while (stream.credits <= 0 && !stream.failed && active.has(requestId)) {
+          await new Promise<void>((resolve) => {
+            stream.wake = resolve;
+          });
+        }
+
+        const result = active.has(requestId) ? await stream.iterator.next() : undefined;
+        if (!result || !active.has(requestId)) {
+          return; // Cancelled while waiting
+        }
+        if (result.done) {
+          break;
+        }
+        stream.credits--;
+        await this.send(socket, { type: 'stream:chunk', requestId, data: result.value });
+      }
+
+      active.delete(requestId);
+      await this.send(socket, { type: 'stream:end', requestId });
+    } catch (error) {
+      const cancelled = started && !active.delete(requestId);
+      if (cancelled || error instanceof StreamSocketClosedError) {return;}
+
+      const err = error as Error & { code?: string };
+      await this.send(socket, {
+        type: 'stream:error',
+        requestId,
+        error: { message: err?.message ?? String(error), code: err?.code },
+      }).catch(() => {});
+    }
+  }
+
+  /**
+   * Resolve and start the requested platform stream or subscription
+   */
+  private open(request: RPCStreamRequest, onFailure: () => void): AsyncIterator<unknown> {
+    const { adapter, method } = request;
+    const args = request.args ?? [];
+    const subscribe = request.type === 'adapter:subscribe';
+    const subscribeAdapter = subscribe ? SUBSCRIBABLE_METHODS[adapter]?.[method] : undefined;
+
+    if (subscribe ? !subscribeAdapter : !STREAMABLE_METHODS[adapter]?.includes(method)) {
+      const kind = subscribe ? 'subscribable' : 'streamable';
+      throw codedError(`Method ${adapter}.${method} is not ${kind}`, 'INVALID_REQUEST');
+    }
+
+    const service = (this.platform as unknown as Record<string, PlatformService | undefined>)[adapter];
+    if (!service || typeof service[method] !== 'function') {
+      throw codedError(`Platform service ${adapter}.${method} is not available`, 'PLATFORM_ERROR');
+    }
+
+    if (subscribeAdapter) {
+      return subscriptionIterator(
+        (emit) => subscribeAdapter(service, args, emit),
+        this.options.maxBufferedEvents ?? DEFAULT_MAX_BUFFERED_EVENTS,
+        onFailure
+      );
+    }
+
+    const source = service[method]!(...args) as AsyncIterable<unknown>;
+    return source[Symbol.asyncIterator]();
+  }
+
+  private grant(active: Map<string, ActiveStream>, requestId: string, credits: number): void {
+    const stream = active.get(requestId);
+    if (!stream || !(credits > 0)) {return;}
+
+    stream.credits += credits;
+    this.wake(stream);
+  }
+
+  private cancel(active: Map<string, ActiveStream>, requestId: string): void {
+    const stream = active.get(requestId);
+    if (!stream) {return;}
+
+    active.delete(requestId);
+    this.wake(stream);
+    Promise.resolve(stream.iterator.return?.()).catch(() => {});
+  }
+
+  private wake(stream: ActiveStream): void {
+    const wake = stream.wake;
+    stream.wake = undefined;
+    wake?.();
+  }
+
+  private async send(socket: net.Socket, frame: RPCStreamFrame): Promise<void> {
+    if (socket.destroyed) {
+      throw new StreamSocketClosedError();
+    }
+
+    if (!socket.write(JSON.stringify(frame) + '\n')) {
+      await new Promise<void>((resolve, reject) => {
+        const onDrain = () => {
+          socket.off('close', onClose);
+          resolve();
+        };
+        const onClose = () => {
+          socket.off('drain', onDrain);
+          reject(new StreamSocketClosedError());
+        };
+        socket.once('drain', onDrain);
+        socket.once('close', onClose);
+      });
+    }
+  }
+}
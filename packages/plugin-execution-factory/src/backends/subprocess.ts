@@ -41,7 +41,8 @@
  *
  * - Input: descriptor, socketPath, handlerPath, input, timeoutMs, signal
  * - Output: RunResult<T> { data: T, meta: ExecutionMeta }
- * - Throws: PluginError on handler failure, TimeoutError on timeout
+ * - Throws: PluginError on handler failure, TimeoutError on timeout,
+ *   QuotaExceededError (QUOTA_*_EXCEEDED) on quota breach
  *
  * Handler returns raw data (T), runner wraps it in RunResult.
  * Backend passes data to caller; CLI/REST hosts add their own formatting.
@@ -61,14 +62,16 @@ import type {
   ExecutionStats,
   HostType,
 } from '../types.js';
-import type { PlatformServices, UIFacade } from '@kb-labs/plugin-contracts';
-import { noopUI } from '@kb-labs/plugin-contracts';
+import type { PlatformServices, PermissionSpec, UIFacade } from '@kb-labs/plugin-contracts';
+import { resolveQuotas, getStreamSocketPath, createEnforcedPlatformServices } from '@kb-labs/plugin-runtime';
 import type { ISubprocessRunner } from '@kb-labs/core-contracts';
 import type { UnixSocketServerConfig } from '@kb-labs/core-ipc';
+import type { HostSubprocessRunOptions } from '../adapters/index.js';
 import { localWorkspaceManager } from '../workspace/local.js';
 import type { WorkspaceLease } from '../workspace/types.js';
 import { normalizeError } from '../utils.js';
 import { resolveExecutionTarget } from '../target-resolver.js';
+import { PlatformStreamServer } from './platform-stream-server.js';
 import {
   AbortError,
   HandlerNotFoundError,
@@ -92,11 +95,27 @@ export interface IPCServer {
   getAuthToken(): string;
 }
 
+/**
+ * Per-server options for IPCServerFactory
+ */
+export interface IPCServerOptions {
+  /**
+   * Permissions of the execution the server is dedicated to.
+   * Its auth token is bound to them: every adapter call is checked
+   * (see createEnforcedPlatformServices) before it reaches the platform.
+   */
+  permissions?: PermissionSpec;
+}
+
 /**
  * Factory function to create IPC server.
  * Allows platform-specific server creation (Unix sockets vs process IPC).
  */
-export type IPCServerFactory = (platform: PlatformServices, executionId: string) => Promise<IPCServer>;
+export type IPCServerFactory = (
+  platform: PlatformServices,
+  executionId: string,
+  options?: IPCServerOptions
+) => Promise<IPCServer>;
 
 /**
  * Ensure platform is a PlatformContainer.
@@ -108,27 +127,36 @@ function ensurePlatformContainer(platform: PlatformServices): IPlatformAdapters
 
 /**
  * Wrap UnixSocketServer to match IPCServer interface.
+ * Streaming calls (llm.stream) are served by PlatformStreamServer on a companion socket.
  */
 class UnixSocketIPCServer implements IPCServer {
   private socketPath: string;
   private authToken: string;
   private server: { start(): Promise<void>; close(): Promise<void> };
+  private streamServer: PlatformStreamServer;
 
   constructor(
     server: { start(): Promise<void>; close(): Promise<void> },
+    platform: PlatformServices,
     socketPath: string,
     authToken: string
   ) {
     this.server = server;
     this.socketPath = socketPath;
     this.authToken = authToken;
+    this.streamServer = new PlatformStreamServer(platform, {
+      socketPath: getStreamSocketPath(socketPath),
+      authToken,
+    });
   }
 
   async start(): Promise<void> {
     await this.server.start();
+    await this.streamServer.start();
   }
 
   async close(): Promise<void> {
+    await this.streamServer.close();
     await this.server.close();
   }
 
@@ -145,11 +173,22 @@ class UnixSocketIPCServer implements IPCServer {
  * Create default IPC server factory based on platform.
  * - Unix/Linux/macOS: Unix socket server (faster, ~100x for large messages)
  * - Windows: Process IPC server (process.send/on)
+ *
+ * Shared with WorkerPoolBackend, which likewise starts one server per execution.
  */
-function createDefaultIPCServerFactory(): IPCServerFactory {
-  return async (platform: PlatformServices, executionId: string): Promise<IPCServer> => {
+export function createDefaultIPCServerFactory(): IPCServerFactory {
+  return async (
+    platform: PlatformServices,
+    executionId: string,
+    options?: IPCServerOptions
+  ): Promise<IPCServer> => {
+    // Calls with this server's token are checked against the execution's permissions
+    const served = options?.permissions
+      ? createEnforcedPlatformServices(platform, options.permissions)
+      : platform;
+
     // Platform needs to be PlatformContainer for servers
-    const platformContainer = ensurePlatformContainer(platform);
+    const platformContainer = ensurePlatformContainer(served);
 
     if (process.platform === 'win32') {
       // Windows: Use process IPC (process.send/process.on)
@@ -161,7 +200,7 @@ function createDefaultIPCServerFactory(): IPCServerFactory {
       const serverConfig: UnixSocketServerConfig = { socketPath };
       (serverConfig as unknown as Record<string, unknown>).authToken = authToken;
       const server = new UnixSocketServer(platformContainer, serverConfig);
-      return new UnixSocketIPCServer(server, socketPath, authToken);
+      return new UnixSocketIPCServer(server, served, socketPath, authToken);
     } else {
       // Unix/Linux/macOS: Use Unix domain sockets (fastest)
       const { UnixSocketServer } = await import('@kb-labs/core-ipc');
@@ -170,7 +209,7 @@ function createDefaultIPCServerFactory(): IPCServerFactory {
       const serverConfig: UnixSocketServerConfig = { socketPath };
       (serverConfig as unknown as Record<string, unknown>).authToken = authToken;
       const server = new UnixSocketServer(platformContainer, serverConfig);
-      return new UnixSocketIPCServer(server, socketPath, authToken);
+      return new UnixSocketIPCServer(server, served, socketPath, authToken);
     }
   };
 }
@@ -190,7 +229,7 @@ export interface SubprocessBackendOptions {
 
   /**
    * UI provider for different host types.
-   * Default: always noopUI (silent).
+   * Default: none, the subprocess prints ctx.ui to its own stdout.
    * For CLI: return real UI when hostType === 'cli'.
    */
   uiProvider?: (hostType: HostType) => UIFacade;
@@ -207,6 +246,12 @@ export interface SubprocessBackendOptions {
    * For Windows: use process IPC factory.
    */
   ipcServerFactory?: IPCServerFactory;
+
+  /**
+   * File state store directory for ctx.api.state.
+   * Default: platform cache (over the platform socket).
+   */
+  stateDir?: string;
 }
 
 /**
@@ -236,9 +281,10 @@ export class SubprocessBackend implements ExecutionBackend {
   private startTime = Date.now();
   private readonly platform: PlatformServices;
   private readonly runner: ISubprocessRunner;
-  private readonly uiProvider: (hostType: HostType) => UIFacade;
+  private readonly uiProvider?: (hostType: HostType) => UIFacade;
   private readonly defaultTimeoutMs: number;
   private readonly ipcServerFactory: IPCServerFactory;
+  private readonly stateDir?: string;
 
   // Active IPC servers (one per execution)
   private activeServers = new Map<string, IPCServer>();
@@ -246,9 +292,10 @@ export class SubprocessBackend implements ExecutionBackend {
   constructor(options: SubprocessBackendOptions) {
     this.platform = options.platform;
     this.runner = options.runner;
-    this.uiProvider = options.uiProvider ?? (() => noopUI);
+    this.uiProvider = options.uiProvider;
     this.defaultTimeoutMs = options.defaultTimeoutMs ?? 30_000;
     this.ipcServerFactory = options.ipcServerFactory ?? createDefaultIPCServerFactory();
+    this.stateDir = options.stateDir;
   }
 
   async execute(
@@ -311,7 +358,9 @@ export class SubprocessBackend implements ExecutionBackend {
       }
 
       // 4. Create IPC server using factory (platform-specific)
-      ipcServer = await this.ipcServerFactory(this.platform, requestToExecute.executionId);
+      ipcServer = await this.ipcServerFactory(this.platform, requestToExecute.executionId, {
+        permissions: requestToExecute.descriptor.permissions,
+      });
       await ipcServer.start();
 
       // Track active server
@@ -321,13 +370,16 @@ export class SubprocessBackend implements ExecutionBackend {
       const socketPath = ipcServer.getConnectionInfo();
       const platformAuthToken = ipcServer.getAuthToken();
 
-      // 6. Get timeout (from request or default)
-      const timeoutMs = requestToExecute.timeoutMs ?? this.defaultTimeoutMs;
+      // 6. Get timeout (quota, then request, then default).
+      // Runner applies memory/CPU quotas from the same descriptor.
+      const { timeoutMs } = resolveQuotas(
+        requestToExecute.descriptor.permissions,
+        requestToExecute.timeoutMs,
+        this.defaultTimeoutMs
+      );
 
       // 7. Execute via subprocess runner (dependency injection)
-      // NOTE: UI is not passed to subprocess - subprocess uses platform proxy
-      // UI would need to be serialized and proxied, which is complex
-      // For now, subprocess handlers use noopUI or log via platform.logger
+      // Host UI, when configured, serves the handler's ctx.ui over IPC (prompts, live spinners)
       const previousToken = process.env.KB_PLATFORM_SOCKET_TOKEN;
       const previousExecutionId = process.env.KB_EXECUTION_ID;
       const previousTenantId = process.env.KB_TENANT_ID;
@@ -342,21 +394,28 @@ export class SubprocessBackend implements ExecutionBackend {
         process.env.KB_TRACE_ID = requestToExecute.context.traceId;
       }
 
+      const runOptions: HostSubprocessRunOptions = {
+        descriptor: requestToExecute.descriptor,
+        platformSocketPath: socketPath,
+        platformAuthToken,
+        handlerPath,
+        exportName: requestToExecute.exportName,
+        input: requestToExecute.input,
+        timeoutMs,
+        signal: options?.signal,
+        cwd: lease.cwd,
+        outdir: undefined, // Optional, defaults to ${cwd}/.kb/output
+        pluginRoot: lease.pluginRoot,
+        ui: this.uiProvider?.(requestToExecute.descriptor.hostType),
+        logger: this.platform.logger,
+        onLog: options?.onLog,
+        onStream: options?.onStream,
+        stateDir: this.stateDir,
+      };
+
       let runResult;
       try {
-        runResult = await this.runner.runInSubprocess({
-          descriptor: requestToExecute.descriptor,
-          platformSocketPath: socketPath,
-          platformAuthToken,
-          handlerPath,
-          exportName: requestToExecute.exportName,
-          input: requestToExecute.input,
-          timeoutMs,
-          signal: options?.signal,
-          cwd: lease.cwd,
-          outdir: undefined, // Optional, defaults to ${cwd}/.kb/output
-          onLog: options?.onLog,
-        });
+        runResult = await this.runner.runInSubprocess(runOptions);
       } finally {
         if (previousToken === undefined) {
           delete process.env.KB_PLATFORM_SOCKET_TOKEN;
@@ -21,7 +21,14 @@ import type { PlatformServices, UIFacade } from '@kb-labs/plugin-contracts';
 import { noopUI } from '@kb-labs/plugin-contracts';
 import { WorkerPool } from './pool.js';
 import type { WorkerPoolConfig } from './types.js';
+import { DEFAULT_AUTOSCALE_CONFIG } from './types.js';
 import { resolveExecutionTarget } from '../../target-resolver.js';
+import { normalizeError } from '../../utils.js';
+import {
+  createDefaultIPCServerFactory,
+  type IPCServer,
+  type IPCServerFactory,
+} from '../subprocess.js';
 
 // When bundled by tsup into dist/index.js, import.meta.url points to dist/index.js.
 // worker-script.ts is emitted as a separate entry at dist/backends/worker-pool/worker-script.js.
@@ -48,6 +55,13 @@ export interface WorkerPoolBackendOptions extends WorkerPoolOptions {
 
   /** Health check interval in ms (default: 10000) */
   healthCheckIntervalMs?: number;
+
+  /**
+   * IPC server factory for exposing platform services to workers.
+   * Called once per execution with the descriptor's permissions.
+   * Default: Unix socket server (same as SubprocessBackend).
+   */
+  ipcServerFactory?: IPCServerFactory;
 }
 
 /**
@@ -60,14 +74,20 @@ export interface WorkerPoolBackendOptions extends WorkerPoolOptions {
  * - Per-plugin concurrency limits
  * - Worker recycling (max requests, max uptime)
  * - Health checks with automatic replacement
+ * - Real platform services in workers via Unix socket RPC
+ *   (one IPC server per execution, its token bound to the descriptor's permissions)
+ * - Per-handler quotas (timeout, memory, CPU) with worker kill on breach
  */
 export class WorkerPoolBackend implements ExecutionBackend {
   private pool: WorkerPool | null = null;
+  private startPromise: Promise<void> | null = null;
   private startTime = Date.now();
   private readonly config: WorkerPoolConfig;
   private readonly platform: PlatformServices;
   private readonly uiProvider: (hostType: HostType) => UIFacade;
   private readonly workerScript: string;
+  private readonly ipcServerFactory: IPCServerFactory;
+  private readonly stateDir?: string;
 
   // Aggregate stats (combined from pool stats)
   private totalExecutions = 0;
@@ -78,6 +98,8 @@ export class WorkerPoolBackend implements ExecutionBackend {
   constructor(options: WorkerPoolBackendOptions) {
     this.platform = options.platform;
     this.uiProvider = options.uiProvider ?? (() => noopUI);
+    this.ipcServerFactory = options.ipcServerFactory ?? createDefaultIPCServerFactory();
+    this.stateDir = options.stateDir;
 
     // Default worker script (to be created)
     this.workerScript = options.workerScript ??
@@ -92,11 +114,26 @@ export class WorkerPoolBackend implements ExecutionBackend {
       acquireTimeoutMs: options.acquireTimeoutMs ?? 5000,
       maxConcurrentPerPlugin: options.maxConcurrentPerPlugin,
       healthCheckIntervalMs: options.healthCheckIntervalMs ?? 10_000,
+      maxHeapMb: options.maxHeapMb,
       warmup: {
         mode: options.warmup?.mode ?? 'none',
         topN: options.warmup?.topN ?? 5,
         maxHandlers: options.warmup?.maxHandlers ?? 20,
+        handlers: options.warmup?.handlers,
       },
+      fairShare: options.fairShare,
+      autoscale: options.autoscale
+        ? {
+            enabled: options.autoscale.enabled ?? true,
+            intervalMs: options.autoscale.intervalMs ?? DEFAULT_AUTOSCALE_CONFIG.intervalMs,
+            scaleUpQueueDepth: options.autoscale.scaleUpQueueDepth ?? DEFAULT_AUTOSCALE_CONFIG.scaleUpQueueDepth,
+            scaleUpQueueWaitMs: options.autoscale.scaleUpQueueWaitMs ?? DEFAULT_AUTOSCALE_CONFIG.scaleUpQueueWaitMs,
+            scaleUpStep: options.autoscale.scaleUpStep ?? DEFAULT_AUTOSCALE_CONFIG.scaleUpStep,
+            scaleUpCooldownMs: options.autoscale.scaleUpCooldownMs ?? DEFAULT_AUTOSCALE_CONFIG.scaleUpCooldownMs,
+            scaleDownIdleMs: options.autoscale.scaleDownIdleMs ?? DEFAULT_AUTOSCALE_CONFIG.scaleDownIdleMs,
+            scaleDownCooldownMs: options.autoscale.scaleDownCooldownMs ?? DEFAULT_AUTOSCALE_CONFIG.scaleDownCooldownMs,
+          }
+        : undefined,
     };
   }
 
@@ -108,6 +145,20 @@ export class WorkerPoolBackend implements ExecutionBackend {
       return;
     }
 
+    // Concurrent auto-starts must share one pool
+    if (!this.startPromise) {
+      this.startPromise = this.startPool().finally(() => {
+        this.startPromise = null;
+      });
+    }
+
+    return this.startPromise;
+  }
+
+  /**
+   * Create worker pool.
+   */
+  private async startPool(): Promise<void> {
     this.pool = new WorkerPool(this.workerScript, this.config);
 
     // Log pool events
@@ -136,6 +187,32 @@ export class WorkerPoolBackend implements ExecutionBackend {
       });
     });
 
+    this.pool.on('scalingDecision', (decision) => {
+      this.platform.logger.info('Worker pool scaled', {
+        direction: decision.direction,
+        from: decision.from,
+        to: decision.to,
+        reason: decision.reason,
+        queueLength: decision.queueLength,
+        oldestQueueWaitMs: decision.oldestQueueWaitMs,
+      });
+    });
+
+    this.pool.on('workerWarmedUp', (worker, result) => {
+      if (result.failed.length > 0) {
+        this.platform.logger.warn('Worker warmup incomplete', {
+          workerId: worker.id,
+          warmed: result.warmed,
+          failed: result.failed,
+        });
+      } else {
+        this.platform.logger.debug('Worker warmed up', {
+          workerId: worker.id,
+          warmed: result.warmed,
+        });
+      }
+    });
+
     await this.pool.start();
 
     this.platform.logger.info('Worker pool started', {
@@ -159,11 +236,25 @@ export class WorkerPoolBackend implements ExecutionBackend {
     const start = performance.now();
     const requestToExecute = await resolveExecutionTarget(request, this.platform);
     this.totalExecutions++;
+    let ipcServer: IPCServer | null = null;
 
     try {
+      // Platform services for this execution only: every call from the worker
+      // is checked against the descriptor's permissions before reaching the platform
+      ipcServer = await this.ipcServerFactory(this.platform, requestToExecute.executionId, {
+        permissions: requestToExecute.descriptor.permissions,
+      });
+      await ipcServer.start();
+
       const result = await this.pool!.execute(requestToExecute, {
         signal: options?.signal,
         onLog: options?.onLog,
+        onStream: options?.onStream,
+        platformSocket: {
+          socketPath: ipcServer.getConnectionInfo(),
+          authToken: ipcServer.getAuthToken(),
+        },
+        stateDir: this.stateDir,
       });
 
       const executionTimeMs = performance.now() - start;
@@ -193,16 +284,20 @@ export class WorkerPoolBackend implements ExecutionBackend {
 
       return {
         ok: false,
-        error: {
-          message: error instanceof Error ? error.message : String(error),
-          code: 'UNKNOWN_ERROR',
-        },
+        error: normalizeError(error),
         executionTimeMs,
         metadata: {
           backend: 'worker-pool',
           target: requestToExecute.target,
         },
       };
+    } finally {
+      await ipcServer?.close().catch((error) => {
+        this.platform.logger.warn('Failed to close worker pool IPC server', {
+          executionId: requestToExecute.executionId,
+          error,
+        });
+      });
     }
   }
 
@@ -0,0 +1,280 @@
+/**
+ * @module @kb-labs/plugin-execution-factory/backends/worker-pool/fair-queue
+ *
+ * Priority + weighted fair queue for worker pool.
+ *
+ * Scheduling:
+ * 1. Strict priority across classes (critical > high > normal > low)
+ * 2. Within a class, stride scheduling across tenants (weighted)
+ * 3. Within a tenant, stride scheduling across plugins (weighted)
+ * 4. Within a plugin, FIFO
+ *
+ * A flow that becomes active again starts at its parent's virtual time,
+ * so idle flows cannot bank credit and busy flows cannot starve newcomers.
+ */
+
+import type { ExecutionPriority } from '../../types.js';
+
+/**
+ * Priority classes, highest first.
+ */
+export const PRIORITY_CLASSES: readonly ExecutionPriority[] = ['critical', 'high', 'normal', 'low'];
+
+/** Stride numerator (pass advances by STRIDE / weight per dequeue) */
+const STRIDE = 1_000_000;
+
+/**
+ * Normalize request priority to a priority class.
+ *
+ * Numbers follow JobSubmission.priority (0-100, default 50):
+ * - >= 90 → critical
+ * - >= 70 → high
+ * - >= 30 → normal
+ * - < 30 → low
+ */
+export function normalizePriority(priority: ExecutionPriority | number | undefined): ExecutionPriority {
+  if (typeof priority === 'number') {
+    if (priority >= 90) {return 'critical';}
+    if (priority >= 70) {return 'high';}
+    if (priority >= 30) {return 'normal';}
+    return 'low';
+  }
+
+  return priority && PRIORITY_CLASSES.includes(priority) ? priority : 'normal';
+}
+
+/**
+ * Flow key with weight (tenant or plugin).
+ */
+export interface FlowKey {
+  key: string;
+  weight: number;
+}
+
+interface FlowNode<T> {
+  weight: number;
+  /** Scheduling position among siblings */
+  pass: number;
+  /** Virtual time of this node's child scheduler (pass of last served child) */
+  vtime: number;
+  size: number;
+  children: Map<string, FlowNode<T>>;
+  items: T[];
+}
+
+function createNode<T>(weight: number, pass = 0): FlowNode<T> {
+  return {
+    weight: weight > 0 ? weight : 1,
+    pass,
+    vtime: 0,
+    size: 0,
+    children: new Map(),
+    items: [],
+  };
+}
+
+/**
+ * Pick active child with the lowest pass.
+ */
+function pickChild<T>(node: FlowNode<T>): [string, FlowNode<T>] | undefined {
+  let best: [string, FlowNode<T>] | undefined;
+
+  for (const entry of node.children) {
+    if (entry[1].size > 0 && (!best || entry[1].pass < best[1].pass)) {
+      best = entry;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Two-level (tenant → plugin) weighted fair queue for a single priority class.
+ */
+class WeightedFairQueue<T> {
+  private root: FlowNode<T> = createNode(1);
+
+  get size(): number {
+    return this.root.size;
+  }
+
+  enqueue(item: T, tenant: FlowKey, plugin: FlowKey): void {
+    const tenantNode = this.activate(this.root, tenant);
+    const pluginNode = this.activate(tenantNode, plugin);
+
+    pluginNode.items.push(item);
+    pluginNode.size++;
+    tenantNode.size++;
+    this.root.size++;
+  }
+
+  dequeue(): T | undefined {
+    const tenantEntry = pickChild(this.root);
+    if (!tenantEntry) {
+      return undefined;
+    }
+    const [tenantKey, tenantNode] = tenantEntry;
+
+    const pluginEntry = pickChild(tenantNode);
+    if (!pluginEntry) {
+      return undefined;
+    }
+    const [pluginKey, pluginNode] = pluginEntry;
+
+    const item = pluginNode.items.shift();
+
+    // Advance virtual time and charge the served flows
+    this.root.vtime = tenantNode.pass;
+    tenantNode.pass += STRIDE / tenantNode.weight;
+    tenantNode.vtime = pluginNode.pass;
+    pluginNode.pass += STRIDE / pluginNode.weight;
+
+    this.decrement(tenantKey, tenantNode, pluginKey, pluginNode);
+    return item;
+  }
+
+  remove(predicate: (item: T) => boolean): T | undefined {
+    for (const [tenantKey, tenantNode] of this.root.children) {
+      for (const [pluginKey, pluginNode] of tenantNode.children) {
+        const idx = pluginNode.items.findIndex(predicate);
+        if (idx !== -1) {
+          const [item] = pluginNode.items.splice(idx, 1);
+          this.decrement(tenantKey, tenantNode, pluginKey, pluginNode);
+          return item;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  drain(): T[] {
+    const items = [...this];
+    this.root = createNode(1);
+    return items;
+  }
+
+  *[Symbol.iterator](): IterableIterator<T> {
+    for (const tenantNode of this.root.children.values()) {
+      for (const pluginNode of tenantNode.children.values()) {
+        yield* pluginNode.items;
+      }
+    }
+  }
+
+  /**
+   * Get child node, (re)activating it at the parent's virtual time when idle.
+   */
+  private activate(parent: FlowNode<T>, flow: FlowKey): FlowNode<T> {
+    let node = parent.children.get(flow.key);
+
+    if (!node) {
+      node = createNode<T>(flow.weight, parent.vtime);
+      parent.children.set(flow.key, node);
+    } else if (node.size === 0) {
+      node.pass = Math.max(node.pass, parent.vtime);
+    }
+
+    return node;
+  }
+
+  private decrement(
+    tenantKey: string,
+    tenantNode: FlowNode<T>,
+    pluginKey: string,
+    pluginNode: FlowNode<T>
+  ): void {
+    pluginNode.size--;
+    tenantNode.size--;
+    this.root.size--;
+
+    // Drop empty flows so the maps don't grow with every tenant ever seen
+    if (pluginNode.size === 0) {
+      tenantNode.children.delete(pluginKey);
+    }
+    if (tenantNode.size === 0) {
+      this.root.children.delete(tenantKey);
+    }
+  }
+}
+
+/**
+ * Priority queue of weighted fair queues.
+ */
+export class PriorityFairQueue<T> {
+  private readonly classes = new Map<ExecutionPriority, WeightedFairQueue<T>>(
+    PRIORITY_CLASSES.map((priority) => [priority, new WeightedFairQueue<T>()])
+  );
+
+  /**
+   * Total queued items across all classes.
+   */
+  get length(): number {
+    let total = 0;
+    for (const queue of this.classes.values()) {
+      total += queue.size;
+    }
+    return total;
+  }
+
+  /**
+   * Queued items per priority class.
+   */
+  depthByPriority(): Record<ExecutionPriority, number> {
+    return {
+      critical: this.classes.get('critical')!.size,
+      high: this.classes.get('high')!.size,
+      normal: this.classes.get('normal')!.size,
+      low: this.classes.get('low')!.size,
+    };
+  }
+
+  enqueue(item: T, priority: ExecutionPriority, tenant: FlowKey, plugin: FlowKey): void {
+    this.classes.get(priority)!.enqueue(item, tenant, plugin);
+  }
+
+  /**
+   * Dequeue next item: highest non-empty class, fair share within it.
+   */
+  dequeue(): T | undefined {
+    for (const priority of PRIORITY_CLASSES) {
+      const queue = this.classes.get(priority)!;
+      if (queue.size > 0) {
+        return queue.dequeue();
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Remove first item matching predicate (abort / acquire timeout).
+   */
+  remove(predicate: (item: T) => boolean): T | undefined {
+    for (const queue of this.classes.values()) {
+      const item = queue.remove(predicate);
+      if (item !== undefined) {
+        return item;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Remove and return all items.
+   */
+  drain(): T[] {
+    const items: T[] = [];
+    for (const queue of this.classes.values()) {
+      items.push(...queue.drain());
+    }
+    return items;
+  }
+
+  /**
+   * Iterate queued items (no particular order).
+   */
+  *[Symbol.iterator](): IterableIterator<T> {
+    for (const queue of this.classes.values()) {
+      yield* queue;
+    }
+  }
+}
@@ -12,6 +12,9 @@ export type {
   WorkerState,
   WorkerInfo,
   WorkerPoolStats,
+  PriorityClassStats,
+  ScalingDecision,
+  AutoscaleConfig,
   QueuedRequest,
   WorkerMessage,
   ExecuteMessage,
@@ -21,5 +24,10 @@ export type {
   HealthOkMessage,
   ShutdownMessage,
   ReadyMessage,
+  WarmupMessage,
+  WarmupDoneMessage,
 } from './types.js';
-export { DEFAULT_WORKER_POOL_CONFIG } from './types.js';
+export { DEFAULT_WORKER_POOL_CONFIG, DEFAULT_AUTOSCALE_CONFIG } from './types.js';
+export { PoolAutoscaler } from './pool-autoscaler.js';
+export { collectMarkedWarmupHandlers, selectWarmupHandlers } from './warmup.js';
+export { PriorityFairQueue, normalizePriority, PRIORITY_CLASSES, type FlowKey } from './fair-queue.js';
@@ -0,0 +1,189 @@
+/**
+ * @module @kb-labs/plugin-execution-factory/backends/worker-pool/pool-autoscaler
+ *
+ * Queue-pressure autoscaler for worker pool.
+ *
+ * Scale up: queue length >= scaleUpQueueDepth OR oldest queued request
+ *           waited >= scaleUpQueueWaitMs (respecting scaleUpCooldownMs).
+ * Scale down: queue empty AND a worker idle >= scaleDownIdleMs
+ *             (respecting scaleDownCooldownMs since the last scaling action).
+ *
+ * The gap between the two conditions is the hysteresis: a pool that just
+ * grew will not shrink again until the burst is fully absorbed.
+ */
+
+import type { AutoscaleConfig, ScalingDecision, WorkerPoolConfig } from './types.js';
+import type { Worker } from './worker.js';
+
+/**
+ * Autoscaler for WorkerPool.
+ */
+export class PoolAutoscaler {
+  private workers: Map<string, Worker>;
+  private config: WorkerPoolConfig;
+  private policy: AutoscaleConfig;
+  private interval: NodeJS.Timeout | null = null;
+  private lastScaleUpAt = 0;
+  private lastScaleAt = 0;
+
+  // Callbacks
+  private onGetQueueLength: () => number;
+  private onGetOldestQueueWaitMs: () => number;
+  private onSpawnWorker: () => Promise<void>;
+  private onRetireWorker: (worker: Worker) => void;
+  private onScalingDecision: (decision: ScalingDecision) => void;
+  private onIsShuttingDown: () => boolean;
+
+  constructor(
+    workers: Map<string, Worker>,
+    config: WorkerPoolConfig,
+    policy: AutoscaleConfig,
+    callbacks: {
+      onGetQueueLength: () => number;
+      onGetOldestQueueWaitMs: () => number;
+      onSpawnWorker: () => Promise<void>;
+      onRetireWorker: (worker: Worker) => void;
+      onScalingDecision: (decision: ScalingDecision) => void;
+      onIsShuttingDown: () => boolean;
+    }
+  ) {
+    this.workers = workers;
+    this.config = config;
+    this.policy = policy;
+    this.onGetQueueLength = callbacks.onGetQueueLength;
+    this.onGetOldestQueueWaitMs = callbacks.onGetOldestQueueWaitMs;
+    this.onSpawnWorker = callbacks.onSpawnWorker;
+    this.onRetireWorker = callbacks.onRetireWorker;
+    this.onScalingDecision = callbacks.onScalingDecision;
+    this.onIsShuttingDown = callbacks.onIsShuttingDown;
+  }
+
+  /**
+   * Start periodic evaluation.
+   */
+  start(): void {
+    if (this.interval) {
+      return;
+    }
+
+    this.interval = setInterval(() => this.evaluate(), this.policy.intervalMs);
+    // Autoscaler must not keep the host process alive
+    this.interval.unref();
+  }
+
+  /**
+   * Stop periodic evaluation.
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Evaluate queue pressure and apply at most one scaling decision.
+   * Called periodically and whenever a request is queued.
+   */
+  evaluate(now = Date.now()): ScalingDecision | null {
+    if (this.onIsShuttingDown()) {
+      return null;
+    }
+
+    const queueLength = this.onGetQueueLength();
+    const oldestQueueWaitMs = this.onGetOldestQueueWaitMs();
+    const total = this.workers.size;
+
+    // 1. Scale up under queue pressure
+    const reason = queueLength >= this.policy.scaleUpQueueDepth
+      ? 'queue-depth'
+      : queueLength > 0 && oldestQueueWaitMs >= this.policy.scaleUpQueueWaitMs
+        ? 'queue-wait'
+        : null;
+
+    if (reason) {
+      if (total >= this.config.max || now - this.lastScaleUpAt < this.policy.scaleUpCooldownMs) {
+        return null;
+      }
+
+      // Workers still starting will pick up queued requests - don't over-provision
+      const starting = this.countWorkers('starting');
+      if (starting >= queueLength) {
+        return null;
+      }
+
+      const to = Math.min(this.config.max, total + this.policy.scaleUpStep);
+      for (let i = total; i < to; i++) {
+        this.onSpawnWorker().catch(() => {
+          // Spawn failures are reported via worker events
+        });
+      }
+
+      this.lastScaleUpAt = now;
+      this.lastScaleAt = now;
+      return this.decide({ direction: 'up', from: total, to, reason, queueLength, oldestQueueWaitMs, timestamp: now });
+    }
+
+    // 2. Scale down after idle period (queue must be empty)
+    if (
+      queueLength === 0 &&
+      total > this.config.min &&
+      now - this.lastScaleAt >= this.policy.scaleDownCooldownMs
+    ) {
+      const idleWorker = this.findLongestIdleWorker(now);
+      if (!idleWorker) {
+        return null;
+      }
+
+      this.onRetireWorker(idleWorker);
+      this.lastScaleAt = now;
+      return this.decide({
+        direction: 'down',
+        from: total,
+        to: total - 1,
+        reason: 'idle',
+        queueLength,
+        oldestQueueWaitMs,
+        timestamp: now,
+      });
+    }
+
+    return null;
+  }
+
+  /**
+   * Find idle worker that exceeded scaleDownIdleMs (longest idle first).
+   */
+  private findLongestIdleWorker(now: number): Worker | null {
+    let candidate: Worker | null = null;
+    let candidateIdleSince = Infinity;
+
+    for (const worker of this.workers.values()) {
+      const idleSince = worker.info.idleSince;
+      if (
+        worker.state === 'idle' &&
+        idleSince !== undefined &&
+        now - idleSince >= this.policy.scaleDownIdleMs &&
+        idleSince < candidateIdleSince
+      ) {
+        candidate = worker;
+        candidateIdleSince = idleSince;
+      }
+    }
+
+    return candidate;
+  }
+
+  private countWorkers(state: Worker['state']): number {
+    let count = 0;
+    for (const worker of this.workers.values()) {
+      if (worker.state === state) {count++;}
+    }
+    return count;
+  }
+
+  private decide(decision: ScalingDecision): ScalingDecision {
+    this.onScalingDecision(decision);
+    return decision;
+  }
+}
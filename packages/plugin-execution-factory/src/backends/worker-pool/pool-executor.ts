@@ -4,7 +4,7 @@
  * Execution logic for worker pool.
  */
 
-import type { WorkerPoolConfig } from './types.js';
+import type { WorkerPoolConfig, ExecutionChannels } from './types.js';
 import type { Worker } from './worker.js';
 import type { ExecutionRequest, ExecutionResult } from '../../types.js';
 import { WorkerCrashedError } from '../../errors.js';
@@ -79,12 +79,12 @@ export class PoolExecutor {
     request: ExecutionRequest,
     timeoutMs: number,
     startTime: number,
-    onLog?: (entry: { level: string; message: string; stream: 'stdout' | 'stderr'; lineNo: number; timestamp: string; meta?: Record<string, unknown> }) => void,
+    channels?: ExecutionChannels,
   ): Promise<ExecutionResult> {
     this.onTotalRequests();
 
     try {
-      const result = await worker.execute(request, timeoutMs, onLog);
+      const result = await worker.execute(request, timeoutMs, channels);
 
       if (result.ok) {
         this.onSuccessCount();
@@ -4,7 +4,9 @@
  * Worker lifecycle management for worker pool.
  */
 
-import type { WorkerPoolConfig } from './types.js';
+import type { WorkerPoolConfig, WarmupDoneMessage } from './types.js';
+import type { WarmupHandlerRef } from '../../types.js';
+import { heapLimitExecArgv } from '@kb-labs/plugin-runtime';
 import { Worker } from './worker.js';
 
 /**
@@ -24,6 +26,8 @@ export class PoolLifecycleManager {
   private onHealthCheckFailed: (worker: Worker) => void;
   private onProcessQueue: () => void;
   private onWorkersRecycled: () => void;
+  private onGetWarmupHandlers: () => WarmupHandlerRef[];
+  private onWorkerWarmedUp: (worker: Worker, result: Omit<WarmupDoneMessage, 'type'>) => void;
 
   constructor(
     workers: Map<string, Worker>,
@@ -36,6 +40,8 @@ export class PoolLifecycleManager {
       onHealthCheckFailed: (worker: Worker) => void;
       onProcessQueue: () => void;
       onWorkersRecycled: () => void;
+      onGetWarmupHandlers: () => WarmupHandlerRef[];
+      onWorkerWarmedUp: (worker: Worker, result: Omit<WarmupDoneMessage, 'type'>) => void;
     }
   ) {
     this.workers = workers;
@@ -47,6 +53,8 @@ export class PoolLifecycleManager {
     this.onHealthCheckFailed = callbacks.onHealthCheckFailed;
     this.onProcessQueue = callbacks.onProcessQueue;
     this.onWorkersRecycled = callbacks.onWorkersRecycled;
+    this.onGetWarmupHandlers = callbacks.onGetWarmupHandlers;
+    this.onWorkerWarmedUp = callbacks.onWorkerWarmedUp;
   }
 
   /**
@@ -95,6 +103,7 @@ export class PoolLifecycleManager {
   async spawnWorker(): Promise<void> {
     const worker = new Worker({
       workerScript: this.workerScript,
+      execArgv: heapLimitExecArgv(this.config.maxHeapMb),
     });
 
     // Setup event handlers
@@ -108,10 +117,15 @@ export class PoolLifecycleManager {
       }
     });
 
+    worker.on('warmedUp', (w, result) => {
+      this.onWorkerWarmedUp(w, result);
+    });
+
     this.workers.set(worker.id, worker);
 
     try {
-      await worker.spawn();
+      // Warm handlers before the worker takes traffic (covers spawn and recycle)
+      await worker.spawn(this.onGetWarmupHandlers());
       this.onWorkerSpawned(worker);
 
       // Process queue after worker is ready
@@ -160,6 +174,15 @@ export class PoolLifecycleManager {
     }
   }
 
+  /**
+   * Retire worker (autoscaler scale-down).
+   * Removed from the pool immediately so it takes no new work, then shut down gracefully.
+   */
+  retireWorker(worker: Worker): void {
+    this.workers.delete(worker.id);
+    worker.shutdown(5000).catch(() => {});
+  }
+
   /**
    * Run health checks on all workers.
    */
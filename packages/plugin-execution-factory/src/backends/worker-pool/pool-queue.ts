@@ -2,11 +2,13 @@
  * @module @kb-labs/plugin-execution-factory/backends/worker-pool/pool-queue
  *
  * Request queue management for worker pool.
+ * Priority + weighted fair scheduling across tenants and plugins (see fair-queue.ts).
  */
 
-import type { QueuedRequest, WorkerPoolConfig } from './types.js';
-import type { ExecutionRequest, ExecutionResult } from '../../types.js';
+import type { QueuedRequest, WorkerPoolConfig, ExecutionChannels } from './types.js';
+import type { ExecutionRequest, ExecutionResult, ExecutionPriority } from '../../types.js';
 import type { Worker } from './worker.js';
+import { PriorityFairQueue, normalizePriority, type FlowKey } from './fair-queue.js';
 import { AcquireTimeoutError } from '../../errors.js';
 import { normalizeError } from '../../utils.js';
 
@@ -14,30 +16,32 @@ import { normalizeError } from '../../utils.js';
  * Queue manager for WorkerPool.
  */
 export class PoolQueueManager {
-  private queue: QueuedRequest[] = [];
+  private queue = new PriorityFairQueue<QueuedRequest>();
   private config: WorkerPoolConfig;
 
   // Callbacks
-  private onTrackQueueWaitTime: (waitTimeMs: number) => void;
+  private onTrackQueueWaitTime: (waitTimeMs: number, priority: ExecutionPriority) => void;
   private onGetAvailableWorker: () => Worker | null;
   private onExecuteOnWorker: (
     worker: Worker,
     request: ExecutionRequest,
     timeoutMs: number,
-    startTime: number
+    startTime: number,
+    channels?: ExecutionChannels
   ) => Promise<ExecutionResult>;
   private onAcquireTimeout: () => void;
 
   constructor(
     config: WorkerPoolConfig,
     callbacks: {
-      onTrackQueueWaitTime: (waitTimeMs: number) => void;
+      onTrackQueueWaitTime: (waitTimeMs: number, priority: ExecutionPriority) => void;
       onGetAvailableWorker: () => Worker | null;
       onExecuteOnWorker: (
         worker: Worker,
         request: ExecutionRequest,
         timeoutMs: number,
-        startTime: number
+        startTime: number,
+        channels?: ExecutionChannels
       ) => Promise<ExecutionResult>;
       onAcquireTimeout: () => void;
     }
@@ -56,14 +60,31 @@ export class PoolQueueManager {
     return this.queue.length;
   }
 
+  /**
+   * Get current queue length per priority class.
+   */
+  getQueueDepthByPriority(): Record<ExecutionPriority, number> {
+    return this.queue.depthByPriority();
+  }
+
+  /**
+   * Get wait time of the oldest queued request (0 when queue is empty).
+   */
+  getOldestQueueWaitMs(now = Date.now()): number {
+    let oldest = now;
+    for (const queued of this.queue) {
+      oldest = Math.min(oldest, queued.queuedAt);
+    }
+    return now - oldest;
+  }
+
   /**
    * Clear all queued requests with error.
    */
   clearQueue(error: Error): void {
-    for (const queued of this.queue) {
+    for (const queued of this.queue.drain()) {
       queued.reject(error);
     }
-    this.queue.length = 0;
   }
 
   /**
@@ -73,18 +94,17 @@ export class PoolQueueManager {
     request: ExecutionRequest,
     signal: AbortSignal | undefined,
     timeoutMs: number,
-    startTime: number
+    startTime: number,
+    channels?: ExecutionChannels
   ): Promise<ExecutionResult> {
     return new Promise<ExecutionResult>((resolve, reject) => {
       const queuedAt = Date.now();
+      const priority = normalizePriority(request.priority);
 
       // Acquire timeout
       const acquireTimeout = setTimeout(() => {
         // Remove from queue
-        const idx = this.queue.findIndex((q) => q.id === request.executionId);
-        if (idx !== -1) {
-          this.queue.splice(idx, 1);
-        }
+        this.queue.remove((q) => q.id === request.executionId);
 
         this.onAcquireTimeout();
         resolve({
@@ -99,10 +119,7 @@ export class PoolQueueManager {
       // Abort handler
       const onAbort = () => {
         clearTimeout(acquireTimeout);
-        const idx = this.queue.findIndex((q) => q.id === request.executionId);
-        if (idx !== -1) {
-          this.queue.splice(idx, 1);
-        }
+        this.queue.remove((q) => q.id === request.executionId);
         resolve({
           ok: false,
           error: { message: 'Request aborted', code: 'ABORTED' },
@@ -128,7 +145,9 @@ export class PoolQueueManager {
         id: request.executionId,
         request,
         signal,
+        priority,
         queuedAt,
+        channels,
         resolve: (result) => {
           clearTimeout(acquireTimeout);
           if (signal) {
@@ -137,7 +156,7 @@ export class PoolQueueManager {
 
           // Track queue wait time
           const waitTime = Date.now() - queuedAt;
-          this.onTrackQueueWaitTime(waitTime);
+          this.onTrackQueueWaitTime(waitTime, priority);
 
           resolve(result);
         },
@@ -150,7 +169,7 @@ export class PoolQueueManager {
         },
       };
 
-      this.queue.push(queuedRequest);
+      this.queue.enqueue(queuedRequest, priority, this.tenantFlow(request), this.pluginFlow(request));
     });
   }
 
@@ -164,7 +183,7 @@ export class PoolQueueManager {
         break;
       }
 
-      const queued = this.queue.shift()!;
+      const queued = this.queue.dequeue()!;
 
       // Skip if aborted
       if (queued.signal?.aborted) {
@@ -179,7 +198,7 @@ export class PoolQueueManager {
       const timeoutMs = queued.request.timeoutMs ?? 30_000;
       const startTime = queued.queuedAt;
 
-      this.onExecuteOnWorker(worker, queued.request, timeoutMs, startTime)
+      this.onExecuteOnWorker(worker, queued.request, timeoutMs, startTime, queued.channels)
         .then((result) => {
           queued.resolve(result);
           // Process more from queue
@@ -191,4 +210,20 @@ export class PoolQueueManager {
         });
     }
   }
+
+  /**
+   * Tenant flow key with configured weight.
+   */
+  private tenantFlow(request: ExecutionRequest): FlowKey {
+    const key = request.context?.tenantId ?? request.descriptor.tenantId ?? 'default';
+    return { key, weight: this.config.fairShare?.tenantWeights?.[key] ?? 1 };
+  }
+
+  /**
+   * Plugin flow key with configured weight.
+   */
+  private pluginFlow(request: ExecutionRequest): FlowKey {
+    const key = request.descriptor.pluginId;
+    return { key, weight: this.config.fairShare?.pluginWeights?.[key] ?? 1 };
+  }
 }
@@ -4,8 +4,47 @@
  * Statistics tracking for worker pool.
  */
 
-import type { WorkerPoolStats } from './types.js';
+import type { WorkerPoolStats, PriorityClassStats } from './types.js';
 import type { Worker } from './worker.js';
+import type { ExecutionRequest, ExecutionPriority, WarmupHandlerRef } from '../../types.js';
+import { PRIORITY_CLASSES } from './fair-queue.js';
+
+/** Max wait-time samples kept (overall and per priority class) */
+const MAX_WAIT_SAMPLES = 1000;
+
+function emptyPriorityStats(): Record<ExecutionPriority, PriorityClassStats> {
+  return {
+    critical: { queueLength: 0, avgQueueWaitMs: 0 },
+    high: { queueLength: 0, avgQueueWaitMs: 0 },
+    normal: { queueLength: 0, avgQueueWaitMs: 0 },
+    low: { queueLength: 0, avgQueueWaitMs: 0 },
+  };
+}
+
+/**
+ * Add a wait-time sample (keeping last MAX_WAIT_SAMPLES) and compute avg / P99.
+ */
+function summarizeWaitTimes(
+  samples: number[],
+  waitTimeMs: number
+): { avgQueueWaitMs: number; p99QueueWaitMs?: number } {
+  samples.push(waitTimeMs);
+
+  if (samples.length > MAX_WAIT_SAMPLES) {
+    samples.shift();
+  }
+
+  const sum = samples.reduce((a, b) => a + b, 0);
+  const avgQueueWaitMs = sum / samples.length;
+
+  // P99 only once we have enough samples
+  if (samples.length >= 10) {
+    const sorted = [...samples].sort((a, b) => a - b);
+    return { avgQueueWaitMs, p99QueueWaitMs: sorted[Math.floor(sorted.length * 0.99)] };
+  }
+
+  return { avgQueueWaitMs };
+}
 
 /**
  * Statistics tracker for WorkerPool.
@@ -29,15 +68,26 @@ export class PoolStatsTracker {
     workerCrashes: 0,
     workersRecycled: 0,
     avgQueueWaitMs: 0,
+    queueByPriority: emptyPriorityStats(),
+    scaleUps: 0,
+    scaleDowns: 0,
   };
 
   private queueWaitTimes: number[] = [];
+  private queueWaitTimesByPriority = new Map<ExecutionPriority, number[]>(
+    PRIORITY_CLASSES.map((priority) => [priority, []])
+  );
   private pluginConcurrency = new Map<string, number>();
+  private handlerRequests = new Map<string, { ref: WarmupHandlerRef; count: number }>();
 
   /**
    * Get current statistics.
    */
-  getStats(workers: Map<string, Worker>, queueLength: number): WorkerPoolStats {
+  getStats(
+    workers: Map<string, Worker>,
+    queueLength: number,
+    queueDepthByPriority?: Record<ExecutionPriority, number>
+  ): WorkerPoolStats {
     // Update worker state counts
     const workersByState = {
       starting: 0,
@@ -51,33 +101,40 @@ export class PoolStatsTracker {
       workersByState[worker.state]++;
     }
 
+    const queueByPriority = emptyPriorityStats();
+    for (const priority of PRIORITY_CLASSES) {
+      queueByPriority[priority] = {
+        ...this.stats.queueByPriority[priority],
+        queueLength: queueDepthByPriority?.[priority] ?? 0,
+      };
+    }
+
     return {
       ...this.stats,
       totalWorkers: workers.size,
       workersByState,
       queueLength,
+      queueByPriority,
     };
   }
 
   /**
    * Track queue wait time for statistics.
    */
-  trackQueueWaitTime(waitTimeMs: number): void {
-    this.queueWaitTimes.push(waitTimeMs);
-
-    // Keep last 1000 samples
-    if (this.queueWaitTimes.length > 1000) {
-      this.queueWaitTimes.shift();
+  trackQueueWaitTime(waitTimeMs: number, priority?: ExecutionPriority): void {
+    const overall = summarizeWaitTimes(this.queueWaitTimes, waitTimeMs);
+    this.stats.avgQueueWaitMs = overall.avgQueueWaitMs;
+    if (overall.p99QueueWaitMs !== undefined) {
+      this.stats.p99QueueWaitMs = overall.p99QueueWaitMs;
     }
 
-    // Calculate average
-    const sum = this.queueWaitTimes.reduce((a, b) => a + b, 0);
-    this.stats.avgQueueWaitMs = sum / this.queueWaitTimes.length;
-
-    // Calculate P99
-    if (this.queueWaitTimes.length >= 10) {
-      const sorted = [...this.queueWaitTimes].sort((a, b) => a - b);
-      this.stats.p99QueueWaitMs = sorted[Math.floor(sorted.length * 0.99)];
+    if (priority) {
+      const samples = this.queueWaitTimesByPriority.get(priority)!;
+      const perClass = summarizeWaitTimes(samples, waitTimeMs);
+      this.stats.queueByPriority[priority] = {
+        ...this.stats.queueByPriority[priority],
+        ...perClass,
+      };
     }
   }
 
@@ -103,4 +160,35 @@ export class PoolStatsTracker {
   getPluginConcurrency(pluginId: string): number {
     return this.pluginConcurrency.get(pluginId) ?? 0;
   }
+
+  /**
+   * Count a request against its handler (used for 'top-n' warmup ranking).
+   */
+  trackHandlerRequest(request: ExecutionRequest): void {
+    const key = `${request.pluginRoot}#${request.handlerRef}`;
+    const entry = this.handlerRequests.get(key);
+
+    if (entry) {
+      entry.count++;
+    } else {
+      this.handlerRequests.set(key, {
+        ref: { pluginRoot: request.pluginRoot, handlerRef: request.handlerRef },
+        count: 1,
+      });
+    }
+  }
+
+  /**
+   * Get the N most requested handlers, hottest first.
+   */
+  getTopHandlers(n: number): WarmupHandlerRef[] {
+    if (n <= 0) {
+      return [];
+    }
+
+    return Array.from(this.handlerRequests.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, n)
+      .map((entry) => entry.ref);
+  }
 }
@@ -6,7 +6,7 @@
  */
 
 import { EventEmitter } from 'node:events';
-import type { WorkerPoolConfig } from './types.js';
+import type { WorkerPoolConfig, WarmupDoneMessage, ScalingDecision, ExecutionChannels } from './types.js';
 import type { Worker } from './worker.js';
 import type { ExecutionRequest, ExecutionResult } from '../../types.js';
 import { QueueFullError } from '../../errors.js';
@@ -17,6 +17,8 @@ import { PoolStatsTracker } from './pool-stats.js';
 import { PoolLifecycleManager } from './pool-lifecycle.js';
 import { PoolQueueManager } from './pool-queue.js';
 import { PoolExecutor } from './pool-executor.js';
+import { PoolAutoscaler } from './pool-autoscaler.js';
+import { selectWarmupHandlers } from './warmup.js';
 
 /**
  * Pool events.
@@ -27,6 +29,8 @@ export interface PoolEvents {
   workerRecycled: [worker: Worker];
   queueFull: [queueSize: number];
   healthCheckFailed: [worker: Worker];
+  workerWarmedUp: [worker: Worker, result: Omit<WarmupDoneMessage, 'type'>];
+  scalingDecision: [decision: ScalingDecision];
 }
 
 /**
@@ -34,10 +38,13 @@ export interface PoolEvents {
  *
  * Features:
  * - Bounded queue with QUEUE_FULL error when at capacity
+ * - Priority classes + weighted fair queuing across tenants and plugins
+ * - Optional autoscaling driven by queue pressure (see pool-autoscaler.ts)
  * - Acquire timeout for getting available worker
  * - Per-plugin concurrency limits
  * - Worker recycling (max requests, max uptime)
  * - Health checks with automatic worker replacement
+ * - Handler warmup on spawn/recycle (top-n or marked)
  * - Graceful shutdown
  */
 export class WorkerPool extends EventEmitter<PoolEvents> {
@@ -49,7 +56,12 @@ export class WorkerPool extends EventEmitter<PoolEvents> {
   private readonly lifecycleManager: PoolLifecycleManager;
   private readonly queueManager: PoolQueueManager;
   private readonly executor: PoolExecutor;
+  private readonly autoscaler: PoolAutoscaler | null = null;
 
+  /**
+   * @param workerScript - Worker entry point
+   * @param config - Pool configuration (defaults applied for missing fields)
+   */
   constructor(
     workerScript: string,
     config: Partial<WorkerPoolConfig> = {}
@@ -70,6 +82,8 @@ export class WorkerPool extends EventEmitter<PoolEvents> {
         topN: 5,
         maxHandlers: 20,
       },
+      fairShare: config.fairShare,
+      autoscale: config.autoscale,
     };
 
     // Initialize stats tracker
@@ -89,16 +103,19 @@ export class WorkerPool extends EventEmitter<PoolEvents> {
         onWorkersRecycled: () => {
           this.statsTracker.stats.workersRecycled++;
         },
+        onGetWarmupHandlers: () =>
+          selectWarmupHandlers(this.config.warmup, this.statsTracker),
+        onWorkerWarmedUp: (worker, result) => this.emit('workerWarmedUp', worker, result),
       }
     );
 
     // Initialize queue manager
     this.queueManager = new PoolQueueManager(this.config, {
-      onTrackQueueWaitTime: (waitTimeMs) =>
-        this.statsTracker.trackQueueWaitTime(waitTimeMs),
+      onTrackQueueWaitTime: (waitTimeMs, priority) =>
+        this.statsTracker.trackQueueWaitTime(waitTimeMs, priority),
       onGetAvailableWorker: () => this.executor.getAvailableWorker(),
-      onExecuteOnWorker: (worker, request, timeoutMs, startTime) =>
-        this.executor.executeOnWorker(worker, request, timeoutMs, startTime),
+      onExecuteOnWorker: (worker, request, timeoutMs, startTime, channels) =>
+        this.executor.executeOnWorker(worker, request, timeoutMs, startTime, channels),
       onAcquireTimeout: () => {
         this.statsTracker.stats.acquireTimeouts++;
       },
@@ -123,6 +140,26 @@ export class WorkerPool extends EventEmitter<PoolEvents> {
       },
       onRecycleWorker: (worker) => this.lifecycleManager.recycleWorker(worker),
     });
+
+    // Initialize autoscaler (opt-in)
+    if (this.config.autoscale?.enabled) {
+      this.autoscaler = new PoolAutoscaler(this.workers, this.config, this.config.autoscale, {
+        onGetQueueLength: () => this.queueManager.getQueueLength(),
+        onGetOldestQueueWaitMs: () => this.queueManager.getOldestQueueWaitMs(),
+        onSpawnWorker: () => this.lifecycleManager.spawnWorker(),
+        onRetireWorker: (worker) => this.lifecycleManager.retireWorker(worker),
+        onScalingDecision: (decision) => {
+          if (decision.direction === 'up') {
+            this.statsTracker.stats.scaleUps++;
+          } else {
+            this.statsTracker.stats.scaleDowns++;
+          }
+          this.statsTracker.stats.lastScalingDecision = decision;
+          this.emit('scalingDecision', decision);
+        },
+        onIsShuttingDown: () => this.lifecycleManager.isShuttingDownState(),
+      });
+    }
   }
 
   /**
@@ -130,6 +167,7 @@ export class WorkerPool extends EventEmitter<PoolEvents> {
    */
   async start(): Promise<void> {
     await this.lifecycleManager.start();
+    this.autoscaler?.start();
   }
 
   /**
@@ -144,7 +182,7 @@ export class WorkerPool extends EventEmitter<PoolEvents> {
    */
   async execute(
     request: ExecutionRequest,
-    options?: { signal?: AbortSignal; onLog?: (entry: { level: string; message: string; stream: 'stdout' | 'stderr'; lineNo: number; timestamp: string; meta?: Record<string, unknown> }) => void }
+    options?: { signal?: AbortSignal } & ExecutionChannels
   ): Promise<ExecutionResult> {
     if (this.lifecycleManager.isShuttingDownState()) {
       return {
@@ -182,8 +220,15 @@ export class WorkerPool extends EventEmitter<PoolEvents> {
       };
     }
 
-    // Increment plugin concurrency
+    // Increment plugin concurrency and count handler usage (top-n warmup ranking)
     this.statsTracker.incrementPluginConcurrency(pluginId);
+    this.statsTracker.trackHandlerRequest(request);
+
+    const channels: ExecutionChannels = {
+      onLog: options?.onLog,
+      onStream: options?.onStream,
+      platformSocket: options?.platformSocket,
+    };
 
     try {
       // Try to get available worker immediately
@@ -195,7 +240,7 @@ export class WorkerPool extends EventEmitter<PoolEvents> {
           request,
           timeoutMs,
           startTime,
-          options?.onLog,
+          channels,
         );
       }
 
@@ -215,20 +260,24 @@ export class WorkerPool extends EventEmitter<PoolEvents> {
         };
       }
 
-      // Scale up if possible
-      if (this.workers.size < this.config.max) {
+      // Scale up if possible (autoscaler decides when enabled)
+      if (!this.autoscaler && this.workers.size < this.config.max) {
         this.lifecycleManager.spawnWorker().catch(() => {
           // Ignore spawn errors during scaling
         });
       }
 
       // Queue the request
-      return await this.queueManager.queueRequest(
+      const queued = this.queueManager.queueRequest(
         request,
         options?.signal,
         timeoutMs,
-        startTime
+        startTime,
+        channels
       );
+      this.autoscaler?.evaluate();
+
+      return await queued;
     } finally {
       this.statsTracker.decrementPluginConcurrency(pluginId);
     }
@@ -240,7 +289,8 @@ export class WorkerPool extends EventEmitter<PoolEvents> {
   getStats() {
     return this.statsTracker.getStats(
       this.workers,
-      this.queueManager.getQueueLength()
+      this.queueManager.getQueueLength(),
+      this.queueManager.getQueueDepthByPriority()
     );
   }
 
@@ -248,6 +298,8 @@ export class WorkerPool extends EventEmitter<PoolEvents> {
    * Graceful shutdown.
    */
   async shutdown(timeoutMs = 10_000): Promise<void> {
+    this.autoscaler?.stop();
+
     // Reject all queued requests
     this.queueManager.clearQueue(new Error('Pool shutdown'));
 
@@ -5,7 +5,16 @@
  * These are internal types - not exposed in public API.
  */
 
-import type { ExecutionRequest, ExecutionResult } from '../../types.js';
+import type {
+  ExecutionRequest,
+  ExecutionResult,
+  ExecutionPriority,
+  FairSharePolicy,
+  WarmupHandlerRef,
+  OnLogCallback,
+  OnStreamCallback,
+} from '../../types.js';
+import type { StreamEvent } from '@kb-labs/plugin-contracts';
 
 // ============================================================================
 // Worker Pool Configuration
@@ -39,12 +48,23 @@ export interface WorkerPoolConfig {
   /** Health check interval in ms (default: 10000) */
   healthCheckIntervalMs: number;
 
+  /** V8 heap cap per worker process in MB (default: Node default) */
+  maxHeapMb?: number;
+
   /** Warmup policy */
   warmup: {
     mode: 'none' | 'top-n' | 'marked';
     topN: number;
     maxHandlers: number;
+    /** Handlers for 'marked' mode */
+    handlers?: WarmupHandlerRef[];
   };
+
+  /** Fair-share weights for queued requests (default: all weights 1) */
+  fairShare?: FairSharePolicy;
+
+  /** Autoscaler (default: disabled) */
+  autoscale?: AutoscaleConfig;
 }
 
 /**
@@ -65,6 +85,64 @@ export const DEFAULT_WORKER_POOL_CONFIG: WorkerPoolConfig = {
   },
 };
 
+// ============================================================================
+// Autoscaling
+// ============================================================================
+
+/**
+ * Autoscaler configuration (with defaults applied).
+ */
+export interface AutoscaleConfig {
+  enabled: boolean;
+  intervalMs: number;
+  scaleUpQueueDepth: number;
+  scaleUpQueueWaitMs: number;
+  scaleUpStep: number;
+  scaleUpCooldownMs: number;
+  scaleDownIdleMs: number;
+  scaleDownCooldownMs: number;
+}
+
+/**
+ * Default autoscaler configuration.
+ */
+export const DEFAULT_AUTOSCALE_CONFIG: AutoscaleConfig = {
+  enabled: false,
+  intervalMs: 1000,
+  scaleUpQueueDepth: 2,
+  scaleUpQueueWaitMs: 250,
+  scaleUpStep: 1,
+  scaleUpCooldownMs: 1000,
+  scaleDownIdleMs: 60_000,
+  scaleDownCooldownMs: 30_000,
+};
+
+/**
+ * Scaling decision made by the autoscaler.
+ */
+export interface ScalingDecision {
+  /** Scale direction */
+  direction: 'up' | 'down';
+
+  /** Worker count before the decision */
+  from: number;
+
+  /** Target worker count */
+  to: number;
+
+  /** What triggered the decision */
+  reason: 'queue-depth' | 'queue-wait' | 'idle';
+
+  /** Queue length at decision time */
+  queueLength: number;
+
+  /** Wait time of the oldest queued request (ms) */
+  oldestQueueWaitMs: number;
+
+  /** Decision time (epoch ms) */
+  timestamp: number;
+}
+
 // ============================================================================
 // Worker State
 // ============================================================================
@@ -101,6 +179,9 @@ export interface WorkerInfo {
   /** Last request start time (for timeout detection) */
   lastRequestStartedAt?: number;
 
+  /** Time when worker last became idle (for autoscaler scale-down) */
+  idleSince?: number;
+
   /** Current request execution ID (if busy) */
   currentExecutionId?: string;
 
@@ -126,10 +207,14 @@ export type WorkerMessageType =
   | 'result'      // Worker -> Pool: execution result
   | 'error'       // Worker -> Pool: execution error
   | 'log'         // Worker -> Pool: log entry (real-time streaming)
+  | 'stream'      // Worker -> Pool: ctx.api.stream progress/chunk (real-time streaming)
   | 'health'      // Pool -> Worker: health check request
   | 'healthOk'    // Worker -> Pool: health check response
   | 'shutdown'    // Pool -> Worker: graceful shutdown
-  | 'ready';      // Worker -> Pool: worker is ready
+  | 'ready'       // Worker -> Pool: worker is ready
+  | 'warmup'      // Pool -> Worker: pre-import handlers
+  | 'warmupDone'  // Worker -> Pool: warmup finished
+  | 'usage';      // Worker -> Pool: resource usage sample (quotas)
 
 /**
  * Base IPC message.
@@ -147,6 +232,10 @@ export interface ExecuteMessage extends BaseWorkerMessage {
   requestId: string;
   request: ExecutionRequest;
   timeoutMs: number;
+  /** Platform socket for this execution (no-op platform services without one) */
+  platformSocket?: PlatformSocketInfo;
+  /** File state store directory for ctx.api.state (default: platform cache) */
+  stateDir?: string;
 }
 
 /**
@@ -168,6 +257,7 @@ export interface ErrorMessage extends BaseWorkerMessage {
     message: string;
     code?: string;
     stack?: string;
+    details?: Record<string, unknown>;
   };
 }
 
@@ -207,6 +297,26 @@ export interface ReadyMessage extends BaseWorkerMessage {
   pid: number;
 }
 
+/**
+ * Warmup request (Pool -> Worker).
+ * Sent right after 'ready', before the worker accepts work.
+ */
+export interface WarmupMessage extends BaseWorkerMessage {
+  type: 'warmup';
+  handlers: WarmupHandlerRef[];
+}
+
+/**
+ * Warmup result (Worker -> Pool).
+ */
+export interface WarmupDoneMessage extends BaseWorkerMessage {
+  type: 'warmupDone';
+  /** Number of handlers imported (and warmed via PluginHandler.warmup() if present) */
+  warmed: number;
+  /** Handlers that failed to import or warm up */
+  failed: Array<{ handlerRef: string; error: string }>;
+}
+
 /**
  * Log entry message (Worker -> Pool) for real-time log streaming.
  */
@@ -223,6 +333,28 @@ export interface LogWorkerMessage extends BaseWorkerMessage {
   };
 }
 
+/**
+ * ctx.api.stream progress or chunk (Worker -> Pool), delivered like log entries.
+ */
+export interface StreamWorkerMessage extends BaseWorkerMessage {
+  type: 'stream';
+  requestId: string;
+  event: StreamEvent;
+}
+
+/**
+ * Resource usage sample (Worker -> Pool).
+ * Sent while a handler with memory/CPU quotas is running.
+ */
+export interface UsageWorkerMessage extends BaseWorkerMessage {
+  type: 'usage';
+  requestId: string;
+  /** CPU time (user + system) since execution start, ms */
+  cpuMs: number;
+  /** V8 heap used, MB */
+  heapUsedMb: number;
+}
+
 /**
  * All message types union.
  */
@@ -231,15 +363,40 @@ export type WorkerMessage =
   | ResultMessage
   | ErrorMessage
   | LogWorkerMessage
+  | StreamWorkerMessage
   | HealthMessage
   | HealthOkMessage
   | ShutdownMessage
-  | ReadyMessage;
+  | ReadyMessage
+  | WarmupMessage
+  | WarmupDoneMessage
+  | UsageWorkerMessage;
 
 // ============================================================================
 // Queue Types
 // ============================================================================
 
+/**
+ * Platform socket server dedicated to one execution.
+ * Its token is bound to the execution's permissions.
+ */
+export interface PlatformSocketInfo {
+  socketPath: string;
+  authToken: string;
+}
+
+/**
+ * Per-execution channels between a request and its worker: real-time
+ * callbacks (ExecuteOptions.onLog / onStream), the platform socket and
+ * the state store directory.
+ */
+export interface ExecutionChannels {
+  onLog?: OnLogCallback;
+  onStream?: OnStreamCallback;
+  platformSocket?: PlatformSocketInfo;
+  stateDir?: string;
+}
+
 /**
  * Queued execution request.
  */
@@ -253,6 +410,9 @@ export interface QueuedRequest {
   /** Abort signal (if provided) */
   signal?: AbortSignal;
 
+  /** Normalized priority class */
+  priority: ExecutionPriority;
+
   /** Time when request was queued */
   queuedAt: number;
 
@@ -261,6 +421,9 @@ export interface QueuedRequest {
 
   /** Reject callback for promise (for timeout/abort) */
   reject: (error: Error) => void;
+
+  /** Per-execution channels, attached once a worker picks the request up */
+  channels?: ExecutionChannels;
 }
 
 // ============================================================================
@@ -306,4 +469,30 @@ export interface WorkerPoolStats {
 
   /** P99 wait time in queue (ms) */
   p99QueueWaitMs?: number;
+
+  /** Queue depth and wait times per priority class */
+  queueByPriority: Record<ExecutionPriority, PriorityClassStats>;
+
+  /** Autoscaler scale-up decisions since start */
+  scaleUps: number;
+
+  /** Autoscaler scale-down decisions since start */
+  scaleDowns: number;
+
+  /** Most recent autoscaler decision */
+  lastScalingDecision?: ScalingDecision;
+}
+
+/**
+ * Queue statistics for a single priority class.
+ */
+export interface PriorityClassStats {
+  /** Requests currently queued in this class */
+  queueLength: number;
+
+  /** Average wait time in queue (ms) */
+  avgQueueWaitMs: number;
+
+  /** P99 wait time in queue (ms) */
+  p99QueueWaitMs?: number;
 }
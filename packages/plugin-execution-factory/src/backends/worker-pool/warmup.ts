@@ -0,0 +1,67 @@
+/**
+ * @module @kb-labs/plugin-execution-factory/backends/worker-pool/warmup
+ *
+ * Warmup handler selection for worker pool.
+ *
+ * Modes:
+ * - 'none': nothing is pre-imported
+ * - 'top-n': hottest handlers ranked by per-handler request counts
+ * - 'marked': handlers marked with `warmup: true` in the manifest
+ */
+
+import type { ManifestV3 } from '@kb-labs/plugin-contracts';
+import type { WarmupHandlerRef } from '../../types.js';
+import type { WorkerPoolConfig } from './types.js';
+import type { PoolStatsTracker } from './pool-stats.js';
+
+/**
+ * Collect handlers marked with `warmup: true` in a manifest.
+ *
+ * Scans CLI commands, REST routes and WebSocket channels.
+ * Duplicate handler refs are returned once.
+ *
+ * @param manifest - Plugin manifest
+ * @param pluginRoot - Plugin root directory (same as ExecutionRequest.pluginRoot)
+ */
+export function collectMarkedWarmupHandlers(
+  manifest: ManifestV3,
+  pluginRoot: string
+): WarmupHandlerRef[] {
+  const handlerRefs = new Set<string>();
+
+  for (const command of manifest.cli?.commands ?? []) {
+    if (command.warmup) {handlerRefs.add(command.handler);}
+  }
+
+  for (const route of manifest.rest?.routes ?? []) {
+    if (route.warmup) {handlerRefs.add(route.handler);}
+  }
+
+  for (const channel of manifest.ws?.channels ?? []) {
+    if (channel.warmup) {handlerRefs.add(channel.handler);}
+  }
+
+  return Array.from(handlerRefs, (handlerRef) => ({ pluginRoot, handlerRef }));
+}
+
+/**
+ * Select handlers a freshly spawned (or recycled) worker should warm up.
+ *
+ * Always capped by `warmup.maxHandlers`.
+ */
+export function selectWarmupHandlers(
+  warmup: WorkerPoolConfig['warmup'],
+  statsTracker: PoolStatsTracker
+): WarmupHandlerRef[] {
+  switch (warmup.mode) {
+    case 'top-n':
+      return statsTracker.getTopHandlers(Math.min(warmup.topN, warmup.maxHandlers));
+
+    case 'marked':
+      return (warmup.handlers ?? []).slice(0, warmup.maxHandlers);
+
+    case 'none':
+    default:
+      return [];
+  }
+}
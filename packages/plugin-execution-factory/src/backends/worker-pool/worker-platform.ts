@@ -0,0 +1,61 @@
+/**
+ * @module @kb-labs/plugin-execution/backends/worker-pool/worker-platform
+ *
+ * Platform services of a worker process.
+ *
+ * Each execution reaches the parent's platform through a Unix socket server
+ * dedicated to it (ExecuteMessage.platformSocket), the same RPC used by the
+ * subprocess backend. The server checks every call against the execution's
+ * permissions, so a handler can't use another execution's grants.
+ */
+
+import type { PlatformServices } from '@kb-labs/plugin-contracts';
+import { createNoOpPlatform } from '@kb-labs/core-platform/noop';
+import type { PlatformSocketInfo } from './types.js';
+
+// One connection per worker: a worker runs one execution at a time, and one
+// that times out is killed rather than handed the next request
+let connected = false;
+let warnedNoSocket = false;
+
+/**
+ * Connect to the platform socket of one execution.
+ *
+ * Falls back to a no-op platform when the request came without a socket
+ * (pools used without WorkerPoolBackend, tests).
+ */
+export async function openWorkerPlatform(
+  socket: PlatformSocketInfo | undefined
+): Promise<PlatformServices> {
+  if (!socket) {
+    if (!warnedNoSocket) {
+      const workerId = process.env.KB_WORKER_ID ?? 'unknown';
+      console.warn(`[Worker ${workerId}] No platform socket for execution, using no-op platform services`);
+      warnedNoSocket = true;
+    }
+    return createNoOpPlatform() as unknown as PlatformServices;
+  }
+
+  const { connectToPlatform } = await import('@kb-labs/plugin-runtime');
+
+  // The client takes its token from the environment; don't leave it there for handlers
+  process.env.KB_PLATFORM_SOCKET_TOKEN = socket.authToken;
+  try {
+    const platform = await connectToPlatform(socket.socketPath);
+    connected = true;
+    return platform;
+  } finally {
+    delete process.env.KB_PLATFORM_SOCKET_TOKEN;
+  }
+}
+
+/**
+ * Close the platform connection of the current execution (best effort).
+ */
+export async function closeWorkerPlatform(): Promise<void> {
+  if (!connected) {return;}
+  connected = false;
+
+  const { disconnectFromPlatform } = await import('@kb-labs/plugin-runtime');
+  await disconnectFromPlatform();
+}
@@ -3,6 +3,10 @@
  *
  * Worker subprocess entry point.
  * This script runs in a forked process and handles IPC messages.
+ *
+ * Platform services are reached through a Unix socket server the parent
+ * starts for each execution (ExecuteMessage.platformSocket), the same RPC
+ * used by the subprocess backend.
  */
 
 import type {
@@ -11,31 +15,81 @@ import type {
   ResultMessage,
   ErrorMessage,
   LogWorkerMessage,
+  StreamWorkerMessage,
   HealthOkMessage,
   ReadyMessage,
   ShutdownMessage,
+  WarmupMessage,
+  WarmupDoneMessage,
+  UsageWorkerMessage,
 } from './types.js';
-import type { PlatformServices } from '@kb-labs/plugin-contracts';
-import { createNoOpPlatform } from '@kb-labs/core-platform/noop';
+import { openWorkerPlatform, closeWorkerPlatform } from './worker-platform.js';
 
 // Worker state
 const workerId = process.env.KB_WORKER_ID ?? 'unknown';
 let isShuttingDown = false;
 
+// Descriptor keyring (KB_DESCRIPTOR_KEYS), kept out of the env handlers can read
+const descriptorKeysJson = process.env.KB_DESCRIPTOR_KEYS;
+delete process.env.KB_DESCRIPTOR_KEYS;
+
+/**
+ * Set RPC context env vars for the current execution.
+ * UnixSocketClient reads them on every call; a worker runs one request at a time.
+ */
+function setExecutionEnv(request: ExecuteMessage['request']): void {
+  process.env.KB_EXECUTION_ID = request.executionId;
+
+  if (request.context?.tenantId) {
+    process.env.KB_TENANT_ID = request.context.tenantId;
+  } else {
+    delete process.env.KB_TENANT_ID;
+  }
+
+  if (request.context?.traceId) {
+    process.env.KB_TRACE_ID = request.context.traceId;
+  } else {
+    delete process.env.KB_TRACE_ID;
+  }
+}
+
 /**
  * Handle execute message.
  */
 async function handleExecute(message: ExecuteMessage): Promise<void> {
-  const { requestId, request, timeoutMs: _timeoutMs } = message;
+  const { requestId, request, timeoutMs: _timeoutMs, platformSocket, stateDir } = message;
   const startMs = Date.now();
+  let stopUsageSampler: (() => void) | undefined;
 
   try {
     // Dynamic import to avoid loading at startup
-    const { runInProcess } = await import('@kb-labs/plugin-runtime');
+    const {
+      runInProcess,
+      resolveQuotas,
+      needsUsageSampling,
+      startUsageSampler,
+      parseDescriptorKeyring,
+      verifyDescriptor,
+      toStreamEvent,
+      createFileStateStore,
+    } = await import('@kb-labs/plugin-runtime');
     const { noopUI } = await import('@kb-labs/plugin-contracts');
     const path = await import('node:path');
     const fs = await import('node:fs');
 
+    // Refuse descriptors whose permissions were altered on the way to the worker
+    if (descriptorKeysJson) {
+      try {
+        verifyDescriptor(request.descriptor, parseDescriptorKeyring(descriptorKeysJson));
+      } catch (error) {
+        sendError(requestId, {
+          message: error instanceof Error ? error.message : String(error),
+          code: 'DESCRIPTOR_SIGNATURE_INVALID',
+        });
+        return;
+      }
+    }
+
     // Resolve handler path — strip export name (#default, #namedExport) before fs check
     const [handlerRef = request.handlerRef] = request.handlerRef.split('#');
     const handlerPath = path.resolve(request.pluginRoot, handlerRef);
@@ -48,17 +102,27 @@ async function handleExecute(message: ExecuteMessage): Promise<void> {
       return;
     }
 
-    // Create a minimal platform for worker
-    // In production, this would be injected via config
-    const platform = createNoOpPlatform() as unknown as PlatformServices;
+    // Real platform services via the execution's Unix socket
+    setExecutionEnv(request);
+    const platform = await openWorkerPlatform(platformSocket);
 
     // Resolve cwd from workspace config or inherit from parent process.
     // IMPORTANT: request.pluginRoot is the plugin package directory (e.g. qa-cli/dist),
     // NOT the workspace root. Handlers expect ctx.cwd = monorepo root.
     const cwd = request.workspace?.cwd ?? process.cwd();
 
-    // Create eventEmitter that sends log messages to pool via IPC
+    // Create eventEmitter that sends log and stream messages to pool via IPC
     const eventEmitter = async (name: string, payload?: unknown) => {
+      const streamEvent = toStreamEvent(name, payload);
+      if (streamEvent) {
+        const streamMsg: StreamWorkerMessage = {
+          type: 'stream',
+          requestId,
+          event: streamEvent,
+        };
+        process.send!(streamMsg);
+        return;
+      }
       if ((name === 'log.line' || name.endsWith(':log.line')) && payload && typeof payload === 'object') {
         const p = payload as Record<string, unknown>;
         const logMsg: LogWorkerMessage = {
@@ -77,17 +141,38 @@ async function handleExecute(message: ExecuteMessage): Promise<void> {
       }
     };
 
-    // Execute handler
-    const result = await runInProcess({
-      descriptor: request.descriptor,
-      platform,
-      ui: noopUI,
-      eventEmitter,
-      handlerPath,
-      cwd,
-      input: request.input,
-    });
+    // Report resource usage so the pool can enforce memory/CPU quotas.
+    // Heap is measured from here: the worker's heap holds earlier executions too
+    if (needsUsageSampling(resolveQuotas(request.descriptor.permissions))) {
+      stopUsageSampler = startUsageSampler((sample) => {
+        const usageMessage: UsageWorkerMessage = {
+          type: 'usage',
+          requestId,
+          ...sample,
+        };
+        process.send!(usageMessage);
+      }, { heapBaseline: true });
+    }
+
+    // Execute handler, disconnecting before the worker reports back and takes new work
+    let result: Awaited<ReturnType<typeof runInProcess>>;
+    try {
+      result = await runInProcess({
+        descriptor: request.descriptor,
+        platform,
+        ui: noopUI,
+        eventEmitter,
+        handlerPath,
+        cwd,
+        input: request.input,
+        stateStore: stateDir ? createFileStateStore({ dir: stateDir }) : undefined,
+      });
+    } finally {
+      await closeWorkerPlatform().catch(() => {});
+    }
 
+    stopUsageSampler?.();
+    stopUsageSampler = undefined;
     const elapsedMs = Date.now() - startMs;
 
     // Send result
@@ -108,20 +193,65 @@ async function handleExecute(message: ExecuteMessage): Promise<void> {
 
     process.send!(resultMessage);
   } catch (error) {
+    stopUsageSampler?.();
+    // Keep PluginError codes and details, the pool normalizes them
+    const { code, details } = (error ?? {}) as { code?: unknown; details?: unknown };
     sendError(requestId, {
       message: error instanceof Error ? error.message : String(error),
-      code: 'HANDLER_ERROR',
+      code: typeof code === 'string' && code ? code : 'HANDLER_ERROR',
       stack: error instanceof Error ? error.stack : undefined,
+      details: typeof details === 'object' && details !== null
+        ? details as Record<string, unknown>
+        : undefined,
     });
   }
 }
 
+/**
+ * Handle warmup message.
+ *
+ * Loads each handler the way runInProcess does (same absolute path, so the
+ * module cache is shared, and same export) and calls its optional warmup() hook.
+ */
+async function handleWarmup(message: WarmupMessage): Promise<void> {
+  const path = await import('node:path');
+  const { loadHandler } = await import('@kb-labs/plugin-runtime');
+  let warmed = 0;
+  const failed: WarmupDoneMessage['failed'] = [];
+
+  for (const { pluginRoot, handlerRef } of message.handlers) {
+    try {
+      // Export name is ignored, as on execution
+      const [relPath = handlerRef] = handlerRef.split('#');
+      const handler = await loadHandler(path.resolve(pluginRoot, relPath));
+
+      if (typeof handler.warmup === 'function') {
+        await handler.warmup();
+      }
+
+      warmed++;
+    } catch (error) {
+      failed.push({
+        handlerRef,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const doneMessage: WarmupDoneMessage = {
+    type: 'warmupDone',
+    warmed,
+    failed,
+  };
+  process.send!(doneMessage);
+}
+
 /**
  * Send error message to parent.
  */
 function sendError(
   requestId: string,
-  error: { message: string; code?: string; stack?: string }
+  error: ErrorMessage['error']
 ): void {
   const errorMessage: ErrorMessage = {
     type: 'error',
@@ -154,6 +284,9 @@ function handleHealth(): void {
 function handleShutdown(message: ShutdownMessage): void {
   isShuttingDown = true;
 
+  // Close platform connection (best effort)
+  closeWorkerPlatform().catch(() => {});
+
   if (message.graceful) {
     // Let current work finish, then exit
     setTimeout(() => {
@@ -177,6 +310,10 @@ function onMessage(message: WorkerMessage): void {
       handleExecute(message as ExecuteMessage);
       break;
 
+    case 'warmup':
+      handleWarmup(message as WarmupMessage);
+      break;
+
     case 'health':
       handleHealth();
       break;
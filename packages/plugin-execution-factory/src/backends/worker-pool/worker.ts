@@ -16,10 +16,16 @@ import type {
   ResultMessage,
   ErrorMessage,
   LogWorkerMessage,
+  StreamWorkerMessage,
+  ExecutionChannels,
   ReadyMessage,
+  WarmupMessage,
+  WarmupDoneMessage,
+  UsageWorkerMessage,
 } from './types.js';
-import type { ExecutionRequest, ExecutionResult } from '../../types.js';
+import type { ExecutionRequest, ExecutionResult, WarmupHandlerRef } from '../../types.js';
 import { WorkerCrashedError } from '../../errors.js';
+import { resolveQuotas, checkUsage, createTimeoutError, type ResolvedQuotas } from '@kb-labs/plugin-runtime';
 
 /**
  * Worker events.
@@ -30,6 +36,7 @@ export interface WorkerEvents {
   error: [executionId: string, error: Error];
   exit: [worker: Worker, code: number | null, signal: string | null];
   healthUpdate: [worker: Worker, healthy: boolean];
+  warmedUp: [worker: Worker, result: Omit<WarmupDoneMessage, 'type'>];
 }
 
 /**
@@ -44,10 +51,20 @@ export interface WorkerOptions {
 
   /** Timeout for health check response (ms) */
   healthCheckTimeoutMs?: number;
+
+  /** Timeout for handler warmup after startup (ms) */
+  warmupTimeoutMs?: number;
+
+  /** Extra environment for the worker process */
+  env?: Record<string, string>;
+
+  /** Extra Node.js flags for the worker process (e.g. heap cap) */
+  execArgv?: string[];
 }
 
 const DEFAULT_STARTUP_TIMEOUT = 10_000;
 const DEFAULT_HEALTH_CHECK_TIMEOUT = 5_000;
+const DEFAULT_WARMUP_TIMEOUT = 30_000;
 
 /**
  * Worker - manages a single worker subprocess.
@@ -55,10 +72,11 @@ const DEFAULT_HEALTH_CHECK_TIMEOUT = 5_000;
  * Lifecycle:
  * 1. spawn() - fork subprocess
  * 2. wait for 'ready' message
- * 3. execute() - send work and wait for result
- * 4. healthCheck() - verify worker is responsive
- * 5. shutdown() - graceful shutdown
- * 6. kill() - forceful termination
+ * 3. warmup (optional) - pre-import handlers before accepting work
+ * 4. execute() - send work and wait for result
+ * 5. healthCheck() - verify worker is responsive
+ * 6. shutdown() - graceful shutdown
+ * 7. kill() - forceful termination
  */
 export class Worker extends EventEmitter<WorkerEvents> {
   readonly id: string;
@@ -72,7 +90,8 @@ export class Worker extends EventEmitter<WorkerEvents> {
     resolve: (result: ExecutionResult) => void;
     reject: (error: Error) => void;
     timeoutId: ReturnType<typeof setTimeout>;
-    onLog?: (entry: { level: string; message: string; stream: 'stdout' | 'stderr'; lineNo: number; timestamp: string; meta?: Record<string, unknown> }) => void;
+    quotas: ResolvedQuotas;
+    channels: ExecutionChannels;
   }>();
 
   // Health check tracking
@@ -86,6 +105,9 @@ export class Worker extends EventEmitter<WorkerEvents> {
       workerScript: options.workerScript,
       startupTimeoutMs: options.startupTimeoutMs ?? DEFAULT_STARTUP_TIMEOUT,
       healthCheckTimeoutMs: options.healthCheckTimeoutMs ?? DEFAULT_HEALTH_CHECK_TIMEOUT,
+      warmupTimeoutMs: options.warmupTimeoutMs ?? DEFAULT_WARMUP_TIMEOUT,
+      env: options.env ?? {},
+      execArgv: options.execArgv ?? [],
     };
 
     this._info = {
@@ -120,8 +142,11 @@ export class Worker extends EventEmitter<WorkerEvents> {
 
   /**
    * Spawn worker subprocess.
+   *
+   * @param warmupHandlers - Handlers to pre-import before the worker becomes idle.
+   *   Warmup failures and timeouts are reported via 'warmedUp' but never fail the spawn.
    */
-  async spawn(): Promise<void> {
+  async spawn(warmupHandlers: WarmupHandlerRef[] = []): Promise<void> {
     if (this._state !== 'stopped') {
       throw new Error(`Cannot spawn worker in state: ${this._state}`);
     }
@@ -140,8 +165,10 @@ export class Worker extends EventEmitter<WorkerEvents> {
         // Fork the worker process
         this.process = fork(this.options.workerScript, [], {
           stdio: ['pipe', 'inherit', 'inherit', 'ipc'],
+          execArgv: [...process.execArgv, ...this.options.execArgv],
           env: {
             ...process.env,
+            ...this.options.env,
             KB_WORKER_ID: this.id,
           },
         });
@@ -168,15 +195,33 @@ export class Worker extends EventEmitter<WorkerEvents> {
           reject(error);
         });
 
+        const markReady = () => {
+          this._state = 'idle';
+          this._info.idleSince = Date.now();
+          this._info.healthy = true;
+          this.emit('ready', this);
+          resolve();
+        };
+
         // Wait for ready message
         const onReady = (msg: WorkerMessage) => {
           if (msg.type === 'ready') {
             clearTimeout(startupTimeout);
-            this._state = 'idle';
-            this._info.healthy = true;
             this._info.pid = (msg as ReadyMessage).pid;
-            this.emit('ready', this);
-            resolve();
+
+            if (warmupHandlers.length === 0) {
+              markReady();
+              return;
+            }
+
+            this.warmup(warmupHandlers).finally(() => {
+              // Worker may have exited while warming up
+              if (this._state === 'starting') {
+                markReady();
+              } else {
+                reject(new Error(`Worker ${this.id} exited during warmup`));
+              }
+            });
           }
         };
 
@@ -189,10 +234,62 @@ export class Worker extends EventEmitter<WorkerEvents> {
     });
   }
 
+  /**
+   * Send warmup request and wait for the worker to finish (or time out).
+   */
+  private warmup(handlers: WarmupHandlerRef[]): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const proc = this.process;
+      if (!proc) {
+        resolve();
+        return;
+      }
+
+      const done = () => {
+        clearTimeout(timeout);
+        proc.off('message', onMessage);
+        proc.off('exit', done);
+        resolve();
+      };
+
+      const onMessage = (msg: WorkerMessage) => {
+        if (msg.type === 'warmupDone') {
+          const { warmed, failed } = msg as WarmupDoneMessage;
+          this.emit('warmedUp', this, { warmed, failed });
+          done();
+        }
+      };
+
+      const timeout = setTimeout(() => {
+        done();
+        this.emit('warmedUp', this, {
+          warmed: 0,
+          failed: [{ handlerRef: '*', error: `Warmup timed out after ${this.options.warmupTimeoutMs}ms` }],
+        });
+      }, this.options.warmupTimeoutMs);
+
+      proc.on('message', onMessage);
+      proc.once('exit', done);
+
+      const message: WarmupMessage = {
+        type: 'warmup',
+        handlers,
+      };
+      proc.send(message);
+    });
+  }
+
   /**
    * Execute a request on this worker.
+   *
+   * Handler quotas (descriptor.permissions.quotas) apply on top of timeoutMs:
+   * quota timeout overrides it, memory/CPU are checked against usage samples
+   * (memory as heap growth since the execution started).
+   * A timeout or quota breach kills the worker - the handler may still be
+   * running, and must not share the worker (or its platform socket) with the
+   * next execution.
    */
-  async execute(request: ExecutionRequest, timeoutMs: number, onLog?: (entry: { level: string; message: string; stream: 'stdout' | 'stderr'; lineNo: number; timestamp: string; meta?: Record<string, unknown> }) => void): Promise<ExecutionResult> {
+  async execute(request: ExecutionRequest, timeoutMs: number, channels: ExecutionChannels = {}): Promise<ExecutionResult> {
     if (this._state !== 'idle') {
       throw new Error(`Worker ${this.id} is not available (state: ${this._state})`);
     }
@@ -206,14 +303,13 @@ export class Worker extends EventEmitter<WorkerEvents> {
     this._info.lastRequestStartedAt = Date.now();
     this._info.currentExecutionId = executionId;
 
+    const quotas = resolveQuotas(request.descriptor.permissions, timeoutMs);
+
     return new Promise<ExecutionResult>((resolve, reject) => {
       // Setup timeout
       const timeoutId = setTimeout(() => {
-        this.pendingRequests.delete(executionId);
-        this._state = 'idle';
-        this._info.currentExecutionId = undefined;
-        reject(new Error(`Execution ${executionId} timed out after ${timeoutMs}ms`));
-      }, timeoutMs);
+        this.failAndRecycle(executionId, createTimeoutError(quotas));
+      }, quotas.timeoutMs);
 
       // Store pending request
       this.pendingRequests.set(executionId, {
@@ -221,6 +317,7 @@ export class Worker extends EventEmitter<WorkerEvents> {
           clearTimeout(timeoutId);
           this.pendingRequests.delete(executionId);
           this._state = 'idle';
+          this._info.idleSince = Date.now();
           this._info.currentExecutionId = undefined;
           this._info.requestCount++;
           resolve(result);
@@ -229,11 +326,13 @@ export class Worker extends EventEmitter<WorkerEvents> {
           clearTimeout(timeoutId);
           this.pendingRequests.delete(executionId);
           this._state = 'idle';
+          this._info.idleSince = Date.now();
           this._info.currentExecutionId = undefined;
           reject(error);
         },
         timeoutId,
-        onLog,
+        quotas,
+        channels,
       });
 
       // Send execute message
@@ -241,7 +340,9 @@ export class Worker extends EventEmitter<WorkerEvents> {
         type: 'execute',
         requestId: executionId,
         request,
-        timeoutMs,
+        timeoutMs: quotas.timeoutMs,
+        platformSocket: channels.platformSocket,
+        stateDir: channels.stateDir,
       };
 
       this.process!.send(message);
@@ -348,6 +449,22 @@ export class Worker extends EventEmitter<WorkerEvents> {
     this._info.healthy = false;
   }
 
+  /**
+   * Reject execution (timeout or quota breach) and kill the worker process.
+   * The resulting exit is reported via 'exit' so the pool replaces the worker.
+   */
+  private failAndRecycle(executionId: string, error: Error): void {
+    const pending = this.pendingRequests.get(executionId);
+    if (!pending) {
+      return;
+    }
+
+    pending.reject(error);
+    this._state = 'draining';
+    this._info.lastError = error.message;
+    this.process?.kill('SIGKILL');
+  }
+
   /**
    * Check if worker should be recycled.
    */
@@ -382,8 +499,11 @@ export class Worker extends EventEmitter<WorkerEvents> {
         const msg = message as ErrorMessage;
         const pending = this.pendingRequests.get(msg.requestId);
         if (pending) {
-          const error = new Error(msg.error.message);
-          (error as any).code = msg.error.code;
+          // Code and details are kept for normalizeError (plugin codes, REST ErrorSpec)
+          const error = Object.assign(new Error(msg.error.message), {
+            code: msg.error.code,
+            details: msg.error.details,
+          });
           error.stack = msg.error.stack;
           pending.reject(error);
         }
@@ -393,8 +513,25 @@ export class Worker extends EventEmitter<WorkerEvents> {
       case 'log': {
         const msg = message as LogWorkerMessage;
         const pending = this.pendingRequests.get(msg.requestId);
-        if (pending?.onLog) {
-          pending.onLog(msg.entry);
+        if (pending?.channels.onLog) {
+          pending.channels.onLog(msg.entry);
+        }
+        break;
+      }
+
+      case 'stream': {
+        const msg = message as StreamWorkerMessage;
+        const pending = this.pendingRequests.get(msg.requestId);
+        pending?.channels.onStream?.(msg.event);
+        break;
+      }
+
+      case 'usage': {
+        const msg = message as UsageWorkerMessage;
+        const pending = this.pendingRequests.get(msg.requestId);
+        const breach = pending ? checkUsage(msg, pending.quotas) : null;
+        if (breach) {
+          this.failAndRecycle(msg.requestId, breach);
         }
         break;
       }
@@ -404,7 +541,8 @@ export class Worker extends EventEmitter<WorkerEvents> {
         break;
       }
 
-      case 'ready': {
+      case 'ready':
+      case 'warmupDone': {
         // Handled in spawn()
         break;
       }
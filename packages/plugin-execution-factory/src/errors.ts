@@ -28,6 +28,10 @@ const KNOWN_ERROR_CODES: Set<ExecutionErrorCode> = new Set([
   'ACQUIRE_TIMEOUT',
   'WORKER_CRASHED',
   'WORKER_UNHEALTHY',
+  // Phase 3: Quota codes
+  'QUOTA_MEMORY_EXCEEDED',
+  'QUOTA_CPU_EXCEEDED',
+  'QUOTA_TIMEOUT_EXCEEDED',
 ]);
 
 /**
@@ -64,7 +68,7 @@ export class ExecutionLayerError extends Error {
   toJSON(): ExecutionError {
     return {
       message: this.message,
-      code: this.code,
+      code: this.code as ExecutionError['code'],
       stack: this.stack,
       details: this.details,
     };
@@ -11,6 +11,7 @@ import { SubprocessBackend } from './backends/subprocess.js';
 import { WorkerPoolBackend } from './backends/worker-pool/backend.js';
 import { RemoteBackend } from './backends/remote.js';
 import { SubprocessRunnerAdapter } from './adapters/index.js';
+import { createFileStateStore } from '@kb-labs/plugin-runtime';
 
 /**
  * Create execution backend based on options.
@@ -46,6 +47,7 @@ export function createExecutionBackend(options: BackendOptions): ExecutionBacken
         platform: options.platform,
         uiProvider: options.uiProvider,
         pluginInvoker: options.pluginInvoker,
+        stateStore: options.stateDir ? createFileStateStore({ dir: options.stateDir }) : undefined,
       });
 
     case 'subprocess':
@@ -53,6 +55,7 @@ export function createExecutionBackend(options: BackendOptions): ExecutionBacken
         platform: options.platform,
         runner: new SubprocessRunnerAdapter(),
         uiProvider: options.uiProvider,
+        stateDir: options.stateDir,
       });
 
     case 'worker-pool':
@@ -64,7 +67,11 @@ export function createExecutionBackend(options: BackendOptions): ExecutionBacken
         maxRequestsPerWorker: options.workerPool?.maxRequestsPerWorker ?? 1000,
         maxUptimeMsPerWorker: options.workerPool?.maxUptimeMsPerWorker ?? 30 * 60 * 1000,
         maxConcurrentPerPlugin: options.workerPool?.maxConcurrentPerPlugin,
+        maxHeapMb: options.workerPool?.maxHeapMb,
         warmup: options.workerPool?.warmup ?? { mode: 'none', topN: 5, maxHandlers: 20 },
+        fairShare: options.workerPool?.fairShare,
+        autoscale: options.workerPool?.autoscale,
+        stateDir: options.stateDir,
       });
 
     case 'remote': {
@@ -159,12 +166,14 @@ function createLocalBackend(options: BackendOptions): ExecutionBackend {
         platform: options.platform,
         uiProvider: options.uiProvider,
         pluginInvoker: options.pluginInvoker,
+        stateStore: options.stateDir ? createFileStateStore({ dir: options.stateDir }) : undefined,
       });
     case 'subprocess':
       return new SubprocessBackend({
         platform: options.platform,
         runner: new SubprocessRunnerAdapter(),
         uiProvider: options.uiProvider,
+        stateDir: options.stateDir,
       });
     case 'worker-pool':
       return new WorkerPoolBackend({
@@ -175,13 +184,18 @@ function createLocalBackend(options: BackendOptions): ExecutionBackend {
         maxRequestsPerWorker: options.workerPool?.maxRequestsPerWorker ?? 1000,
         maxUptimeMsPerWorker: options.workerPool?.maxUptimeMsPerWorker ?? 30 * 60 * 1000,
         maxConcurrentPerPlugin: options.workerPool?.maxConcurrentPerPlugin,
+        maxHeapMb: options.workerPool?.maxHeapMb,
         warmup: options.workerPool?.warmup ?? { mode: 'none', topN: 5, maxHandlers: 20 },
+        fairShare: options.workerPool?.fairShare,
+        autoscale: options.workerPool?.autoscale,
+        stateDir: options.stateDir,
       });
     default:
       return new InProcessBackend({
         platform: options.platform,
         uiProvider: options.uiProvider,
         pluginInvoker: options.pluginInvoker,
+        stateStore: options.stateDir ? createFileStateStore({ dir: options.stateDir }) : undefined,
       });
   }
 }
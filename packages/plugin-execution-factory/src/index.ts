@@ -37,26 +37,41 @@ export {
 
 export {
   SubprocessBackend,
+  createDefaultIPCServerFactory,
   type SubprocessBackendOptions,
+  type IPCServer,
+  type IPCServerFactory,
+  type IPCServerOptions,
 } from './backends/subprocess.js';
 
+export {
+  PlatformStreamServer,
+  STREAMABLE_METHODS,
+  SUBSCRIBABLE_METHODS,
+  DEFAULT_MAX_BUFFERED_EVENTS,
+  type PlatformStreamServerOptions,
+} from './backends/platform-stream-server.js';
+
 export {
   WorkerPoolBackend,
   type WorkerPoolBackendOptions,
 } from './backends/worker-pool/backend.js';
 
 // Adapters
-export { SubprocessRunnerAdapter } from './adapters/index.js';
+export { SubprocessRunnerAdapter, type HostSubprocessRunOptions, type UISubprocessRunOptions } from './adapters/index.js';
 
 // Worker-pool internals (re-exported for facade package compatibility)
 export {
   DEFAULT_WORKER_POOL_CONFIG,
+  collectMarkedWarmupHandlers,
 } from './backends/worker-pool/index.js';
 export type {
   WorkerPoolConfig,
   WorkerState,
   WorkerInfo,
   WorkerPoolStats,
+  PriorityClassStats,
+  ScalingDecision,
   QueuedRequest,
   WorkerMessage,
   ExecuteMessage,
@@ -66,8 +81,28 @@ export type {
   HealthOkMessage,
   ShutdownMessage,
   ReadyMessage,
+  WarmupMessage,
+  WarmupDoneMessage,
 } from './backends/worker-pool/index.js';
 
+// Descriptor signing (hosts sign, runtimes verify) - re-exported from @kb-labs/plugin-runtime
+export {
+  signDescriptor,
+  verifyDescriptor,
+  descriptorSigningKeyFromEnv,
+  descriptorKeyringFromEnv,
+  type DescriptorSigningKey,
+  type DescriptorVerificationKey,
+  type DescriptorKeyring,
+} from '@kb-labs/plugin-runtime';
+
+// Schema validation (REST input/output) - re-exported from @kb-labs/plugin-runtime
+export {
+  validateJsonSchema,
+  findUnsupportedJsonSchemaKeywords,
+  type SchemaIssue,
+} from '@kb-labs/plugin-runtime';
+
 // Workspace
 export {
   type WorkspaceManager,
@@ -107,16 +142,22 @@ export type {
   BackendOptions,
   WorkerPoolOptions,
   WarmupPolicy,
+  WarmupHandlerRef,
+  FairSharePolicy,
+  AutoscalePolicy,
+  ExecutionPriority,
   RemoteOptions,
   ExecutionRequest,
   ExecutionResponse,
   ExecutionResult,
   ExecutionError,
   ExecutionErrorCode,
+  QuotaErrorCode,
   ExecutionMetadata,
   ExecuteOptions,
   LogEntry,
   OnLogCallback,
+  OnStreamCallback,
   HealthStatus,
   ExecutionStats,
   WorkspaceConfig,
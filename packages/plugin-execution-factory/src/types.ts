@@ -27,6 +27,7 @@ import type {
   PermissionSpec,
   UIFacade,
   InvokeOptions,
+  StreamEvent,
 } from '@kb-labs/plugin-contracts';
 import type {
   ExecutionRequest as CoreExecutionRequest,
@@ -137,7 +138,19 @@ export interface HandlerSchema {
  * Note: descriptor.requestId is for request correlation in distributed tracing.
  * executionId is for this specific execution attempt (may retry same requestId).
  */
-export type ExecutionRequest = CoreExecutionRequest<PluginContextDescriptor>;
+export type ExecutionRequest = CoreExecutionRequest<PluginContextDescriptor> & {
+  /**
+   * Scheduling priority (worker pool only, default: 'normal').
+   * Accepts a class name (WorkflowRunOptions.priority) or a 0-100 number (JobSubmission.priority).
+   */
+  priority?: ExecutionPriority | number;
+};
+
+/**
+ * Priority class used by the worker pool scheduler.
+ * Higher classes are always dequeued first.
+ */
+export type ExecutionPriority = 'low' | 'normal' | 'high' | 'critical';
 
 // ============================================================================
 // Workspace Configuration
@@ -171,15 +184,31 @@ export type ExecutionResponse = CoreExecutionResponse;
 /**
  * Structured error with code and details.
  */
-export type ExecutionError = CoreExecutionError;
+export interface ExecutionError extends CoreExecutionError {
+  /**
+   * Code of the PluginError thrown by the handler (e.g. 'CONFIG_NOT_RESOLVED')
+   * when it is not an execution-layer code; `code` is then 'HANDLER_ERROR'.
+   * REST hosts map it through the route's declared errors.
+   */
+  pluginCode?: string;
+}
+
+/**
+ * Resource quota breach codes (PermissionSpec.quotas).
+ */
+export type QuotaErrorCode =
+  | 'QUOTA_MEMORY_EXCEEDED'
+  | 'QUOTA_CPU_EXCEEDED'
+  | 'QUOTA_TIMEOUT_EXCEEDED';
 
 /**
  * Standardized error codes.
  *
  * Phase 1: Core codes (all implemented)
  * Phase 2: Pool-specific codes (reserved, not yet implemented)
+ * Phase 3: Quota codes
  */
-export type ExecutionErrorCode = CoreExecutionErrorCode;
+export type ExecutionErrorCode = CoreExecutionErrorCode | QuotaErrorCode;
 
 /**
  * Execution metadata for observability.
@@ -240,6 +269,11 @@ export interface LogEntry {
  */
 export type OnLogCallback = (entry: LogEntry) => void;
 
+/**
+ * Callback for receiving ctx.api.stream progress and chunks during execution.
+ */
+export type OnStreamCallback = (event: StreamEvent) => void;
+
 /**
  * Execute options.
  */
@@ -254,6 +288,10 @@ export interface ExecuteOptions {
    * - Remote: streaming transport → onLog
    */
   onLog?: OnLogCallback;
+  /**
+   * Callback for ctx.api.stream progress and chunks, delivered like onLog.
+   */
+  onStream?: OnStreamCallback;
   [key: string]: unknown;
 }
 
@@ -310,6 +348,12 @@ export interface BackendOptions {
    */
   pluginInvoker?: PluginInvokerFn;
 
+  /**
+   * File state store directory for ctx.api.state, shared by all local modes
+   * (default: platform cache).
+   */
+  stateDir?: string;
+
   /**
    * Worker pool options (only for worker-pool mode).
    */
@@ -340,8 +384,72 @@ export interface WorkerPoolOptions {
   /** Max concurrent executions per plugin (default: no limit) */
   maxConcurrentPerPlugin?: number;
 
+  /**
+   * V8 heap cap per worker process in MB (--max-old-space-size).
+   * Workers are shared, so there is no per-handler heap cap: quotas.memoryMb
+   * is enforced by sampling the heap growth of each execution.
+   */
+  maxHeapMb?: number;
+
+  /** File state store directory for ctx.api.state (default: platform cache) */
+  stateDir?: string;
+
   /** Warmup policy */
   warmup?: WarmupPolicy;
+
+  /** Fair-share weights for queued requests */
+  fairShare?: FairSharePolicy;
+
+  /** Autoscaling between min and max driven by queue pressure */
+  autoscale?: AutoscalePolicy;
+}
+
+/**
+ * Autoscaling policy for the worker pool.
+ *
+ * Scale-up and scale-down use separate thresholds (hysteresis):
+ * the pool grows under queue pressure and shrinks only after the queue
+ * has been empty and workers have stayed idle for `scaleDownIdleMs`.
+ */
+export interface AutoscalePolicy {
+  /** Enable autoscaling (default: true when policy is provided) */
+  enabled?: boolean;
+
+  /** Evaluation interval in ms (default: 1000) */
+  intervalMs?: number;
+
+  /** Scale up when queue length reaches this (default: 2) */
+  scaleUpQueueDepth?: number;
+
+  /** Scale up when the oldest queued request has waited this long in ms (default: 250) */
+  scaleUpQueueWaitMs?: number;
+
+  /** Workers added per scale-up (default: 1) */
+  scaleUpStep?: number;
+
+  /** Min time between scale-ups in ms (default: 1000) */
+  scaleUpCooldownMs?: number;
+
+  /** Idle time after which a worker may be retired in ms (default: 60000) */
+  scaleDownIdleMs?: number;
+
+  /** Min time since last scaling action before scaling down in ms (default: 30000) */
+  scaleDownCooldownMs?: number;
+}
+
+/**
+ * Weighted fair queuing policy for the worker pool queue.
+ *
+ * Within a priority class, queued requests are shared first across tenants,
+ * then across plugins of the same tenant, proportionally to their weights.
+ * Unlisted tenants/plugins get weight 1.
+ */
+export interface FairSharePolicy {
+  /** Weight per tenant ID (requests without tenant use 'default') */
+  tenantWeights?: Record<string, number>;
+
+  /** Weight per plugin ID */
+  pluginWeights?: Record<string, number>;
 }
 
 /**
@@ -364,6 +472,24 @@ export interface WarmupPolicy {
 
   /** Max handlers to warmup (safety limit, default: 20) */
   maxHandlers?: number;
+
+  /**
+   * For 'marked': handlers to warmup.
+   * Build from manifests with collectMarkedWarmupHandlers().
+   */
+  handlers?: WarmupHandlerRef[];
+}
+
+/**
+ * Handler reference used for warmup.
+ * Identifies a handler module the same way ExecutionRequest does.
+ */
+export interface WarmupHandlerRef {
+  /** Plugin root directory */
+  pluginRoot: string;
+
+  /** Handler reference relative to plugin root (may include #exportName) */
+  handlerRef: string;
 }
 
 /**
@@ -101,11 +101,15 @@ export function normalizeError(error: unknown): ExecutionError {
 
     return {
       message: error.message,
-      code,
+      code: code as ExecutionError['code'],
       stack: error.stack,
       details: typeof anyError.details === 'object' && anyError.details !== null
         ? anyError.details as Record<string, unknown>
         : undefined,
+      // Keep the handler's own code for hosts that map it (REST ErrorSpec)
+      ...(typeof rawCode === 'string' && rawCode && !isKnownErrorCode(rawCode)
+        ? { pluginCode: rawCode }
+        : {}),
     };
   }
 
@@ -0,0 +1,240 @@
+/**
+ * @file Unit tests for OpenAPI generation, merging and serving
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { ManifestV3, RestRouteDecl } from '@kb-labs/plugin-contracts';
+import { generateOpenApiDocument, mergeOpenApiDocuments, mountOpenApi } from '../openapi.js';
+import { mountRoutes } from '../route-mounter.js';
+import type { ExecutionBackend } from '../../types.js';
+
+describe('OpenAPI', () => {
+  let pluginRoot: string;
+
+  const manifest = (id: string, routes: RestRouteDecl[], basePath?: `/v1/plugins/${string}`): ManifestV3 => ({
+    schema: 'kb.plugin/3',
+    id,
+    version: '1.2.0',
+    display: { name: 'Items', description: 'Item catalog' },
+    rest: { basePath, routes },
+  });
+
+  beforeEach(() => {
+    pluginRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-openapi-'));
+    fs.writeFileSync(path.join(pluginRoot, 'schemas.json'), JSON.stringify({
+      definitions: {
+        ItemQuery: {
+          type: 'object',
+          properties: {
+            q: { type: 'string', description: 'Search text' },
+            limit: { type: 'integer', default: 10 },
+          },
+          required: ['q'],
+        },
+        Item: {
+          type: 'object',
+          properties: { id: { type: 'string' }, tags: { type: 'array', items: { $ref: '#/definitions/Tag' } } },
+          required: ['id'],
+        },
+        Tag: { type: 'string', minLength: 1 },
+      },
+    }));
+    fs.writeFileSync(path.join(pluginRoot, 'zod-schemas.mjs'), `
+      const jsonSchema = { $schema: 'https://json-schema.org/draft/2020-12/schema', type: 'object', properties: { name: { type: 'string' } } };
+      export const CreateItem = { safeParse: (value) => ({ success: true, data: value }), toJSONSchema: () => jsonSchema };
+      export const Opaque = { safeParse: (value) => ({ success: true, data: value }) };
+    `);
+  });
+
+  describe('generateOpenApiDocument()', () => {
+    it('describes routes under the given basePath', async () => {
+      const document = await generateOpenApiDocument(manifest('@kb-labs/items', [
+        { method: 'GET', path: '/items', handler: './list.js', description: 'List items', input: { $ref: './schemas.json#/definitions/ItemQuery' } },
+        { method: 'GET', path: '/items/:id', handler: './get.js', output: { $ref: './schemas.json#/definitions/Item' } },
+      ]), { pluginRoot, basePath: '/v1/plugins/items' });
+
+      expect(document.openapi).toBe('3.1.0');
+      expect(document.info).toEqual({ title: 'Items', version: '1.2.0', description: 'Item catalog' });
+      expect(Object.keys(document.paths)).toEqual(['/v1/plugins/items/items', '/v1/plugins/items/items/{id}']);
+
+      const list = document.paths['/v1/plugins/items/items']!.get!;
+      expect(list.operationId).toBe('kb_labs_items_GET_items');
+      expect(list.description).toBe('List items');
+      expect(list.parameters).toEqual([
+        { name: 'q', in: 'query', required: true, description: 'Search text', schema: { type: 'string', description: 'Search text' } },
+        { name: 'limit', in: 'query', required: false, schema: { type: 'integer', default: 10 } },
+      ]);
+
+      const get = document.paths['/v1/plugins/items/items/{id}']!.get!;
+      expect(get.parameters).toEqual([{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }]);
+      // Local $refs are inlined
+      expect(get.responses['200']!.content!['application/json']!.schema).toEqual({
+        type: 'object',
+        properties: { id: { type: 'string' }, tags: { type: 'array', items: { type: 'string', minLength: 1 } } },
+        required: ['id'],
+      });
+    });
+
+    it('describes the paths mountRoutes registers', async () => {
+      const registered: string[] = [];
+      const register = (method: string) => (url: string) => {
+        registered.push(`${method} ${url}`);
+      };
+      const server = {
+        get: register('get'),
+        post: register('post'),
+        delete: register('delete'),
+        log: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      } as unknown as FastifyInstance;
+      // The manifest basePath is not a default for either of them
+      const items = manifest('@kb-labs/items', [
+        { method: 'GET', path: '/items', handler: './list.js' },
+        { method: 'POST', path: '/items', handler: './create.js' },
+        { method: 'DELETE', path: '/items/:id', handler: './delete.js' },
+      ], '/v1/plugins/items');
+
+      for (const basePath of [undefined, '/api']) {
+        registered.length = 0;
+        await mountRoutes(server, items, {
+          backend: { execute: vi.fn() } as unknown as ExecutionBackend,
+          pluginRoot,
+          workspaceRoot: pluginRoot,
+          basePath,
+        });
+        const document = await generateOpenApiDocument(items, { pluginRoot, basePath });
+
+        const described = Object.entries(document.paths).flatMap(([documentPath, operations]) =>
+          Object.keys(operations).map((method) => `${method} ${documentPath.replace(/\{(\w+)\}/g, ':$1')}`)
+        );
+        expect(described.sort()).toEqual(registered.sort());
+      }
+    });
+
+    it('uses zod schemas as request bodies', async () => {
+      const document = await generateOpenApiDocument(manifest('@kb-labs/items', [
+        { method: 'POST', path: '/items', handler: './create.js', input: { zod: './zod-schemas.mjs#CreateItem' } },
+        { method: 'PUT', path: '/items', handler: './replace.js', input: { zod: './zod-schemas.mjs#Opaque' } },
+      ]), { pluginRoot, basePath: '/api' });
+
+      expect(document.paths['/api/items']!.post!.requestBody).toEqual({
+        required: true,
+        content: { 'application/json': { schema: { type: 'object', properties: { name: { type: 'string' } } } } },
+      });
+      // No JSON Schema conversion available
+      expect(document.paths['/api/items']!.put!.requestBody!.content['application/json']!.schema).toEqual({
+        description: 'Zod schema ./zod-schemas.mjs#Opaque',
+      });
+    });
+
+    it('describes declared errors, validation and authentication as problem details', async () => {
+      const document = await generateOpenApiDocument(manifest('@kb-labs/items', [{
+        method: 'POST',
+        path: '/items',
+        handler: './create.js',
+        input: { $ref: './schemas.json#/definitions/Item' },
+        security: ['token'],
+        errors: [
+          { code: 'ITEM_EXISTS', http: 409, description: 'Item already exists' },
+          { code: 'ITEM_INVALID', http: 400 },
+          { code: 'NOT_AN_ERROR', http: 200 },
+        ],
+      }]), { pluginRoot });
+
+      const { responses } = document.paths['/items']!.post!;
+      expect(Object.keys(responses)).toEqual(['200', '400', '401', '409', 'default']);
+      expect(responses['400']!.content!['application/problem+json']!.schema).toEqual({
+        allOf: [
+          { $ref: '#/components/schemas/ProblemDetails' },
+          { properties: { code: { enum: ['VALIDATION_ERROR', 'ITEM_INVALID'] } } },
+        ],
+      });
+      expect(responses['409']!.description).toBe('Item already exists');
+      expect(document.components.schemas.ProblemDetails).toMatchObject({ required: expect.arrayContaining(['requestId', 'traceId']) });
+    });
+
+    it('lists security alternatives and only the schemes in use', async () => {
+      const document = await generateOpenApiDocument(manifest('@kb-labs/items', [
+        { method: 'GET', path: '/public', handler: './public.js' },
+        { method: 'GET', path: '/mixed', handler: './mixed.js', security: ['none', 'user', 'oauth'] },
+      ]), {
+        pluginRoot,
+        securitySchemes: { oauth: { type: 'oauth2', flows: { clientCredentials: { tokenUrl: '/token', scopes: {} } } } },
+      });
+
+      expect(document.paths['/public']!.get!.security).toBeUndefined();
+      expect(document.paths['/public']!.get!.responses).not.toHaveProperty('401');
+      expect(document.paths['/mixed']!.get!.security).toEqual([{ user: [] }, { oauth: [] }, {}]);
+      expect(document.components.securitySchemes).toEqual({
+        user: { type: 'http', scheme: 'bearer', description: 'User session token' },
+        oauth: { type: 'oauth2', flows: { clientCredentials: { tokenUrl: '/token', scopes: {} } } },
+      });
+    });
+  });
+
+  describe('mergeOpenApiDocuments()', () => {
+    it('combines paths, tags and components of all plugins', async () => {
+      const items = await generateOpenApiDocument(manifest('@kb-labs/items', [
+        { method: 'GET', path: '/items', handler: './list.js', security: ['token'] },
+      ]), { pluginRoot });
+      const orders = await generateOpenApiDocument(manifest('@kb-labs/orders', [
+        { method: 'GET', path: '/orders', handler: './list.js' },
+        { method: 'POST', path: '/items', handler: './order-item.js' },
+      ]), { pluginRoot });
+
+      const merged = mergeOpenApiDocuments([items, orders], { title: 'API', version: '2.0.0' });
+
+      expect(merged.info).toEqual({ title: 'API', version: '2.0.0' });
+      expect(merged.tags.map((tag) => tag.name)).toEqual(['@kb-labs/items', '@kb-labs/orders']);
+      expect(Object.keys(merged.paths['/items']!)).toEqual(['get', 'post']);
+      expect(merged.paths['/orders']!.get!.tags).toEqual(['@kb-labs/orders']);
+      expect(Object.keys(merged.components.securitySchemes)).toEqual(['token']);
+    });
+
+    it('rejects operations declared by two plugins', async () => {
+      const route: RestRouteDecl = { method: 'GET', path: '/items', handler: './list.js' };
+      const a = await generateOpenApiDocument(manifest('@kb-labs/a', [route]), { pluginRoot });
+      const b = await generateOpenApiDocument(manifest('@kb-labs/b', [route]), { pluginRoot });
+
+      expect(() => mergeOpenApiDocuments([a, b], { title: 'API', version: '1.0.0' }))
+        .toThrow('OpenAPI operation GET /items is declared by @kb-labs/a and @kb-labs/b');
+    });
+  });
+
+  describe('mountOpenApi()', () => {
+    it('serves the merged document', async () => {
+      const handlers = new Map<string, (req: FastifyRequest, reply: FastifyReply) => Promise<unknown>>();
+      const server = {
+        get: (url: string, handler: (req: FastifyRequest, reply: FastifyReply) => Promise<unknown>) => {
+          handlers.set(url, handler);
+        },
+        log: { info: vi.fn() },
+      } as unknown as FastifyInstance;
+      const reply = { payload: undefined as unknown, send(payload: unknown) { reply.payload = payload; return reply; } };
+
+      const document = await mountOpenApi(server, [
+        { manifest: manifest('@kb-labs/items', [{ method: 'GET', path: '/items', handler: './list.js' }]), pluginRoot, basePath: '/api' },
+      ], { path: '/docs/openapi.json', info: { title: 'API', version: '1.0.0' } });
+
+      await handlers.get('/docs/openapi.json')!({} as FastifyRequest, reply as unknown as FastifyReply);
+
+      expect(reply.payload).toBe(document);
+      expect(Object.keys(document.paths)).toEqual(['/api/items']);
+    });
+
+    it('fails at mount time for unresolvable schemas', async () => {
+      const server = { get: vi.fn(), log: { info: vi.fn() } } as unknown as FastifyInstance;
+
+      await expect(mountOpenApi(server, [{
+        manifest: manifest('@kb-labs/items', [
+          { method: 'GET', path: '/items', handler: './list.js', output: { $ref: './missing.json' } },
+        ]),
+        pluginRoot,
+      }])).rejects.toThrow();
+      expect(server.get).not.toHaveBeenCalled();
+    });
+  });
+});
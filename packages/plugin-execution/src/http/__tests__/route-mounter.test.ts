@@ -0,0 +1,649 @@
+/**
+ * @file Unit tests for mountRoutes: route permissions, input/output
+ * validation, RestRequest/RestResponse handling, security, error responses
+ * and streaming
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { ManifestV3, RestRouteDecl } from '@kb-labs/plugin-contracts';
+import { mountRoutes } from '../route-mounter.js';
+import type { ExecutionBackend, ExecutionRequest } from '../../types.js';
+
+type RouteHandler = (req: FastifyRequest, reply: FastifyReply) => Promise<unknown>;
+
+function createServer() {
+  const handlers = new Map<string, RouteHandler>();
+  const register = (method: string) => (url: string, handler: RouteHandler) => {
+    handlers.set(`${method} ${url}`, handler);
+  };
+  const server = {
+    get: register('GET'),
+    post: register('POST'),
+    put: register('PUT'),
+    patch: register('PATCH'),
+    delete: register('DELETE'),
+    log: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  };
+  return { server: server as unknown as FastifyInstance & typeof server, handlers };
+}
+
+function createReply() {
+  const reply = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    payload: undefined as unknown,
+    header(name: string, value: string) {
+      reply.headers[name] = value;
+      return reply;
+    },
+    code(status: number) {
+      reply.statusCode = status;
+      return reply;
+    },
+    send(payload: unknown) {
+      reply.payload = payload;
+      return reply;
+    },
+    hijack: vi.fn(),
+    // Node response, written to directly by streaming routes
+    raw: {
+      status: 0,
+      headers: {} as Record<string, string>,
+      chunks: [] as string[],
+      ended: false,
+      destroyed: false,
+      listeners: new Map<string, () => void>(),
+      writeHead(status: number, headers: Record<string, string>) {
+        reply.raw.status = status;
+        reply.raw.headers = headers;
+      },
+      write(chunk: string) {
+        reply.raw.chunks.push(chunk);
+        return true;
+      },
+      end() {
+        reply.raw.ended = true;
+      },
+      on(event: string, listener: () => void) {
+        reply.raw.listeners.set(event, listener);
+      },
+    },
+  };
+  return reply;
+}
+
+function createRequest(overrides: Partial<Record<'method' | 'url' | 'query' | 'body' | 'params' | 'headers', unknown>> = {}) {
+  return {
+    method: 'GET',
+    url: '/search',
+    query: {},
+    body: undefined,
+    params: {},
+    headers: {},
+    raw: { on: vi.fn() },
+    ...overrides,
+  } as unknown as FastifyRequest;
+}
+
+describe('mountRoutes', () => {
+  let pluginRoot: string;
+  let requests: ExecutionRequest[];
+  let handlerResult: unknown;
+  let backend: ExecutionBackend;
+
+  const manifest = (routes: RestRouteDecl[]): ManifestV3 => ({
+    schema: 'kb.plugin/3',
+    id: '@kb-labs/test',
+    version: '1.0.0',
+    permissions: { fs: { read: ['src/**'] }, network: { fetch: ['https://api.test/*'] } },
+    rest: { routes },
+  });
+
+  const mount = async (routes: RestRouteDecl[], options: Partial<Parameters<typeof mountRoutes>[2]> = {}) => {
+    const { server, handlers } = createServer();
+    await mountRoutes(server, manifest(routes), {
+      backend,
+      pluginRoot,
+      workspaceRoot: pluginRoot,
+      descriptorSigningKey: undefined,
+      ...options,
+    });
+    return { server, handlers };
+  };
+
+  beforeEach(() => {
+    pluginRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-routes-'));
+    fs.writeFileSync(path.join(pluginRoot, 'schemas.json'), JSON.stringify({
+      definitions: {
+        SearchQuery: {
+          type: 'object',
+          properties: {
+            q: { type: 'string', minLength: 1 },
+            limit: { type: 'integer', default: 10, maximum: 100 },
+          },
+          required: ['q'],
+        },
+        SearchResult: {
+          type: 'object',
+          properties: { hits: { type: 'array', items: { type: 'string' } } },
+          required: ['hits'],
+        },
+        PageInput: {
+          type: 'object',
+          properties: { cursor: { type: ['string', 'null'] } },
+          required: ['cursor'],
+        },
+        Contact: {
+          type: 'object',
+          properties: { email: { type: 'string', format: 'email' } },
+          anyOf: [{ required: ['email'] }],
+        },
+      },
+    }));
+
+    requests = [];
+    handlerResult = { hits: ['a'] };
+    backend = {
+      execute: vi.fn(async (request: ExecutionRequest) => {
+        requests.push(request);
+        return { ok: true, data: handlerResult, executionTimeMs: 1 };
+      }),
+    } as unknown as ExecutionBackend;
+  });
+
+  describe('permissions', () => {
+    it('merges route permissions over plugin permissions', async () => {
+      const { handlers } = await mount([
+        { method: 'GET', path: '/search', handler: './search.js', permissions: { network: { fetch: [] } } },
+      ]);
+
+      await handlers.get('GET /search')!(createRequest(), createReply() as unknown as FastifyReply);
+
+      expect(requests[0]!.descriptor.permissions).toEqual({
+        fs: { read: ['src/**'] },
+        network: { fetch: [] },
+      });
+    });
+
+    it('uses plugin permissions for routes without their own', async () => {
+      const { handlers } = await mount([{ method: 'GET', path: '/search', handler: './search.js' }]);
+
+      await handlers.get('GET /search')!(createRequest(), createReply() as unknown as FastifyReply);
+
+      expect(requests[0]!.descriptor.permissions).toEqual(manifest([]).permissions);
+    });
+  });
+
+  describe('input validation', () => {
+    const route: RestRouteDecl = {
+      method: 'GET',
+      path: '/search',
+      handler: './search.js',
+      input: { $ref: './schemas.json#/definitions/SearchQuery' },
+    };
+
+    it('coerces the query and applies defaults before the handler runs', async () => {
+      const { handlers } = await mount([route]);
+
+      await handlers.get('GET /search')!(
+        createRequest({ query: { q: 'kb' } }),
+        createReply() as unknown as FastifyReply
+      );
+
+      expect(requests[0]!.input).toMatchObject({ query: { q: 'kb', limit: 10 } });
+    });
+
+    it('returns 400 with field-level details', async () => {
+      const { handlers } = await mount([route]);
+      const reply = createReply();
+
+      await handlers.get('GET /search')!(
+        createRequest({ query: { limit: '500' } }),
+        reply as unknown as FastifyReply
+      );
+
+      expect(backend.execute).not.toHaveBeenCalled();
+      expect(reply.statusCode).toBe(400);
+      expect(reply.payload).toMatchObject({
+        code: 'VALIDATION_ERROR',
+        details: [
+          { path: 'query.limit', message: 'must be <= 100' },
+          { path: 'query.q', message: 'required' },
+        ],
+      });
+    });
+
+    it('validates the body of POST routes with zod-like schemas', async () => {
+      fs.writeFileSync(path.join(pluginRoot, 'schemas.mjs'), `
+        export const CreateInput = {
+          safeParse(value) {
+            return value && typeof value.name === 'string'
+              ? { success: true, data: value }
+              : { success: false, error: { issues: [{ path: ['name'], message: 'Required' }] } };
+          },
+        };
+      `);
+      const { handlers } = await mount([
+        { method: 'POST', path: '/items', handler: './create.js', input: { zod: './schemas.mjs#CreateInput' } },
+      ]);
+      const reply = createReply();
+
+      await handlers.get('POST /items')!(
+        createRequest({ method: 'POST', url: '/items', body: {} }),
+        reply as unknown as FastifyReply
+      );
+
+      expect(reply.statusCode).toBe(400);
+      expect(reply.payload).toMatchObject({ details: [{ path: 'body.name', message: 'Required' }] });
+    });
+
+    it('fails at mount time for unresolvable schemas', async () => {
+      await expect(mount([
+        { ...route, input: { $ref: './schemas.json#/definitions/Missing' } },
+      ])).rejects.toThrow('pointer /definitions/Missing not found');
+    });
+
+    it('accepts values of any type in a type list', async () => {
+      const { handlers } = await mount([
+        { method: 'POST', path: '/page', handler: './page.js', input: { $ref: './schemas.json#/definitions/PageInput' } },
+      ]);
+      const reply = createReply();
+
+      await handlers.get('POST /page')!(
+        createRequest({ method: 'POST', url: '/page', body: { cursor: null } }),
+        reply as unknown as FastifyReply
+      );
+
+      expect(reply.statusCode).not.toBe(400);
+      expect(requests[0]!.input).toMatchObject({ body: { cursor: null } });
+    });
+
+    it('fails at mount time for schemas with unsupported keywords', async () => {
+      await expect(mount([
+        { method: 'POST', path: '/contacts', handler: './contact.js', input: { $ref: './schemas.json#/definitions/Contact' } },
+      ])).rejects.toThrow('unsupported keywords properties.email.format, anyOf');
+    });
+  });
+
+  describe('output validation', () => {
+    const route: RestRouteDecl = {
+      method: 'GET',
+      path: '/search',
+      handler: './search.js',
+      output: { $ref: './schemas.json#/definitions/SearchResult' },
+    };
+
+    it('rejects results that do not match the output schema', async () => {
+      handlerResult = { hits: [1] };
+      const { handlers, server } = await mount([route], { validateOutput: true });
+      const reply = createReply();
+
+      await handlers.get('GET /search')!(createRequest(), reply as unknown as FastifyReply);
+
+      expect(reply.statusCode).toBe(500);
+      expect(reply.payload).toMatchObject({
+        code: 'HANDLER_CONTRACT_ERROR',
+        details: [{ path: 'output.hits[0]', message: 'expected string, got number' }],
+      });
+      expect(server.log.error).toHaveBeenCalled();
+    });
+
+    it('skips output validation when disabled', async () => {
+      handlerResult = { hits: [1] };
+      const { handlers } = await mount([route], { validateOutput: false });
+      const reply = createReply();
+
+      await handlers.get('GET /search')!(createRequest(), reply as unknown as FastifyReply);
+
+      expect(reply.statusCode).toBe(200);
+      expect(reply.payload).toEqual({ hits: [1] });
+    });
+  });
+
+  describe('RestRequest / RestResponse', () => {
+    const route: RestRouteDecl = { method: 'POST', path: '/items/:scope', handler: './create.js' };
+
+    it('passes a RestRequest to the handler', async () => {
+      const { handlers } = await mount([route]);
+
+      await handlers.get('POST /items/:scope')!(
+        createRequest({
+          method: 'POST',
+          url: '/items/mind?dryRun=true',
+          params: { scope: 'mind' },
+          query: { dryRun: 'true' },
+          headers: { 'content-type': 'application/json' },
+          body: { name: 'a' },
+        }),
+        createReply() as unknown as FastifyReply
+      );
+
+      expect(requests[0]!.input).toEqual({
+        method: 'POST',
+        path: '/items/mind',
+        params: { scope: 'mind' },
+        query: { dryRun: 'true' },
+        headers: { 'content-type': 'application/json' },
+        body: { name: 'a' },
+      });
+    });
+
+    it('applies status and headers of a RestResponse', async () => {
+      handlerResult = { status: 201, body: { id: '1' }, headers: { Location: '/items/1', 'Cache-Control': 'no-store' } };
+      const { handlers } = await mount([route]);
+      const reply = createReply();
+
+      await handlers.get('POST /items/:scope')!(createRequest({ method: 'POST' }), reply as unknown as FastifyReply);
+
+      expect(reply.statusCode).toBe(201);
+      expect(reply.payload).toEqual({ id: '1' });
+      expect(reply.headers).toMatchObject({ Location: '/items/1', 'Cache-Control': 'no-store' });
+    });
+
+    it('sends no body for 204', async () => {
+      handlerResult = { status: 204, body: { ignored: true } };
+      const { handlers } = await mount([route]);
+      const reply = createReply();
+
+      await handlers.get('POST /items/:scope')!(createRequest({ method: 'POST' }), reply as unknown as FastifyReply);
+
+      expect(reply.statusCode).toBe(204);
+      expect(reply.payload).toBeUndefined();
+    });
+
+    it('drops hop-by-hop, framing and malformed headers', async () => {
+      handlerResult = {
+        status: 302,
+        headers: {
+          Location: '/elsewhere',
+          Connection: 'close',
+          'Transfer-Encoding': 'chunked',
+          'Content-Length': '1',
+          'X-Injected': 'a\r\nSet-Cookie: x=1',
+          'X-Request-Id': 'forged',
+        },
+      };
+      const { handlers, server } = await mount([route]);
+      const reply = createReply();
+
+      await handlers.get('POST /items/:scope')!(createRequest({ method: 'POST' }), reply as unknown as FastifyReply);
+
+      expect(reply.statusCode).toBe(302);
+      expect(reply.headers.Location).toBe('/elsewhere');
+      expect(reply.headers).not.toHaveProperty('Connection');
+      expect(reply.headers).not.toHaveProperty('Transfer-Encoding');
+      expect(reply.headers).not.toHaveProperty('Content-Length');
+      expect(reply.headers).not.toHaveProperty('X-Injected');
+      expect(reply.headers['X-Request-Id']).not.toBe('forged');
+      expect(server.log.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ headers: ['Connection', 'Transfer-Encoding', 'Content-Length', 'X-Injected'] }),
+        'Dropped response headers set by handler'
+      );
+    });
+
+    it('sends other results as the 200 body', async () => {
+      handlerResult = { status: 'ok', items: [] };
+      const { handlers } = await mount([route]);
+      const reply = createReply();
+
+      await handlers.get('POST /items/:scope')!(createRequest({ method: 'POST' }), reply as unknown as FastifyReply);
+
+      expect(reply.statusCode).toBe(200);
+      expect(reply.payload).toEqual({ status: 'ok', items: [] });
+    });
+  });
+
+  describe('security', () => {
+    const route: RestRouteDecl = {
+      method: 'GET',
+      path: '/search',
+      handler: './search.js',
+      security: ['token'],
+    };
+
+    it('returns 401 when no authenticator accepts the request', async () => {
+      const { handlers } = await mount([route], { authenticators: { token: () => undefined } });
+      const reply = createReply();
+
+      await handlers.get('GET /search')!(createRequest(), reply as unknown as FastifyReply);
+
+      expect(reply.statusCode).toBe(401);
+      expect(reply.payload).toMatchObject({ code: 'UNAUTHENTICATED' });
+      expect(backend.execute).not.toHaveBeenCalled();
+    });
+
+    it('fills identity and tenant from the authenticator', async () => {
+      const { handlers } = await mount([route], {
+        authenticators: {
+          token: (req) => req.headers.authorization === 'Bearer good'
+            ? { userId: 'u-1', tenantId: 'acme', scopes: ['search'] }
+            : undefined,
+        },
+      });
+
+      await handlers.get('GET /search')!(
+        createRequest({ headers: { authorization: 'Bearer good', 'x-tenant-id': 'spoofed' } }),
+        createReply() as unknown as FastifyReply
+      );
+
+      const descriptor = requests[0]!.descriptor;
+      expect(descriptor.tenantId).toBe('acme');
+      expect(descriptor.hostContext).toMatchObject({
+        tenantId: 'acme',
+        identity: { scheme: 'token', userId: 'u-1', tenantId: 'acme', scopes: ['search'] },
+      });
+    });
+
+    it('warns at mount time about schemes without an authenticator', async () => {
+      const { handlers, server } = await mount([route]);
+      const reply = createReply();
+
+      await handlers.get('GET /search')!(createRequest(), reply as unknown as FastifyReply);
+
+      expect(server.log.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ schemes: ['token'] }),
+        'No authenticator for route security scheme'
+      );
+      expect(reply.statusCode).toBe(401);
+    });
+
+    it('allows anonymous callers on routes that include none', async () => {
+      const { handlers } = await mount([{ ...route, security: ['none', 'token'] }], {
+        authenticators: { token: () => undefined },
+      });
+      const reply = createReply();
+
+      await handlers.get('GET /search')!(createRequest(), reply as unknown as FastifyReply);
+
+      expect(reply.statusCode).toBe(200);
+      expect(requests[0]!.descriptor.hostContext).not.toHaveProperty('identity.userId');
+    });
+  });
+
+  describe('errors', () => {
+    const route: RestRouteDecl = {
+      method: 'POST',
+      path: '/items',
+      handler: './items.js',
+      errors: [{ code: 'ITEM_EXISTS', http: 409, description: 'Item already exists' }],
+    };
+
+    const fail = (error: Record<string, unknown>) => {
+      vi.mocked(backend.execute).mockResolvedValueOnce({ ok: false, error, executionTimeMs: 1 } as never);
+    };
+
+    const post = async (handlers: Map<string, RouteHandler>) => {
+      const reply = createReply();
+      await handlers.get('POST /items')!(
+        createRequest({ method: 'POST', url: '/items', headers: { 'x-trace-id': 'trace-1' } }),
+        reply as unknown as FastifyReply
+      );
+      return reply;
+    };
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('maps declared plugin error codes to their HTTP status', async () => {
+      const { handlers } = await mount([route]);
+      fail({ code: 'HANDLER_ERROR', pluginCode: 'ITEM_EXISTS', message: 'Item 1 exists', details: { id: '1' } });
+
+      const reply = await post(handlers);
+
+      expect(reply.statusCode).toBe(409);
+      expect(reply.headers['Content-Type']).toBe('application/problem+json');
+      expect(reply.payload).toEqual({
+        type: 'about:blank',
+        title: 'Conflict',
+        status: 409,
+        detail: 'Item 1 exists',
+        code: 'ITEM_EXISTS',
+        details: { id: '1' },
+        requestId: expect.any(String),
+        traceId: 'trace-1',
+        error: 'Item 1 exists',
+      });
+    });
+
+    it('falls back to the execution code status for undeclared codes', async () => {
+      const { handlers } = await mount([route]);
+      fail({ code: 'TIMEOUT', message: 'Timed out' });
+
+      const reply = await post(handlers);
+
+      expect(reply.statusCode).toBe(504);
+      expect(reply.payload).toMatchObject({ status: 504, code: 'TIMEOUT', traceId: 'trace-1' });
+    });
+
+    it('warns once per code about undeclared plugin error codes in development', async () => {
+      vi.stubEnv('NODE_ENV', 'development');
+      const { server, handlers } = await mount([route]);
+
+      fail({ code: 'HANDLER_ERROR', pluginCode: 'ITEM_LOCKED', message: 'Locked' });
+      const reply = await post(handlers);
+      fail({ code: 'HANDLER_ERROR', pluginCode: 'ITEM_LOCKED', message: 'Locked' });
+      await post(handlers);
+
+      expect(reply.statusCode).toBe(500);
+      expect(reply.payload).toMatchObject({ code: 'ITEM_LOCKED' });
+      expect(server.log.warn).toHaveBeenCalledTimes(1);
+      expect(server.log.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'ITEM_LOCKED', path: '/items' }),
+        'Handler error code not declared in route errors'
+      );
+    });
+
+    it('does not warn outside development', async () => {
+      vi.stubEnv('NODE_ENV', 'production');
+      const { server, handlers } = await mount([route]);
+      fail({ code: 'HANDLER_ERROR', pluginCode: 'ITEM_LOCKED', message: 'Locked' });
+
+      await post(handlers);
+
+      expect(server.log.warn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('streaming', () => {
+    const route: RestRouteDecl = {
+      method: 'POST',
+      path: '/review',
+      handler: './review.js',
+      errors: [{ code: 'REVIEW_BUSY', http: 409 }],
+    };
+
+    const post = async (handlers: Map<string, RouteHandler>) => {
+      const reply = createReply();
+      await handlers.get('POST /review')!(
+        createRequest({ method: 'POST', url: '/review', headers: { 'x-trace-id': 'trace-1' } }),
+        reply as unknown as FastifyReply
+      );
+      return reply;
+    };
+
+    // Handler that logs, reports progress and writes a chunk before finishing
+    const streamingExecute = (result: Record<string, unknown>) =>
+      vi.mocked(backend.execute).mockImplementationOnce(async (request, options) => {
+        requests.push(request);
+        options?.onLog?.({ level: 'info', message: 'Reviewing', stream: 'stdout', lineNo: 1, timestamp: 't0' });
+        options?.onStream?.({ type: 'progress', percent: 50, timestamp: 't1' });
+        options?.onStream?.({ type: 'chunk', data: { file: 'a.ts' }, timestamp: 't2' });
+        return result as never;
+      });
+
+    it('sends logs, progress and chunks as Server-Sent Events, then the result', async () => {
+      const { handlers } = await mount([{ ...route, stream: 'sse' }]);
+      streamingExecute({ ok: true, data: { issues: 1 }, executionTimeMs: 1 });
+
+      const reply = await post(handlers);
+
+      expect(reply.hijack).toHaveBeenCalled();
+      expect(reply.raw.status).toBe(200);
+      expect(reply.raw.headers).toMatchObject({
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'X-Trace-Id': 'trace-1',
+      });
+      expect(reply.raw.chunks).toEqual([
+        'id: 1\nevent: log\ndata: {"level":"info","message":"Reviewing","stream":"stdout","lineNo":1,"timestamp":"t0"}\n\n',
+        'id: 2\nevent: progress\ndata: {"percent":50,"timestamp":"t1"}\n\n',
+        'id: 3\nevent: chunk\ndata: {"data":{"file":"a.ts"},"timestamp":"t2"}\n\n',
+        'id: 4\nevent: result\ndata: {"status":200,"body":{"issues":1}}\n\n',
+      ]);
+      expect(reply.raw.ended).toBe(true);
+    });
+
+    it('ends NDJSON streams with a problem details error event', async () => {
+      const { handlers } = await mount([{ ...route, stream: 'ndjson' }]);
+      streamingExecute({
+        ok: false,
+        error: { code: 'HANDLER_ERROR', pluginCode: 'REVIEW_BUSY', message: 'Review running' },
+        executionTimeMs: 1,
+      });
+
+      const reply = await post(handlers);
+      const events = reply.raw.chunks.map((line) => JSON.parse(line) as { event: string; data: Record<string, unknown> });
+
+      expect(reply.raw.headers['Content-Type']).toBe('application/x-ndjson; charset=utf-8');
+      expect(events.map((line) => line.event)).toEqual(['log', 'progress', 'chunk', 'error']);
+      expect(events[3]!.data).toMatchObject({ status: 409, code: 'REVIEW_BUSY', detail: 'Review running', traceId: 'trace-1' });
+      expect(reply.raw.ended).toBe(true);
+    });
+
+    it('aborts the execution when the client disconnects', async () => {
+      const { handlers } = await mount([{ ...route, stream: 'sse' }]);
+      let signal: AbortSignal | undefined;
+      let closeResponse: (() => void) | undefined;
+      const reply = createReply();
+      vi.mocked(backend.execute).mockImplementationOnce(async (_request, options) => {
+        signal = options?.signal;
+        closeResponse = reply.raw.listeners.get('close');
+        closeResponse?.();
+        return { ok: false, error: { code: 'ABORTED', message: 'Aborted' }, executionTimeMs: 1 } as never;
+      });
+
+      await handlers.get('POST /review')!(
+        createRequest({ method: 'POST', url: '/review' }),
+        reply as unknown as FastifyReply
+      );
+
+      expect(closeResponse).toBeDefined();
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('answers authentication and validation failures before streaming', async () => {
+      const { handlers } = await mount([{ ...route, stream: 'sse', security: ['token'] }], {
+        authenticators: { token: () => undefined },
+      });
+
+      const reply = await post(handlers);
+
+      expect(reply.hijack).not.toHaveBeenCalled();
+      expect(reply.statusCode).toBe(401);
+    });
+  });
+});
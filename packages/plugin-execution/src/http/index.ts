@@ -3,6 +3,61 @@
  */
 
 export { mountRoutes, type MountRoutesOptions } from './route-mounter.js';
+export {
+  authenticateRequest,
+  routeSecuritySchemes,
+  type SecurityScheme,
+  type RouteAuthenticator,
+  type RouteAuthenticators,
+  type AuthenticationResult,
+} from './route-auth.js';
+export {
+  loadSchemaRef,
+  loadSchemaDocument,
+  type JsonSchemaDocument,
+  type RouteSchemaValidator,
+  type SchemaValidationResult,
+  type SchemaValidateOptions,
+  type SchemaIssue,
+} from './route-schemas.js';
+export {
+  filterResponseHeaders,
+  isBodylessStatus,
+  DENIED_RESPONSE_HEADERS,
+  type FilteredResponseHeaders,
+} from './rest-response.js';
+export {
+  createProblemDetails,
+  sendProblem,
+  findErrorSpec,
+  PROBLEM_CONTENT_TYPE,
+  type ProblemDetails,
+  type CreateProblemOptions,
+} from './problem-details.js';
+export {
+  openRestStream,
+  STREAM_CONTENT_TYPES,
+  STREAM_HEARTBEAT_MS,
+  type RestStreamWriter,
+  type OpenRestStreamOptions,
+} from './rest-stream.js';
+export {
+  generateOpenApiDocument,
+  mergeOpenApiDocuments,
+  mountOpenApi,
+  DEFAULT_SECURITY_SCHEMES,
+  type OpenApiDocument,
+  type OpenApiInfo,
+  type OpenApiTag,
+  type OpenApiOperation,
+  type OpenApiParameter,
+  type OpenApiResponse,
+  type OpenApiMediaType,
+  type OpenApiSecurityScheme,
+  type OpenApiPlugin,
+  type GenerateOpenApiOptions,
+  type MountOpenApiOptions,
+} from './openapi.js';
 
 // Note: For silent/noop UI, use `noopUI` from @kb-labs/plugin-contracts directly
 // import { noopUI } from '@kb-labs/plugin-contracts';
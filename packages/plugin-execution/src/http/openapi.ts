@@ -0,0 +1,427 @@
+/**
+ * @module @kb-labs/plugin-execution/http/openapi
+ *
+ * OpenAPI 3.1 documents for plugin REST routes.
+ *
+ * One document per manifest (generateOpenApiDocument), merged across plugins
+ * (mergeOpenApiDocuments) and served next to the mounted routes (mountOpenApi):
+ * ```typescript
+ * for (const plugin of plugins) {
+ *   await mountRoutes(server, plugin.manifest, { backend, pluginRoot: plugin.pluginRoot, workspaceRoot });
+ * }
+ * await mountOpenApi(server, plugins, { info: { title: 'KB Labs API', version: '1.0.0' } });
+ * ```
+ *
+ * Schemas are inlined (OpenAPI 3.1 uses JSON Schema 2020-12), error responses
+ * use the shared `ProblemDetails` component (see problem-details.ts).
+ */
+
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { ManifestV3, RestRouteDecl } from '@kb-labs/plugin-contracts';
+import { loadSchemaDocument, type JsonSchemaDocument } from './route-schemas.js';
+import { routeSecuritySchemes, type SecurityScheme } from './route-auth.js';
+import { QUERY_INPUT_METHODS } from './route-mounter.js';
+import { PROBLEM_CONTENT_TYPE } from './problem-details.js';
+import { STREAM_CONTENT_TYPES } from './rest-stream.js';
+
+// ============================================================================
+// Document types
+// ============================================================================
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+export interface OpenApiTag {
+  name: string;
+  description?: string;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  description?: string;
+  schema: JsonSchemaDocument;
+}
+
+export interface OpenApiMediaType {
+  schema: JsonSchemaDocument;
+}
+
+export interface OpenApiResponse {
+  description: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  tags: string[];
+  description?: string;
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, OpenApiMediaType>;
+  };
+  responses: Record<string, OpenApiResponse>;
+  /** Alternatives; `{}` allows anonymous callers */
+  security?: Array<Record<string, string[]>>;
+}
+
+/**
+ * OpenAPI Security Scheme Object
+ */
+export type OpenApiSecurityScheme = Record<string, unknown>;
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: OpenApiInfo;
+  tags: OpenApiTag[];
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: {
+    schemas: Record<string, JsonSchemaDocument>;
+    securitySchemes: Record<string, OpenApiSecurityScheme>;
+  };
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Security scheme objects for route `security` values.
+ * Hosts describe their actual authenticators with `securitySchemes`.
+ */
+export const DEFAULT_SECURITY_SCHEMES: Readonly<Record<SecurityScheme, OpenApiSecurityScheme>> = {
+  user: { type: 'http', scheme: 'bearer', description: 'User session token' },
+  token: { type: 'http', scheme: 'bearer', description: 'API token' },
+  oauth: { type: 'http', scheme: 'bearer', description: 'OAuth 2.0 access token' },
+};
+
+const PROBLEM_SCHEMA_REF = '#/components/schemas/ProblemDetails';
+
+/**
+ * Error body of every failed request (ProblemDetails in problem-details.ts)
+ */
+const PROBLEM_DETAILS_SCHEMA: JsonSchemaDocument = {
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    title: { type: 'string' },
+    status: { type: 'integer' },
+    detail: { type: 'string' },
+    code: { type: 'string' },
+    details: {},
+    requestId: { type: 'string' },
+    traceId: { type: 'string' },
+    error: { type: 'string' },
+  },
+  required: ['type', 'title', 'status', 'detail', 'requestId', 'traceId', 'error'],
+};
+
+// ============================================================================
+// Generation
+// ============================================================================
+
+export interface GenerateOpenApiOptions {
+  /** Plugin root directory (resolves schema refs) */
+  pluginRoot: string;
+  /**
+   * Path prefix of the routes: the `basePath` given to mountRoutes
+   * (default: none, as in mountRoutes)
+   */
+  basePath?: string;
+  /** Document info (default: plugin display name and version) */
+  info?: OpenApiInfo;
+  /** Security scheme objects (merged over DEFAULT_SECURITY_SCHEMES) */
+  securitySchemes?: Partial<Record<SecurityScheme, OpenApiSecurityScheme>>;
+}
+
+/**
+ * Convert '/items/:id' to '/items/{id}'
+ */
+function toOpenApiPath(routePath: string): { path: string; params: string[] } {
+  const params: string[] = [];
+  const path = routePath.replace(/:([A-Za-z0-9_]+)/g, (_match, name: string) => {
+    params.push(name);
+    return `{${name}}`;
+  });
+  return { path, params };
+}
+
+function operationId(pluginId: string, route: RestRouteDecl): string {
+  return `${pluginId}_${route.method}_${route.path}`
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Query parameters from an object schema
+ */
+function queryParameters(schema: JsonSchemaDocument): OpenApiParameter[] {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchemaDocument>;
+  const required = new Set(Array.isArray(schema.required) ? schema.required as string[] : []);
+
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: 'query' as const,
+    required: required.has(name),
+    ...(typeof property.description === 'string' ? { description: property.description } : {}),
+    schema: property,
+  }));
+}
+
+/**
+ * Problem response for the error codes sharing one status
+ */
+function problemResponse(codes: string[], descriptions: string[]): OpenApiResponse {
+  return {
+    description: descriptions.length > 0 ? descriptions.join('; ') : codes.join(', '),
+    content: {
+      [PROBLEM_CONTENT_TYPE]: {
+        schema: {
+          allOf: [
+            { $ref: PROBLEM_SCHEMA_REF },
+            { properties: { code: { enum: codes } } },
+          ],
+        },
+      },
+    },
+  };
+}
+
+async function generateOperation(
+  manifest: ManifestV3,
+  route: RestRouteDecl,
+  pathParams: string[],
+  pluginRoot: string
+): Promise<OpenApiOperation> {
+  const operation: OpenApiOperation = {
+    operationId: operationId(manifest.id, route),
+    tags: [manifest.id],
+    responses: {},
+  };
+  if (route.description) {
+    operation.description = route.description;
+  }
+
+  const parameters: OpenApiParameter[] = pathParams.map((name) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }));
+
+  // Input: query parameters (GET/DELETE) or JSON body
+  if (route.input) {
+    const input = await loadSchemaDocument(route.input, pluginRoot);
+    if (QUERY_INPUT_METHODS.has(route.method)) {
+      parameters.push(...queryParameters(input));
+    } else {
+      operation.requestBody = {
+        required: true,
+        content: { 'application/json': { schema: input } },
+      };
+    }
+  }
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+
+  // Success (streaming routes: events, the output is the `result` event body)
+  if (route.stream) {
+    operation.responses['200'] = {
+      description: 'Event stream: log, progress, chunk, then result or error',
+      content: { [STREAM_CONTENT_TYPES[route.stream]]: { schema: { type: 'string' } } },
+    };
+  } else {
+    operation.responses['200'] = route.output
+      ? { description: 'Success', content: { 'application/json': { schema: await loadSchemaDocument(route.output, pluginRoot) } } }
+      : { description: 'Success' };
+  }
+
+  // Errors, grouped by status: mounter errors first, then the declared ones
+  const errors = new Map<number, { codes: string[]; descriptions: string[] }>();
+  const addError = (status: number, code: string, description?: string) => {
+    const entry = errors.get(status) ?? { codes: [], descriptions: [] };
+    if (!entry.codes.includes(code)) {entry.codes.push(code);}
+    if (description) {entry.descriptions.push(description);}
+    errors.set(status, entry);
+  };
+
+  if (route.input) {
+    addError(400, 'VALIDATION_ERROR', 'Invalid request');
+  }
+
+  const schemes = routeSecuritySchemes(route);
+  const anonymous = schemes.length === 0 || (route.security ?? []).includes('none');
+  if (!anonymous) {
+    addError(401, 'UNAUTHENTICATED', 'Authentication required');
+  }
+
+  for (const spec of route.errors ?? []) {
+    // Same range the mounter maps (findErrorSpec)
+    if (spec.http >= 400 && spec.http <= 599) {
+      addError(spec.http, spec.code, spec.description);
+    }
+  }
+
+  for (const [status, { codes, descriptions }] of [...errors].sort(([a], [b]) => a - b)) {
+    operation.responses[String(status)] = problemResponse(codes, descriptions);
+  }
+  operation.responses.default = {
+    description: 'Unexpected error',
+    content: { [PROBLEM_CONTENT_TYPE]: { schema: { $ref: PROBLEM_SCHEMA_REF } } },
+  };
+
+  // Security alternatives
+  if (schemes.length > 0) {
+    operation.security = schemes.map((scheme) => ({ [scheme]: [] }));
+    if (anonymous) {
+      operation.security.push({});
+    }
+  }
+
+  return operation;
+}
+
+/**
+ * Generate the OpenAPI document of a plugin's REST routes
+ *
+ * @throws Error if a route schema cannot be loaded
+ */
+export async function generateOpenApiDocument(
+  manifest: ManifestV3,
+  options: GenerateOpenApiOptions
+): Promise<OpenApiDocument> {
+  const basePath = options.basePath ?? '';
+
+  const document: OpenApiDocument = {
+    openapi: '3.1.0',
+    info: options.info ?? {
+      title: manifest.display?.name ?? manifest.id,
+      version: manifest.version,
+      ...(manifest.display?.description ? { description: manifest.display.description } : {}),
+    },
+    tags: [{
+      name: manifest.id,
+      ...(manifest.display?.description ? { description: manifest.display.description } : {}),
+    }],
+    paths: {},
+    components: {
+      schemas: { ProblemDetails: PROBLEM_DETAILS_SCHEMA },
+      securitySchemes: {},
+    },
+  };
+
+  for (const route of manifest.rest?.routes ?? []) {
+    const { path, params } = toOpenApiPath(`${basePath}${route.path}`);
+    const operations = document.paths[path] ?? {};
+    operations[route.method.toLowerCase()] = await generateOperation(manifest, route, params, options.pluginRoot);
+    document.paths[path] = operations;
+
+    for (const scheme of routeSecuritySchemes(route)) {
+      document.components.securitySchemes[scheme] = options.securitySchemes?.[scheme] ?? DEFAULT_SECURITY_SCHEMES[scheme];
+    }
+  }
+
+  return document;
+}
+
+/**
+ * Merge plugin documents into one
+ *
+ * @throws Error if two documents declare the same operation
+ */
+export function mergeOpenApiDocuments(documents: OpenApiDocument[], info: OpenApiInfo): OpenApiDocument {
+  const merged: OpenApiDocument = {
+    openapi: '3.1.0',
+    info,
+    tags: [],
+    paths: {},
+    components: { schemas: {}, securitySchemes: {} },
+  };
+
+  for (const document of documents) {
+    for (const tag of document.tags) {
+      if (!merged.tags.some((existing) => existing.name === tag.name)) {
+        merged.tags.push(tag);
+      }
+    }
+
+    for (const [path, operations] of Object.entries(document.paths)) {
+      const target = merged.paths[path] ?? {};
+      for (const [method, operation] of Object.entries(operations)) {
+        if (target[method]) {
+          throw new Error(`OpenAPI operation ${method.toUpperCase()} ${path} is declared by ${target[method].tags.join(', ')} and ${operation.tags.join(', ')}`);
+        }
+        target[method] = operation;
+      }
+      merged.paths[path] = target;
+    }
+
+    Object.assign(merged.components.schemas, document.components.schemas);
+    Object.assign(merged.components.securitySchemes, document.components.securitySchemes);
+  }
+
+  return merged;
+}
+
+// ============================================================================
+// Serving
+// ============================================================================
+
+export interface OpenApiPlugin {
+  manifest: ManifestV3;
+  pluginRoot: string;
+  /** Same as the mountRoutes basePath (default: none) */
+  basePath?: string;
+}
+
+export interface MountOpenApiOptions {
+  /** Route path (default: '/openapi.json') */
+  path?: string;
+  /** Document info (default: 'Plugin API' 1.0.0) */
+  info?: OpenApiInfo;
+  /** Security scheme objects (merged over DEFAULT_SECURITY_SCHEMES) */
+  securitySchemes?: Partial<Record<SecurityScheme, OpenApiSecurityScheme>>;
+}
+
+/**
+ * Serve the merged OpenAPI document of the mounted plugins.
+ *
+ * The document is built at mount time, so broken schema refs fail fast.
+ *
+ * @returns The served document
+ */
+export async function mountOpenApi(
+  server: FastifyInstance,
+  plugins: OpenApiPlugin[],
+  options: MountOpenApiOptions = {}
+): Promise<OpenApiDocument> {
+  const routePath = options.path ?? '/openapi.json';
+
+  const documents: OpenApiDocument[] = [];
+  for (const plugin of plugins) {
+    documents.push(await generateOpenApiDocument(plugin.manifest, {
+      pluginRoot: plugin.pluginRoot,
+      basePath: plugin.basePath,
+      securitySchemes: options.securitySchemes,
+    }));
+  }
+  const document = mergeOpenApiDocuments(documents, options.info ?? { title: 'Plugin API', version: '1.0.0' });
+
+  server.get(routePath, async (_req: FastifyRequest, reply: FastifyReply) => {
+    return reply.send(document);
+  });
+
+  server.log.info({
+    path: routePath,
+    plugins: plugins.length,
+    operations: Object.values(document.paths).reduce((count, operations) => count + Object.keys(operations).length, 0),
+  }, 'Mounted OpenAPI document');
+
+  return document;
+}
@@ -0,0 +1,88 @@
+/**
+ * @module @kb-labs/plugin-execution/http/problem-details
+ *
+ * Error responses of mounted routes (RFC 9457 problem details).
+ *
+ * Every error the route mounter sends has the same shape, with the
+ * request and trace IDs for correlation:
+ * ```json
+ * {
+ *   "type": "about:blank",
+ *   "title": "Conflict",
+ *   "status": 409,
+ *   "detail": "Config not resolved for profile ci",
+ *   "code": "CONFIG_NOT_RESOLVED",
+ *   "details": { "profile": "ci" },
+ *   "requestId": "...",
+ *   "traceId": "...",
+ *   "error": "Config not resolved for profile ci"
+ * }
+ * ```
+ */
+
+import { STATUS_CODES } from 'node:http';
+import type { FastifyReply } from 'fastify';
+import type { ErrorSpec } from '@kb-labs/plugin-contracts';
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+export interface ProblemDetails {
+  /** Problem type URI ('about:blank': the status says it all) */
+  type: string;
+  /** HTTP status phrase */
+  title: string;
+  status: number;
+  /** Human-readable explanation (error message) */
+  detail: string;
+  /** Error code (execution code, or the handler's PluginError code) */
+  code?: string;
+  /** Structured details (validation issues, PluginError details) */
+  details?: unknown;
+  requestId: string;
+  traceId: string;
+  /** Same as detail, for clients reading `{ error }` */
+  error: string;
+}
+
+export interface CreateProblemOptions {
+  status: number;
+  message: string;
+  code?: string;
+  details?: unknown;
+  requestId: string;
+  traceId: string;
+}
+
+/**
+ * Build a problem details body
+ */
+export function createProblemDetails(options: CreateProblemOptions): ProblemDetails {
+  const { status, message, code, details, requestId, traceId } = options;
+  return {
+    type: 'about:blank',
+    title: STATUS_CODES[status] ?? 'Error',
+    status,
+    detail: message,
+    ...(code ? { code } : {}),
+    ...(details !== undefined ? { details } : {}),
+    requestId,
+    traceId,
+    error: message,
+  };
+}
+
+/**
+ * Send a problem details response
+ */
+export function sendProblem(reply: FastifyReply, options: CreateProblemOptions): FastifyReply {
+  reply.header('Content-Type', PROBLEM_CONTENT_TYPE);
+  return reply.code(options.status).send(createProblemDetails(options));
+}
+
+/**
+ * Find the route's declared error for a code
+ */
+export function findErrorSpec(errors: ErrorSpec[] | undefined, code: string | undefined): ErrorSpec | undefined {
+  if (!code) {return undefined;}
+  return errors?.find((spec) => spec.code === code && spec.http >= 400 && spec.http <= 599);
+}
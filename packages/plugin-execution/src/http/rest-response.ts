@@ -0,0 +1,71 @@
+/**
+ * @module @kb-labs/plugin-execution/http/rest-response
+ *
+ * Apply handler RestResponse headers to the HTTP reply.
+ *
+ * Hop-by-hop headers describe a single connection and are owned by the
+ * server, so plugins cannot set them. Neither can they set framing headers
+ * that the server computes from the body.
+ */
+
+import { validateHeaderName, validateHeaderValue } from 'node:http';
+
+/**
+ * Response headers plugins cannot set (lower case)
+ */
+export const DENIED_RESPONSE_HEADERS: ReadonlySet<string> = new Set([
+  // Hop-by-hop (RFC 9110 7.6.1)
+  'connection',
+  'keep-alive',
+  'proxy-connection',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+  // Framing, computed by the server
+  'content-length',
+]);
+
+export interface FilteredResponseHeaders {
+  /** Headers safe to apply */
+  headers: Record<string, string>;
+  /** Names that were dropped (denied or invalid) */
+  dropped: string[];
+}
+
+/**
+ * Drop denied and malformed headers from a handler response
+ */
+export function filterResponseHeaders(headers: Record<string, string>): FilteredResponseHeaders {
+  const result: Record<string, string> = {};
+  const dropped: string[] = [];
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (DENIED_RESPONSE_HEADERS.has(name.toLowerCase())) {
+      dropped.push(name);
+      continue;
+    }
+
+    try {
+      validateHeaderName(name);
+      validateHeaderValue(name, value);
+    } catch {
+      // CR/LF or other characters that would split the response
+      dropped.push(name);
+      continue;
+    }
+
+    result[name] = value;
+  }
+
+  return { headers: result, dropped };
+}
+
+/**
+ * Statuses that never carry a response body
+ */
+export function isBodylessStatus(status: number): boolean {
+  return status === 204 || status === 304 || (status >= 100 && status < 200);
+}
@@ -0,0 +1,104 @@
+/**
+ * @module @kb-labs/plugin-execution/http/rest-stream
+ *
+ * Streaming responses of routes that declare `stream`.
+ *
+ * The response starts (200) as soon as the handler runs. Events:
+ * - `log` - handler log line (LogEntry)
+ * - `progress` - ctx.api.stream.progress() (`{ percent?, message?, timestamp }`)
+ * - `chunk` - ctx.api.stream.write() (`{ data, timestamp }`)
+ * - `result` - handler result (`{ status, body?, headers? }`), last event
+ * - `error` - problem details (see problem-details.ts), last event
+ *
+ * 'sse' sends `event: <name>` / `data: <json>` blocks with keep-alive comments,
+ * 'ndjson' sends one `{ "event": <name>, "data": <json> }` object per line
+ * with `heartbeat` events.
+ */
+
+import type { FastifyReply } from 'fastify';
+import type { RestStreamMode } from '@kb-labs/plugin-contracts';
+
+export const STREAM_CONTENT_TYPES: Readonly<Record<RestStreamMode, string>> = {
+  sse: 'text/event-stream',
+  ndjson: 'application/x-ndjson',
+};
+
+/**
+ * Interval of keep-alive output, so proxies don't drop quiet streams
+ */
+export const STREAM_HEARTBEAT_MS = 15_000;
+
+export interface RestStreamWriter {
+  /** Send one event (ignored once the stream is closed) */
+  send(event: string, data: unknown): void;
+  /** Finish the response */
+  end(): void;
+  /** Response ended or client disconnected */
+  readonly closed: boolean;
+}
+
+export interface OpenRestStreamOptions {
+  /** Extra response headers (request/trace IDs) */
+  headers?: Record<string, string>;
+  /** Keep-alive interval (default: STREAM_HEARTBEAT_MS) */
+  heartbeatMs?: number;
+}
+
+function formatEvent(mode: RestStreamMode, id: number, event: string, data: unknown): string {
+  const json = JSON.stringify(data ?? null);
+  return mode === 'sse'
+    ? `id: ${id}\nevent: ${event}\ndata: ${json}\n\n`
+    : `${JSON.stringify({ event, data: data ?? null })}\n`;
+}
+
+/**
+ * Take over the reply and start a streaming response
+ */
+export function openRestStream(
+  reply: FastifyReply,
+  mode: RestStreamMode,
+  options: OpenRestStreamOptions = {}
+): RestStreamWriter {
+  const raw = reply.raw;
+  let nextId = 1;
+  let closed = false;
+
+  // Fastify must not send its own response
+  reply.hijack();
+  raw.writeHead(200, {
+    ...options.headers,
+    'Content-Type': `${STREAM_CONTENT_TYPES[mode]}; charset=utf-8`,
+    'Cache-Control': 'no-cache',
+    // Disable proxy buffering (nginx)
+    'X-Accel-Buffering': 'no',
+  });
+
+  const heartbeat = setInterval(() => {
+    if (closed) {return;}
+    raw.write(mode === 'sse' ? ': keep-alive\n\n' : formatEvent(mode, 0, 'heartbeat', null));
+  }, options.heartbeatMs ?? STREAM_HEARTBEAT_MS);
+  heartbeat.unref?.();
+
+  const close = () => {
+    closed = true;
+    clearInterval(heartbeat);
+  };
+  raw.on('close', close);
+
+  return {
+    send(event, data) {
+      if (closed || raw.destroyed) {return;}
+      raw.write(formatEvent(mode, nextId++, event, data));
+    },
+
+    end() {
+      if (closed) {return;}
+      close();
+      raw.end();
+    },
+
+    get closed() {
+      return closed || raw.destroyed;
+    },
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * @module @kb-labs/plugin-execution/http/route-auth
+ *
+ * Enforce RestRouteDecl.security with pluggable authenticators.
+ *
+ * `security` lists alternatives: the first scheme whose authenticator
+ * returns an identity wins. 'none' (or no security) allows anonymous
+ * callers; the other schemes are still tried so handlers see the identity
+ * when one is presented.
+ */
+
+import type { FastifyRequest } from 'fastify';
+import type { RequestIdentity, RestRouteDecl } from '@kb-labs/plugin-contracts';
+
+/**
+ * Security schemes handled by authenticators
+ */
+export type SecurityScheme = Exclude<NonNullable<RestRouteDecl['security']>[number], 'none'>;
+
+/**
+ * Authenticate a request for one scheme
+ *
+ * @returns Identity, or undefined if the request carries no valid credentials
+ * for this scheme
+ */
+export type RouteAuthenticator = (
+  req: FastifyRequest
+) => Promise<Omit<RequestIdentity, 'scheme'> | undefined> | Omit<RequestIdentity, 'scheme'> | undefined;
+
+export type RouteAuthenticators = Partial<Record<SecurityScheme, RouteAuthenticator>>;
+
+export interface AuthenticationResult {
+  /** Route accepts anonymous callers */
+  anonymous: boolean;
+  identity?: RequestIdentity;
+}
+
+/**
+ * Schemes of a route that need an authenticator
+ */
+export function routeSecuritySchemes(route: Pick<RestRouteDecl, 'security'>): SecurityScheme[] {
+  return (route.security ?? []).filter((scheme): scheme is SecurityScheme => scheme !== 'none');
+}
+
+/**
+ * Run the route's authenticators
+ *
+ * Schemes without a configured authenticator never succeed.
+ */
+export async function authenticateRequest(
+  req: FastifyRequest,
+  route: Pick<RestRouteDecl, 'security'>,
+  authenticators: RouteAuthenticators
+): Promise<AuthenticationResult> {
+  const schemes = routeSecuritySchemes(route);
+  const anonymous = schemes.length === 0 || (route.security ?? []).includes('none');
+
+  for (const scheme of schemes) {
+    const authenticator = authenticators[scheme];
+    if (!authenticator) {continue;}
+
+    const identity = await authenticator(req);
+    if (identity) {
+      return { anonymous, identity: { ...identity, scheme } };
+    }
+  }
+
+  return { anonymous };
+}
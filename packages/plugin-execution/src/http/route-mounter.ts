@@ -12,35 +12,82 @@
  *
  * ## Input Structure
  *
- * The `input` parameter passed to handlers contains:
+ * The `input` parameter passed to handlers is a RestRequest (plugin-contracts):
  * ```typescript
  * {
- *   query: req.query,   // Query parameters from URL (?workspace=foo)
- *   body: req.body,     // Request body (JSON payload)
- *   params: req.params, // Route parameters from path (/history/:scope/:id)
+ *   method: 'GET',
+ *   path: '/history/mind/42', // Request path without the query string
+ *   params: req.params,       // Route parameters from path (/history/:scope/:id)
+ *   query: req.query,         // Query parameters from URL (?workspace=foo)
+ *   headers: { ... },         // Request headers (lower-case names)
+ *   body: req.body,           // Request body (JSON payload)
  * }
  * ```
  *
  * This separates query, body, and route parameters, preventing conflicts and making
  * the data source explicit for handler code.
  *
+ * ## Output
+ *
+ * A result shaped like RestResponse (`{ status, body?, headers? }`, see
+ * isRestResponse) sets the status and headers, e.g. 201 with `Location`,
+ * 204, redirects or cache headers. Hop-by-hop and framing headers are
+ * dropped. Any other result is sent as the 200 body.
+ *
+ * ## Route declarations
+ *
+ * - `permissions` are merged over the plugin-wide permissions
+ * - `input` validates the query (GET/DELETE) or body; failures return 400 with
+ *   field-level `details`, and handlers receive the parsed value (defaults applied)
+ * - `output` validates handler results when `validateOutput` is on (development)
+ * - `security` is enforced by `authenticators`; the identity fills
+ *   hostContext.identity and the tenant ID
+ * - `errors` map PluginError codes thrown by the handler to HTTP statuses
+ *   (undeclared codes are logged in development)
+ * - `stream` ('sse' | 'ndjson') sends log lines, ctx.api.stream progress and
+ *   chunks while the handler runs, then the result or error (see rest-stream.ts)
+ *
+ * ## Errors
+ *
+ * All error responses are problem details (see problem-details.ts) with
+ * `code`, `details`, `requestId` and `traceId`.
+ *
  * Example handler:
  * ```typescript
  * defineHandler({
- *   async execute(ctx, input: RestInput<{ workspace?: string }, unknown, { id: string }>) {
- *     const workspace = input.query?.workspace || 'default';
- *     const id = input.params?.id;
- *     // ...
+ *   async execute(ctx, request: RestRequest<CreateItem>) {
+ *     const item = await createItem(request.body);
+ *     return { status: 201, body: item, headers: { Location: `/items/${item.id}` } };
  *   }
  * });
  * ```
  */
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import type { ManifestV3, PluginContextDescriptor, RestHostContext } from '@kb-labs/plugin-contracts';
-import { DEFAULT_PERMISSIONS } from '@kb-labs/plugin-contracts';
-import type { ExecutionBackend } from '../types.js';
-import { createExecutionId, normalizeHeaders } from '../utils.js';
+import type {
+  ManifestV3,
+  PermissionSpec,
+  PluginContextDescriptor,
+  RestHostContext,
+  RestRequest,
+  RestResponse,
+  RestRouteDecl,
+  StreamEvent,
+} from '@kb-labs/plugin-contracts';
+import { DEFAULT_PERMISSIONS, getHandlerPermissions, isRestResponse } from '@kb-labs/plugin-contracts';
+import type { ExecutionBackend, ExecutionError, LogEntry } from '../types.js';
+import {
+  createExecutionId,
+  normalizeHeaders,
+  signDescriptor,
+  descriptorSigningKeyFromEnv,
+  type DescriptorSigningKey,
+} from '../utils.js';
+import { loadSchemaRef, type RouteSchemaValidator } from './route-schemas.js';
+import { authenticateRequest, routeSecuritySchemes, type RouteAuthenticators } from './route-auth.js';
+import { filterResponseHeaders, isBodylessStatus } from './rest-response.js';
+import { createProblemDetails, findErrorSpec, sendProblem, type CreateProblemOptions } from './problem-details.js';
+import { openRestStream, type RestStreamWriter } from './rest-stream.js';
 
 /**
  * Mount routes options.
@@ -60,6 +107,39 @@ export interface MountRoutesOptions {
 
   /** Default timeout in ms (optional, default: 30000) */
   defaultTimeoutMs?: number;
+
+  /**
+   * Key for signing execution descriptors (default: KB_DESCRIPTOR_SIGNING_KEY).
+   * Without one, descriptors are sent unsigned.
+   */
+  descriptorSigningKey?: DescriptorSigningKey;
+
+  /**
+   * Authenticators for route `security` schemes ('user', 'token', 'oauth').
+   * Routes requiring a scheme without an authenticator reject every request.
+   */
+  authenticators?: RouteAuthenticators;
+
+  /**
+   * Validate handler results against route `output` schemas
+   * (default: NODE_ENV === 'development')
+   */
+  validateOutput?: boolean;
+}
+
+/**
+ * Methods whose `input` schema applies to the query string
+ */
+export const QUERY_INPUT_METHODS: ReadonlySet<string> = new Set(['GET', 'DELETE']);
+
+/**
+ * Route permissions merged over the plugin-wide permissions
+ */
+function resolveRoutePermissions(manifest: ManifestV3, route: RestRouteDecl): PermissionSpec {
+  if (!route.permissions) {
+    return manifest.permissions ?? DEFAULT_PERMISSIONS;
+  }
+  return getHandlerPermissions(manifest, 'rest', `${route.method} ${route.path}`);
 }
 
 /**
@@ -87,10 +167,36 @@ export async function mountRoutes(
 
   const basePath = options.basePath ?? '';
   const defaultTimeout = options.defaultTimeoutMs ?? 30_000;
+  const signingKey = options.descriptorSigningKey ?? descriptorSigningKeyFromEnv();
+  const authenticators = options.authenticators ?? {};
+  const development = process.env.NODE_ENV === 'development';
+  const validateOutput = options.validateOutput ?? development;
 
   for (const route of routes) {
     const fullPath = `${basePath}${route.path}`;
     const method = route.method.toLowerCase() as 'get' | 'post' | 'put' | 'delete' | 'patch';
+    const permissions = resolveRoutePermissions(manifest, route);
+
+    // Load schemas at mount time, so broken refs fail fast
+    const inputValidator: RouteSchemaValidator | undefined = route.input
+      ? await loadSchemaRef(route.input, options.pluginRoot)
+      : undefined;
+    const outputValidator: RouteSchemaValidator | undefined = route.output && validateOutput
+      ? await loadSchemaRef(route.output, options.pluginRoot)
+      : undefined;
+    const inputLocation = QUERY_INPUT_METHODS.has(route.method) ? 'query' : 'body';
+    // Undeclared handler error codes already reported for this route
+    const reportedErrorCodes = new Set<string>();
+
+    const unauthenticatedSchemes = routeSecuritySchemes(route).filter((scheme) => !authenticators[scheme]);
+    if (unauthenticatedSchemes.length > 0) {
+      server.log.warn({
+        plugin: manifest.id,
+        method: route.method,
+        path: fullPath,
+        schemes: unauthenticatedSchemes,
+      }, 'No authenticator for route security scheme');
+    }
 
     server[method](fullPath, async (req: FastifyRequest, reply: FastifyReply) => {
       // Create abort controller for client disconnect
@@ -108,39 +214,127 @@ export async function mountRoutes(
       // Try to extract from headers first (for distributed tracing)
       const requestId = (req.headers['x-request-id'] as string) || createExecutionId();
       const traceId = (req.headers['x-trace-id'] as string) || createExecutionId();
-      const tenantId = req.headers['x-tenant-id'] as string | undefined;
       const executionId = createExecutionId();
 
+      // Streaming routes answer with events once the handler runs
+      let stream: RestStreamWriter | undefined;
+      const fail = (problem: CreateProblemOptions) => {
+        if (stream) {
+          stream.send('error', createProblemDetails(problem));
+          stream.end();
+          return reply;
+        }
+        return sendProblem(reply, problem);
+      };
+
       try {
+        // Authenticate per route security
+        const { anonymous, identity } = await authenticateRequest(req, route, authenticators);
+        if (!identity && !anonymous) {
+          reply.header('X-Request-Id', requestId);
+          return sendProblem(reply, {
+            status: 401,
+            message: 'Authentication required',
+            code: 'UNAUTHENTICATED',
+            requestId,
+            traceId,
+          });
+        }
+        // Authenticated tenant wins over the client-supplied header
+        const tenantId = identity?.tenantId ?? (req.headers['x-tenant-id'] as string | undefined);
+
+        // Validate input
+        let query = req.query;
+        let body = req.body;
+        if (inputValidator) {
+          const validation = inputLocation === 'query'
+            ? inputValidator.validate(query ?? {}, { at: 'query', coerce: true })
+            : inputValidator.validate(body, { at: 'body' });
+
+          if (!validation.ok) {
+            reply.header('X-Request-Id', requestId);
+            return sendProblem(reply, {
+              status: 400,
+              message: 'Invalid request',
+              code: 'VALIDATION_ERROR',
+              details: validation.issues,
+              requestId,
+              traceId,
+            });
+          }
+          if (inputLocation === 'query') {
+            query = validation.value;
+          } else {
+            body = validation.value;
+          }
+        }
+
+        const headers = normalizeHeaders(req.headers);
+
         // Build PluginContextDescriptor (from plugin-contracts)
         // This is passed to runInProcess() AS-IS by the backend
         const hostContext: RestHostContext = {
           host: 'rest',
           method: req.method,
           path: req.url,
-          headers: normalizeHeaders(req.headers),
-          query: req.query as Record<string, string> | undefined,
-          body: req.body,
+          headers,
+          query: query as Record<string, string> | undefined,
+          body,
           requestId,
           traceId,
           tenantId,
+          identity,
         };
 
-        const descriptor: PluginContextDescriptor = {
+        const unsignedDescriptor: PluginContextDescriptor = {
           hostType: 'rest',
           pluginId: manifest.id,
           pluginVersion: manifest.version,
           requestId,
-          permissions: manifest.permissions ?? DEFAULT_PERMISSIONS,
+          tenantId,
+          permissions,
           hostContext,
           configSection: manifest.configSection,
+          configSchema: manifest.configSchema,
         };
-        Object.assign(descriptor as unknown as Record<string, unknown>, {
+        Object.assign(unsignedDescriptor as unknown as Record<string, unknown>, {
           traceId,
           spanId: executionId,
           invocationId: executionId,
           executionId,
         });
+        // Sign last so runtimes can trust the permissions it carries
+        const descriptor = signingKey ? signDescriptor(unsignedDescriptor, signingKey) : unsignedDescriptor;
+
+        // RestHandler contract: handlers receive a RestRequest
+        const restRequest: RestRequest = {
+          method: req.method,
+          path: req.url.split('?')[0] ?? req.url,
+          params: (req.params ?? {}) as Record<string, string>,
+          query: (query ?? {}) as Record<string, string>,
+          headers,
+          body,
+        };
+
+        if (route.stream) {
+          stream = openRestStream(reply, route.stream, {
+            headers: {
+              'X-Request-Id': requestId,
+              'X-Trace-Id': traceId,
+              'X-Execution-Id': executionId,
+            },
+          });
+          // Stop the handler when the client goes away mid-stream
+          reply.raw.on('close', () => {
+            abortController.abort();
+          });
+        }
+        const streamCallbacks = stream
+          ? {
+              onLog: (entry: LogEntry) => stream?.send('log', entry),
+              onStream: ({ type, ...event }: StreamEvent) => stream?.send(type, event),
+            }
+          : {};
 
         const result = await options.backend.execute(
           {
@@ -148,48 +342,100 @@ export async function mountRoutes(
             descriptor,   // PluginContextDescriptor - passed to runtime as-is
             pluginRoot: options.pluginRoot,
             handlerRef: route.handler,
-            input: {
-              query: req.query,
-              body: req.body,
-              params: req.params,
-            },
+            input: restRequest,
             workspace: {
               type: 'local',
               cwd: options.workspaceRoot,
             },
             timeoutMs: route.timeoutMs ?? defaultTimeout,
           },
-          { signal: abortController.signal }
+          { signal: abortController.signal, ...streamCallbacks }
         );
 
         if (result.ok) {
+          // RestResponse-shaped results carry status and headers, anything else is the body
+          const response: RestResponse = isRestResponse(result.data)
+            ? result.data
+            : { status: 200, body: result.data };
+
+          if (outputValidator && response.status >= 200 && response.status < 300 && !isBodylessStatus(response.status)) {
+            const validation = outputValidator.validate(response.body, { at: 'output' });
+            if (!validation.ok) {
+              server.log.error({ requestId, issues: validation.issues }, 'Handler output does not match route output schema');
+              reply.header('X-Request-Id', requestId);
+              return fail({
+                status: 500,
+                message: 'Handler output does not match route output schema',
+                code: 'HANDLER_CONTRACT_ERROR',
+                details: validation.issues,
+                requestId,
+                traceId,
+              });
+            }
+          }
+
+          if (stream) {
+            stream.send('result', response);
+            stream.end();
+            return reply;
+          }
+
+          // Handler headers first, so execution metadata cannot be overridden
+          const { headers: responseHeaders, dropped } = filterResponseHeaders(response.headers ?? {});
+          if (dropped.length > 0) {
+            server.log.warn({ requestId, headers: dropped }, 'Dropped response headers set by handler');
+          }
+          for (const [name, value] of Object.entries(responseHeaders)) {
+            reply.header(name, value);
+          }
+
           // Add execution metadata to response headers
           reply.header('X-Request-Id', requestId);
           reply.header('X-Trace-Id', traceId);
           reply.header('X-Execution-Id', executionId);  // v4: separate execution ID
           reply.header('X-Execution-Time-Ms', String(Math.round(result.executionTimeMs)));
 
-          return reply.send(result.data);
+          reply.code(response.status);
+          return isBodylessStatus(response.status) ? reply.send() : reply.send(response.body);
         } else {
           // Error response
           reply.header('X-Request-Id', requestId);
           reply.header('X-Trace-Id', traceId);
           reply.header('X-Execution-Id', executionId);
 
-          const statusCode = getStatusCodeForError(result.error?.code);
-          return reply.code(statusCode).send({
-            error: result.error?.message ?? 'Unknown error',
-            code: result.error?.code,
+          // Handler's own code (PluginError) first, then the execution code
+          const error = result.error as ExecutionError | undefined;
+          const code = error?.pluginCode ?? error?.code;
+          const spec = findErrorSpec(route.errors, code);
+
+          if (development && error?.pluginCode && !spec && !reportedErrorCodes.has(error.pluginCode)) {
+            reportedErrorCodes.add(error.pluginCode);
+            server.log.warn({
+              plugin: manifest.id,
+              method: route.method,
+              path: fullPath,
+              code: error.pluginCode,
+            }, 'Handler error code not declared in route errors');
+          }
+
+          return fail({
+            status: spec?.http ?? getStatusCodeForError(error?.code),
+            message: error?.message ?? 'Unknown error',
+            code,
+            details: error?.details,
             requestId,
+            traceId,
           });
         }
       } catch (error) {
         // Unexpected error (should not happen - backend returns Result, not throws)
         server.log.error({ err: error, requestId }, 'Handler execution failed unexpectedly');
 
-        return reply.code(500).send({
-          error: error instanceof Error ? error.message : 'Internal server error',
+        return fail({
+          status: 500,
+          message: error instanceof Error ? error.message : 'Internal server error',
           requestId,
+          traceId,
         });
       }
     });
@@ -208,6 +454,7 @@ export async function mountRoutes(
 function getStatusCodeForError(code?: string): number {
   switch (code) {
     case 'TIMEOUT':
+    case 'QUOTA_TIMEOUT_EXCEEDED':
       return 504; // Gateway Timeout
     case 'ABORTED':
       return 499; // Client Closed Request
@@ -0,0 +1,223 @@
+/**
+ * @module @kb-labs/plugin-execution/http/route-schemas
+ *
+ * Resolve RestRouteDecl input/output SchemaRefs into validators.
+ *
+ * - `{ $ref: './schemas/search.json#/definitions/SearchInput' }` - JSON Schema
+ *   file relative to the plugin root, with an optional JSON pointer
+ * - `{ zod: './dist/schemas.js#SearchInput' }` - module export with `safeParse`
+ *   (export defaults to `default`)
+ *
+ * Local `$ref`s ('#/definitions/...') inside a schema are inlined, so the
+ * result stands alone in validators and OpenAPI documents. JSON Schema files
+ * may only use the keywords of the runtime's subset (see JsonSchema); others
+ * (anyOf, format, ...) fail at mount time instead of being ignored.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { createRequire } from 'node:module';
+import { pathToFileURL } from 'node:url';
+import type { JsonSchema, SchemaRef } from '@kb-labs/plugin-contracts';
+import { findUnsupportedJsonSchemaKeywords, validateJsonSchema, type SchemaIssue } from '../utils.js';
+
+export type { SchemaIssue };
+
+export type SchemaValidationResult =
+  | { ok: true; value: unknown }
+  | { ok: false; issues: SchemaIssue[] };
+
+export interface SchemaValidateOptions {
+  /** Prefix for issue paths (e.g. 'body') */
+  at?: string;
+  /** Convert strings to declared scalar types (query parameters; JSON Schema only) */
+  coerce?: boolean;
+}
+
+/**
+ * Validator for one SchemaRef
+ */
+export interface RouteSchemaValidator {
+  /** @returns Parsed value (defaults applied) or field-level issues */
+  validate(value: unknown, options?: SchemaValidateOptions): SchemaValidationResult;
+}
+
+/**
+ * JSON Schema document (any keywords, for OpenAPI)
+ */
+export type JsonSchemaDocument = Record<string, unknown>;
+
+/**
+ * Zod-like schema (anything with safeParse)
+ */
+interface SafeParseSchema {
+  safeParse(value: unknown):
+    | { success: true; data: unknown }
+    | { success: false; error: { issues: Array<{ path: Array<string | number>; message: string }> } };
+}
+
+function formatPath(at: string | undefined, segments: Array<string | number>): string {
+  let result = at ?? '';
+  for (const segment of segments) {
+    result = typeof segment === 'number'
+      ? `${result}[${segment}]`
+      : result ? `${result}.${segment}` : segment;
+  }
+  return result;
+}
+
+/**
+ * Follow a JSON pointer ('/definitions/SearchInput')
+ */
+function resolvePointer(document: unknown, pointer: string, source: string): unknown {
+  let current = document;
+  for (const raw of pointer.split('/').slice(1)) {
+    const key = decodeURIComponent(raw).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (current === null || typeof current !== 'object' || !(key in current)) {
+      throw new Error(`Schema ${source}: pointer ${pointer} not found`);
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Inline local `$ref`s against the root document (cycles become `{}`)
+ */
+function dereference(node: unknown, root: unknown, source: string, seen: ReadonlySet<string> = new Set()): unknown {
+  if (Array.isArray(node)) {
+    return node.map((item) => dereference(item, root, source, seen));
+  }
+  if (node === null || typeof node !== 'object') {return node;}
+
+  const { $ref, ...rest } = node as Record<string, unknown>;
+  if (typeof $ref === 'string' && $ref.startsWith('#')) {
+    if (seen.has($ref)) {return {};}
+    const target = dereference(resolvePointer(root, $ref.slice(1), source), root, source, new Set([...seen, $ref]));
+    // Sibling keywords (description, default) refine the target
+    return Object.keys(rest).length > 0 ? { ...(target as object), ...rest } : target;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node)) {
+    result[key] = dereference(value, root, source, seen);
+  }
+  return result;
+}
+
+/**
+ * Drop keywords that only matter for the standalone document
+ */
+function stripDocumentKeywords(schema: JsonSchemaDocument): JsonSchemaDocument {
+  const { $schema: _schema, $defs: _defs, definitions: _definitions, ...rest } = schema;
+  return rest;
+}
+
+async function readJsonSchemaRef(ref: string, pluginRoot: string): Promise<JsonSchemaDocument> {
+  const [file = '', pointer = ''] = ref.split('#');
+  if (!file) {
+    throw new Error(`Schema $ref "${ref}" must name a JSON file relative to the plugin root`);
+  }
+
+  const document = JSON.parse(await fs.readFile(path.resolve(pluginRoot, file), 'utf8')) as unknown;
+  const schema = pointer ? resolvePointer(document, pointer, ref) : document;
+  return stripDocumentKeywords(dereference(schema, document, ref) as JsonSchemaDocument);
+}
+
+async function importZodSchema(ref: string, pluginRoot: string): Promise<SafeParseSchema> {
+  const [file = '', exportName = 'default'] = ref.split('#');
+  const module = await import(pathToFileURL(path.resolve(pluginRoot, file)).href) as Record<string, unknown>;
+  const schema = module[exportName] as SafeParseSchema | undefined;
+
+  if (!schema || typeof schema.safeParse !== 'function') {
+    throw new Error(`Schema ${ref}: export "${exportName}" has no safeParse()`);
+  }
+  return schema;
+}
+
+/**
+ * Convert a zod schema with the plugin's own zod (v4 toJSONSchema)
+ */
+async function zodToJsonSchema(schema: SafeParseSchema, pluginRoot: string): Promise<JsonSchemaDocument | undefined> {
+  try {
+    const own = (schema as { toJSONSchema?: () => unknown }).toJSONSchema;
+    if (typeof own === 'function') {
+      return own.call(schema) as JsonSchemaDocument;
+    }
+
+    const require = createRequire(path.join(pluginRoot, 'package.json'));
+    const zod = await import(pathToFileURL(require.resolve('zod')).href) as { toJSONSchema?: (schema: unknown) => unknown };
+    return typeof zod.toJSONSchema === 'function'
+      ? zod.toJSONSchema(schema) as JsonSchemaDocument
+      : undefined;
+  } catch {
+    // zod not resolvable from the plugin, or the schema has no JSON representation
+    return undefined;
+  }
+}
+
+async function loadJsonSchema(ref: string, pluginRoot: string): Promise<RouteSchemaValidator> {
+  const document = await readJsonSchemaRef(ref, pluginRoot);
+  const unsupported = findUnsupportedJsonSchemaKeywords(document);
+  if (unsupported.length > 0) {
+    throw new Error(`Schema ${ref}: unsupported keywords ${unsupported.join(', ')} (use a zod schema instead)`);
+  }
+  const schema = document as JsonSchema;
+
+  return {
+    validate(value, options = {}) {
+      const result = validateJsonSchema(schema, value, options);
+      return result.issues.length > 0
+        ? { ok: false, issues: result.issues }
+        : { ok: true, value: result.value };
+    },
+  };
+}
+
+async function loadZodSchema(ref: string, pluginRoot: string): Promise<RouteSchemaValidator> {
+  const schema = await importZodSchema(ref, pluginRoot);
+
+  return {
+    validate(value, options = {}) {
+      const result = schema.safeParse(value);
+      if (result.success) {return { ok: true, value: result.data };}
+      return {
+        ok: false,
+        issues: result.error.issues.map((issue) => ({
+          path: formatPath(options.at, issue.path),
+          message: issue.message,
+        })),
+      };
+    },
+  };
+}
+
+/**
+ * Load the validator for a SchemaRef
+ *
+ * @throws Error if the schema file or export cannot be loaded
+ */
+export function loadSchemaRef(ref: SchemaRef, pluginRoot: string): Promise<RouteSchemaValidator> {
+  return '$ref' in ref
+    ? loadJsonSchema(ref.$ref, pluginRoot)
+    : loadZodSchema(ref.zod, pluginRoot);
+}
+
+/**
+ * Load a SchemaRef as a JSON Schema document
+ *
+ * Zod schemas are converted with the zod version the plugin depends on; when
+ * that is not possible the result only describes the reference.
+ *
+ * @throws Error if the schema file or export cannot be loaded
+ */
+export async function loadSchemaDocument(ref: SchemaRef, pluginRoot: string): Promise<JsonSchemaDocument> {
+  if ('$ref' in ref) {
+    return readJsonSchemaRef(ref.$ref, pluginRoot);
+  }
+
+  const converted = await zodToJsonSchema(await importZodSchema(ref.zod, pluginRoot), pluginRoot);
+  return converted
+    ? stripDocumentKeywords(dereference(converted, converted, ref.zod) as JsonSchemaDocument)
+    : { description: `Zod schema ${ref.zod}` };
+}
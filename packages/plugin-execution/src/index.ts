@@ -36,6 +36,7 @@ export type {
   ExecutionResult,
   ExecutionError,
   ExecutionErrorCode,
+  QuotaErrorCode,
   ExecutionMetadata,
   ExecuteOptions,
   LogEntry,
@@ -62,6 +63,10 @@ export type {
   BackendOptions,
   WorkerPoolOptions,
   WarmupPolicy,
+  WarmupHandlerRef,
+  FairSharePolicy,
+  AutoscalePolicy,
+  ExecutionPriority,
   RemoteOptions,
 } from './types.js';
 
@@ -79,6 +84,7 @@ export {
   type InProcessBackendOptions,
   WorkerPoolBackend,
   type WorkerPoolBackendOptions,
+  collectMarkedWarmupHandlers,
 } from '@kb-labs/plugin-execution-factory';
 
 // Workspace
@@ -117,8 +123,19 @@ export {
   normalizeError,
   normalizeHeaders,
   createTimeoutPromise,
+  signDescriptor,
+  descriptorSigningKeyFromEnv,
+  type DescriptorSigningKey,
 } from './utils.js';
 
+// Descriptor verification (remote executors) - re-exported from @kb-labs/plugin-execution-factory
+export {
+  verifyDescriptor,
+  descriptorKeyringFromEnv,
+  type DescriptorVerificationKey,
+  type DescriptorKeyring,
+} from '@kb-labs/plugin-execution-factory';
+
 // WebSocket mounting
 export {
   mountWebSocketChannels,
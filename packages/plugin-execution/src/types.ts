@@ -23,6 +23,7 @@ export type {
   ExecutionResult,
   ExecutionError,
   ExecutionErrorCode,
+  QuotaErrorCode,
   ExecutionMetadata,
   ExecuteOptions,
   LogEntry,
@@ -34,6 +35,10 @@ export type {
   BackendOptions,
   WorkerPoolOptions,
   WarmupPolicy,
+  WarmupHandlerRef,
+  FairSharePolicy,
+  AutoscalePolicy,
+  ExecutionPriority,
   RemoteOptions,
   PluginHandler,
   HandlerMetadata,
@@ -46,6 +51,8 @@ export type {
   WorkerState,
   WorkerInfo,
   WorkerPoolStats,
+  PriorityClassStats,
+  ScalingDecision,
   QueuedRequest,
   WorkerMessage,
   ExecuteMessage,
@@ -55,4 +62,6 @@ export type {
   HealthOkMessage,
   ShutdownMessage,
   ReadyMessage,
+  WarmupMessage,
+  WarmupDoneMessage,
 } from '@kb-labs/plugin-execution-factory';
@@ -4,3 +4,15 @@ export {
   normalizeHeaders,
   createTimeoutPromise,
 } from '@kb-labs/plugin-execution-factory';
+
+export {
+  signDescriptor,
+  descriptorSigningKeyFromEnv,
+  type DescriptorSigningKey,
+} from '@kb-labs/plugin-execution-factory';
+
+export {
+  validateJsonSchema,
+  findUnsupportedJsonSchemaKeywords,
+  type SchemaIssue,
+} from '@kb-labs/plugin-execution-factory';
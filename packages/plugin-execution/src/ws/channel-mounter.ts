@@ -15,6 +15,7 @@ import type {
 } from '@kb-labs/plugin-contracts';
 import { DEFAULT_PERMISSIONS } from '@kb-labs/plugin-contracts';
 import type { ExecutionBackend } from '../types.js';
+import type { DescriptorSigningKey } from '../utils.js';
 import { connectionRegistry } from './connection-registry.js';
 import { createWSSender } from './sender.js';
 
@@ -22,11 +23,15 @@ import { createWSSender } from './sender.js';
 // If these don't exist, we'll need to create them or use alternatives
 let createExecutionId: () => string;
 let normalizeHeaders: (headers: Record<string, any>) => Record<string, string>;
+let signDescriptor: (descriptor: PluginContextDescriptor, key: DescriptorSigningKey) => PluginContextDescriptor;
+let descriptorSigningKeyFromEnv: () => DescriptorSigningKey | undefined;
 
 try {
   const utils = await import('../utils.js');
   createExecutionId = utils.createExecutionId;
   normalizeHeaders = utils.normalizeHeaders;
+  signDescriptor = utils.signDescriptor;
+  descriptorSigningKeyFromEnv = () => utils.descriptorSigningKeyFromEnv();
 } catch {
   // Fallback implementations if utils don't exist
   createExecutionId = () => `exec_${Date.now()}_${Math.random().toString(36).substring(7)}`;
@@ -37,6 +42,11 @@ try {
     }
     return normalized;
   };
+  // Never send unsigned descriptors when a signing key was configured
+  signDescriptor = () => {
+    throw new Error('Descriptor signing is not available');
+  };
+  descriptorSigningKeyFromEnv = () => undefined;
 }
 
 export interface MountWebSocketChannelsOptions {
@@ -57,6 +67,12 @@ export interface MountWebSocketChannelsOptions {
 
   /** Default max message size in bytes (optional, default: 1MB) */
   defaultMaxMessageSize?: number;
+
+  /**
+   * Key for signing execution descriptors (default: KB_DESCRIPTOR_SIGNING_KEY).
+   * Without one, descriptors are sent unsigned.
+   */
+  descriptorSigningKey?: DescriptorSigningKey;
 }
 
 /**
@@ -95,6 +111,7 @@ export async function mountWebSocketChannels(
   }
 
   const basePath = options.basePath || `/v1/ws/plugins/${manifest.id}`;
+  const signingKey = options.descriptorSigningKey ?? descriptorSigningKeyFromEnv();
 
   for (const channel of channels) {
     try {
@@ -144,18 +161,24 @@ export async function mountWebSocketChannels(
           requestId,
           permissions: channel.permissions || manifest.permissions || DEFAULT_PERMISSIONS,
           hostContext,
+          configSection: manifest.configSection,
+          configSchema: manifest.configSchema,
         };
         Object.assign(descriptor as unknown as Record<string, unknown>, { traceId });
 
+        // Sign each execution's descriptor last so runtimes can trust its permissions
+        const signed = (unsigned: PluginContextDescriptor): PluginContextDescriptor =>
+          signingKey ? signDescriptor(unsigned, signingKey) : unsigned;
+
         const executeChannelHandler = async (input: WSInput, timeoutMs?: number): Promise<void> => {
           const executionId = createExecutionId();
           const result = await options.backend.execute({
             executionId,
-            descriptor: Object.assign({ ...descriptor }, {
+            descriptor: signed(Object.assign({ ...descriptor }, {
               executionId,
               spanId: executionId,
               invocationId: executionId,
-            }) as PluginContextDescriptor,
+            }) as PluginContextDescriptor),
             pluginRoot: options.pluginRoot,
             handlerRef: channel.handler,
             input,
@@ -8,8 +8,9 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { createPluginContextV3 } from '../context/index.js';
+import { createPluginContextV3, signDescriptor } from '../context/index.js';
 import type { PluginContextDescriptor, UIFacade, PlatformServices } from '@kb-labs/plugin-contracts';
+import { DescriptorSignatureError } from '@kb-labs/plugin-contracts';
 
 describe('createPluginContextV3', () => {
   const mockUI: UIFacade = {
@@ -355,6 +356,25 @@ describe('createPluginContextV3', () => {
     expect(context.requestId).toBe('rest-request-id');
   });
 
+  it('should refuse descriptors that fail signature verification', () => {
+    const key = { keyId: 'k1', alg: 'hmac-sha256', secret: 'host-secret' } as const;
+    const signed = signDescriptor({
+      requestId: 'test-request-id',
+      hostType: 'cli',
+      pluginId: '@kb-labs/test',
+      pluginVersion: '1.0.0',
+      permissions: {},
+      hostContext: { host: 'cli', argv: [], flags: {} },
+    } satisfies PluginContextDescriptor, key);
+    const options = { platform: mockPlatform, ui: mockUI, cwd: '/test', descriptorKeyring: { keys: [key] } };
+
+    expect(() => createPluginContextV3({ ...options, descriptor: signed })).not.toThrow();
+    expect(() => createPluginContextV3({
+      ...options,
+      descriptor: { ...signed, permissions: { platform: { llm: true } } },
+    })).toThrow(DescriptorSignatureError);
+  });
+
   it('should allow reading all context fields', () => {
     const descriptor: PluginContextDescriptor = {
       requestId: 'test-request-id',
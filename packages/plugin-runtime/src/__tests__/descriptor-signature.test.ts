@@ -0,0 +1,128 @@
+/**
+ * @module @kb-labs/plugin-runtime/__tests__/descriptor-signature
+ *
+ * Tests for execution descriptor signing and verification.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync } from 'node:crypto';
+import type { PluginContextDescriptor } from '@kb-labs/plugin-contracts';
+import { DescriptorSignatureError } from '@kb-labs/plugin-contracts';
+import {
+  signDescriptor,
+  verifyDescriptor,
+  canonicalizeDescriptor,
+  parseDescriptorKeyring,
+  descriptorKeyringFromEnv,
+  descriptorSigningKeyFromEnv,
+  type DescriptorSigningKey,
+} from '../context/descriptor-signature.js';
+
+const descriptor: PluginContextDescriptor = {
+  requestId: 'req-1',
+  hostType: 'rest',
+  pluginId: '@kb-labs/test',
+  pluginVersion: '1.0.0',
+  handlerId: 'GET /items',
+  permissions: { fs: { read: ['docs'] } },
+  hostContext: { host: 'rest', method: 'GET', path: '/items', requestId: 'req-1' } as PluginContextDescriptor['hostContext'],
+};
+
+const hmacKey = { keyId: 'k1', alg: 'hmac-sha256', secret: 'host-secret' } as const;
+
+function expectRejected(fn: () => void, message: RegExp): void {
+  expect(fn).toThrow(DescriptorSignatureError);
+  expect(fn).toThrow(message);
+}
+
+describe('signDescriptor / verifyDescriptor', () => {
+  it('signs and verifies with HMAC-SHA256', () => {
+    const signed = signDescriptor(descriptor, hmacKey);
+
+    expect(signed.signature).toMatchObject({ alg: 'hmac-sha256', keyId: 'k1' });
+    expect(descriptor.signature).toBeUndefined();
+    expect(() => verifyDescriptor(signed, { keys: [hmacKey] })).not.toThrow();
+  });
+
+  it('signs with an Ed25519 private key and verifies with the public key', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519', {
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+    });
+    const signed = signDescriptor(descriptor, { keyId: 'ed', alg: 'ed25519', privateKey });
+
+    expect(() => verifyDescriptor(signed, { keys: [{ keyId: 'ed', alg: 'ed25519', publicKey }] })).not.toThrow();
+    expectRejected(
+      () => verifyDescriptor({ ...signed, pluginId: '@kb-labs/other' }, { keys: [{ keyId: 'ed', alg: 'ed25519', publicKey }] }),
+      /modified after signing/
+    );
+  });
+
+  it('detects widened permissions', () => {
+    const signed = signDescriptor(descriptor, hmacKey);
+    const tampered = { ...signed, permissions: { fs: { read: ['**'], write: ['**'] } } };
+
+    expectRejected(() => verifyDescriptor(tampered, { keys: [hmacKey] }), /modified after signing/);
+  });
+
+  it('survives transport (JSON round trip, key order)', () => {
+    const signed = signDescriptor({ ...descriptor, tenantId: undefined }, hmacKey);
+    const received = JSON.parse(JSON.stringify(signed)) as PluginContextDescriptor;
+    const reordered = Object.fromEntries(Object.entries(received).reverse()) as PluginContextDescriptor;
+
+    expect(() => verifyDescriptor(reordered, { keys: [hmacKey] })).not.toThrow();
+    expect(canonicalizeDescriptor(reordered)).toBe(canonicalizeDescriptor(descriptor));
+  });
+
+  it('refuses unsigned descriptors unless allowUnsigned is set', () => {
+    expectRejected(() => verifyDescriptor(descriptor, { keys: [hmacKey] }), /not signed/);
+    expect(() => verifyDescriptor(descriptor, { keys: [], allowUnsigned: true })).not.toThrow();
+  });
+
+  it('refuses unknown keys and algorithm mismatches', () => {
+    const signed = signDescriptor(descriptor, hmacKey);
+
+    expectRejected(() => verifyDescriptor(signed, { keys: [{ ...hmacKey, keyId: 'k0' }] }), /unknown key 'k1'/);
+    expectRejected(
+      () => verifyDescriptor(
+        { ...signed, signature: { ...signed.signature!, alg: 'ed25519' } },
+        { keys: [hmacKey] }
+      ),
+      /does not match key 'k1'/
+    );
+  });
+
+  it('supports key rotation through the keyring', () => {
+    const next: DescriptorSigningKey = { keyId: 'k2', alg: 'hmac-sha256', secret: 'next-secret' };
+    const keyring = { keys: [hmacKey, next] };
+
+    expect(() => verifyDescriptor(signDescriptor(descriptor, hmacKey), keyring)).not.toThrow();
+    expect(() => verifyDescriptor(signDescriptor(descriptor, next), keyring)).not.toThrow();
+    // Old key retired
+    expectRejected(() => verifyDescriptor(signDescriptor(descriptor, hmacKey), { keys: [next] }), /unknown key/);
+  });
+
+  it('does not accept a signature made with another secret under the same key id', () => {
+    const forged = signDescriptor(descriptor, { ...hmacKey, secret: 'guessed' });
+
+    expectRejected(() => verifyDescriptor(forged, { keys: [hmacKey] }), /modified after signing/);
+  });
+});
+
+describe('keyring configuration', () => {
+  it('parses a key array or a keyring object', () => {
+    expect(parseDescriptorKeyring(JSON.stringify([hmacKey]))).toEqual({ keys: [hmacKey] });
+    expect(parseDescriptorKeyring(JSON.stringify({ keys: [hmacKey], allowUnsigned: true }))).toEqual({
+      keys: [hmacKey],
+      allowUnsigned: true,
+    });
+    expect(() => parseDescriptorKeyring('{}')).toThrow(/KB_DESCRIPTOR_KEYS/);
+  });
+
+  it('reads keys from the environment', () => {
+    expect(descriptorKeyringFromEnv({})).toBeUndefined();
+    expect(descriptorSigningKeyFromEnv({})).toBeUndefined();
+    expect(descriptorKeyringFromEnv({ KB_DESCRIPTOR_KEYS: JSON.stringify([hmacKey]) })?.keys).toEqual([hmacKey]);
+    expect(descriptorSigningKeyFromEnv({ KB_DESCRIPTOR_SIGNING_KEY: JSON.stringify(hmacKey) })).toEqual(hmacKey);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * @module @kb-labs/plugin-runtime/__tests__/env-scrub
+ *
+ * Tests for child process environment scrubbing (subprocess sandbox, shell API).
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { scrubEnv, createEnvShim } from '../runtime/env-shim.js';
+import { createShellAPI } from '../api/shell.js';
+
+describe('scrubEnv', () => {
+  const env = {
+    PATH: '/usr/bin',
+    NODE_ENV: 'test',
+    OPENAI_API_KEY: 'sk-secret',
+    AWS_SECRET_ACCESS_KEY: 'aws-secret',
+    MY_PLUGIN_TOKEN: 'token',
+    GITHUB_TOKEN: 'ghp',
+    KB_SANDBOX_MODE: 'enforce',
+    KB_INTERNAL_SECRET: 'internal',
+    UNSET: undefined,
+  };
+
+  it('keeps always-allowed, process and permitted variables only', () => {
+    const scrubbed = scrubEnv(env, { permissions: { env: { read: ['MY_PLUGIN_*'] } } });
+
+    expect(scrubbed).toEqual({
+      PATH: '/usr/bin',
+      NODE_ENV: 'test',
+      MY_PLUGIN_TOKEN: 'token',
+    });
+  });
+
+  it('keeps explicitly allowed control variables', () => {
+    const scrubbed = scrubEnv(env, { permissions: {}, allow: ['KB_SANDBOX_MODE'] });
+
+    expect(scrubbed.KB_SANDBOX_MODE).toBe('enforce');
+    expect(scrubbed.KB_INTERNAL_SECRET).toBeUndefined();
+  });
+
+  it('logs denied variable names (not values) at debug level', () => {
+    const debug = vi.fn();
+
+    scrubEnv(env, { permissions: { env: { read: ['GITHUB_TOKEN'] } }, logger: { debug } });
+
+    expect(debug).toHaveBeenCalledTimes(1);
+    const [, meta] = debug.mock.calls[0]!;
+    expect(meta).toEqual({
+      denied: ['AWS_SECRET_ACCESS_KEY', 'KB_INTERNAL_SECRET', 'KB_SANDBOX_MODE', 'MY_PLUGIN_TOKEN', 'OPENAI_API_KEY'],
+    });
+    expect(JSON.stringify(debug.mock.calls)).not.toContain('sk-secret');
+  });
+
+  it('does not expose process variables through the env shim', () => {
+    const env = createEnvShim({ permissions: {} });
+
+    expect(env('NODE_ENV')).toBe(process.env.NODE_ENV);
+    expect(env('PATH')).toBeUndefined();
+  });
+});
+
+describe('ShellAPI environment', () => {
+  const saved = { ...process.env };
+
+  beforeEach(() => {
+    process.env.KB_TEST_HOST_SECRET = 'host-secret';
+    process.env.KB_TEST_ALLOWED = 'allowed';
+  });
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('spawns commands with scrubbed env plus ExecOptions.env', async () => {
+    const debug = vi.fn();
+    const shell = createShellAPI({
+      permissions: { shell: { allow: [process.execPath] }, env: { read: ['KB_TEST_ALLOWED'] } },
+      cwd: process.cwd(),
+      logger: { debug },
+    });
+
+    const result = await shell.exec(
+      process.execPath,
+      ['-e', 'process.stdout.write(JSON.stringify(process.env))'],
+      { env: { EXPLICIT: 'yes' } }
+    );
+    const childEnv = JSON.parse(result.stdout) as Record<string, string>;
+
+    expect(childEnv.KB_TEST_ALLOWED).toBe('allowed');
+    expect(childEnv.EXPLICIT).toBe('yes');
+    expect(childEnv.KB_TEST_HOST_SECRET).toBeUndefined();
+    expect(debug.mock.calls[0]?.[1]?.denied).toContain('KB_TEST_HOST_SECRET');
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * @module @kb-labs/plugin-runtime/__tests__/esm-hooks
+ *
+ * Tests for the sandbox module policy and the ESM loader resolve hook.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+import * as fs from 'node:fs';
+import * as net from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { MessageChannel, type MessagePort } from 'node:worker_threads';
+import type { PluginContextDescriptor } from '@kb-labs/plugin-contracts';
+import { initialize, resolve } from '../sandbox/esm-hooks.js';
+import { checkModuleAccess, SANDBOX_MODE_CODES, type ModuleAccessMessage } from '../sandbox/module-policy.js';
+import { runInSubprocess } from '../sandbox/runner.js';
+
+describe('checkModuleAccess', () => {
+  it('ignores modules outside the policy', () => {
+    expect(checkModuleAccess('node:path', 'enforce')).toBeNull();
+    expect(checkModuleAccess('lodash', 'enforce')).toBeNull();
+  });
+
+  it('blocks dangerous modules in enforce and compat mode', () => {
+    for (const mode of ['enforce', 'compat'] as const) {
+      expect(checkModuleAccess('node:net', mode)).toMatchObject({
+        allowed: false,
+        violation: { kind: 'module', target: 'node:net', decision: 'block' },
+      });
+    }
+  });
+
+  it('reports but allows dangerous modules in warn mode', () => {
+    expect(checkModuleAccess('vm', 'warn')).toMatchObject({
+      allowed: true,
+      violation: { kind: 'module', target: 'vm' },
+    });
+  });
+
+  it('blocks fs, http and child_process only in enforce mode', () => {
+    expect(checkModuleAccess('node:fs/promises', 'enforce')).toMatchObject({
+      allowed: false,
+      violation: { kind: 'fs' },
+    });
+    expect(checkModuleAccess('https', 'enforce')?.violation?.message).toContain('ctx.runtime.fetch()');
+    expect(checkModuleAccess('node:child_process', 'enforce')?.allowed).toBe(false);
+
+    const compat = checkModuleAccess('fs', 'compat');
+    expect(compat?.allowed).toBe(true);
+    expect(compat?.violation).toBeUndefined();
+    expect(compat?.warning?.[0]).toContain('Direct fs access detected');
+  });
+});
+
+describe('ESM resolve hook', () => {
+  let state: Int32Array;
+  let port1: MessagePort;
+  let port2: MessagePort;
+  let messages: ModuleAccessMessage[];
+  const nextResolve = vi.fn((specifier: string) => ({ url: specifier }));
+
+  beforeEach(async () => {
+    state = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT));
+    ({ port1, port2 } = new MessageChannel());
+    messages = [];
+    port1.on('message', (message: ModuleAccessMessage) => messages.push(message));
+    nextResolve.mockClear();
+    await initialize({ state, port: port2 });
+  });
+
+  afterEach(() => {
+    port1.close();
+  });
+
+  async function waitForMessages(count: number): Promise<void> {
+    for (let i = 0; i < 50 && messages.length < count; i++) {
+      await new Promise((r) => setTimeout(r, 5));
+    }
+  }
+
+  it('passes everything through while inactive', async () => {
+    await expect(resolve('node:net', { parentURL: 'file:///plugin/handler.js' }, nextResolve))
+      .resolves.toEqual({ url: 'node:net' });
+    expect(nextResolve).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects blocked imports in enforce mode and reports them', async () => {
+    Atomics.store(state, 0, SANDBOX_MODE_CODES.enforce);
+
+    await expect(resolve('node:fs', { parentURL: 'file:///plugin/handler.js' }, nextResolve))
+      .rejects.toThrow('[SANDBOX] Direct fs access is blocked');
+    expect(nextResolve).not.toHaveBeenCalled();
+
+    await waitForMessages(1);
+    expect(messages[0]).toMatchObject({
+      specifier: 'node:fs',
+      parentURL: 'file:///plugin/handler.js',
+      decision: { allowed: false, violation: { kind: 'fs', decision: 'block' } },
+    });
+  });
+
+  it('allows fs with a warning in compat mode', async () => {
+    Atomics.store(state, 0, SANDBOX_MODE_CODES.compat);
+
+    await expect(resolve('fs', {}, nextResolve)).resolves.toEqual({ url: 'fs' });
+    await expect(resolve('net', {}, nextResolve)).rejects.toThrow('[SANDBOX] Module "net" is blocked');
+
+    await waitForMessages(2);
+    expect(messages.map((m) => [m.specifier, m.decision.allowed])).toEqual([
+      ['fs', true],
+      ['net', false],
+    ]);
+  });
+
+  it('does not report ungoverned imports', async () => {
+    Atomics.store(state, 0, SANDBOX_MODE_CODES.enforce);
+
+    await resolve('./util.js', { parentURL: 'file:///plugin/handler.js' }, nextResolve);
+    await new Promise((r) => setTimeout(r, 20));
+
+    expect(nextResolve).toHaveBeenCalledWith('./util.js', { parentURL: 'file:///plugin/handler.js' });
+    expect(messages).toEqual([]);
+  });
+});
+
+describe('ESM hooks in the sandboxed child', () => {
+  let root: string;
+  let server: net.Server;
+
+  beforeAll(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-esm-hooks-'));
+    // Reports the import() outcome and the violations the sandbox logged
+    fs.writeFileSync(path.join(root, 'handler.mjs'), `export default {
+  async execute() {
+    const logged = [];
+    const error = console.error;
+    console.error = (...args) => { logged.push(args.join(' ')); };
+    try {
+      await import('node:fs');
+      return { imported: true, logged };
+    } catch (e) {
+      await new Promise((r) => setTimeout(r, 100));
+      return { imported: false, message: e.message, logged };
+    } finally {
+      console.error = error;
+    }
+  },
+};`);
+
+    server = net.createServer(() => {});
+    await new Promise<void>((done) => server.listen(path.join(root, 'platform.sock'), done));
+  });
+
+  afterAll(() => {
+    server.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('blocks import() of fs in enforce mode and reports the violation', async () => {
+    const descriptor: PluginContextDescriptor = {
+      hostType: 'cli',
+      pluginId: '@kb-labs/test-esm-hooks',
+      pluginVersion: '1.0.0',
+      requestId: 'esm-hooks-enforce',
+      handlerId: 'test:esm-hooks',
+      permissions: {},
+      hostContext: { host: 'cli', argv: [], flags: {} },
+    };
+
+    const result = await runInSubprocess<{ imported: boolean; message?: string; logged: string[] }>({
+      descriptor,
+      socketPath: path.join(root, 'platform.sock'),
+      handlerPath: path.join(root, 'handler.mjs'),
+      input: {},
+      timeoutMs: 10_000,
+      cwd: root,
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.data).toMatchObject({ imported: false, message: expect.stringContaining('[SANDBOX] Direct fs access is blocked') });
+    expect(result.data?.logged).toContainEqual(expect.stringContaining('[SANDBOX BLOCK] fs:'));
+  }, 15_000);
+});
@@ -0,0 +1,190 @@
+/**
+ * @module @kb-labs/plugin-runtime/__tests__/fetch-shim
+ *
+ * Tests for fetch shim egress controls: redirect re-validation, per-host
+ * methods, response size caps and timeouts.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { PermissionSpec } from '@kb-labs/plugin-contracts';
+import { PermissionError, QuotaExceededError, TimeoutError } from '@kb-labs/plugin-contracts';
+import { createFetchShim } from '../runtime/fetch-shim.js';
+
+function listen(handler: http.RequestListener): Promise<{ server: http.Server; origin: string }> {
+  const server = http.createServer(handler);
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, origin: `http://127.0.0.1:${(server.address() as AddressInfo).port}` });
+    });
+  });
+}
+
+describe('createFetchShim', () => {
+  let api: { server: http.Server; origin: string };
+  let other: { server: http.Server; origin: string };
+
+  beforeAll(async () => {
+    other = await listen((req, res) => {
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ method: req.method, authorization: req.headers.authorization ?? null }));
+    });
+    api = await listen((req, res) => {
+      const url = new URL(req.url!, 'http://localhost');
+      switch (url.pathname) {
+        case '/echo':
+          res.end(JSON.stringify({ method: req.method, authorization: req.headers.authorization ?? null }));
+          return;
+        case '/redirect':
+          res.writeHead(Number(url.searchParams.get('status') ?? 302), { location: url.searchParams.get('to')! });
+          res.end();
+          return;
+        case '/loop':
+          res.writeHead(302, { location: '/loop' });
+          res.end();
+          return;
+        case '/large':
+          res.writeHead(200, { 'content-length': '2048' });
+          res.end('x'.repeat(2048));
+          return;
+        case '/chunked':
+          res.write('x'.repeat(600));
+          res.end('x'.repeat(600));
+          return;
+        case '/slow':
+          setTimeout(() => res.end('late'), 2000).unref();
+          return;
+        default:
+          res.writeHead(404);
+          res.end();
+      }
+    });
+  });
+
+  afterAll(() => {
+    api.server.closeAllConnections();
+    other.server.closeAllConnections();
+    api.server.close();
+    other.server.close();
+  });
+
+  const shim = (network: PermissionSpec['network'], signal?: AbortSignal) =>
+    createFetchShim({ permissions: { network }, signal });
+
+  describe('redirects', () => {
+    it('follows redirects to allowed URLs', async () => {
+      const fetch = shim({ fetch: [`${api.origin}/*`] });
+
+      const response = await fetch(`${api.origin}/redirect?to=/echo`);
+
+      expect(response.status).toBe(200);
+      expect(response.redirected).toBe(true);
+      expect(response.url).toBe(`${api.origin}/echo`);
+      expect(await response.json()).toEqual({ method: 'GET', authorization: null });
+    });
+
+    it('refuses a redirect hop outside the allowlist', async () => {
+      const fetch = shim({ fetch: [`${api.origin}/*`] });
+      const target = `${other.origin}/steal`;
+
+      const error = await fetch(`${api.origin}/redirect?to=${encodeURIComponent(target)}`).catch((e) => e);
+
+      expect(error).toBeInstanceOf(PermissionError);
+      expect(error.message).toBe(`Network access denied: redirect from ${api.origin}/redirect?to=${encodeURIComponent(target)} to ${target}`);
+      expect(error.details).toMatchObject({ url: target });
+    });
+
+    it('drops credentials on cross-origin hops and switches to GET after 303', async () => {
+      const fetch = shim({ fetch: [`${api.origin}/*`, `${other.origin}/*`] });
+
+      const response = await fetch(`${api.origin}/redirect?status=303&to=${encodeURIComponent(`${other.origin}/`)}`, {
+        method: 'POST',
+        body: 'payload',
+        headers: { authorization: 'Bearer secret' },
+      });
+
+      expect(await response.json()).toEqual({ method: 'GET', authorization: null });
+    });
+
+    it('keeps method and credentials on same-origin 307', async () => {
+      const fetch = shim({ fetch: [`${api.origin}/*`] });
+
+      const response = await fetch(`${api.origin}/redirect?status=307&to=/echo`, {
+        method: 'PUT',
+        body: 'payload',
+        headers: { authorization: 'Bearer secret' },
+      });
+
+      expect(await response.json()).toEqual({ method: 'PUT', authorization: 'Bearer secret' });
+    });
+
+    it('stops after maxRedirects', async () => {
+      const fetch = shim({ fetch: [`${api.origin}/*`], maxRedirects: 3 });
+
+      await expect(fetch(`${api.origin}/loop`)).rejects.toThrow('Too many redirects');
+    });
+
+    it('returns the redirect itself in manual mode', async () => {
+      const fetch = shim({ fetch: [`${api.origin}/*`] });
+
+      const response = await fetch(`${api.origin}/redirect?to=${encodeURIComponent(`${other.origin}/`)}`, {
+        redirect: 'manual',
+      });
+
+      expect(response.status).toBe(302);
+    });
+  });
+
+  describe('methods', () => {
+    it('restricts methods per host pattern', async () => {
+      const fetch = shim({ fetch: [`${api.origin}/*`], methods: { '127.0.0.*': ['get', 'HEAD'] } });
+
+      expect((await fetch(`${api.origin}/echo`)).status).toBe(200);
+      await expect(fetch(`${api.origin}/echo`, { method: 'DELETE' })).rejects.toThrow(
+        'Network access denied: DELETE is not allowed for 127.0.0.1'
+      );
+    });
+
+    it('allows every method for hosts without a rule', async () => {
+      const fetch = shim({ fetch: [`${api.origin}/*`], methods: { 'api.github.com': ['GET'] } });
+
+      expect((await fetch(`${api.origin}/echo`, { method: 'DELETE' })).status).toBe(200);
+    });
+  });
+
+  describe('limits', () => {
+    it('rejects responses whose declared size exceeds maxResponseBytes', async () => {
+      const fetch = shim({ fetch: [`${api.origin}/*`], maxResponseBytes: 1024 });
+
+      const error = await fetch(`${api.origin}/large`).catch((e) => e);
+
+      expect(error).toBeInstanceOf(QuotaExceededError);
+      expect(error.code).toBe('QUOTA_RESPONSE_SIZE_EXCEEDED');
+    });
+
+    it('fails the body once a streamed response exceeds maxResponseBytes', async () => {
+      const fetch = shim({ fetch: [`${api.origin}/*`], maxResponseBytes: 1000 });
+
+      const response = await fetch(`${api.origin}/chunked`);
+
+      await expect(response.text()).rejects.toBeInstanceOf(QuotaExceededError);
+    });
+
+    it('times out with TimeoutError', async () => {
+      const fetch = shim({ fetch: [`${api.origin}/*`], timeoutMs: 100 });
+
+      await expect(fetch(`${api.origin}/slow`)).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it('aborts with the execution signal', async () => {
+      const controller = new AbortController();
+      const fetch = shim({ fetch: [`${api.origin}/*`], timeoutMs: 5000 }, controller.signal);
+
+      const pending = fetch(`${api.origin}/slow`);
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * @module @kb-labs/plugin-runtime/__tests__/handler-loader
+ *
+ * Tests for loadHandler(): the handler export used by execution and
+ * worker-pool warmup alike.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { loadHandler } from '../sandbox/handler-loader.js';
+
+describe('loadHandler()', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `handler-loader-test-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`);
+    mkdirSync(testDir, { recursive: true });
+    writeFileSync(join(testDir, 'package.json'), JSON.stringify({ type: 'module' }));
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('resolves the default export, ignoring named handler exports', async () => {
+    const handlerPath = join(testDir, 'default.js');
+    writeFileSync(handlerPath, `
+      export const other = { execute: () => 'other' };
+      export default { execute: () => 'default', warmup: () => 'warm' };
+    `);
+
+    const handler = await loadHandler(handlerPath);
+
+    expect(handler.execute({}, {})).toBe('default');
+    expect(handler.warmup?.()).toBe('warm');
+  });
+
+  it('falls back to the module itself without a default export', async () => {
+    const handlerPath = join(testDir, 'named.js');
+    writeFileSync(handlerPath, 'export function execute() { return \'module\'; }');
+
+    const handler = await loadHandler(handlerPath);
+
+    expect(handler.execute({}, {})).toBe('module');
+  });
+
+  it('rejects modules without an execute function', async () => {
+    const handlerPath = join(testDir, 'invalid.js');
+    writeFileSync(handlerPath, 'export default { run: () => 1 };');
+
+    await expect(loadHandler(handlerPath)).rejects.toMatchObject({ code: 'INVALID_HANDLER' });
+  });
+});
@@ -207,6 +207,10 @@ describe('IPC Protocol', () => {
         expect(isParentMessage(msg)).toBe(true);
       });
 
+      it('should accept ui response message', () => {
+        expect(isParentMessage({ type: 'ui:response', id: 'ui-1', value: true })).toBe(true);
+      });
+
       it('should reject child messages', () => {
         expect(isParentMessage({ type: 'ready' })).toBe(false);
         expect(isParentMessage({ type: 'result', data: {} })).toBe(false);
@@ -254,9 +258,16 @@ describe('IPC Protocol', () => {
         expect(isChildMessage(msg)).toBe(true);
       });
 
+      it('should accept ui messages', () => {
+        expect(isChildMessage({ type: 'ui:call', method: 'info', args: ['hi'] })).toBe(true);
+        expect(isChildMessage({ type: 'ui:request', id: 'ui-1', method: 'confirm', args: ['ok?'] })).toBe(true);
+        expect(isChildMessage({ type: 'ui:spinner', spinnerId: 'spinner-1', action: 'start' })).toBe(true);
+      });
+
       it('should reject parent messages', () => {
         expect(isChildMessage({ type: 'execute' })).toBe(false);
         expect(isChildMessage({ type: 'abort' })).toBe(false);
+        expect(isChildMessage({ type: 'ui:response', id: 'ui-1' })).toBe(false);
       });
 
       it('should reject null and undefined', () => {
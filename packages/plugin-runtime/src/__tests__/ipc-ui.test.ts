@@ -0,0 +1,123 @@
+/**
+ * @module @kb-labs/plugin-runtime/__tests__/ipc-ui
+ *
+ * Tests for UIFacade forwarded over IPC (child createIPCUI ↔ parent createUIMessageHandler).
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { noopUI, type UIFacade } from '@kb-labs/plugin-contracts';
+import { createIPCUI, createUIMessageHandler, type IPCUI, type UIMessageHandler } from '../sandbox/ipc-ui.js';
+import type { ChildMessage, ParentMessage } from '../sandbox/ipc-protocol.js';
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+describe('IPC UI', () => {
+  let hostUI: UIFacade;
+  let spinner: { update: ReturnType<typeof vi.fn>; succeed: ReturnType<typeof vi.fn>; fail: ReturnType<typeof vi.fn>; stop: ReturnType<typeof vi.fn> };
+  let sent: ChildMessage[];
+  let handler: UIMessageHandler;
+  let ui: IPCUI;
+
+  beforeEach(() => {
+    spinner = { update: vi.fn(), succeed: vi.fn(), fail: vi.fn(), stop: vi.fn() };
+    hostUI = {
+      ...noopUI,
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      spinner: vi.fn(() => spinner),
+      confirm: vi.fn(async () => false),
+      prompt: vi.fn(async () => 'answer'),
+    };
+    sent = [];
+
+    // Wire child and parent ends like process.send / child.send
+    const listeners = new Set<(message: ParentMessage) => void>();
+    handler = createUIMessageHandler(hostUI, (response) => {
+      // JSON round-trip like the IPC channel
+      const message = JSON.parse(JSON.stringify(response)) as ParentMessage;
+      setImmediate(() => listeners.forEach((listener) => listener(message)));
+    });
+    ui = createIPCUI(
+      {
+        send: (message) => {
+          const copy = JSON.parse(JSON.stringify(message)) as ChildMessage;
+          sent.push(copy);
+          handler.handle(copy);
+        },
+        onMessage: (listener) => {
+          listeners.add(listener);
+          return () => listeners.delete(listener);
+        },
+      },
+      { colors: noopUI.colors, symbols: noopUI.symbols }
+    );
+  });
+
+  it('forwards output calls to the host UI', () => {
+    ui.info('hello', { title: 'Greeting' });
+    ui.error(new Error('boom'));
+
+    expect(hostUI.info).toHaveBeenCalledWith('hello', { title: 'Greeting' });
+    expect(hostUI.error).toHaveBeenCalledWith('boom');
+    expect(sent[1]).toEqual({ type: 'ui:call', method: 'error', args: ['boom'] });
+  });
+
+  it('returns real confirm and prompt answers from the host', async () => {
+    await expect(ui.confirm('Delete everything?')).resolves.toBe(false);
+    await expect(ui.prompt('Name?', { default: 'x' })).resolves.toBe('answer');
+
+    expect(hostUI.confirm).toHaveBeenCalledWith('Delete everything?');
+    expect(hostUI.prompt).toHaveBeenCalledWith('Name?', { default: 'x' });
+  });
+
+  it('runs prompt validation in the child and asks again', async () => {
+    vi.mocked(hostUI.prompt).mockResolvedValueOnce('').mockResolvedValueOnce('ok');
+
+    const value = await ui.prompt('Name?', { validate: (v) => v.length > 0 || 'Required' });
+
+    expect(value).toBe('ok');
+    expect(hostUI.prompt).toHaveBeenCalledTimes(2);
+    expect(hostUI.prompt).toHaveBeenCalledWith('Name?', {});
+    expect(hostUI.warn).toHaveBeenCalledWith('Required');
+  });
+
+  it('rejects with the host error', async () => {
+    vi.mocked(hostUI.prompt).mockRejectedValueOnce(new Error('stdin closed'));
+
+    await expect(ui.prompt('Name?')).rejects.toThrow('stdin closed');
+  });
+
+  it('drives a host spinner', () => {
+    const s = ui.spinner('Loading');
+    s.update('Still loading');
+    s.succeed('Done');
+    s.update('ignored');
+
+    expect(hostUI.spinner).toHaveBeenCalledWith('Loading');
+    expect(spinner.update).toHaveBeenCalledTimes(1);
+    expect(spinner.update).toHaveBeenCalledWith('Still loading');
+    expect(spinner.succeed).toHaveBeenCalledWith('Done');
+  });
+
+  it('stops spinners left running on dispose', () => {
+    ui.spinner('Loading');
+    handler.dispose();
+
+    expect(spinner.stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects pending requests when disposed', async () => {
+    vi.mocked(hostUI.confirm).mockReturnValueOnce(new Promise(() => {}));
+
+    const pending = ui.confirm('Sure?');
+    await flush();
+    ui.dispose();
+
+    await expect(pending).rejects.toMatchObject({ code: 'UI_UNAVAILABLE' });
+  });
+});
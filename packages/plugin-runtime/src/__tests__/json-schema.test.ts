@@ -0,0 +1,59 @@
+/**
+ * @module @kb-labs/plugin-runtime/__tests__/json-schema
+ *
+ * Tests for the JSON Schema subset: type lists and detection of
+ * keywords the validator does not check.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { JsonSchema } from '@kb-labs/plugin-contracts';
+import { validateJsonSchema, findUnsupportedJsonSchemaKeywords } from '../utils/json-schema.js';
+
+describe('validateJsonSchema', () => {
+  it('accepts any type of a type list', () => {
+    const schema: JsonSchema = { type: 'object', properties: { cursor: { type: ['string', 'null'] } } };
+
+    expect(validateJsonSchema(schema, { cursor: null }).issues).toEqual([]);
+    expect(validateJsonSchema(schema, { cursor: 'abc' }).issues).toEqual([]);
+    expect(validateJsonSchema(schema, { cursor: 1 }).issues).toEqual([
+      { path: 'cursor', message: 'expected string or null, got number' },
+    ]);
+  });
+
+  it('coerces strings only when the type list has no string', () => {
+    expect(validateJsonSchema({ type: ['integer', 'null'] }, '5', { coerce: true }).value).toBe(5);
+    expect(validateJsonSchema({ type: ['string', 'integer'] }, '5', { coerce: true }).value).toBe('5');
+  });
+});
+
+describe('findUnsupportedJsonSchemaKeywords', () => {
+  it('accepts the supported subset and annotations', () => {
+    expect(findUnsupportedJsonSchemaKeywords({
+      type: 'object',
+      title: 'Query',
+      properties: {
+        q: { type: 'string', minLength: 1, description: 'Search text' },
+        tags: { type: 'array', items: { type: ['string', 'null'] } },
+      },
+      additionalProperties: { type: 'number' },
+      required: ['q'],
+    })).toEqual([]);
+  });
+
+  it('reports unsupported keywords with their path', () => {
+    expect(findUnsupportedJsonSchemaKeywords({
+      type: 'object',
+      anyOf: [{ required: ['a'] }, { required: ['b'] }],
+      properties: {
+        email: { type: 'string', format: 'email' },
+        ids: { type: 'array', items: { oneOf: [{ type: 'string' }, { type: 'integer' }] } },
+        kind: { type: 'date' },
+      },
+    })).toEqual([
+      'anyOf',
+      'properties.email.format',
+      'properties.ids.items.oneOf',
+      'properties.kind.type',
+    ]);
+  });
+});
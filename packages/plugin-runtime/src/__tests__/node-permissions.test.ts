@@ -0,0 +1,265 @@
+/**
+ * @module @kb-labs/plugin-runtime/__tests__/node-permissions
+ *
+ * Tests for Node permission model flags and denial mapping (subprocess sandbox).
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as net from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { PermissionError } from '@kb-labs/plugin-contracts';
+import type { PluginContextDescriptor } from '@kb-labs/plugin-contracts';
+import { runInSubprocess } from '../sandbox/runner.js';
+import {
+  nodePermissionExecArgv,
+  resolveNodePermissionMode,
+  toPermissionError,
+  accessDeniedFromStderr,
+} from '../sandbox/node-permissions.js';
+
+const paths = {
+  cwd: '/work/project',
+  pluginRoot: '/plugins/acme',
+  runtimeDir: '/runtime/dist',
+};
+
+function allowed(args: string[], flag: string): string[] {
+  return args.filter((a) => a.startsWith(`${flag}=`)).map((a) => a.slice(flag.length + 1));
+}
+
+describe('resolveNodePermissionMode', () => {
+  it('prefers the option, then KB_SANDBOX_NODE_PERMISSIONS, default off', () => {
+    expect(resolveNodePermissionMode(undefined, {})).toBe('off');
+    expect(resolveNodePermissionMode(undefined, { KB_SANDBOX_NODE_PERMISSIONS: 'enforce' })).toBe('enforce');
+    expect(resolveNodePermissionMode('off', { KB_SANDBOX_NODE_PERMISSIONS: 'enforce' })).toBe('off');
+    expect(resolveNodePermissionMode(undefined, { KB_SANDBOX_NODE_PERMISSIONS: 'yes' })).toBe('off');
+  });
+});
+
+describe('nodePermissionExecArgv', () => {
+  it('derives read/write allowlists from PermissionSpec, outdir and plugin root', () => {
+    const args = nodePermissionExecArgv(
+      { fs: { read: ['docs', '/etc/acme.json'], write: ['tmp'] } },
+      { ...paths, stateDir: '/state' }
+    );
+
+    expect(args[0]).toMatch(/^--(experimental-)?permission$/);
+    expect(allowed(args, '--allow-fs-read')).toEqual([
+      '/runtime/dist',
+      '/plugins/acme',
+      '/work/project',
+      '/work/project/docs',
+      '/etc/acme.json',
+      '/work/project/.kb/output',
+      '/work/project/tmp',
+      '/state',
+    ]);
+    expect(allowed(args, '--allow-fs-write')).toEqual([
+      '/work/project/.kb/output',
+      '/work/project/tmp',
+      '/state',
+    ]);
+    expect(args).toContain('--allow-worker');
+    expect(args).not.toContain('--allow-child-process');
+  });
+
+  it('widens glob patterns to their static directory', () => {
+    const args = nodePermissionExecArgv(
+      { fs: { read: ['src/**/*.ts', '*.json'] } },
+      { ...paths, outdir: '/out' }
+    );
+
+    expect(allowed(args, '--allow-fs-read')).toEqual(
+      expect.arrayContaining(['/work/project/src', '/work/project', '/out'])
+    );
+    expect(allowed(args, '--allow-fs-write')).toEqual(['/out']);
+  });
+
+  it('allows any path for "**", as the fs shim does', () => {
+    expect(allowed(nodePermissionExecArgv({ fs: { read: ['**'] } }, paths), '--allow-fs-read')).toEqual(['*']);
+
+    const args = nodePermissionExecArgv({ fs: { read: ['docs'], write: ['**'] } }, paths);
+    expect(allowed(args, '--allow-fs-read')).toEqual(['*']);
+    expect(allowed(args, '--allow-fs-write')).toEqual(['*']);
+  });
+
+  it('allows child processes only with shell permissions', () => {
+    expect(nodePermissionExecArgv({ shell: { allow: ['git'] } }, paths)).toContain('--allow-child-process');
+    expect(nodePermissionExecArgv({ shell: { allow: [] } }, paths)).not.toContain('--allow-child-process');
+  });
+});
+
+describe('denial mapping', () => {
+  it('maps ERR_ACCESS_DENIED to PermissionError with a hint', () => {
+    const denied = Object.assign(new Error('Access to this API has been restricted'), {
+      code: 'ERR_ACCESS_DENIED',
+      permission: 'FileSystemWrite',
+      resource: '/etc/passwd',
+    });
+
+    const error = toPermissionError(denied);
+
+    expect(error).toBeInstanceOf(PermissionError);
+    expect(error?.code).toBe('PERMISSION_DENIED');
+    expect(error?.message).toBe(
+      'Node permission model denied FileSystemWrite to /etc/passwd. ' +
+      'Add the path to permissions.fs.write in the plugin manifest.'
+    );
+    expect(error?.details).toEqual({ permission: 'FileSystemWrite', resource: '/etc/passwd' });
+  });
+
+  it('ignores other errors', () => {
+    expect(toPermissionError(new Error('boom'))).toBeUndefined();
+    expect(toPermissionError('ERR_ACCESS_DENIED')).toBeUndefined();
+  });
+
+  it('recognizes a denial in child stderr', () => {
+    const stderr = [
+      'node:internal/modules/esm/load:1',
+      '  code: \'ERR_ACCESS_DENIED\',',
+      '  permission: \'FileSystemRead\',',
+      '  resource: \'/plugins/acme/handler.js\'',
+      '}',
+    ].join('\n');
+
+    expect(accessDeniedFromStderr(stderr)?.message).toContain('denied FileSystemRead to /plugins/acme/handler.js');
+    expect(accessDeniedFromStderr('Error: boom')).toBeUndefined();
+  });
+});
+
+describe('Node permission model (child process)', () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-node-permissions-'));
+    // Created by runInSubprocess before forking
+    fs.mkdirSync(path.join(root, 'project', '.kb', 'output'), { recursive: true });
+    fs.mkdirSync(path.join(root, 'plugin'));
+    fs.mkdirSync(path.join(root, 'secrets'));
+    fs.writeFileSync(path.join(root, 'secrets', 'key.txt'), 'secret');
+    fs.writeFileSync(
+      path.join(root, 'plugin', 'probe.cjs'),
+      `const fs = require('node:fs');
+const attempt = (fn) => { try { fn(); return 'ok'; } catch (e) { return e.code; } };
+process.stdout.write(JSON.stringify({
+  readSecret: attempt(() => fs.readFileSync(${JSON.stringify(path.join(root, 'secrets', 'key.txt'))})),
+  writeOutdir: attempt(() => fs.writeFileSync('.kb/output/a.txt', 'a')),
+  writePlugin: attempt(() => fs.writeFileSync('../plugin/b.txt', 'b')),
+  spawn: attempt(() => require('node:child_process').execFileSync(process.execPath, ['-v'])),
+}));`
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('enforces the derived allowlists', () => {
+    const args = nodePermissionExecArgv({}, {
+      cwd: path.join(root, 'project'),
+      pluginRoot: path.join(root, 'plugin'),
+      runtimeDir: path.join(root, 'plugin'),
+    });
+
+    const result = spawnSync(process.execPath, [...args, path.join(root, 'plugin', 'probe.cjs')], {
+      cwd: path.join(root, 'project'),
+      encoding: 'utf8',
+      timeout: 20_000,
+    });
+
+    expect(JSON.parse(result.stdout)).toEqual({
+      readSecret: 'ERR_ACCESS_DENIED',
+      writeOutdir: 'ok',
+      writePlugin: 'ERR_ACCESS_DENIED',
+      spawn: 'ERR_ACCESS_DENIED',
+    });
+  });
+
+  it('lets "**" read outside cwd', () => {
+    const args = nodePermissionExecArgv({ fs: { read: ['**'] } }, {
+      cwd: path.join(root, 'project'),
+      pluginRoot: path.join(root, 'plugin'),
+      runtimeDir: path.join(root, 'plugin'),
+    });
+
+    const result = spawnSync(process.execPath, [...args, path.join(root, 'plugin', 'probe.cjs')], {
+      cwd: path.join(root, 'project'),
+      encoding: 'utf8',
+      timeout: 20_000,
+    });
+
+    expect(JSON.parse(result.stdout)).toMatchObject({ readSecret: 'ok', writePlugin: 'ERR_ACCESS_DENIED' });
+  });
+});
+
+describe('runInSubprocess with nodePermissions enforce', () => {
+  let root: string;
+  let server: net.Server;
+
+  beforeAll(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-node-permissions-deps-'));
+    const write = (file: string, content: string) => {
+      fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+      fs.writeFileSync(path.join(root, file), content);
+    };
+
+    // pnpm layout: the plugin's node_modules holds symlinks into the virtual store
+    // and to linked workspace packages
+    write('node_modules/.pnpm/left-pad@1.0.0/node_modules/left-pad/package.json',
+      JSON.stringify({ name: 'left-pad', type: 'module', exports: './index.js' }));
+    write('node_modules/.pnpm/left-pad@1.0.0/node_modules/left-pad/index.js',
+      'export default (s, n) => String(s).padStart(n, "0");');
+    write('shared/util/package.json', JSON.stringify({ name: '@acme/util', type: 'module', exports: './index.js' }));
+    write('shared/util/index.js', 'export const shout = (s) => s.toUpperCase();');
+    write('plugin/package.json', JSON.stringify({ name: '@acme/plugin', type: 'module' }));
+    write('plugin/handler.js', `import leftPad from 'left-pad';
+import { shout } from '@acme/util';
+export default { execute: () => ({ padded: leftPad(7, 3), shouted: shout('ok') }) };`);
+    fs.mkdirSync(path.join(root, 'plugin', 'node_modules', '@acme'), { recursive: true });
+    fs.symlinkSync(
+      path.join(root, 'node_modules/.pnpm/left-pad@1.0.0/node_modules/left-pad'),
+      path.join(root, 'plugin/node_modules/left-pad')
+    );
+    fs.symlinkSync(path.join(root, 'shared/util'), path.join(root, 'plugin/node_modules/@acme/util'));
+    // Plugin reached through a symlink, as when linked into a host's node_modules
+    fs.symlinkSync(path.join(root, 'plugin'), path.join(root, 'plugin-link'));
+    fs.mkdirSync(path.join(root, 'project'));
+
+    server = net.createServer(() => {});
+    await new Promise<void>((resolve) => server.listen(path.join(root, 'platform.sock'), resolve));
+  });
+
+  afterAll(() => {
+    server.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('loads a handler that imports pnpm and linked workspace dependencies', async () => {
+    const descriptor: PluginContextDescriptor = {
+      hostType: 'cli',
+      pluginId: '@acme/plugin',
+      pluginVersion: '1.0.0',
+      requestId: 'node-permissions-deps',
+      handlerId: 'acme:deps',
+      permissions: {},
+      hostContext: { host: 'cli', argv: [], flags: {} },
+    };
+
+    const result = await runInSubprocess<{ padded: string; shouted: string }>({
+      descriptor,
+      socketPath: path.join(root, 'platform.sock'),
+      handlerPath: path.join(root, 'plugin-link', 'handler.js'),
+      pluginRoot: path.join(root, 'plugin-link'),
+      input: {},
+      timeoutMs: 15_000,
+      cwd: path.join(root, 'project'),
+      nodePermissions: 'enforce',
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.data).toEqual({ padded: '007', shouted: 'OK' });
+  }, 20_000);
+});
@@ -296,7 +296,7 @@ describe('Wildcard Permissions - network.fetch', () => {
 
   it('should allow fetching ANY URL with * wildcard', async () => {
     // Mock global fetch to prevent real HTTP requests
-    const mockFetch = vi.fn().mockResolvedValue({ ok: true, json: async () => ({}) });
+    const mockFetch = vi.fn(async () => new Response('{}'));
     global.fetch = mockFetch as any;
 
     const permissions: PermissionSpec = {
@@ -336,13 +336,13 @@ describe('Wildcard Permissions - network.fetch', () => {
     // Verify fetch was called for each URL
     expect(mockFetch).toHaveBeenCalledTimes(urls.length);
     urls.forEach(url => {
-      expect(mockFetch).toHaveBeenCalledWith(url, undefined);
+      expect(mockFetch).toHaveBeenCalledWith(url, expect.objectContaining({ method: 'GET', redirect: 'manual' }));
     });
   });
 
   it('should block fetch when no wildcard permission', async () => {
     // Mock global fetch to prevent real HTTP requests
-    const mockFetch = vi.fn().mockResolvedValue({ ok: true, json: async () => ({}) });
+    const mockFetch = vi.fn(async () => new Response('{}'));
     global.fetch = mockFetch as any;
 
     const permissions: PermissionSpec = {
@@ -369,7 +369,10 @@ describe('Wildcard Permissions - network.fetch', () => {
 
     // Allowed URL should pass permission check
     await context.runtime.fetch('https://example.com/api');
-    expect(mockFetch).toHaveBeenCalledWith('https://example.com/api', undefined);
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://example.com/api',
+      expect.objectContaining({ method: 'GET', redirect: 'manual' })
+    );
 
     // Non-allowed URL should fail with PermissionError
     await expect(
@@ -483,7 +486,7 @@ describe('SYSTEM_UNRESTRICTED_PERMISSIONS', () => {
 
   it('should grant full access with all wildcards', async () => {
     // Mock global fetch to prevent real HTTP requests
-    const mockFetch = vi.fn().mockResolvedValue({ ok: true, json: async () => ({}) });
+    const mockFetch = vi.fn(async () => new Response('{}'));
     global.fetch = mockFetch as any;
 
     // This is the exact permission set that system commands will use
@@ -536,7 +539,10 @@ describe('SYSTEM_UNRESTRICTED_PERMISSIONS', () => {
 
     // 3. Network fetch - any URL (permission check only)
     await context.runtime.fetch('https://example.com');
-    expect(mockFetch).toHaveBeenCalledWith('https://example.com', undefined);
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://example.com',
+      expect.objectContaining({ method: 'GET', redirect: 'manual' })
+    );
 
     // 4. Env - any variable
     process.env.TEST_SYSTEM_VAR = 'test';
@@ -0,0 +1,155 @@
+/**
+ * @module @kb-labs/plugin-runtime/__tests__/plugin-config
+ *
+ * Tests for ctx.config resolution: kb.config.json lookup, profile
+ * selection, schema validation and defaults.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { ConfigSchema } from '@kb-labs/plugin-contracts';
+import { ConfigError } from '@kb-labs/plugin-contracts';
+import { loadPluginConfig, applyConfigSchema, findKbConfigFile } from '../context/plugin-config.js';
+
+const schema: ConfigSchema = {
+  type: 'object',
+  properties: {
+    model: { type: 'string', enum: ['small', 'large'] },
+    maxFiles: { type: 'integer', default: 100, minimum: 1 },
+    index: {
+      type: 'object',
+      properties: {
+        include: { type: 'array', items: { type: 'string' }, default: ['src/**'] },
+      },
+    },
+  },
+  required: ['model'],
+  additionalProperties: false,
+};
+
+describe('applyConfigSchema', () => {
+  it('fills in defaults, including nested objects', () => {
+    const input = { model: 'small' };
+    const { value, errors } = applyConfigSchema(schema, input);
+
+    expect(errors).toEqual([]);
+    expect(value).toEqual({ model: 'small', maxFiles: 100, index: { include: ['src/**'] } });
+    expect(input).toEqual({ model: 'small' });
+  });
+
+  it('does not share default objects between results', () => {
+    const first = applyConfigSchema(schema, { model: 'small' }).value as { index: { include: string[] } };
+    first.index.include.push('lib/**');
+
+    expect(applyConfigSchema(schema, { model: 'small' }).value).toMatchObject({ index: { include: ['src/**'] } });
+  });
+
+  it('reports every error with its path', () => {
+    const { errors } = applyConfigSchema(schema, {
+      maxFiles: 0,
+      index: { include: ['src/**', 42] },
+      extra: true,
+    }, 'mind');
+
+    expect(errors).toEqual([
+      'mind.maxFiles: must be >= 1',
+      'mind.index.include[1]: expected string, got number',
+      'mind.extra: unknown property',
+      'mind.model: required',
+    ]);
+  });
+
+  it('accepts integers for number and rejects fractions for integer', () => {
+    expect(applyConfigSchema({ type: 'number' }, 3).errors).toEqual([]);
+    expect(applyConfigSchema({ type: 'integer' }, 1.5).errors).toEqual(['config: expected integer, got number']);
+  });
+});
+
+describe('loadPluginConfig', () => {
+  let root: string;
+  let workspace: string;
+
+  const writeConfig = (dir: string, content: unknown) => {
+    fs.mkdirSync(path.join(dir, '.kb'), { recursive: true });
+    fs.writeFileSync(path.join(dir, '.kb', 'kb.config.json'), JSON.stringify(content));
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-config-'));
+    workspace = path.join(root, 'packages', 'app');
+    fs.mkdirSync(workspace, { recursive: true });
+    writeConfig(root, {
+      profiles: [
+        { id: 'ci', products: { mind: { model: 'large', maxFiles: 10 } } },
+        { id: 'default', products: { mind: { model: 'small' } } },
+      ],
+    });
+  });
+
+  it('finds kb.config.json in parent directories', async () => {
+    await expect(findKbConfigFile(workspace)).resolves.toBe(path.join(root, '.kb', 'kb.config.json'));
+  });
+
+  it('returns undefined without a configSection', async () => {
+    await expect(loadPluginConfig({ cwd: workspace, descriptor: {}, env: {} })).resolves.toBeUndefined();
+  });
+
+  it('uses the "default" profile and applies schema defaults', async () => {
+    const config = await loadPluginConfig({
+      cwd: workspace,
+      descriptor: { configSection: 'mind', configSchema: schema },
+      env: {},
+    });
+
+    expect(config).toEqual({ model: 'small', maxFiles: 100, index: { include: ['src/**'] } });
+  });
+
+  it('selects the profile from KB_PROFILE or options', async () => {
+    const descriptor = { configSection: 'mind' };
+
+    await expect(loadPluginConfig({ cwd: workspace, descriptor, env: { KB_PROFILE: 'ci' } }))
+      .resolves.toEqual({ model: 'large', maxFiles: 10 });
+    await expect(loadPluginConfig({ cwd: workspace, descriptor, profile: 'default', env: { KB_PROFILE: 'ci' } }))
+      .resolves.toEqual({ model: 'small' });
+  });
+
+  it('rejects unknown profiles', async () => {
+    await expect(loadPluginConfig({
+      cwd: workspace,
+      descriptor: { configSection: 'mind' },
+      profile: 'staging',
+      env: {},
+    })).rejects.toThrow('Profile "staging" not found');
+  });
+
+  it('throws ConfigError for sections that fail validation', async () => {
+    writeConfig(workspace, { profiles: [{ id: 'default', products: { mind: { model: 'huge' } } }] });
+
+    const error = await loadPluginConfig({
+      cwd: workspace,
+      descriptor: { configSection: 'mind', configSchema: schema },
+      env: {},
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect((error as ConfigError).message).toBe('Invalid config for "mind": mind.model: must be one of "small", "large"');
+  });
+
+  it('validates a missing section against the schema', async () => {
+    await expect(loadPluginConfig({
+      cwd: workspace,
+      descriptor: { configSection: 'other', configSchema: schema },
+      env: {},
+    })).rejects.toThrow('other.model: required');
+  });
+
+  it('throws ConfigError for malformed config files', async () => {
+    fs.mkdirSync(path.join(workspace, '.kb'), { recursive: true });
+    fs.writeFileSync(path.join(workspace, '.kb', 'kb.config.json'), '{ profiles: ');
+
+    await expect(loadPluginConfig({ cwd: workspace, descriptor: { configSection: 'mind' }, env: {} }))
+      .rejects.toThrow(ConfigError);
+  });
+});
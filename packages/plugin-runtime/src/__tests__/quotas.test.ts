@@ -0,0 +1,123 @@
+/**
+ * @module @kb-labs/plugin-runtime/__tests__/quotas
+ *
+ * Tests for resource quota resolution and usage checks (PermissionSpec.quotas).
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { QuotaExceededError, TimeoutError } from '@kb-labs/plugin-contracts';
+import {
+  resolveQuotas,
+  needsUsageSampling,
+  heapLimitExecArgv,
+  checkUsage,
+  createTimeoutError,
+  isHeapOutOfMemoryExit,
+  startUsageSampler,
+  type UsageSample,
+} from '../sandbox/quotas.js';
+
+describe('resolveQuotas()', () => {
+  it('uses request timeout when no quota is set', () => {
+    expect(resolveQuotas({}, 5000)).toEqual({
+      timeoutMs: 5000,
+      timeoutFromQuota: false,
+      memoryMb: undefined,
+      cpuMs: undefined,
+    });
+  });
+
+  it('falls back to default timeout', () => {
+    expect(resolveQuotas(undefined).timeoutMs).toBe(30000);
+    expect(resolveQuotas(undefined, undefined, 1000).timeoutMs).toBe(1000);
+  });
+
+  it('quota timeout overrides request timeout', () => {
+    const quotas = resolveQuotas({ quotas: { timeoutMs: 2000 } }, 60000);
+
+    expect(quotas.timeoutMs).toBe(2000);
+    expect(quotas.timeoutFromQuota).toBe(true);
+  });
+
+  it('ignores non-positive limits', () => {
+    const quotas = resolveQuotas({ quotas: { timeoutMs: 0, memoryMb: -1, cpuMs: Number.NaN } }, 100);
+
+    expect(quotas).toMatchObject({ timeoutMs: 100, timeoutFromQuota: false });
+    expect(needsUsageSampling(quotas)).toBe(false);
+  });
+});
+
+describe('heapLimitExecArgv()', () => {
+  it('returns max-old-space-size flag', () => {
+    expect(heapLimitExecArgv(256)).toEqual(['--max-old-space-size=256']);
+    expect(heapLimitExecArgv(undefined)).toEqual([]);
+  });
+});
+
+describe('checkUsage()', () => {
+  it('returns null within limits', () => {
+    expect(checkUsage({ cpuMs: 50, heapUsedMb: 10 }, { cpuMs: 100, memoryMb: 64 })).toBeNull();
+  });
+
+  it('reports CPU breach with QUOTA_CPU_EXCEEDED', () => {
+    const error = checkUsage({ cpuMs: 150.4, heapUsedMb: 10 }, { cpuMs: 100 });
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error?.code).toBe('QUOTA_CPU_EXCEEDED');
+    expect(error?.details).toEqual({ quota: 'cpu', limit: 100, used: 150 });
+  });
+
+  it('reports heap breach with QUOTA_MEMORY_EXCEEDED', () => {
+    const error = checkUsage({ cpuMs: 0, heapUsedMb: 80 }, { memoryMb: 64 });
+
+    expect(error?.code).toBe('QUOTA_MEMORY_EXCEEDED');
+  });
+});
+
+describe('startUsageSampler()', () => {
+  const MB = 1024 * 1024;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function sampleHeap(heapUsedMb: number[], heapBaseline?: boolean): number[] {
+    const memoryUsage = vi.spyOn(process, 'memoryUsage');
+    for (const mb of heapUsedMb) {
+      memoryUsage.mockReturnValueOnce({ heapUsed: mb * MB } as NodeJS.MemoryUsage);
+    }
+    const samples: UsageSample[] = [];
+    const stop = startUsageSampler((sample) => samples.push(sample), { intervalMs: 60_000, heapBaseline });
+    stop();
+    return samples.map((sample) => sample.heapUsedMb);
+  }
+
+  it('reports the whole heap by default', () => {
+    expect(sampleHeap([300])).toEqual([300]);
+  });
+
+  it('reports heap growth since start with heapBaseline', () => {
+    // Worker heap of 250MB from earlier executions, handler adds 20MB
+    expect(sampleHeap([250, 270], true)).toEqual([20]);
+    expect(sampleHeap([250, 200], true)).toEqual([0]);
+  });
+});
+
+describe('createTimeoutError()', () => {
+  it('distinguishes quota timeout from request timeout', () => {
+    expect(createTimeoutError({ timeoutMs: 100, timeoutFromQuota: true }).code).toBe('QUOTA_TIMEOUT_EXCEEDED');
+
+    const requestTimeout = createTimeoutError({ timeoutMs: 100, timeoutFromQuota: false });
+    expect(requestTimeout).toBeInstanceOf(TimeoutError);
+    expect(requestTimeout.code).toBe('TIMEOUT');
+  });
+});
+
+describe('isHeapOutOfMemoryExit()', () => {
+  it('detects V8 OOM aborts', () => {
+    expect(isHeapOutOfMemoryExit(null, 'SIGABRT')).toBe(true);
+    expect(isHeapOutOfMemoryExit(134, null)).toBe(true);
+    expect(isHeapOutOfMemoryExit(1, null, 'FATAL ERROR: Reached heap limit - JavaScript heap out of memory')).toBe(true);
+    expect(isHeapOutOfMemoryExit(1, null)).toBe(false);
+  });
+});
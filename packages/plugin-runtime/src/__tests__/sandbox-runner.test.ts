@@ -486,6 +486,49 @@ describe('Sandbox Runner', () => {
       });
       expect(result.executionMeta).toBeDefined();
     });
+
+    it('should expose the configSection of kb.config.json as ctx.config', async () => {
+      const handlerPath = join(testDir, 'config-handler.js');
+      writeFileSync(handlerPath, `
+        export default {
+          async execute(ctx) {
+            return ctx.config;
+          }
+        };
+      `);
+      mkdirSync(join(testDir, '.kb'), { recursive: true });
+      writeFileSync(join(testDir, '.kb', 'kb.config.json'), JSON.stringify({
+        profiles: [{ id: 'default', products: { test: { model: 'small' } } }],
+      }));
+
+      const descriptor: PluginContextDescriptor = {
+        hostType: 'cli',
+        pluginId: '@kb-labs/test',
+        pluginVersion: '1.0.0',
+        requestId: 'req-config',
+        permissions: {},
+        hostContext: { host: 'cli', argv: [], flags: {} },
+        configSection: 'test',
+        configSchema: {
+          type: 'object',
+          properties: {
+            model: { type: 'string' },
+            maxFiles: { type: 'integer', default: 100 },
+          },
+        },
+      };
+
+      const result = await runInProcess({
+        descriptor,
+        platform: mockPlatform,
+        ui: mockUI,
+        handlerPath,
+        input: {},
+        cwd: testDir,
+      });
+
+      expect(result.data).toEqual({ model: 'small', maxFiles: 100 });
+    });
   });
 
   describe('runInSubprocess', () => {
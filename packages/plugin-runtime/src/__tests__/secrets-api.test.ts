@@ -0,0 +1,261 @@
+/**
+ * @module @kb-labs/plugin-runtime/__tests__/secrets-api
+ *
+ * Tests for SecretsAPI: permissions.secrets, the env/file-backed local
+ * provider, the IPC provider, and redaction of handed-out values from
+ * logs, trace events and errors.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { PermissionSpec } from '@kb-labs/plugin-contracts';
+import { PermissionError, ConfigError, PluginError } from '@kb-labs/plugin-contracts';
+import { createSecretsAPI, createLocalSecretProvider, isSecretAllowed } from '../api/secrets.js';
+import { createSecretRedactor, createRedactingLogger, REDACTED } from '../context/redaction.js';
+import { createStreamingLogger } from '../context/streaming-logger.js';
+import { createTraceContext } from '../context/trace.js';
+import { createIPCSecretProvider, createSecretMessageHandler } from '../sandbox/ipc-secrets.js';
+import type { ChildMessage, ParentMessage } from '../sandbox/ipc-protocol.js';
+import type { UIChannel } from '../sandbox/ipc-ui.js';
+
+const TOKEN = 'ghp_supersecretvalue123';
+
+function createMockLogger() {
+  const logger = {
+    trace: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn(),
+    child: vi.fn(() => logger),
+  };
+  return logger;
+}
+
+describe('isSecretAllowed', () => {
+  it('matches exact names and prefixes', () => {
+    const permissions: PermissionSpec = { secrets: { read: ['NPM_TOKEN', 'GITHUB_*'] } };
+
+    expect(isSecretAllowed('NPM_TOKEN', permissions)).toBe(true);
+    expect(isSecretAllowed('GITHUB_TOKEN', permissions)).toBe(true);
+    expect(isSecretAllowed('NPM_TOKEN_2', permissions)).toBe(false);
+    expect(isSecretAllowed('AWS_SECRET', permissions)).toBe(false);
+  });
+
+  it('denies everything without a secrets section', () => {
+    expect(isSecretAllowed('NPM_TOKEN', {})).toBe(false);
+  });
+});
+
+describe('createSecretsAPI', () => {
+  const provider = createLocalSecretProvider({ env: { GITHUB_TOKEN: TOKEN, OTHER: 'x' } });
+
+  it('returns permitted secrets and reports them for redaction', async () => {
+    const onSecret = vi.fn();
+    const secrets = createSecretsAPI({
+      permissions: { secrets: { read: ['GITHUB_*'] } },
+      provider,
+      onSecret,
+    });
+
+    await expect(secrets.get('GITHUB_TOKEN')).resolves.toBe(TOKEN);
+    await expect(secrets.get('GITHUB_MISSING')).resolves.toBeUndefined();
+    expect(onSecret).toHaveBeenCalledTimes(1);
+    expect(onSecret).toHaveBeenCalledWith(TOKEN);
+  });
+
+  it('throws PermissionError for names outside permissions.secrets.read', async () => {
+    const secrets = createSecretsAPI({ permissions: { secrets: { read: ['GITHUB_*'] } }, provider });
+
+    await expect(secrets.get('OTHER')).rejects.toThrow(PermissionError);
+    await expect(secrets.get('OTHER')).rejects.toThrow('Secret access denied: OTHER');
+  });
+});
+
+describe('createLocalSecretProvider', () => {
+  function writeSecretsFile(content: string): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-secrets-'));
+    const file = path.join(dir, 'secrets.json');
+    fs.writeFileSync(file, content);
+    return file;
+  }
+
+  it('prefers env variables over the secrets file', async () => {
+    const file = writeSecretsFile(JSON.stringify({ API_KEY: 'from-file', ONLY_FILE: 'file-value', COUNT: 3 }));
+    const provider = createLocalSecretProvider({ env: { API_KEY: 'from-env' }, file });
+
+    await expect(provider.get('API_KEY')).resolves.toBe('from-env');
+    await expect(provider.get('ONLY_FILE')).resolves.toBe('file-value');
+    await expect(provider.get('COUNT')).resolves.toBeUndefined();
+    await expect(provider.get('MISSING')).resolves.toBeUndefined();
+  });
+
+  it('reads the file from KB_SECRETS_FILE', async () => {
+    const file = writeSecretsFile(JSON.stringify({ API_KEY: 'from-file' }));
+    const provider = createLocalSecretProvider({ env: { KB_SECRETS_FILE: file } });
+
+    await expect(provider.get('API_KEY')).resolves.toBe('from-file');
+  });
+
+  it('rejects a secrets file that is not a JSON object', async () => {
+    const file = writeSecretsFile('["API_KEY"]');
+    const provider = createLocalSecretProvider({ env: {}, file });
+
+    await expect(provider.get('API_KEY')).rejects.toThrow(ConfigError);
+  });
+});
+
+describe('createSecretRedactor', () => {
+  it('masks registered values, including their URL-encoded form', () => {
+    const redactor = createSecretRedactor();
+    redactor.add('p@ss word!');
+
+    expect(redactor.redact('login with p@ss word!')).toBe(`login with ${REDACTED}`);
+    expect(redactor.redact('https://x.test/?key=p%40ss%20word!')).toBe(`https://x.test/?key=${REDACTED}`);
+  });
+
+  it('ignores values too short to redact safely', () => {
+    const redactor = createSecretRedactor();
+    redactor.add('abc');
+
+    expect(redactor.redact('abcdef')).toBe('abcdef');
+  });
+
+  it('masks the longest overlapping secret whole', () => {
+    const redactor = createSecretRedactor();
+    redactor.add('secret');
+    redactor.add('secret-extended');
+
+    expect(redactor.redact('value=secret-extended')).toBe(`value=${REDACTED}`);
+  });
+
+  it('copies nested values and handles cycles', () => {
+    const redactor = createSecretRedactor();
+    redactor.add(TOKEN);
+
+    const input: Record<string, unknown> = { headers: { authorization: `Bearer ${TOKEN}` }, list: [TOKEN, 1] };
+    input.self = input;
+
+    const output = redactor.redactValue(input);
+
+    expect(output).not.toBe(input);
+    expect(output.headers).toEqual({ authorization: `Bearer ${REDACTED}` });
+    expect(output.list).toEqual([REDACTED, 1]);
+    expect(output.self).toBe(output);
+    expect((input.headers as Record<string, string>).authorization).toContain(TOKEN);
+  });
+
+  it('masks error messages, stacks and PluginError details', () => {
+    const redactor = createSecretRedactor();
+    redactor.add(TOKEN);
+
+    const error = new PluginError(`Request failed for ${TOKEN}`, 'REQUEST_FAILED', { token: TOKEN });
+    const redacted = redactor.redactError(error);
+
+    expect(redacted).toBe(error);
+    expect(error.message).toBe(`Request failed for ${REDACTED}`);
+    expect(error.stack).not.toContain(TOKEN);
+    expect(JSON.stringify(error.toJSON())).not.toContain(TOKEN);
+  });
+});
+
+describe('redaction in execution outputs', () => {
+  it('redacts logger messages, meta and child loggers', () => {
+    const base = createMockLogger();
+    const redactor = createSecretRedactor();
+    const logger = createRedactingLogger(base as any, redactor);
+
+    redactor.add(TOKEN);
+    logger.info(`token is ${TOKEN}`, { token: TOKEN });
+    logger.child({ token: TOKEN }).warn(TOKEN);
+
+    expect(base.info).toHaveBeenCalledWith(`token is ${REDACTED}`, { token: REDACTED });
+    expect(base.child).toHaveBeenCalledWith({ token: REDACTED });
+    expect(base.warn).toHaveBeenCalledWith(REDACTED);
+  });
+
+  it('redacts streamed log lines', () => {
+    const base = createMockLogger();
+    const emitter = vi.fn(async () => {});
+    const redactor = createSecretRedactor();
+    redactor.add(TOKEN);
+
+    createStreamingLogger(base as any, emitter, redactor).error(`failed with ${TOKEN}`);
+
+    expect(emitter).toHaveBeenCalledWith('log.line', expect.objectContaining({ line: `failed with ${REDACTED}` }));
+  });
+
+  it('redacts trace event attributes', () => {
+    const logger = createMockLogger();
+    const redactor = createSecretRedactor();
+    redactor.add(TOKEN);
+
+    const trace = createTraceContext({ traceId: 't', spanId: 's', logger, redactor });
+    trace.addEvent('http.request', { url: `https://api.test/?token=${TOKEN}` });
+
+    expect(logger.debug).toHaveBeenCalledWith('[trace] http.request', {
+      traceId: 't',
+      spanId: 's',
+      url: `https://api.test/?token=${REDACTED}`,
+    });
+  });
+});
+
+describe('IPC secret provider', () => {
+  /**
+   * Wire a child-side channel to a parent-side handler
+   */
+  function connect(parentPermissions: PermissionSpec, env: NodeJS.ProcessEnv) {
+    const listeners = new Set<(message: ParentMessage) => void>();
+    const sent: ChildMessage[] = [];
+    const handler = createSecretMessageHandler(
+      createLocalSecretProvider({ env }),
+      parentPermissions,
+      (message) => listeners.forEach((listener) => listener(message))
+    );
+    const channel: UIChannel = {
+      send(message) {
+        sent.push(message);
+        handler.handle(message);
+      },
+      onMessage(listener) {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+    };
+    return { channel, sent };
+  }
+
+  it('answers permitted requests from the parent provider', async () => {
+    const { channel, sent } = connect({ secrets: { read: ['NPM_TOKEN'] } }, { NPM_TOKEN: TOKEN });
+    const provider = createIPCSecretProvider(channel);
+
+    await expect(provider.get('NPM_TOKEN')).resolves.toBe(TOKEN);
+    expect(sent).toEqual([{ type: 'secret:request', id: expect.any(String), name: 'NPM_TOKEN' }]);
+  });
+
+  it('re-checks permissions in the parent', async () => {
+    const { channel } = connect({ secrets: { read: [] } }, { NPM_TOKEN: TOKEN });
+    // Child claims broader permissions than it was started with
+    const secrets = createSecretsAPI({
+      permissions: { secrets: { read: ['*'] } },
+      provider: createIPCSecretProvider(channel),
+    });
+
+    await expect(secrets.get('NPM_TOKEN')).rejects.toThrow('Secret access denied: NPM_TOKEN');
+  });
+
+  it('rejects pending and later requests after dispose', async () => {
+    const channel: UIChannel = { send: () => {}, onMessage: () => () => {} };
+    const provider = createIPCSecretProvider(channel);
+
+    const pending = provider.get('NPM_TOKEN');
+    provider.dispose();
+
+    await expect(pending).rejects.toThrow('Secrets channel is closed');
+    await expect(provider.get('NPM_TOKEN')).rejects.toThrow('Secrets channel is closed');
+  });
+});
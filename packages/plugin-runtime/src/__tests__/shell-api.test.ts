@@ -0,0 +1,156 @@
+/**
+ * @module @kb-labs/plugin-runtime/__tests__/shell-api
+ *
+ * Tests for ShellAPI: argument-level allowlists, structured blocking,
+ * streaming spawn() with stdin, and abort.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ShellOutputChunk } from '@kb-labs/plugin-contracts';
+import { PermissionError, AbortError } from '@kb-labs/plugin-contracts';
+import { createShellAPI } from '../api/shell.js';
+import { isCommandAllowed, findBlockedCommand } from '../api/shell-policy.js';
+
+const node = process.execPath;
+
+describe('isCommandAllowed', () => {
+  it('matches command-only entries with any arguments', () => {
+    expect(isCommandAllowed(['git'], 'git', ['push', '--force'])).toBe(true);
+    expect(isCommandAllowed(['git'], 'npm', ['install'])).toBe(false);
+    expect(isCommandAllowed(['*'], 'npm', ['install'])).toBe(true);
+  });
+
+  it('matches exact argument patterns', () => {
+    expect(isCommandAllowed(['npm run build'], 'npm', ['run', 'build'])).toBe(true);
+    expect(isCommandAllowed(['npm run build'], 'npm', ['run', 'build', '--', '--watch'])).toBe(false);
+    expect(isCommandAllowed(['npm run build'], 'npm', ['run', 'deploy'])).toBe(false);
+    expect(isCommandAllowed(['npm run build'], 'npm', ['run build'])).toBe(false);
+  });
+
+  it('accepts further arguments after a trailing wildcard', () => {
+    const allow = ['git status*', 'git log *'];
+
+    expect(isCommandAllowed(allow, 'git', ['status'])).toBe(true);
+    expect(isCommandAllowed(allow, 'git', ['status', '--short'])).toBe(true);
+    expect(isCommandAllowed(allow, 'git', ['log'])).toBe(true);
+    expect(isCommandAllowed(allow, 'git', ['log', '--oneline', '-5'])).toBe(true);
+    expect(isCommandAllowed(allow, 'git', ['push'])).toBe(false);
+    expect(isCommandAllowed(allow, 'git', ['--git-dir=/tmp', 'status'])).toBe(false);
+  });
+});
+
+describe('findBlockedCommand', () => {
+  it('blocks recursive root deletion regardless of argument order', () => {
+    expect(findBlockedCommand('rm', ['-rf', '/'])).toBeDefined();
+    expect(findBlockedCommand('rm', ['/', '-rf'])).toBeDefined();
+    expect(findBlockedCommand('rm', ['-f', '-R', '/*'])).toBeDefined();
+    expect(findBlockedCommand('/bin/rm', ['--recursive', '/tmp/..'])).toBeDefined();
+    expect(findBlockedCommand('rm', ['-rf', './build'])).toBeUndefined();
+  });
+
+  it('blocks through wrappers and shell scripts', () => {
+    expect(findBlockedCommand('sudo', ['-u', 'root', 'rm', '-rf', '/'])).toBeDefined();
+    expect(findBlockedCommand('env', ['FOO=1', 'dd', 'of=/dev/sda', 'if=/dev/zero'])).toBeDefined();
+    expect(findBlockedCommand('sh', ['-c', 'echo hi && rm -rf /'])).toBeDefined();
+    expect(findBlockedCommand('bash', ['-c', 'cat x > /dev/sda'])).toBeDefined();
+    expect(findBlockedCommand('bash', ['-c', ':(){ :|:& };:'])).toBe('fork bomb');
+    expect(findBlockedCommand('sh', ['-c', 'echo ok'])).toBeUndefined();
+  });
+
+  it('blocks disk tools and recursive ownership changes', () => {
+    expect(findBlockedCommand('mkfs.ext4', ['/dev/sdb1'])).toBeDefined();
+    expect(findBlockedCommand('chown', ['user', '/srv', '-R'])).toBeDefined();
+    expect(findBlockedCommand('chmod', ['777', '-R', '/'])).toBeDefined();
+    expect(findBlockedCommand('chmod', ['-R', '755', './dist'])).toBeUndefined();
+  });
+});
+
+describe('ShellAPI', () => {
+  it('rejects commands outside the argument allowlist', async () => {
+    const shell = createShellAPI({ permissions: { shell: { allow: [`${node} -v`] } }, cwd: process.cwd() });
+
+    expect((await shell.exec(node, ['-v'])).ok).toBe(true);
+    await expect(shell.exec(node, ['-e', '1'])).rejects.toThrow(PermissionError);
+    expect(() => shell.spawn(node, ['-e', '1'])).toThrow(PermissionError);
+  });
+
+  it('passes input to exec() via stdin', async () => {
+    const shell = createShellAPI({ permissions: { shell: { allow: [node] } }, cwd: process.cwd() });
+
+    const result = await shell.exec(node, ['-e', 'process.stdin.pipe(process.stdout)'], { input: 'piped' });
+
+    expect(result.stdout).toBe('piped');
+  });
+
+  it('streams output from spawn() and accepts stdin', async () => {
+    const shell = createShellAPI({ permissions: { shell: { allow: [node] } }, cwd: process.cwd() });
+    const script = `
+      process.stderr.write('ready\\n');
+      process.stdin.on('data', (d) => process.stdout.write('echo:' + d));
+      process.stdin.on('end', () => process.exit(3));
+    `;
+
+    const proc = shell.spawn(node, ['-e', script]);
+    const chunks: ShellOutputChunk[] = [];
+
+    for await (const chunk of proc) {
+      chunks.push(chunk);
+      if (chunk.stream === 'stderr') {
+        await proc.write('hello');
+      }
+      if (chunk.stream === 'stdout') {
+        proc.end();
+      }
+    }
+
+    expect(chunks).toEqual([
+      { stream: 'stderr', data: 'ready\n' },
+      { stream: 'stdout', data: 'echo:hello' },
+    ]);
+    expect(await proc.wait()).toEqual({ code: 3, signal: undefined, ok: false });
+  });
+
+  it('does not stall commands whose output is never read', async () => {
+    const shell = createShellAPI({ permissions: { shell: { allow: [node] } }, cwd: process.cwd() });
+    const script = `
+      for (let i = 0; i < 500; i++) process.stdout.write('x'.repeat(16384) + '\\n');
+      process.stdout.write('last\\n');
+    `;
+
+    const proc = shell.spawn(node, ['-e', script], { timeout: 10_000 });
+
+    expect(await proc.wait()).toEqual({ code: 0, signal: undefined, ok: true });
+    const chunks: ShellOutputChunk[] = [];
+    for await (const chunk of proc) {
+      chunks.push(chunk);
+    }
+    expect(chunks.length).toBeLessThanOrEqual(64);
+    expect(chunks.at(-1)?.data).toMatch(/last\n$/);
+  });
+
+  it('kills commands when the execution signal aborts', async () => {
+    const controller = new AbortController();
+    const shell = createShellAPI({
+      permissions: { shell: { allow: [node] } },
+      cwd: process.cwd(),
+      signal: controller.signal,
+    });
+
+    const pending = shell.exec(node, ['-e', 'setTimeout(() => {}, 10000)']);
+    const proc = shell.spawn(node, ['-e', 'setTimeout(() => {}, 10000)']);
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    await expect(proc.wait()).rejects.toBeInstanceOf(AbortError);
+    expect(() => shell.spawn(node, ['-v'])).toThrow(AbortError);
+  });
+
+  it('reports kill() as a signal exit', async () => {
+    const shell = createShellAPI({ permissions: { shell: { allow: [node] } }, cwd: process.cwd() });
+
+    const proc = shell.spawn(node, ['-e', 'setTimeout(() => {}, 10000)']);
+    proc.kill();
+
+    expect(await proc.wait()).toEqual({ code: -1, signal: 'SIGTERM', ok: false });
+  });
+});
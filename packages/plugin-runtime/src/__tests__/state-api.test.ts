@@ -0,0 +1,304 @@
+import { beforeEach, describe, expect, it, vi, afterEach } from 'vitest';
+import type { CacheAdapter } from '@kb-labs/plugin-contracts';
+import {
+  PermissionError,
+  QuotaExceededError,
+  RateLimitError,
+  TimeoutError,
+  ValidationError,
+} from '@kb-labs/plugin-contracts';
+import { createStateAPI } from '../api/state.js';
+
+function createMemoryCache(): { cache: CacheAdapter; storage: Map<string, unknown> } {
+  const storage = new Map<string, unknown>();
+  const sortedSets = new Map<string, Map<string, number>>();
+  const cache = {
+    async get<T>(key: string): Promise<T | null> {
+      return (storage.get(key) as T) ?? null;
+    },
+    async set<T>(key: string, value: T): Promise<void> {
+      storage.set(key, value);
+    },
+    async delete(key: string): Promise<void> {
+      storage.delete(key);
+    },
+    async clear(): Promise<void> { storage.clear(); },
+    async zadd(key: string, score: number, member: string): Promise<void> {
+      const set = sortedSets.get(key) ?? new Map<string, number>();
+      set.set(member, score);
+      sortedSets.set(key, set);
+    },
+    async zrangebyscore(key: string, min: number, max: number): Promise<string[]> {
+      return [...(sortedSets.get(key) ?? new Map<string, number>())]
+        .filter(([, score]) => score >= min && score <= max)
+        .map(([member]) => member);
+    },
+    async zrem(key: string, member: string): Promise<void> {
+      sortedSets.get(key)?.delete(member);
+    },
+    async setIfNotExists<T>(key: string, value: T): Promise<boolean> {
+      if (storage.has(key)) {return false;}
+      storage.set(key, value);
+      return true;
+    },
+  } as CacheAdapter;
+  return { cache, storage };
+}
+
+describe('StateAPI', () => {
+  let cache: CacheAdapter;
+  let storage: Map<string, unknown>;
+
+  beforeEach(() => {
+    ({ cache, storage } = createMemoryCache());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('namespaces', () => {
+    it('allows declared namespaces and shares them between plugins', async () => {
+      const writer = createStateAPI({
+        pluginId: '@kb-labs/indexer',
+        tenantId: 'acme',
+        cache,
+        permissions: { namespaces: ['mind:*'] },
+      });
+      const reader = createStateAPI({
+        pluginId: '@kb-labs/search',
+        tenantId: 'acme',
+        cache,
+        permissions: { namespaces: ['mind:index'] },
+      });
+
+      await writer.namespace('mind:index').set('version', 3);
+
+      expect(storage.get('acme:mind:index:version')).toBe(3);
+      expect(await reader.namespace('mind:index').get('version')).toBe(3);
+    });
+
+    it('rejects undeclared namespaces', () => {
+      const state = createStateAPI({ pluginId: '@kb-labs/a', cache, permissions: { namespaces: ['mind:*'] } });
+
+      expect(() => state.namespace('@kb-labs/b')).toThrow(PermissionError);
+      expect(() => state.namespace('workflow:runs')).toThrow(PermissionError);
+    });
+
+    it('always allows own namespace', async () => {
+      const state = createStateAPI({ pluginId: '@kb-labs/a', cache });
+
+      await state.namespace('@kb-labs/a').set('k', 'v');
+
+      expect(await state.get('k')).toBe('v');
+    });
+
+    it('isolates tenants within a shared namespace', async () => {
+      const perms = { namespaces: ['shared'] };
+      const acme = createStateAPI({ pluginId: 'p', tenantId: 'acme', cache, permissions: perms });
+      const globex = createStateAPI({ pluginId: 'p', tenantId: 'globex', cache, permissions: perms });
+
+      await acme.namespace('shared').set('k', 'acme');
+
+      expect(await globex.namespace('shared').get('k')).toBeUndefined();
+    });
+  });
+
+  describe('quotas', () => {
+    it('rejects writes over maxEntries', async () => {
+      const state = createStateAPI({ pluginId: 'p', cache, permissions: { quotas: { maxEntries: 2 } } });
+
+      await state.set('a', 1);
+      await state.set('b', 2);
+      // Overwrite does not add an entry
+      await state.set('a', 3);
+
+      const error = await state.set('c', 3).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(QuotaExceededError);
+      expect((error as QuotaExceededError).code).toBe('QUOTA_STATE_ENTRIES_EXCEEDED');
+      expect(await state.has('c')).toBe(false);
+
+      await state.delete('a');
+      await expect(state.set('c', 3)).resolves.toBeUndefined();
+    });
+
+    it('rejects writes over maxSizeBytes', async () => {
+      const state = createStateAPI({ pluginId: 'p', cache, permissions: { quotas: { maxSizeBytes: 20 } } });
+
+      await state.set('a', 'x'.repeat(10)); // 12 bytes serialized
+
+      await expect(state.set('b', 'y'.repeat(10))).rejects.toMatchObject({ code: 'QUOTA_STATE_SIZE_EXCEEDED' });
+      await expect(state.set('a', 'z'.repeat(15))).resolves.toBeUndefined();
+    });
+
+    it('tracks usage across executions via the cache', async () => {
+      const permissions = { quotas: { maxEntries: 1 } };
+      await createStateAPI({ pluginId: 'p', cache, permissions }).set('a', 1);
+
+      await expect(
+        createStateAPI({ pluginId: 'p', cache, permissions }).set('b', 1)
+      ).rejects.toBeInstanceOf(QuotaExceededError);
+    });
+
+    it('checks setMany as one batch', async () => {
+      const state = createStateAPI({ pluginId: 'p', cache, permissions: { quotas: { maxEntries: 2 } } });
+
+      await expect(state.setMany({ a: 1, b: 2, c: 3 })).rejects.toBeInstanceOf(QuotaExceededError);
+      expect(await state.getMany(['a', 'b', 'c'])).toEqual(new Map());
+    });
+
+    it('frees quota when TTL entries expire', async () => {
+      vi.useFakeTimers({ now: 1_000_000 });
+      const state = createStateAPI({ pluginId: 'p', cache, permissions: { quotas: { maxEntries: 1 } } });
+
+      await state.set('a', 1, 1000);
+      vi.setSystemTime(1_002_000);
+
+      await expect(state.set('b', 1)).resolves.toBeUndefined();
+    });
+
+    it('rate-limits operations per minute', async () => {
+      vi.useFakeTimers({ now: 120_000 });
+      const state = createStateAPI({ pluginId: 'p', cache, permissions: { quotas: { operationsPerMinute: 3 } } });
+
+      await state.set('a', 1);
+      await state.get('a');
+      await state.has('a');
+
+      const error = await state.get('a').catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect((error as RateLimitError).retryAfterMs).toBe(60_000);
+
+      // Next window
+      vi.setSystemTime(180_000);
+      await expect(state.get('a')).resolves.toBe(1);
+    });
+
+    it('rejects reserved keys', async () => {
+      const state = createStateAPI({ pluginId: 'p', cache });
+
+      await expect(state.set('__kb_state_index__', {})).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    });
+
+    it('rejects reads of reserved keys', async () => {
+      const state = createStateAPI({ pluginId: 'p', permissions: { quotas: { maxEntries: 10 } }, cache });
+      await state.set('a', 1);
+
+      await expect(state.get('__kb_state_index__')).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+      await expect(state.has('__kb_state_ops__')).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+      await expect(state.getMany(['a', '__kb_state_keys__'])).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+      await expect(state.compareAndSet('__kb_state_index__', undefined, {})).rejects.toMatchObject({
+        code: 'VALIDATION_ERROR',
+      });
+    });
+  });
+
+  describe('atomic operations', () => {
+    it('increments counters without lost updates', async () => {
+      const state = createStateAPI({ pluginId: 'p', cache });
+
+      const results = await Promise.all(Array.from({ length: 10 }, () => state.increment('hits')));
+
+      expect(await state.get('hits')).toBe(10);
+      expect([...results].sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+      expect(await state.increment('hits', -4)).toBe(6);
+    });
+
+    it('rejects increment of non-numeric values', async () => {
+      const state = createStateAPI({ pluginId: 'p', cache });
+      await state.set('name', 'x');
+
+      await expect(state.increment('name')).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('compareAndSet swaps only on expected value', async () => {
+      const state = createStateAPI({ pluginId: 'p', cache });
+
+      expect(await state.compareAndSet('cfg', undefined, { v: 1 })).toBe(true);
+      expect(await state.compareAndSet('cfg', { v: 2 }, { v: 3 })).toBe(false);
+      expect(await state.compareAndSet('cfg', { v: 1 }, { v: 2 })).toBe(true);
+      expect(await state.get('cfg')).toEqual({ v: 2 });
+    });
+
+    it('setIfAbsent writes only once', async () => {
+      const state = createStateAPI({ pluginId: 'p', cache });
+
+      expect(await state.setIfAbsent('owner', 'a')).toBe(true);
+      expect(await state.setIfAbsent('owner', 'b')).toBe(false);
+      expect(await state.get('owner')).toBe('a');
+    });
+
+    it('setIfAbsent respects entry quota', async () => {
+      const state = createStateAPI({ pluginId: 'p', cache, permissions: { quotas: { maxEntries: 1 } } });
+      await state.set('a', 1);
+
+      await expect(state.setIfAbsent('b', 1)).rejects.toBeInstanceOf(QuotaExceededError);
+    });
+  });
+
+  describe('listKeys()', () => {
+    it('lists live keys by prefix', async () => {
+      vi.useFakeTimers({ now: 1_000_000 });
+      const state = createStateAPI({ pluginId: 'p', cache });
+
+      await state.setMany({ 'job:2': 1, 'job:1': 1, other: 1 });
+      await state.set('job:tmp', 1, 1000);
+      await state.delete('other');
+
+      expect(await state.listKeys()).toEqual(['job:1', 'job:2', 'job:tmp']);
+      expect(await state.listKeys('job:')).toEqual(['job:1', 'job:2', 'job:tmp']);
+
+      vi.setSystemTime(1_002_000);
+      expect(await state.listKeys('job:')).toEqual(['job:1', 'job:2']);
+    });
+
+    it('is scoped to the namespace', async () => {
+      const state = createStateAPI({ pluginId: 'p', cache, permissions: { namespaces: ['shared'] } });
+
+      await state.set('own', 1);
+      await state.namespace('shared').set('common', 1);
+
+      expect(await state.listKeys()).toEqual(['own']);
+      expect(await state.namespace('shared').listKeys()).toEqual(['common']);
+    });
+  });
+
+  describe('lock()', () => {
+    it('excludes other holders until released', async () => {
+      const state = createStateAPI({ pluginId: 'p', cache });
+
+      const lock = await state.lock('reindex');
+      await expect(state.lock('reindex', { waitMs: 0 })).rejects.toBeInstanceOf(TimeoutError);
+
+      await lock.release();
+      const next = await state.lock('reindex', { waitMs: 0 });
+      expect(next.name).toBe('reindex');
+    });
+
+    it('does not release a lock taken over by another holder', async () => {
+      const state = createStateAPI({ pluginId: 'p', cache });
+      const lock = await state.lock('job');
+
+      // Simulate lease expiry followed by another holder
+      storage.set('default:p:__kb_state_lock__:job', 'someone-else');
+
+      expect(await lock.extend()).toBe(false);
+      await lock.release();
+      expect(storage.get('default:p:__kb_state_lock__:job')).toBe('someone-else');
+    });
+
+    it('releases held locks on lifecycle cleanup', async () => {
+      const cleanups: Array<() => void | Promise<void>> = [];
+      const state = createStateAPI({
+        pluginId: 'p',
+        cache,
+        lifecycle: { onCleanup: (fn) => { cleanups.push(fn); } },
+      });
+
+      await state.lock('job');
+      await Promise.all(cleanups.map((fn) => fn()));
+
+      await expect(state.lock('job', { waitMs: 0 })).resolves.toMatchObject({ name: 'job' });
+    });
+  });
+});
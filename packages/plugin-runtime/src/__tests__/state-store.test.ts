@@ -0,0 +1,253 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { CacheAdapter, PermissionSpec, PluginContextDescriptor } from '@kb-labs/plugin-contracts';
+import { createStateAPI } from '../api/state.js';
+import {
+  createFileStateStore,
+  migrateStateEntries,
+  type FileStateStore,
+  type StateStore,
+} from '../api/state-store.js';
+import { createPluginContextV3 } from '../context/index.js';
+import { createMockPlatform, createMockUI } from './test-mocks.js';
+
+function createMemoryCache(): CacheAdapter {
+  const storage = new Map<string, unknown>();
+  const sortedSets = new Map<string, Map<string, number>>();
+  return {
+    async get<T>(key: string): Promise<T | null> {
+      return (storage.get(key) as T) ?? null;
+    },
+    async set<T>(key: string, value: T): Promise<void> {
+      storage.set(key, value);
+    },
+    async delete(key: string): Promise<void> {
+      storage.delete(key);
+    },
+    async clear(): Promise<void> { storage.clear(); },
+    async zadd(key: string, score: number, member: string): Promise<void> {
+      const set = sortedSets.get(key) ?? new Map<string, number>();
+      set.set(member, score);
+      sortedSets.set(key, set);
+    },
+    async zrangebyscore(key: string, min: number, max: number): Promise<string[]> {
+      return [...(sortedSets.get(key) ?? new Map<string, number>())]
+        .filter(([, score]) => score >= min && score <= max)
+        .map(([member]) => member);
+    },
+    async zrem(key: string, member: string): Promise<void> {
+      sortedSets.get(key)?.delete(member);
+    },
+    async setIfNotExists<T>(key: string, value: T): Promise<boolean> {
+      if (storage.has(key)) {return false;}
+      storage.set(key, value);
+      return true;
+    },
+  } as CacheAdapter;
+}
+
+describe('createFileStateStore()', () => {
+  let dir: string;
+  let store: FileStateStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kb-state-'));
+    store = createFileStateStore({ dir });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists values across store instances', async () => {
+    await store.set('acme:p:config', { depth: 2 });
+
+    expect(await createFileStateStore({ dir }).get('acme:p:config')).toEqual({ depth: 2 });
+    expect(await store.get('acme:p:missing')).toBeNull();
+
+    await store.delete('acme:p:config');
+    expect(await store.get('acme:p:config')).toBeNull();
+  });
+
+  it('expires entries by TTL and prunes them', async () => {
+    vi.useFakeTimers({ now: 1_000_000, toFake: ['Date'] });
+    await store.set('short', 1, 1000);
+    await store.set('long', 1);
+
+    vi.setSystemTime(1_002_000);
+
+    expect(await store.prune()).toBe(1);
+    expect(await store.get('short')).toBeNull();
+    expect(await store.get('long')).toBe(1);
+  });
+
+  it('setIfNotExists writes once and reclaims expired entries', async () => {
+    vi.useFakeTimers({ now: 1_000_000, toFake: ['Date'] });
+
+    expect(await store.setIfNotExists('lock', 'a', 1000)).toBe(true);
+    expect(await store.setIfNotExists('lock', 'b', 1000)).toBe(false);
+
+    vi.setSystemTime(1_002_000);
+    expect(await store.setIfNotExists('lock', 'c')).toBe(true);
+    expect(await store.get('lock')).toBe('c');
+  });
+
+  it('lets exactly one concurrent setIfNotExists take over an expired entry', async () => {
+    vi.useFakeTimers({ now: 1_000_000, toFake: ['Date'] });
+
+    for (let round = 0; round < 20; round++) {
+      await store.set('lock', 'stale', 1000);
+      vi.setSystemTime(Date.now() + 2000);
+
+      // Separate instances, like processes sharing the directory
+      const contenders = Array.from({ length: 6 }, (_, i) => `owner-${i}`);
+      const results = await Promise.all(
+        contenders.map((owner) => createFileStateStore({ dir }).setIfNotExists('lock', owner, 60_000))
+      );
+
+      const winners = contenders.filter((_, i) => results[i]);
+      expect(winners).toHaveLength(1);
+      expect(await store.get('lock')).toBe(winners[0]);
+    }
+
+    // No removal markers are left behind
+    expect((await fs.readdir(path.join(dir, 'kv'))).filter((name) => !name.endsWith('.json'))).toEqual([]);
+  });
+
+  it('keeps sorted sets ordered by score', async () => {
+    await store.zadd('set', 30, 'c');
+    await store.zadd('set', 10, 'a');
+    await store.zadd('set', 20, 'b');
+    await store.zrem('set', 'b');
+
+    expect(await store.zrangebyscore('set', 0, 100)).toEqual(['a', 'c']);
+    expect(await store.zrangebyscore('set', 15, 100)).toEqual(['c']);
+  });
+
+  it('backs StateAPI including quotas and atomic ops', async () => {
+    const permissions = { quotas: { maxEntries: 2 } };
+    const state = createStateAPI({ pluginId: 'p', cache: store, permissions });
+
+    await state.set('a', 1);
+    expect(await state.increment('a')).toBe(2);
+    expect(await state.setIfAbsent('b', 'x')).toBe(true);
+
+    // Fresh instance (e.g. after restart) sees data and quota usage
+    const restarted = createStateAPI({ pluginId: 'p', cache: createFileStateStore({ dir }), permissions });
+    expect(await restarted.listKeys()).toEqual(['a', 'b']);
+    await expect(restarted.set('c', 1)).rejects.toMatchObject({ code: 'QUOTA_STATE_ENTRIES_EXCEEDED' });
+  });
+});
+
+describe.each([
+  { backend: 'platform cache', fileStore: false },
+  { backend: 'file store', fileStore: true },
+])('ctx.api.state permissions ($backend)', ({ fileStore }) => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kb-state-permissions-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  function createState(permissions: PermissionSpec) {
+    const descriptor: PluginContextDescriptor = {
+      hostType: 'cli',
+      pluginId: 'my-plugin',
+      pluginVersion: '1.0.0',
+      requestId: 'state-permissions',
+      permissions,
+      hostContext: { host: 'cli', argv: [], flags: {} },
+    };
+    const stateStore: StateStore | undefined = fileStore ? createFileStateStore({ dir }) : undefined;
+    const { context } = createPluginContextV3({
+      descriptor,
+      platform: { ...createMockPlatform(), cache: createMemoryCache() },
+      ui: createMockUI(),
+      cwd: dir,
+      stateStore,
+    });
+    return context.api.state;
+  }
+
+  it('requires the cache permission', async () => {
+    const state = createState({});
+
+    await expect(state.set('a', 1)).rejects.toMatchObject({ code: 'PERMISSION_DENIED' });
+    await expect(state.get('a')).rejects.toMatchObject({ code: 'PERMISSION_DENIED' });
+  });
+
+  it('limits state to the permitted cache namespaces', async () => {
+    const state = createState({
+      platform: { cache: { namespaces: ['default:my-plugin:'] } },
+      state: { namespaces: ['shared'] },
+    });
+
+    await state.set('a', 1);
+    expect(await state.get('a')).toBe(1);
+    await expect(state.namespace('shared').set('b', 2)).rejects.toMatchObject({ code: 'PERMISSION_DENIED' });
+  });
+});
+
+describe('migrateStateEntries()', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kb-state-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('copies tracked and listed entries from cache to file store', async () => {
+    const cache = createMemoryCache();
+    const target = createFileStateStore({ dir });
+    const legacy = createStateAPI({ pluginId: 'p', tenantId: 'acme', cache });
+
+    await legacy.set('tracked', { v: 1 });
+    await legacy.set('session', 'x', 60_000);
+    // Written before key tracking existed
+    await cache.set('acme:p:old', 42);
+
+    const result = await migrateStateEntries({
+      source: cache,
+      target,
+      pluginId: 'p',
+      tenantId: 'acme',
+      keys: ['old', 'gone'],
+      deleteSource: true,
+    });
+
+    expect(result).toEqual({ migrated: ['old', 'tracked'], skipped: ['gone', 'session'] });
+
+    const state = createStateAPI({ pluginId: 'p', tenantId: 'acme', cache: target });
+    expect(await state.get('tracked')).toEqual({ v: 1 });
+    expect(await state.get('old')).toBe(42);
+    expect(await state.listKeys()).toEqual(['old', 'tracked']);
+    expect(await cache.get('acme:p:tracked')).toBeNull();
+  });
+
+  it('preserves TTL recorded in the quota index', async () => {
+    const cache = createMemoryCache();
+    const target = createFileStateStore({ dir });
+    const legacy = createStateAPI({ pluginId: 'p', cache, permissions: { quotas: { maxEntries: 10 } } });
+
+    await legacy.set('session', 'x', 60_000);
+
+    const result = await migrateStateEntries({ source: cache, target, pluginId: 'p' });
+
+    expect(result.migrated).toEqual(['session']);
+    const files = await fs.readdir(path.join(dir, 'kv'));
+    const stored = await Promise.all(
+      files.map(async (file) => JSON.parse(await fs.readFile(path.join(dir, 'kv', file), 'utf8')))
+    );
+    expect(stored.find((entry) => entry.key === 'default:p:session')?.expiresAt).toBeGreaterThan(Date.now());
+  });
+});
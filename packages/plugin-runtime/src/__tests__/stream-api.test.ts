@@ -0,0 +1,97 @@
+/**
+ * @module @kb-labs/plugin-runtime/__tests__/stream-api
+ *
+ * Tests for StreamAPI: progress/chunk events on the execution's event
+ * emitter, conversion to StreamEvent, and the IPC StreamMessage.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createStreamAPI,
+  createNoopStreamAPI,
+  toStreamEvent,
+  STREAM_PROGRESS_EVENT,
+  STREAM_CHUNK_EVENT,
+} from '../api/stream.js';
+import { createPluginAPI } from '../api/index.js';
+import { isChildMessage, type StreamMessage } from '../sandbox/ipc-protocol.js';
+import type { CacheAdapter } from '@kb-labs/plugin-contracts';
+
+describe('createStreamAPI', () => {
+  it('emits progress and chunks on the event emitter', async () => {
+    const emitter = vi.fn().mockResolvedValue(undefined);
+    const stream = createStreamAPI({ emitter });
+
+    await stream.progress({ percent: 40, message: 'Indexing' });
+    await stream.write({ file: 'a.ts', issues: 2 });
+
+    expect(emitter).toHaveBeenNthCalledWith(1, STREAM_PROGRESS_EVENT, { percent: 40, message: 'Indexing' });
+    expect(emitter).toHaveBeenNthCalledWith(2, STREAM_CHUNK_EVENT, { data: { file: 'a.ts', issues: 2 } });
+  });
+
+  it('is a no-op without a host', async () => {
+    const stream = createNoopStreamAPI();
+    await expect(stream.progress({ percent: 10 })).resolves.toBeUndefined();
+    await expect(stream.write('chunk')).resolves.toBeUndefined();
+  });
+
+  it('is part of PluginAPI, backed by the event emitter', async () => {
+    const emitter = vi.fn().mockResolvedValue(undefined);
+    const api = createPluginAPI({
+      pluginId: '@kb-labs/test',
+      cwd: '/tmp',
+      outdir: '/tmp/out',
+      permissions: {},
+      cache: {} as CacheAdapter,
+      cleanupStack: [],
+      eventEmitter: emitter,
+    });
+
+    await api.stream.write('partial');
+
+    // Not prefixed with the plugin ID, unlike api.events
+    expect(emitter).toHaveBeenCalledWith(STREAM_CHUNK_EVENT, { data: 'partial' });
+  });
+});
+
+describe('toStreamEvent', () => {
+  it('converts progress events and clamps the percentage', () => {
+    expect(toStreamEvent(STREAM_PROGRESS_EVENT, { percent: 140, message: 'Almost' })).toEqual({
+      type: 'progress',
+      percent: 100,
+      message: 'Almost',
+      timestamp: expect.any(String),
+    });
+    expect(toStreamEvent(STREAM_PROGRESS_EVENT, { percent: Number.NaN })).toEqual({
+      type: 'progress',
+      timestamp: expect.any(String),
+    });
+  });
+
+  it('converts chunk events', () => {
+    expect(toStreamEvent(STREAM_CHUNK_EVENT, { data: [1, 2] })).toEqual({
+      type: 'chunk',
+      data: [1, 2],
+      timestamp: expect.any(String),
+    });
+  });
+
+  it('ignores other events', () => {
+    expect(toStreamEvent('log.line', { line: 'hello' })).toBeUndefined();
+    expect(toStreamEvent('@kb-labs/test:stream.chunk', { data: 1 })).toBeUndefined();
+  });
+});
+
+describe('IPC Protocol — StreamMessage', () => {
+  it('is a ChildMessage that survives JSON serialization', () => {
+    const msg: StreamMessage = {
+      type: 'stream',
+      event: { type: 'chunk', data: { n: 1 }, timestamp: '2026-10-19T10:00:00.000Z' },
+    };
+
+    const transported = JSON.parse(JSON.stringify(msg)) as unknown;
+
+    expect(isChildMessage(transported)).toBe(true);
+    expect(transported).toEqual(msg);
+  });
+});
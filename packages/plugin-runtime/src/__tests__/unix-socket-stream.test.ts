@@ -0,0 +1,196 @@
+/**
+ * @module @kb-labs/plugin-runtime/__tests__/unix-socket-stream
+ *
+ * Tests for streaming calls on UnixSocketClient (chunk/end/error frames, cancellation,
+ * credits, subscriptions).
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as net from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { AbortError } from '@kb-labs/plugin-contracts';
+import {
+  UnixSocketClient,
+  getStreamSocketPath,
+  type RPCStreamFrame,
+} from '../sandbox/unix-socket-client.js';
+
+type Script = (requestId: string, send: (frame: RPCStreamFrame) => void) => void;
+
+describe('UnixSocketClient.stream()', () => {
+  let socketPath: string;
+  let server: net.Server;
+  let received: Array<Record<string, any>>;
+  let script: Script;
+
+  beforeEach(async () => {
+    socketPath = path.join(os.tmpdir(), `kb-stream-test-${process.pid}-${Date.now()}.sock`);
+    received = [];
+
+    server = net.createServer((socket) => {
+      let buffer = '';
+      socket.on('data', (data) => {
+        buffer += data.toString('utf8');
+        let index: number;
+        while ((index = buffer.indexOf('\n')) !== -1) {
+          const msg = JSON.parse(buffer.slice(0, index));
+          buffer = buffer.slice(index + 1);
+          received.push(msg);
+          if (msg.type === 'adapter:stream' || msg.type === 'adapter:subscribe') {
+            script(msg.requestId, (frame) => socket.write(JSON.stringify(frame) + '\n'));
+          }
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(getStreamSocketPath(socketPath), resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  async function waitFor(predicate: () => boolean): Promise<void> {
+    for (let i = 0; i < 100 && !predicate(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  it('yields chunks until end frame', async () => {
+    script = (requestId, send) => {
+      send({ type: 'stream:chunk', requestId, data: 'Hel' });
+      send({ type: 'stream:chunk', requestId, data: 'lo' });
+      send({ type: 'stream:end', requestId });
+    };
+    const client = new UnixSocketClient({ socketPath, authToken: 'secret' });
+
+    const chunks: string[] = [];
+    for await (const chunk of client.stream<string>('llm', 'stream', ['hi', { model: 'm' }])) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['Hel', 'lo']);
+    expect(received[0]).toMatchObject({
+      type: 'adapter:stream',
+      adapter: 'llm',
+      method: 'stream',
+      args: ['hi', { model: 'm' }],
+      context: { authToken: 'secret' },
+    });
+    await client.close();
+  });
+
+  it('throws on error frame', async () => {
+    script = (requestId, send) => {
+      send({ type: 'stream:chunk', requestId, data: 'a' });
+      send({ type: 'stream:error', requestId, error: { message: 'rate limited', code: 'RATE_LIMITED' } });
+    };
+    const client = new UnixSocketClient({ socketPath });
+    const chunks: string[] = [];
+
+    const error = await (async () => {
+      for await (const chunk of client.stream<string>('llm', 'stream', ['hi'])) {
+        chunks.push(chunk);
+      }
+    })().catch((e: unknown) => e);
+
+    expect(chunks).toEqual(['a']);
+    expect(error).toMatchObject({ message: 'rate limited', code: 'RATE_LIMITED' });
+    await client.close();
+  });
+
+  it('sends cancel when consumer stops iterating', async () => {
+    script = (requestId, send) => {
+      send({ type: 'stream:chunk', requestId, data: 'first' });
+    };
+    const client = new UnixSocketClient({ socketPath });
+
+    for await (const chunk of client.stream<string>('llm', 'stream', ['hi'])) {
+      expect(chunk).toBe('first');
+      break;
+    }
+
+    await waitFor(() => received.length === 2);
+    expect(received[1]).toEqual({ type: 'stream:cancel', requestId: received[0]!.requestId });
+    await client.close();
+  });
+
+  it('cancels and rejects with AbortError when signal aborts', async () => {
+    script = () => {}; // Never sends anything
+    const client = new UnixSocketClient({ socketPath });
+    const controller = new AbortController();
+    const iterator = client.stream<string>('llm', 'stream', ['hi'], { signal: controller.signal });
+
+    const pending = iterator.next();
+    await waitFor(() => received.length === 1);
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    await waitFor(() => received.length === 2);
+    expect(received[1]).toMatchObject({ type: 'stream:cancel' });
+    await client.close();
+  });
+
+  it('fails active streams when client closes', async () => {
+    script = () => {};
+    const client = new UnixSocketClient({ socketPath });
+    const iterator = client.stream<string>('llm', 'stream', ['hi']);
+
+    const pending = iterator.next();
+    await waitFor(() => received.length === 1);
+    await client.close();
+
+    await expect(pending).rejects.toThrow('Client closed');
+  });
+
+  it('announces a credit window and grants credits as chunks are consumed', async () => {
+    script = (requestId, send) => {
+      for (let i = 0; i < 4; i++) {
+        send({ type: 'stream:chunk', requestId, data: i });
+      }
+      send({ type: 'stream:end', requestId });
+    };
+    const client = new UnixSocketClient({ socketPath });
+
+    const chunks: number[] = [];
+    for await (const chunk of client.stream<number>('llm', 'stream', ['hi'], { credits: 4 })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([0, 1, 2, 3]);
+    expect(received[0]).toMatchObject({ type: 'adapter:stream', credits: 4 });
+    await waitFor(() => received.length === 3);
+    expect(received.slice(1)).toEqual([
+      { type: 'stream:credit', requestId: received[0]!.requestId, credits: 2 },
+      { type: 'stream:credit', requestId: received[0]!.requestId, credits: 2 },
+    ]);
+    await client.close();
+  });
+
+  it('delivers subscription values to handler until unsubscribed', async () => {
+    script = (requestId, send) => {
+      send({ type: 'stream:chunk', requestId, data: { id: 1 } });
+      send({ type: 'stream:chunk', requestId, data: { id: 2 } });
+    };
+    const client = new UnixSocketClient({ socketPath });
+    const events: unknown[] = [];
+
+    const unsubscribe = client.subscribe('eventBus', 'subscribe', ['build'], (event) => {
+      events.push(event);
+    });
+    await waitFor(() => events.length === 2);
+
+    expect(events).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(received[0]).toMatchObject({
+      type: 'adapter:subscribe',
+      adapter: 'eventBus',
+      method: 'subscribe',
+      args: ['build'],
+    });
+
+    unsubscribe();
+    await waitFor(() => received.length === 2);
+    expect(received[1]).toEqual({ type: 'stream:cancel', requestId: received[0]!.requestId });
+    await client.close();
+  });
+});
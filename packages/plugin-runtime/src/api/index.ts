@@ -28,9 +28,12 @@ import type { IWorkflowEngine } from '@kb-labs/core-platform';
 
 import { createLifecycleAPI } from './lifecycle.js';
 import { createStateAPI } from './state.js';
+import type { StateStore } from './state-store.js';
 import { createArtifactsAPI } from './artifacts.js';
 import { createShellAPI } from './shell.js';
+import { createSecretsAPI, createLocalSecretProvider, type SecretProvider } from './secrets.js';
 import { createEventsAPI, createNoopEventsAPI, type EventEmitterFn } from './events.js';
+import { createStreamAPI, createNoopStreamAPI } from './stream.js';
 import { createInvokeAPI, createNoopInvokeAPI, type PluginInvokerFn } from './invoke.js';
 import { createWorkflowsAPI, createNoopWorkflowsAPI } from './workflows.js';
 import { createJobsAPI, createNoopJobsAPI } from './jobs.js';
@@ -39,13 +42,41 @@ import { createEnvironmentAPI, createNoopEnvironmentAPI } from './environment.js
 import { createWorkspaceAPI, createNoopWorkspaceAPI } from './workspace.js';
 import { createSnapshotAPI, createNoopSnapshotAPI } from './snapshot.js';
 import { emitTargetExecutionAudit } from './target-audit.js';
+import { createGovernedStateStore } from '../platform/governed.js';
 
 // Re-export individual APIs
 export { createLifecycleAPI, executeCleanup } from './lifecycle.js';
 export { createStateAPI } from './state.js';
+export {
+  createFileStateStore,
+  migrateStateEntries,
+  type StateStore,
+  type FileStateStore,
+  type FileStateStoreOptions,
+  type MigrateStateOptions,
+  type MigrateStateResult,
+} from './state-store.js';
 export { createArtifactsAPI } from './artifacts.js';
 export { createShellAPI } from './shell.js';
+export { isCommandAllowed, findBlockedCommand } from './shell-policy.js';
+export {
+  createSecretsAPI,
+  createLocalSecretProvider,
+  isSecretAllowed,
+  SECRETS_FILE_ENV,
+  type SecretProvider,
+  type LocalSecretProviderOptions,
+  type CreateSecretsAPIOptions,
+} from './secrets.js';
 export { createEventsAPI, createNoopEventsAPI } from './events.js';
+export {
+  createStreamAPI,
+  createNoopStreamAPI,
+  toStreamEvent,
+  STREAM_PROGRESS_EVENT,
+  STREAM_CHUNK_EVENT,
+  type CreateStreamAPIOptions,
+} from './stream.js';
 export { createInvokeAPI, createNoopInvokeAPI } from './invoke.js';
 export { createWorkflowsAPI, createNoopWorkflowsAPI } from './workflows.js';
 export { createJobsAPI, createNoopJobsAPI } from './jobs.js';
@@ -65,6 +96,11 @@ export interface CreatePluginAPIOptions {
   outdir: string;
   permissions: PermissionSpec;
   cache: CacheAdapter;
+  /**
+   * Durable backend for api.state (default: cache).
+   * Checked against permissions.platform.cache, as the governed cache is.
+   */
+  stateStore?: StateStore;
   eventEmitter?: EventEmitterFn;
   pluginInvoker?: PluginInvokerFn;
   workflowEngine?: IWorkflowEngine;
@@ -111,6 +147,18 @@ export interface CreatePluginAPIOptions {
     debug?: (message: string, meta?: Record<string, unknown>) => void;
     warn?: (message: string, meta?: Record<string, unknown>) => void;
   };
+  /**
+   * Execution signal: kills running shell commands when aborted
+   */
+  signal?: AbortSignal;
+  /**
+   * Source for api.secrets (default: process.env, then KB_SECRETS_FILE)
+   */
+  secretProvider?: SecretProvider;
+  /**
+   * Receives every value api.secrets hands out (redaction)
+   */
+  onSecret?: (value: string) => void;
   cleanupStack: Array<CleanupFn>;
 }
 
@@ -126,6 +174,7 @@ export function createPluginAPI(options: CreatePluginAPIOptions): PluginAPI {
     outdir,
     permissions,
     cache,
+    stateStore,
     eventEmitter,
     pluginInvoker,
     workflowEngine,
@@ -136,17 +185,36 @@ export function createPluginAPI(options: CreatePluginAPIOptions): PluginAPI {
     analytics,
     eventBus,
     logger,
+    signal,
+    secretProvider,
+    onSecret,
     cleanupStack,
   } = options;
 
+  const lifecycle = createLifecycleAPI(cleanupStack);
+
   return {
-    lifecycle: createLifecycleAPI(cleanupStack),
-    state: createStateAPI({ pluginId, tenantId, cache }),
+    lifecycle,
+    state: createStateAPI({
+      pluginId,
+      tenantId,
+      cache: stateStore ? createGovernedStateStore(stateStore, permissions) : cache,
+      permissions: permissions.state,
+      lifecycle,
+    }),
     artifacts: createArtifactsAPI({ outdir }),
-    shell: createShellAPI({ permissions, cwd }),
+    shell: createShellAPI({ permissions, cwd, logger, signal }),
+    secrets: createSecretsAPI({
+      permissions,
+      provider: secretProvider ?? createLocalSecretProvider(),
+      onSecret,
+    }),
     events: eventEmitter
       ? createEventsAPI({ pluginId, emitter: eventEmitter })
       : createNoopEventsAPI(),
+    stream: eventEmitter
+      ? createStreamAPI({ emitter: eventEmitter })
+      : createNoopStreamAPI(),
     invoke: pluginInvoker
       ? createInvokeAPI({
           permissions,
@@ -0,0 +1,109 @@
+/**
+ * Secrets API implementation
+ *
+ * ctx.api.secrets.get() checks permissions.secrets.read, then asks a
+ * SecretProvider:
+ * - local provider (default): process.env, then the JSON file in KB_SECRETS_FILE
+ * - subprocess sandboxes: the parent process serves the values (ipc-secrets.ts),
+ *   so the child environment never holds them
+ *
+ * Every value handed out is reported to onSecret so the execution can redact it.
+ */
+
+import * as fs from 'node:fs/promises';
+import type { SecretsAPI, PermissionSpec } from '@kb-labs/plugin-contracts';
+import { PermissionError, ConfigError } from '@kb-labs/plugin-contracts';
+
+/**
+ * Source of secret values
+ */
+export interface SecretProvider {
+  /** @returns Secret value, or undefined if not set */
+  get(name: string): Promise<string | undefined>;
+}
+
+/**
+ * Env var with the path of a JSON secrets file ({ "NAME": "value" })
+ */
+export const SECRETS_FILE_ENV = 'KB_SECRETS_FILE';
+
+export interface LocalSecretProviderOptions {
+  /** Variables to read secrets from (default: process.env) */
+  env?: NodeJS.ProcessEnv;
+  /** JSON secrets file, read once on first use (default: KB_SECRETS_FILE) */
+  file?: string;
+}
+
+/**
+ * Create the env/file-backed provider
+ */
+export function createLocalSecretProvider(options: LocalSecretProviderOptions = {}): SecretProvider {
+  const env = options.env ?? process.env;
+  const file = options.file ?? env[SECRETS_FILE_ENV];
+  let fileSecrets: Promise<Record<string, unknown>> | undefined;
+
+  const loadFile = async (path: string): Promise<Record<string, unknown>> => {
+    const parsed = JSON.parse(await fs.readFile(path, 'utf8')) as unknown;
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new ConfigError(`Secrets file ${path} must contain a JSON object`, { file: path });
+    }
+    return parsed as Record<string, unknown>;
+  };
+
+  return {
+    async get(name: string): Promise<string | undefined> {
+      const fromEnv = env[name];
+      if (fromEnv !== undefined) {return fromEnv;}
+      if (!file) {return undefined;}
+
+      fileSecrets ??= loadFile(file);
+      const value = (await fileSecrets)[name];
+      return typeof value === 'string' ? value : undefined;
+    },
+  };
+}
+
+/**
+ * Check a secret name against permissions.secrets.read patterns
+ */
+export function isSecretAllowed(name: string, permissions: PermissionSpec): boolean {
+  const allowedPatterns = permissions.secrets?.read ?? [];
+  return allowedPatterns.some((pattern) => {
+    if (pattern.endsWith('*')) {
+      // Prefix match: "GITHUB_*" matches "GITHUB_TOKEN"
+      return name.startsWith(pattern.slice(0, -1));
+    }
+    return name === pattern;
+  });
+}
+
+export interface CreateSecretsAPIOptions {
+  permissions: PermissionSpec;
+  provider: SecretProvider;
+  /** Receives every value handed out (redaction) */
+  onSecret?: (value: string) => void;
+}
+
+/**
+ * Create SecretsAPI with permission checks
+ */
+export function createSecretsAPI(options: CreateSecretsAPIOptions): SecretsAPI {
+  const { permissions, provider, onSecret } = options;
+
+  return {
+    async get(name: string): Promise<string | undefined> {
+      if (!isSecretAllowed(name, permissions)) {
+        throw new PermissionError(`Secret access denied: ${name}`, {
+          name,
+          allowedSecrets: permissions.secrets?.read ?? [],
+        });
+      }
+
+      const value = await provider.get(name);
+      if (value !== undefined) {
+        onSecret?.(value);
+      }
+      return value;
+    },
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Shell command policy
+ *
+ * Matches a command and its argument vector (no shell string parsing):
+ * - allow entries: 'git' (any args), 'git status*' (status, then anything), 'npm run build'
+ * - blocked commands: rules on the program and its flags/operands, so
+ *   reordering arguments (`rm / -rf`) or wrapping (`sudo rm ...`) does not bypass them
+ */
+
+import * as path from 'node:path';
+
+/**
+ * Convert glob pattern to regex
+ */
+function globToRegex(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&') // Escape special regex chars
+    .replace(/\*/g, '.*') // * -> .*
+    .replace(/\?/g, '.'); // ? -> .
+
+  return new RegExp(`^${escaped}$`);
+}
+
+// ============================================================================
+// Allowlist
+// ============================================================================
+
+/**
+ * Check a command against one shell.allow entry
+ *
+ * Argument patterns match positionally; a trailing `*` on the last pattern
+ * also accepts any further arguments.
+ */
+export function matchesAllowEntry(entry: string, command: string, args: string[]): boolean {
+  const [commandPattern, ...argPatterns] = entry.trim().split(/\s+/);
+  if (commandPattern !== '*' && commandPattern !== command) {return false;}
+  if (argPatterns.length === 0) {return true;}
+
+  const last = argPatterns[argPatterns.length - 1]!;
+  const openEnded = last.endsWith('*');
+
+  for (let i = 0; i < argPatterns.length; i++) {
+    const arg = args[i];
+    if (arg === undefined) {
+      // 'git *' also accepts no arguments
+      return i === argPatterns.length - 1 && last === '*';
+    }
+    if (!globToRegex(argPatterns[i]!).test(arg)) {return false;}
+  }
+
+  return openEnded || args.length === argPatterns.length;
+}
+
+/**
+ * Check a command against shell.allow
+ */
+export function isCommandAllowed(allow: string[], command: string, args: string[]): boolean {
+  return allow.some((entry) => matchesAllowEntry(entry, command, args));
+}
+
+// ============================================================================
+// Blocked commands
+// ============================================================================
+
+interface BlockedRule {
+  /** Program names (basename) the rule applies to */
+  programs: string[];
+  reason: string;
+  /** Defaults to always blocking the program */
+  matches?: (args: string[]) => boolean;
+}
+
+const ROOT_TARGETS = new Set(['/', '/*', '~', '~/', '$HOME']);
+
+/**
+ * Short flag clusters (-rf) and long flags (--recursive)
+ */
+function hasFlag(args: string[], short: string[], long: string[]): boolean {
+  return args.some((arg) => {
+    if (arg.startsWith('--')) {return long.includes(arg.split('=')[0]!);}
+    return arg.startsWith('-') && [...arg.slice(1)].some((c) => short.includes(c));
+  });
+}
+
+function operands(args: string[]): string[] {
+  return args.filter((arg) => !arg.startsWith('-'));
+}
+
+function targetsRoot(args: string[]): boolean {
+  return operands(args).some((arg) => {
+    // '/tmp/..', '//' and '/./' are the root too
+    const normalized = arg.startsWith('/') ? path.posix.normalize(arg) : arg;
+    return ROOT_TARGETS.has(normalized.length > 1 ? normalized.replace(/\/+$/, '') : normalized);
+  });
+}
+
+const RECURSIVE = { short: ['r', 'R'], long: ['--recursive'] };
+
+const BLOCKED_RULES: BlockedRule[] = [
+  {
+    programs: ['rm'],
+    reason: 'recursive delete of the filesystem root or home',
+    matches: (args) =>
+      (hasFlag(args, RECURSIVE.short, RECURSIVE.long) && targetsRoot(args))
+      || args.includes('--no-preserve-root'),
+  },
+  {
+    programs: ['mkfs', 'mke2fs', 'mkswap', 'fdisk', 'sfdisk', 'parted', 'wipefs'],
+    reason: 'disk formatting or partitioning',
+  },
+  {
+    programs: ['dd'],
+    reason: 'raw disk copy',
+  },
+  {
+    programs: ['chmod'],
+    reason: 'recursive permission change of the filesystem root',
+    matches: (args) => hasFlag(args, RECURSIVE.short, RECURSIVE.long) && targetsRoot(args),
+  },
+  {
+    programs: ['chown', 'chgrp'],
+    reason: 'recursive ownership change',
+    matches: (args) => hasFlag(args, ['R'], RECURSIVE.long),
+  },
+  {
+    programs: ['mv'],
+    reason: 'moving the filesystem root',
+    matches: (args) => targetsRoot(args),
+  },
+  {
+    programs: ['shutdown', 'reboot', 'halt', 'poweroff'],
+    reason: 'system shutdown',
+  },
+];
+
+/**
+ * Programs that run their arguments as another command
+ */
+const WRAPPERS = new Set(['sudo', 'doas', 'env', 'nice', 'nohup', 'timeout', 'time', 'xargs', 'command', 'exec', 'stdbuf']);
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'fish']);
+
+/**
+ * Patterns checked in `sh -c` scripts (redirection and fork bombs need a shell)
+ */
+const BLOCKED_SCRIPT_PATTERNS: Array<{ pattern: RegExp; reason: string }> = [
+  { pattern: />\s*\/dev\/(sd|hd|vd|xvd|nvme|disk|mmcblk)/, reason: 'write to a block device' },
+  { pattern: /(\S+)\s*\(\)\s*\{[^}]*\1\s*\|\s*\1\s*&/, reason: 'fork bomb' },
+];
+
+/**
+ * Skip wrapper options: `env -i FOO=1 rm`, `timeout 5 rm`, `sudo -u root rm`
+ */
+function unwrap(program: string, args: string[]): string[] {
+  let i = 0;
+  while (i < args.length) {
+    const arg = args[i]!;
+    if (arg.startsWith('-')) {
+      // Options with a separate value
+      if ((program === 'sudo' && ['-u', '-g', '-C'].includes(arg)) || (program === 'stdbuf' && arg.length === 2)) {i++;}
+      i++;
+      continue;
+    }
+    if (program === 'env' && arg.includes('=')) {
+      i++;
+      continue;
+    }
+    if (program === 'timeout' && /^\d/.test(arg)) {
+      i++;
+      continue;
+    }
+    break;
+  }
+  return args.slice(i);
+}
+
+/**
+ * Split a shell script into simple commands (best effort, for blocking only)
+ */
+function scriptCommands(script: string): string[][] {
+  return script
+    .split(/&&|\|\||[;|&\n]|\$\(|`/)
+    .map((part) => part.replace(/[()]/g, ' ').trim().split(/\s+/).filter(Boolean).map((t) => t.replace(/^['"]|['"]$/g, '')))
+    .filter((words) => words.length > 0);
+}
+
+/**
+ * Find the rule blocking a command, if any
+ *
+ * @returns Human-readable reason, or undefined if not blocked
+ */
+export function findBlockedCommand(command: string, args: string[], depth = 0): string | undefined {
+  if (depth > 8) {return 'command nesting too deep';}
+
+  const program = path.basename(command);
+
+  if (WRAPPERS.has(program)) {
+    const [inner, ...innerArgs] = unwrap(program, args);
+    return inner ? findBlockedCommand(inner, innerArgs, depth + 1) : undefined;
+  }
+
+  if (SHELLS.has(program)) {
+    const scriptIndex = args.findIndex((arg) => /^-[a-z]*c[a-z]*$/.test(arg));
+    const script = scriptIndex === -1 ? undefined : args[scriptIndex + 1];
+    if (script === undefined) {return undefined;}
+
+    const blockedPattern = BLOCKED_SCRIPT_PATTERNS.find(({ pattern }) => pattern.test(script));
+    if (blockedPattern) {return blockedPattern.reason;}
+
+    for (const [inner, ...innerArgs] of scriptCommands(script)) {
+      const reason = findBlockedCommand(inner!, innerArgs, depth + 1);
+      if (reason) {return reason;}
+    }
+    return undefined;
+  }
+
+  const name = program.startsWith('mkfs.') ? 'mkfs' : program;
+  const rule = BLOCKED_RULES.find((r) => r.programs.includes(name) && (r.matches?.(args) ?? true));
+  return rule?.reason;
+}
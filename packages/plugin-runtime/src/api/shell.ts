@@ -2,35 +2,42 @@
  * Shell API implementation
  */
 
-import { spawn } from 'node:child_process';
-import type { ShellAPI, ExecResult, ExecOptions, PermissionSpec } from '@kb-labs/plugin-contracts';
-import { PermissionError } from '@kb-labs/plugin-contracts';
+import { spawn, type ChildProcess } from 'node:child_process';
+import type {
+  ShellAPI,
+  ExecResult,
+  ExecOptions,
+  PermissionSpec,
+  ShellExitStatus,
+  ShellOutputChunk,
+  ShellProcess,
+} from '@kb-labs/plugin-contracts';
+import { PermissionError, AbortError } from '@kb-labs/plugin-contracts';
+import { scrubEnv, type ScrubEnvOptions } from '../runtime/env-shim.js';
+import { findBlockedCommand, isCommandAllowed } from './shell-policy.js';
+
+const DEFAULT_TIMEOUT_MS = 30000;
 
 /**
- * Commands that are always blocked (dangerous)
+ * Output chunks spawn() buffers before pausing the command (while iterated)
+ * or dropping the oldest chunk (while not)
  */
-const BLOCKED_COMMANDS = [
-  'rm -rf /',
-  'rm -rf /*',
-  'mkfs',
-  'dd if=',
-  ':(){:|:&};:', // Fork bomb
-  'chmod -R 777 /',
-  'chown -R',
-  '> /dev/sda',
-  'mv /* ',
-];
+const MAX_BUFFERED_CHUNKS = 64;
 
 export interface CreateShellAPIOptions {
   permissions: PermissionSpec;
   cwd: string;
+  /** Logs environment variables withheld from commands (debug) */
+  logger?: ScrubEnvOptions['logger'];
+  /** Execution signal (ctx.signal): kills running commands when aborted */
+  signal?: AbortSignal;
 }
 
 /**
  * Create ShellAPI with permission checks
  */
 export function createShellAPI(options: CreateShellAPIOptions): ShellAPI {
-  const { permissions, cwd } = options;
+  const { permissions, cwd, logger, signal: contextSignal } = options;
 
   // Check if shell is allowed (empty array = disabled)
   const allowedCommands = permissions.shell?.allow ?? [];
@@ -39,92 +46,251 @@ export function createShellAPI(options: CreateShellAPIOptions): ShellAPI {
       async exec(): Promise<never> {
         throw new PermissionError('Shell execution not allowed');
       },
+      spawn(): never {
+        throw new PermissionError('Shell execution not allowed');
+      },
     };
   }
 
+  function checkCommand(command: string, args: string[]): void {
+    const blocked = findBlockedCommand(command, args);
+    if (blocked) {
+      throw new PermissionError(`Dangerous command blocked`, {
+        command: [command, ...args].join(' '),
+        blocked,
+      });
+    }
+
+    if (!isCommandAllowed(allowedCommands, command, args)) {
+      throw new PermissionError(`Command not in whitelist`, {
+        command,
+        args,
+        allowedCommands,
+      });
+    }
+  }
+
+  /**
+   * Spawn a checked command with timeout and abort handling
+   */
+  function startCommand(
+    command: string,
+    args: string[],
+    execOptions: ExecOptions | undefined,
+    closeStdin: boolean
+  ): { child: ChildProcess; exited: Promise<ShellExitStatus> } {
+    checkCommand(command, args);
+
+    const timeout = execOptions?.timeout ?? DEFAULT_TIMEOUT_MS;
+    const throwOnError = execOptions?.throwOnError ?? false;
+    const signal = execOptions?.signal ?? contextSignal;
+    if (signal?.aborted) {
+      throw new AbortError(`Command aborted: ${command}`);
+    }
+
+    const child = spawn(command, args, {
+      cwd: execOptions?.cwd ?? cwd,
+      // Permitted variables only, explicit ExecOptions.env on top
+      env: {
+        ...scrubEnv(process.env, { permissions, logger }),
+        ...execOptions?.env,
+      },
+    });
+
+    const exited = new Promise<ShellExitStatus>((resolve, reject) => {
+      let timedOut = false;
+      let aborted = false;
+
+      const timeoutId = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, timeout);
+
+      const onAbort = () => {
+        aborted = true;
+        child.kill('SIGKILL');
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const settle = () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      child.on('close', (code, killSignal) => {
+        settle();
+
+        if (timedOut) {
+          reject(new Error(`Command timed out after ${timeout}ms`));
+          return;
+        }
+        if (aborted) {
+          reject(new AbortError(`Command aborted: ${command}`));
+          return;
+        }
+
+        const exitCode = code ?? (killSignal ? -1 : 0);
+        if (throwOnError && exitCode !== 0) {
+          reject(new Error(`Command failed with code ${exitCode}`));
+          return;
+        }
+        resolve({ code: exitCode, signal: killSignal ?? undefined, ok: exitCode === 0 });
+      });
+
+      child.on('error', (error) => {
+        settle();
+        reject(error);
+      });
+    });
+    // Rejections surface through exec() / wait() / iteration
+    exited.catch(() => {});
+
+    // EPIPE when the command exits without reading stdin
+    child.stdin?.on('error', () => {});
+    if (execOptions?.input !== undefined) {
+      child.stdin?.end(execOptions.input);
+    } else if (closeStdin) {
+      child.stdin?.end();
+    }
+
+    return { child, exited };
+  }
+
   return {
     async exec(
       command: string,
       args: string[] = [],
       execOptions?: ExecOptions
     ): Promise<ExecResult> {
-      // Check blocked commands
-      const fullCommand = `${command} ${args.join(' ')}`;
-      for (const blocked of BLOCKED_COMMANDS) {
-        if (fullCommand.includes(blocked)) {
-          throw new PermissionError(`Dangerous command blocked`, {
-            command: fullCommand,
-            blocked,
-          });
-        }
-      }
+      const { child, exited } = startCommand(
+        command,
+        args,
+        { ...execOptions, throwOnError: false },
+        true
+      );
 
-      // Check command whitelist
-      if (!allowedCommands.includes(command) && !allowedCommands.includes('*')) {
-        throw new PermissionError(`Command not in whitelist`, {
-          command,
-          allowedCommands,
-        });
+      let stdout = '';
+      let stderr = '';
+
+      child.stdout?.setEncoding('utf8').on('data', (data: string) => {
+        stdout += data;
+      });
+
+      child.stderr?.setEncoding('utf8').on('data', (data: string) => {
+        stderr += data;
+      });
+
+      const status = await exited;
+
+      if (execOptions?.throwOnError && !status.ok) {
+        throw new Error(`Command failed with code ${status.code}: ${stderr}`);
       }
 
-      const workingDir = execOptions?.cwd ?? cwd;
-      const timeout = execOptions?.timeout ?? 30000;
-      const throwOnError = execOptions?.throwOnError ?? false;
-
-      return new Promise((resolve, reject) => {
-        const child = spawn(command, args, {
-          cwd: workingDir,
-          env: {
-            ...process.env,
-            ...execOptions?.env,
-          },
-        });
+      return {
+        code: status.code,
+        stdout,
+        stderr,
+        ok: status.ok,
+      };
+    },
 
-        let stdout = '';
-        let stderr = '';
-        let timedOut = false;
+    spawn(
+      command: string,
+      args: string[] = [],
+      execOptions?: ExecOptions
+    ): ShellProcess {
+      const { child, exited } = startCommand(command, args, execOptions, false);
 
-        const timeoutId = setTimeout(() => {
-          timedOut = true;
-          child.kill('SIGKILL');
-        }, timeout);
+      const queue: ShellOutputChunk[] = [];
+      let iterating = false;
+      let closed = false;
+      let failure: unknown;
+      let wake: (() => void) | undefined;
 
-        child.stdout?.on('data', (data) => {
-          stdout += data.toString();
-        });
+      const notify = () => {
+        wake?.();
+        wake = undefined;
+      };
 
-        child.stderr?.on('data', (data) => {
-          stderr += data.toString();
+      const onData = (stream: ShellOutputChunk['stream']) => (data: string) => {
+        queue.push({ stream, data });
+        if (iterating && queue.length >= MAX_BUFFERED_CHUNKS) {
+          // Backpressure: stop reading pipes until the consumer catches up
+          child.stdout?.pause();
+          child.stderr?.pause();
+        } else if (queue.length > MAX_BUFFERED_CHUNKS) {
+          // Nobody reads the output: keep the latest chunks, never stall the command
+          queue.shift();
+        }
+        notify();
+      };
+
+      child.stdout?.setEncoding('utf8').on('data', onData('stdout'));
+      child.stderr?.setEncoding('utf8').on('data', onData('stderr'));
+
+      exited
+        .catch((error: unknown) => {
+          failure = error;
+        })
+        .finally(() => {
+          closed = true;
+          notify();
         });
 
-        child.on('close', (code) => {
-          clearTimeout(timeoutId);
+      return {
+        pid: child.pid,
 
-          if (timedOut) {
-            reject(new Error(`Command timed out after ${timeout}ms`));
-            return;
+        async *[Symbol.asyncIterator](): AsyncIterator<ShellOutputChunk> {
+          iterating = true;
+          try {
+            while (true) {
+              const chunk = queue.shift();
+              if (chunk) {
+                if (queue.length < MAX_BUFFERED_CHUNKS / 2) {
+                  child.stdout?.resume();
+                  child.stderr?.resume();
+                }
+                yield chunk;
+                continue;
+              }
+              if (closed) {
+                if (failure) {throw failure;}
+                return;
+              }
+              await new Promise<void>((resolve) => {
+                wake = resolve;
+              });
+            }
+          } finally {
+            // A consumer that stopped early must not leave the command paused
+            iterating = false;
+            child.stdout?.resume();
+            child.stderr?.resume();
           }
+        },
 
-          const exitCode = code ?? 0;
-          const result: ExecResult = {
-            code: exitCode,
-            stdout,
-            stderr,
-            ok: exitCode === 0,
-          };
-
-          if (throwOnError && exitCode !== 0) {
-            reject(new Error(`Command failed with code ${exitCode}: ${stderr}`));
-          } else {
-            resolve(result);
-          }
-        });
+        write(data: string | Uint8Array): Promise<void> {
+          return new Promise((resolve, reject) => {
+            if (!child.stdin || child.stdin.writableEnded) {
+              reject(new Error(`stdin of ${command} is closed`));
+              return;
+            }
+            child.stdin.write(data, (error) => (error ? reject(error) : resolve()));
+          });
+        },
 
-        child.on('error', (error) => {
-          clearTimeout(timeoutId);
-          reject(error);
-        });
-      });
+        end(): void {
+          child.stdin?.end();
+        },
+
+        kill(signal: string = 'SIGTERM'): void {
+          child.kill(signal as NodeJS.Signals);
+        },
+
+        wait(): Promise<ShellExitStatus> {
+          return exited;
+        },
+      };
     },
   };
 }
@@ -0,0 +1,392 @@
+/**
+ * State stores for ctx.api.state
+ *
+ * The cache-backed store (platform.cache) is the default but entries can be
+ * evicted. The file store keeps state on disk so it survives eviction and
+ * restarts of the CLI and REST daemon:
+ * - one JSON file per key under `<dir>/kv`, replaced atomically (write + rename)
+ * - setIfNotExists via link(), which fails if the target exists
+ * - sorted sets as one file per member under `<dir>/zset/<set>`
+ *
+ * Every operation is a single file-system call, so several processes
+ * (CLI, daemon, subprocess sandboxes) can share one directory.
+ * TTL is enforced lazily on read; prune() removes expired files.
+ * An expired file is removed by one reader only, and only while it is
+ * still the file that was read (see removeExpired).
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { CacheAdapter } from '@kb-labs/plugin-contracts';
+import { INDEX_KEY, KEYS_KEY, NO_EXPIRY, type StateIndex } from './state.js';
+
+/**
+ * Storage operations used by StateAPI.
+ * CacheAdapter satisfies this, so platform.cache can be used directly.
+ */
+export type StateStore = Pick<
+  CacheAdapter,
+  'get' | 'set' | 'delete' | 'setIfNotExists' | 'zadd' | 'zrangebyscore' | 'zrem'
+>;
+
+export interface FileStateStoreOptions {
+  /** Directory for state files (created on first write) */
+  dir: string;
+}
+
+export interface FileStateStore extends StateStore {
+  readonly dir: string;
+  /**
+   * Delete expired entries.
+   * @returns Number of entries removed
+   */
+  prune(): Promise<number>;
+}
+
+interface StoredEntry {
+  key: string;
+  value: unknown;
+  expiresAt?: number;
+}
+
+interface StoredMember {
+  member: string;
+  score: number;
+}
+
+/**
+ * Identity of one version of an entry file (replacing the file changes it)
+ */
+interface FileIdentity {
+  ino: bigint;
+  mtimeNs: bigint;
+}
+
+/**
+ * Age after which prune() treats a removal marker as left by a crashed process
+ */
+const STALE_MARKER_MS = 60_000;
+
+const MARKER_SUFFIX = '.reap';
+
+function fileName(key: string): string {
+  return `${createHash('sha256').update(key).digest('hex')}.json`;
+}
+
+function isErrno(error: unknown, code: string): boolean {
+  return (error as NodeJS.ErrnoException)?.code === code;
+}
+
+function isExpired(entry: StoredEntry, now = Date.now()): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= now;
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+  } catch (error) {
+    if (isErrno(error, 'ENOENT')) {return null;}
+    throw error;
+  }
+}
+
+/**
+ * Read an entry file together with the identity of the file that was read
+ */
+async function readJsonWithIdentity<T>(file: string): Promise<{ value: T; identity: FileIdentity } | null> {
+  let handle: fs.FileHandle;
+  try {
+    handle = await fs.open(file, 'r');
+  } catch (error) {
+    if (isErrno(error, 'ENOENT')) {return null;}
+    throw error;
+  }
+
+  try {
+    const stat = await handle.stat({ bigint: true });
+    const value = JSON.parse(await handle.readFile('utf8')) as T;
+    return { value, identity: { ino: stat.ino, mtimeNs: stat.mtimeNs } };
+  } finally {
+    await handle.close();
+  }
+}
+
+async function statIdentity(file: string): Promise<FileIdentity | null> {
+  try {
+    const stat = await fs.stat(file, { bigint: true });
+    return { ino: stat.ino, mtimeNs: stat.mtimeNs };
+  } catch (error) {
+    if (isErrno(error, 'ENOENT')) {return null;}
+    throw error;
+  }
+}
+
+async function unlinkIfExists(file: string): Promise<void> {
+  try {
+    await fs.unlink(file);
+  } catch (error) {
+    if (!isErrno(error, 'ENOENT')) {throw error;}
+  }
+}
+
+/**
+ * Remove an expired entry file, unless it was replaced since it was read.
+ *
+ * Readers racing on the same expired entry (two setIfNotExists() calls on an
+ * expired lock) must not both remove it: the second removal would delete the
+ * fresh entry the first one linked in its place. The marker named after the
+ * file's identity is created exclusively, so one reader removes that file.
+ */
+async function removeExpired(file: string, identity: FileIdentity): Promise<void> {
+  const marker = `${file}.${identity.ino}-${identity.mtimeNs}${MARKER_SUFFIX}`;
+  try {
+    await fs.writeFile(marker, '', { flag: 'wx' });
+  } catch (error) {
+    // Another reader is removing it
+    if (isErrno(error, 'EEXIST')) {return;}
+    throw error;
+  }
+
+  try {
+    const current = await statIdentity(file);
+    if (current && current.ino === identity.ino && current.mtimeNs === identity.mtimeNs) {
+      await unlinkIfExists(file);
+    }
+  } finally {
+    await unlinkIfExists(marker);
+  }
+}
+
+async function listFiles(dir: string, suffix = '.json'): Promise<string[]> {
+  try {
+    const names = await fs.readdir(dir);
+    return names.filter((name) => name.endsWith(suffix)).map((name) => path.join(dir, name));
+  } catch (error) {
+    if (isErrno(error, 'ENOENT')) {return [];}
+    throw error;
+  }
+}
+
+/**
+ * Create a durable file-backed state store
+ */
+export function createFileStateStore(options: FileStateStoreOptions): FileStateStore {
+  const dir = path.resolve(options.dir);
+  const kvDir = path.join(dir, 'kv');
+  const zsetDir = path.join(dir, 'zset');
+  const createdDirs = new Map<string, Promise<unknown>>();
+
+  function ensureDir(target: string): Promise<unknown> {
+    let created = createdDirs.get(target);
+    if (!created) {
+      created = fs.mkdir(target, { recursive: true });
+      createdDirs.set(target, created);
+    }
+    return created;
+  }
+
+  /**
+   * Write to a temp file in the target directory (same file system for rename/link)
+   */
+  async function writeTemp(target: string, data: unknown): Promise<string> {
+    await ensureDir(path.dirname(target));
+    const tmp = `${target}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data), 'utf8');
+    return tmp;
+  }
+
+  async function writeAtomic(target: string, data: unknown): Promise<void> {
+    const tmp = await writeTemp(target, data);
+    try {
+      await fs.rename(tmp, target);
+    } catch (error) {
+      await unlinkIfExists(tmp);
+      throw error;
+    }
+  }
+
+  async function readEntry(file: string): Promise<StoredEntry | null> {
+    const read = await readJsonWithIdentity<StoredEntry>(file);
+    if (read && isExpired(read.value)) {
+      await removeExpired(file, read.identity);
+      return null;
+    }
+    return read?.value ?? null;
+  }
+
+  function entryFor<T>(key: string, value: T, ttl?: number): StoredEntry {
+    return { key, value, expiresAt: ttl !== undefined ? Date.now() + ttl : undefined };
+  }
+
+  return {
+    dir,
+
+    async get<T>(key: string): Promise<T | null> {
+      const entry = await readEntry(path.join(kvDir, fileName(key)));
+      return (entry?.value as T | undefined) ?? null;
+    },
+
+    async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+      await writeAtomic(path.join(kvDir, fileName(key)), entryFor(key, value, ttl));
+    },
+
+    async delete(key: string): Promise<void> {
+      await unlinkIfExists(path.join(kvDir, fileName(key)));
+    },
+
+    async setIfNotExists<T>(key: string, value: T, ttl?: number): Promise<boolean> {
+      const target = path.join(kvDir, fileName(key));
+      const tmp = await writeTemp(target, entryFor(key, value, ttl));
+
+      try {
+        // Retry once after removing an expired entry
+        for (let attempt = 0; attempt < 2; attempt++) {
+          try {
+            await fs.link(tmp, target);
+            return true;
+          } catch (error) {
+            if (!isErrno(error, 'EEXIST')) {throw error;}
+          }
+          if (await readEntry(target)) {
+            return false;
+          }
+        }
+        return false;
+      } finally {
+        await unlinkIfExists(tmp);
+      }
+    },
+
+    async zadd(key: string, score: number, member: string): Promise<void> {
+      const entry: StoredMember = { member, score };
+      await writeAtomic(path.join(zsetDir, fileName(key), fileName(member)), entry);
+    },
+
+    async zrangebyscore(key: string, min: number, max: number): Promise<string[]> {
+      const files = await listFiles(path.join(zsetDir, fileName(key)));
+      const members = await Promise.all(files.map((file) => readJson<StoredMember>(file)));
+
+      return members
+        .filter((m): m is StoredMember => m !== null && m.score >= min && m.score <= max)
+        .sort((a, b) => a.score - b.score || a.member.localeCompare(b.member))
+        .map((m) => m.member);
+    },
+
+    async zrem(key: string, member: string): Promise<void> {
+      await unlinkIfExists(path.join(zsetDir, fileName(key), fileName(member)));
+    },
+
+    async prune(): Promise<number> {
+      const now = Date.now();
+      let removed = 0;
+
+      for (const file of await listFiles(kvDir)) {
+        const read = await readJsonWithIdentity<StoredEntry>(file);
+        if (read && isExpired(read.value, now)) {
+          await removeExpired(file, read.identity);
+          removed++;
+        }
+      }
+
+      // Markers of removals interrupted by a crash
+      for (const marker of await listFiles(kvDir, MARKER_SUFFIX)) {
+        const stat = await fs.stat(marker).catch(() => null);
+        if (stat && now - stat.mtimeMs > STALE_MARKER_MS) {
+          await unlinkIfExists(marker);
+        }
+      }
+      return removed;
+    },
+  };
+}
+
+// ============================================================================
+// Migration
+// ============================================================================
+
+export interface MigrateStateOptions {
+  /** Store holding existing entries (usually platform.cache) */
+  source: StateStore;
+  /** Durable store to copy into */
+  target: StateStore;
+  pluginId: string;
+  tenantId?: string;
+  /** Namespace to migrate (default: pluginId) */
+  namespace?: string;
+  /**
+   * Keys to copy in addition to tracked ones.
+   * Entries written before key tracking are not discoverable and must be listed here.
+   */
+  keys?: string[];
+  /** Delete migrated entries from source */
+  deleteSource?: boolean;
+}
+
+export interface MigrateStateResult {
+  /** Keys copied to target */
+  migrated: string[];
+  /** Keys missing in source or expiring with unknown expiry */
+  skipped: string[];
+}
+
+/**
+ * Copy `tenant:namespace:key` entries from one store to another.
+ *
+ * TTL is preserved from the quota index when available. Tracked entries
+ * that expire at an unknown time are skipped (they would expire anyway);
+ * explicitly listed untracked keys are copied without TTL.
+ */
+export async function migrateStateEntries(options: MigrateStateOptions): Promise<MigrateStateResult> {
+  const { source, target, pluginId, deleteSource = false } = options;
+  const prefix = `${options.tenantId ?? 'default'}:${options.namespace ?? pluginId}:`;
+  const keysKey = `${prefix}${KEYS_KEY}`;
+  const indexKey = `${prefix}${INDEX_KEY}`;
+  const now = Date.now();
+
+  const permanent = new Set<string>(await source.zrangebyscore(keysKey, NO_EXPIRY, NO_EXPIRY));
+  const expiring = new Set<string>(await source.zrangebyscore(keysKey, now + 1, NO_EXPIRY - 1));
+  const index = (await source.get<StateIndex>(indexKey)) ?? {};
+  const keys = new Set<string>([...permanent, ...expiring, ...(options.keys ?? [])]);
+
+  const result: MigrateStateResult = { migrated: [], skipped: [] };
+  const migratedIndex: StateIndex = {};
+
+  for (const key of [...keys].sort()) {
+    const expiresAt = index[key]?.expiresAt;
+    if ((expiring.has(key) && expiresAt === undefined) || (expiresAt !== undefined && expiresAt <= now)) {
+      result.skipped.push(key);
+      continue;
+    }
+
+    const value = await source.get<unknown>(`${prefix}${key}`);
+    if (value === null || value === undefined) {
+      result.skipped.push(key);
+      continue;
+    }
+
+    await target.set(`${prefix}${key}`, value, expiresAt !== undefined ? expiresAt - now : undefined);
+    await target.zadd(keysKey, expiresAt ?? NO_EXPIRY, key);
+    if (index[key]) {
+      migratedIndex[key] = index[key];
+    }
+    result.migrated.push(key);
+
+    if (deleteSource) {
+      await source.delete(`${prefix}${key}`);
+      await source.zrem(keysKey, key);
+    }
+  }
+
+  if (Object.keys(migratedIndex).length > 0) {
+    const existing = (await target.get<StateIndex>(indexKey)) ?? {};
+    await target.set(indexKey, { ...existing, ...migratedIndex });
+
+    if (deleteSource) {
+      const remaining = Object.fromEntries(Object.entries(index).filter(([key]) => !migratedIndex[key]));
+      await source.set(indexKey, remaining);
+    }
+  }
+
+  return result;
+}
@@ -1,72 +1,485 @@
 /**
  * State API implementation
+ *
+ * Keys are stored as `tenant:namespace:key`, where namespace defaults to
+ * the plugin ID. permissions.state governs access:
+ * - namespaces: extra namespaces the plugin may use (shared state)
+ * - quotas.maxEntries / maxSizeBytes: tracked per tenant + namespace in an
+ *   index entry stored next to the data
+ * - quotas.operationsPerMinute: fixed one-minute window per tenant + plugin
+ *
+ * Data lives in a StateStore: the platform cache by default, or a durable
+ * store (see state-store.ts) so state survives cache eviction and restarts.
+ *
+ * Accounting lives in the store itself so it holds across executions and
+ * processes. Updates are read-modify-write (serialized per StateAPI
+ * instance), so concurrent executions may briefly overshoot a quota.
+ *
+ * Atomic operations (increment, compareAndSet, locks) are built on
+ * setIfNotExists, so they work the same in-process and over the
+ * subprocess RPC cache proxy. increment/compareAndSet are atomic with
+ * respect to each other, not to plain set().
  */
 
-import type { StateAPI, CacheAdapter } from '@kb-labs/plugin-contracts';
+import { randomUUID } from 'node:crypto';
+import type {
+  StateAPI,
+  StateLock,
+  StateLockOptions,
+  PermissionSpec,
+  LifecycleAPI,
+} from '@kb-labs/plugin-contracts';
+import {
+  PermissionError,
+  QuotaExceededError,
+  RateLimitError,
+  TimeoutError,
+  ValidationError,
+} from '@kb-labs/plugin-contracts';
+import type { StateStore } from './state-store.js';
+
+/** Reserved key prefix for state bookkeeping entries */
+const RESERVED_PREFIX = '__kb_state';
+export const INDEX_KEY = `${RESERVED_PREFIX}_index__`;
+const OPS_KEY = `${RESERVED_PREFIX}_ops__`;
+export const KEYS_KEY = `${RESERVED_PREFIX}_keys__`;
+const MUTEX_PREFIX = `${RESERVED_PREFIX}_mutex__:`;
+const LOCK_PREFIX = `${RESERVED_PREFIX}_lock__:`;
+const RATE_WINDOW_MS = 60_000;
+
+/** Key set score for entries without TTL (must survive JSON over RPC) */
+export const NO_EXPIRY = Number.MAX_SAFE_INTEGER;
+
+/** Per-key mutex used by increment/compareAndSet */
+const MUTEX_TTL_MS = 5_000;
+const MUTEX_WAIT_MS = 5_000;
+const MUTEX_RETRY_MS = 10;
+
+const DEFAULT_LOCK_TTL_MS = 30_000;
+const DEFAULT_LOCK_WAIT_MS = 10_000;
+const DEFAULT_LOCK_RETRY_MS = 50;
 
 export interface CreateStateAPIOptions {
   pluginId: string;
   tenantId?: string;
-  cache: CacheAdapter;
+  /** State backend: platform cache or a durable StateStore */
+  cache: StateStore;
+  /** State permissions (namespaces and quotas) */
+  permissions?: PermissionSpec['state'];
+  /** Lifecycle for releasing locks on cleanup */
+  lifecycle?: Pick<LifecycleAPI, 'onCleanup'>;
+}
+
+/**
+ * Tracked entry in a namespace index
+ */
+export interface IndexEntry {
+  /** Serialized size in bytes */
+  size: number;
+  /** Expiry timestamp (ms) for entries written with TTL */
+  expiresAt?: number;
+}
+
+export type StateIndex = Record<string, IndexEntry>;
+
+function matchesPattern(value: string, pattern: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+  if (pattern.endsWith('*')) {
+    return value.startsWith(pattern.slice(0, -1));
+  }
+  return value === pattern;
+}
+
+/**
+ * Serialized size of a state value in bytes
+ */
+function sizeOf(value: unknown): number {
+  const json = JSON.stringify(value);
+  return json === undefined ? 0 : Buffer.byteLength(json, 'utf8');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function assertKey(key: string): void {
+  if (key.startsWith(RESERVED_PREFIX)) {
+    throw new ValidationError(`State key '${key}' uses reserved prefix '${RESERVED_PREFIX}'`, { key });
+  }
 }
 
 /**
  * Create StateAPI with tenant-aware key prefixing
  */
 export function createStateAPI(options: CreateStateAPIOptions): StateAPI {
-  const { pluginId, tenantId, cache } = options;
+  const { pluginId, tenantId, cache, permissions, lifecycle } = options;
+  const tenant = tenantId ?? 'default';
+  const quotas = permissions?.quotas;
+  const tracksUsage = quotas?.maxEntries !== undefined || quotas?.maxSizeBytes !== undefined;
+
+  // Serialize index updates per namespace within this execution
+  const indexLocks = new Map<string, Promise<unknown>>();
 
-  // Create prefixed key: tenant:plugin:key
-  function prefixKey(key: string): string {
-    const tenant = tenantId ?? 'default';
-    return `${tenant}:${pluginId}:${key}`;
+  function withIndexLock<T>(namespace: string, fn: () => Promise<T>): Promise<T> {
+    const previous = indexLocks.get(namespace) ?? Promise.resolve();
+    const next = previous.then(fn, fn);
+    indexLocks.set(namespace, next.catch(() => {}));
+    return next;
   }
 
-  return {
-    async get<T = unknown>(key: string): Promise<T | undefined> {
-      const value = await cache.get<T>(prefixKey(key));
-      return value ?? undefined;
-    },
-
-    async set<T = unknown>(key: string, value: T, ttlMs?: number): Promise<void> {
-      await cache.set(prefixKey(key), value, ttlMs);
-    },
-
-    async delete(key: string): Promise<void> {
-      await cache.delete(prefixKey(key));
-    },
-
-    async has(key: string): Promise<boolean> {
-      const value = await cache.get(prefixKey(key));
-      return value !== null && value !== undefined;
-    },
-
-    async getMany<T = unknown>(keys: string[]): Promise<Map<string, T>> {
-      const result = new Map<string, T>();
-      await Promise.all(
-        keys.map(async key => {
-          const value = await cache.get<T>(prefixKey(key));
-          if (value !== null && value !== undefined) {
-            result.set(key, value);
-          }
-        })
+  /**
+   * Count operations in the current one-minute window (per tenant + plugin)
+   */
+  async function consumeOperations(count: number): Promise<void> {
+    const limit = quotas?.operationsPerMinute;
+    if (limit === undefined || count === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const windowStart = now - (now % RATE_WINDOW_MS);
+    const opsKey = `${tenant}:${pluginId}:${OPS_KEY}${windowStart}`;
+    const used = (await cache.get<number>(opsKey)) ?? 0;
+
+    if (used + count > limit) {
+      throw new RateLimitError(
+        `State rate limit exceeded: ${limit} operations per minute`,
+        windowStart + RATE_WINDOW_MS - now
+      );
+    }
+
+    await cache.set(opsKey, used + count, RATE_WINDOW_MS);
+  }
+
+  async function loadIndex(namespace: string): Promise<StateIndex> {
+    const index: StateIndex = (await cache.get<StateIndex>(`${tenant}:${namespace}:${INDEX_KEY}`)) ?? {};
+    const now = Date.now();
+
+    // Drop entries that expired in the cache
+    for (const [key, entry] of Object.entries(index)) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) {
+        delete index[key];
+      }
+    }
+
+    return index;
+  }
+
+  async function saveIndex(namespace: string, index: StateIndex): Promise<void> {
+    await cache.set(`${tenant}:${namespace}:${INDEX_KEY}`, index);
+  }
+
+  /**
+   * Check maxEntries / maxSizeBytes for a batch of writes against the index
+   */
+  function checkQuotas(namespace: string, index: StateIndex, writes: Array<[string, IndexEntry]>): void {
+    const next: StateIndex = { ...index };
+    for (const [key, entry] of writes) {
+      next[key] = entry;
+    }
+
+    const entries = Object.keys(next).length;
+    if (quotas?.maxEntries !== undefined && entries > quotas.maxEntries) {
+      throw new QuotaExceededError(
+        'stateEntries',
+        quotas.maxEntries,
+        entries,
+        `State entries quota exceeded in namespace '${namespace}': ${entries} > ${quotas.maxEntries}`
       );
-      return result;
-    },
-
-    async setMany<T = unknown>(
-      entries: Map<string, T> | Record<string, T>,
-      ttlMs?: number
-    ): Promise<void> {
-      const entriesArray = entries instanceof Map
-        ? Array.from(entries.entries())
-        : Object.entries(entries);
-
-      await Promise.all(
-        entriesArray.map(([key, value]) =>
-          cache.set(prefixKey(key), value, ttlMs)
-        )
+    }
+
+    const totalSize = Object.values(next).reduce((sum, entry) => sum + entry.size, 0);
+    if (quotas?.maxSizeBytes !== undefined && totalSize > quotas.maxSizeBytes) {
+      throw new QuotaExceededError(
+        'stateSize',
+        quotas.maxSizeBytes,
+        totalSize,
+        `State size quota exceeded in namespace '${namespace}': ${totalSize} > ${quotas.maxSizeBytes} bytes`
       );
-    },
-  };
+    }
+  }
+
+  /**
+   * Write entries with quota checks and key tracking.
+   *
+   * @param store - Custom store (setIfAbsent); returns false if nothing was written
+   * @returns True if entries were written
+   */
+  async function writeEntries(
+    namespace: string,
+    entries: Array<[string, unknown]>,
+    ttlMs?: number,
+    store?: () => Promise<boolean>
+  ): Promise<boolean> {
+    entries.forEach(([key]) => assertKey(key));
+    await consumeOperations(entries.length);
+
+    const expiresAt = ttlMs !== undefined ? Date.now() + ttlMs : undefined;
+    const write = async (): Promise<boolean> => {
+      const written = store
+        ? await store()
+        : await Promise.all(
+            entries.map(([key, value]) => cache.set(`${tenant}:${namespace}:${key}`, value, ttlMs))
+          ).then(() => true);
+
+      if (written) {
+        await Promise.all(
+          entries.map(([key]) => cache.zadd(`${tenant}:${namespace}:${KEYS_KEY}`, expiresAt ?? NO_EXPIRY, key))
+        );
+      }
+      return written;
+    };
+
+    if (!tracksUsage) {
+      return write();
+    }
+
+    return withIndexLock(namespace, async () => {
+      const index = await loadIndex(namespace);
+      const tracked: Array<[string, IndexEntry]> = entries.map(([key, value]) => [
+        key,
+        { size: sizeOf(value), expiresAt },
+      ]);
+
+      checkQuotas(namespace, index, tracked);
+      if (!(await write())) {
+        return false;
+      }
+
+      for (const [key, entry] of tracked) {
+        index[key] = entry;
+      }
+      await saveIndex(namespace, index);
+      return true;
+    });
+  }
+
+  /**
+   * Try to take a cache-backed lease until waitMs elapses.
+   */
+  async function acquireLease(
+    leaseKey: string,
+    owner: string,
+    ttlMs: number,
+    waitMs: number,
+    retryIntervalMs: number
+  ): Promise<boolean> {
+    const deadline = Date.now() + waitMs;
+
+    for (;;) {
+      if (await cache.setIfNotExists(leaseKey, owner, ttlMs)) {
+        return true;
+      }
+      if (Date.now() + retryIntervalMs > deadline) {
+        return false;
+      }
+      await sleep(retryIntervalMs);
+    }
+  }
+
+  /**
+   * Release lease only if still held by owner.
+   */
+  async function releaseLease(leaseKey: string, owner: string): Promise<void> {
+    if ((await cache.get<string>(leaseKey)) === owner) {
+      await cache.delete(leaseKey);
+    }
+  }
+
+  /**
+   * Run read-modify-write under a short per-key mutex.
+   */
+  async function withKeyMutex<T>(namespace: string, key: string, fn: () => Promise<T>): Promise<T> {
+    assertKey(key);
+    const mutexKey = `${tenant}:${namespace}:${MUTEX_PREFIX}${key}`;
+    const owner = randomUUID();
+
+    if (!(await acquireLease(mutexKey, owner, MUTEX_TTL_MS, MUTEX_WAIT_MS, MUTEX_RETRY_MS))) {
+      throw new TimeoutError(`State key '${key}' is busy`, { key, waitMs: MUTEX_WAIT_MS });
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await releaseLease(mutexKey, owner);
+    }
+  }
+
+  async function acquireLock(namespace: string, name: string, lockOptions: StateLockOptions = {}): Promise<StateLock> {
+    const ttlMs = lockOptions.ttlMs ?? DEFAULT_LOCK_TTL_MS;
+    const waitMs = lockOptions.waitMs ?? DEFAULT_LOCK_WAIT_MS;
+    const lockKey = `${tenant}:${namespace}:${LOCK_PREFIX}${name}`;
+    const owner = randomUUID();
+
+    await consumeOperations(1);
+    const acquired = await acquireLease(
+      lockKey,
+      owner,
+      ttlMs,
+      waitMs,
+      lockOptions.retryIntervalMs ?? DEFAULT_LOCK_RETRY_MS
+    );
+    if (!acquired) {
+      throw new TimeoutError(`Lock '${name}' not acquired within ${waitMs}ms`, { lock: name, waitMs });
+    }
+
+    let released = false;
+    const lock: StateLock = {
+      name,
+      async release(): Promise<void> {
+        if (released) {
+          return;
+        }
+        released = true;
+        await releaseLease(lockKey, owner);
+      },
+      async extend(extendTtlMs = ttlMs): Promise<boolean> {
+        if (released || (await cache.get<string>(lockKey)) !== owner) {
+          return false;
+        }
+        await cache.set(lockKey, owner, extendTtlMs);
+        return true;
+      },
+    };
+
+    // Handler may forget to release (or throw) - free the lock when execution ends
+    lifecycle?.onCleanup(() => lock.release());
+    return lock;
+  }
+
+  function resolveNamespace(name: string): string {
+    if (name === pluginId) {
+      return name;
+    }
+
+    const allowed = permissions?.namespaces ?? [];
+    if (!allowed.some((pattern) => matchesPattern(name, pattern))) {
+      throw new PermissionError(
+        `State namespace '${name}' denied: not in permissions.state.namespaces`,
+        { namespace: name, allowed }
+      );
+    }
+
+    return name;
+  }
+
+  function createScopedState(namespace: string): StateAPI {
+    const prefixKey = (key: string): string => `${tenant}:${namespace}:${key}`;
+
+    return {
+      async get<T = unknown>(key: string): Promise<T | undefined> {
+        assertKey(key);
+        await consumeOperations(1);
+        const value = await cache.get<T>(prefixKey(key));
+        return value ?? undefined;
+      },
+
+      async set<T = unknown>(key: string, value: T, ttlMs?: number): Promise<void> {
+        await writeEntries(namespace, [[key, value]], ttlMs);
+      },
+
+      async delete(key: string): Promise<void> {
+        assertKey(key);
+        await consumeOperations(1);
+        await cache.delete(prefixKey(key));
+        await cache.zrem(`${tenant}:${namespace}:${KEYS_KEY}`, key);
+
+        if (tracksUsage) {
+          await withIndexLock(namespace, async () => {
+            const index = await loadIndex(namespace);
+            delete index[key];
+            await saveIndex(namespace, index);
+          });
+        }
+      },
+
+      async has(key: string): Promise<boolean> {
+        assertKey(key);
+        await consumeOperations(1);
+        const value = await cache.get(prefixKey(key));
+        return value !== null && value !== undefined;
+      },
+
+      async getMany<T = unknown>(keys: string[]): Promise<Map<string, T>> {
+        keys.forEach(assertKey);
+        await consumeOperations(keys.length);
+        const result = new Map<string, T>();
+        await Promise.all(
+          keys.map(async key => {
+            const value = await cache.get<T>(prefixKey(key));
+            if (value !== null && value !== undefined) {
+              result.set(key, value);
+            }
+          })
+        );
+        return result;
+      },
+
+      async setMany<T = unknown>(
+        entries: Map<string, T> | Record<string, T>,
+        ttlMs?: number
+      ): Promise<void> {
+        const entriesArray = entries instanceof Map
+          ? Array.from(entries.entries())
+          : Object.entries(entries);
+
+        await writeEntries(namespace, entriesArray, ttlMs);
+      },
+
+      async increment(key: string, delta = 1, ttlMs?: number): Promise<number> {
+        return withKeyMutex(namespace, key, async () => {
+          const current = await cache.get<unknown>(prefixKey(key));
+          if (current !== null && current !== undefined && typeof current !== 'number') {
+            throw new ValidationError(`State key '${key}' is not a number`, { key });
+          }
+
+          const next = (current ?? 0) + delta;
+          await writeEntries(namespace, [[key, next]], ttlMs);
+          return next;
+        });
+      },
+
+      async compareAndSet<T = unknown>(key: string, expected: T | undefined, value: T, ttlMs?: number): Promise<boolean> {
+        return withKeyMutex(namespace, key, async () => {
+          const current = (await cache.get<T>(prefixKey(key))) ?? undefined;
+          if (JSON.stringify(current) !== JSON.stringify(expected)) {
+            return false;
+          }
+
+          return writeEntries(namespace, [[key, value]], ttlMs);
+        });
+      },
+
+      async setIfAbsent<T = unknown>(key: string, value: T, ttlMs?: number): Promise<boolean> {
+        return writeEntries(namespace, [[key, value]], ttlMs, () =>
+          cache.setIfNotExists(prefixKey(key), value, ttlMs)
+        );
+      },
+
+      async listKeys(prefix = ''): Promise<string[]> {
+        await consumeOperations(1);
+        const keysKey = `${tenant}:${namespace}:${KEYS_KEY}`;
+        const now = Date.now();
+
+        // Drop keys whose TTL has passed (best effort)
+        const expired = await cache.zrangebyscore(keysKey, 0, now);
+        await Promise.all(expired.map((key) => cache.zrem(keysKey, key)));
+
+        const keys = await cache.zrangebyscore(keysKey, now + 1, NO_EXPIRY);
+        return keys.filter((key) => key.startsWith(prefix)).sort();
+      },
+
+      lock(name: string, lockOptions?: StateLockOptions): Promise<StateLock> {
+        return acquireLock(namespace, name, lockOptions);
+      },
+
+      namespace(name: string): StateAPI {
+        return createScopedState(resolveNamespace(name));
+      },
+    };
+  }
+
+  return createScopedState(pluginId);
 }
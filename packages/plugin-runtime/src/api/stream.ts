@@ -0,0 +1,78 @@
+/**
+ * Stream API implementation
+ *
+ * Progress and chunks travel through the execution's event emitter, like
+ * 'log.line', so every backend delivers them the same way as log lines.
+ */
+
+import type { StreamAPI, StreamEvent } from '@kb-labs/plugin-contracts';
+import type { EventEmitterFn } from './events.js';
+
+/**
+ * Emitter event names (not prefixed with the plugin ID)
+ */
+export const STREAM_PROGRESS_EVENT = 'stream.progress';
+export const STREAM_CHUNK_EVENT = 'stream.chunk';
+
+export interface CreateStreamAPIOptions {
+  emitter: EventEmitterFn;
+}
+
+/**
+ * Create StreamAPI for incremental output
+ */
+export function createStreamAPI(options: CreateStreamAPIOptions): StreamAPI {
+  const { emitter } = options;
+
+  return {
+    async progress(update): Promise<void> {
+      await emitter(STREAM_PROGRESS_EVENT, { percent: update.percent, message: update.message });
+    },
+
+    async write(chunk): Promise<void> {
+      await emitter(STREAM_CHUNK_EVENT, { data: chunk });
+    },
+  };
+}
+
+/**
+ * Create a no-op stream API (for when no host listens)
+ */
+export function createNoopStreamAPI(): StreamAPI {
+  return {
+    async progress(): Promise<void> {
+      // No-op
+    },
+    async write(): Promise<void> {
+      // No-op
+    },
+  };
+}
+
+/**
+ * Convert an emitter event into a StreamEvent
+ *
+ * @returns undefined for events that are not stream events
+ */
+export function toStreamEvent(name: string, payload: unknown): StreamEvent | undefined {
+  const p = (payload && typeof payload === 'object' ? payload : {}) as Record<string, unknown>;
+  const timestamp = new Date().toISOString();
+
+  if (name === STREAM_PROGRESS_EVENT) {
+    const percent = typeof p.percent === 'number' && Number.isFinite(p.percent)
+      ? Math.min(100, Math.max(0, p.percent))
+      : undefined;
+    return {
+      type: 'progress',
+      ...(percent !== undefined ? { percent } : {}),
+      ...(typeof p.message === 'string' ? { message: p.message } : {}),
+      timestamp,
+    };
+  }
+
+  if (name === STREAM_CHUNK_EVENT) {
+    return { type: 'chunk', data: p.data, timestamp };
+  }
+
+  return undefined;
+}
@@ -17,9 +17,17 @@ import { createPrefixedLogger } from '@kb-labs/core-platform';
 import { createId } from '../utils/index.js';
 import { createTraceContext } from './trace.js';
 import { createRuntimeAPI } from '../runtime/index.js';
-import { createPluginAPI, type EventEmitterFn, type PluginInvokerFn } from '../api/index.js';
+import {
+  createPluginAPI,
+  type SecretProvider,
+  type EventEmitterFn,
+  type PluginInvokerFn,
+  type StateStore,
+} from '../api/index.js';
 import { createGovernedPlatformServices } from '../platform/governed.js';
 import { createStreamingLogger } from './streaming-logger.js';
+import { createSecretRedactor, createRedactingLogger, type SecretRedactor } from './redaction.js';
+import { verifyDescriptor, descriptorKeyringFromEnv, type DescriptorKeyring } from './descriptor-signature.js';
 
 export interface CreateContextOptions {
   /**
@@ -61,6 +69,28 @@ export interface CreateContextOptions {
    * Output directory for artifacts (optional)
    */
   outdir?: string;
+
+  /**
+   * Durable state store for api.state, passed in by the host
+   * (default: platform cache)
+   */
+  stateStore?: StateStore;
+
+  /**
+   * Keyring for descriptor signatures (default: KB_DESCRIPTOR_KEYS).
+   * Without one, descriptors are not verified.
+   */
+  descriptorKeyring?: DescriptorKeyring;
+
+  /**
+   * Source for api.secrets (default: process.env, then KB_SECRETS_FILE)
+   */
+  secretProvider?: SecretProvider;
+
+  /**
+   * Resolved plugin config for ctx.config (see loadPluginConfig)
+   */
+  config?: unknown;
 }
 
 export interface CreateContextResult<TConfig = unknown> {
@@ -88,6 +118,11 @@ export interface CreateContextResult<TConfig = unknown> {
    * Span ID (unique to this execution)
    */
   spanId: string;
+
+  /**
+   * Masks secrets handed out by api.secrets (apply to errors leaving the execution)
+   */
+  redactor: SecretRedactor;
 }
 
 /**
@@ -96,7 +131,13 @@ export interface CreateContextResult<TConfig = unknown> {
 export function createPluginContextV3<TConfig = unknown>(
   options: CreateContextOptions
 ): CreateContextResult<TConfig> {
-  const { descriptor, platform, ui, signal, eventEmitter, pluginInvoker, cwd, outdir } = options;
+  const { descriptor, platform, ui, signal, eventEmitter, pluginInvoker, cwd, outdir, stateStore } = options;
+
+  // 0. Refuse descriptors whose permissions may have been altered in transit
+  const keyring = options.descriptorKeyring ?? descriptorKeyringFromEnv();
+  if (keyring) {
+    verifyDescriptor(descriptor, keyring);
+  }
 
   // 1. Build stable correlation IDs.
   // Preserve incoming request/trace when available to keep cross-node correlation intact.
@@ -118,8 +159,9 @@ export function createPluginContextV3<TConfig = unknown>(
   const executionId =
     typeof descriptorMeta.executionId === 'string' ? descriptorMeta.executionId : undefined;
 
-  // 2. Create cleanup stack
+  // 2. Create cleanup stack and secret redactor
   const cleanupStack: Array<CleanupFn> = [];
+  const redactor = createSecretRedactor();
 
   // 3. Create trace context (no parent tracking in V3)
   const trace = createTraceContext({
@@ -127,6 +169,7 @@ export function createPluginContextV3<TConfig = unknown>(
     spanId,
     parentSpanId: undefined,
     logger: platform.logger,
+    redactor,
   });
 
   // 4. Create runtime API (sandboxed fs, fetch, env)
@@ -134,6 +177,7 @@ export function createPluginContextV3<TConfig = unknown>(
     permissions: descriptor.permissions,
     cwd,
     outdir,
+    signal,
   });
 
   // 5. Apply permission governance to platform services
@@ -142,7 +186,8 @@ export function createPluginContextV3<TConfig = unknown>(
   const governedPlatform = createGovernedPlatformServices(
     platform,
     descriptor.permissions,
-    descriptor.pluginId
+    descriptor.pluginId,
+    signal
   );
 
   // 5.1. Enrich logger with host context (observability fields)
@@ -162,10 +207,13 @@ export function createPluginContextV3<TConfig = unknown>(
   // 5.2. Wrap logger with prefix protection to prevent plugins from overriding system fields
   const protectedLogger = createPrefixedLogger(enrichedLogger);
 
-  // 5.3. If eventEmitter provided (workflow host), wrap logger to also stream log calls as events
+  // 5.3. Mask secrets handed out by api.secrets
+  const redactingLogger = createRedactingLogger(protectedLogger, redactor);
+
+  // 5.4. If eventEmitter provided (workflow host), wrap logger to also stream log calls as events
   const finalLogger = eventEmitter
-    ? createStreamingLogger(protectedLogger, eventEmitter)
-    : protectedLogger;
+    ? createStreamingLogger(redactingLogger, eventEmitter, redactor)
+    : redactingLogger;
 
   const enrichedPlatform: PlatformServices = {
     ...governedPlatform,
@@ -183,6 +231,7 @@ export function createPluginContextV3<TConfig = unknown>(
     outdir: finalOutdir,
     permissions: descriptor.permissions,
     cache: enrichedPlatform.cache, // Use governed cache, not raw
+    stateStore,
     eventEmitter,
     pluginInvoker,
     // Access workflows from platform container (if available)
@@ -198,6 +247,9 @@ export function createPluginContextV3<TConfig = unknown>(
     analytics: enrichedPlatform.analytics,
     eventBus: enrichedPlatform.eventBus,
     logger: enrichedPlatform.logger,
+    signal,
+    secretProvider: options.secretProvider,
+    onSecret: redactor.add,
     cleanupStack,
   });
 
@@ -212,7 +264,7 @@ export function createPluginContextV3<TConfig = unknown>(
     tenantId: descriptor.tenantId,
     cwd,
     outdir: finalOutdir,
-    config: undefined, // Config comes from platform.config, not descriptor
+    config: options.config as TConfig,
 
     // Cancellation
     signal,
@@ -236,5 +288,6 @@ export function createPluginContextV3<TConfig = unknown>(
     requestId,
     traceId,
     spanId,
+    redactor,
   };
 }
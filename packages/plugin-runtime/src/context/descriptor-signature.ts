@@ -0,0 +1,218 @@
+/**
+ * Descriptor signing
+ *
+ * Hosts sign the PluginContextDescriptor they build (mountRoutes,
+ * mountWebSocketChannels, ...) so runtimes behind IPC or remote transports
+ * can trust descriptor.permissions. Runtimes verify with a keyring:
+ * - keys are selected by signature.keyId, so a new key can be added to
+ *   every keyring before hosts switch to it and the old one removed after
+ * - the signature covers the canonical JSON of every field except
+ *   `signature`, plus the algorithm and key id
+ */
+
+import {
+  createHmac,
+  sign as cryptoSign,
+  verify as cryptoVerify,
+  timingSafeEqual,
+  type KeyObject,
+} from 'node:crypto';
+import type {
+  PluginContextDescriptor,
+  DescriptorSignature,
+  DescriptorSignatureAlgorithm,
+} from '@kb-labs/plugin-contracts';
+import { DescriptorSignatureError } from '@kb-labs/plugin-contracts';
+
+/**
+ * Env var with the verification keyring (JSON, see parseDescriptorKeyring)
+ */
+export const DESCRIPTOR_KEYS_ENV = 'KB_DESCRIPTOR_KEYS';
+
+/**
+ * Env var with the host signing key (JSON DescriptorSigningKey)
+ */
+export const DESCRIPTOR_SIGNING_KEY_ENV = 'KB_DESCRIPTOR_SIGNING_KEY';
+
+/**
+ * Key used by hosts to sign descriptors
+ */
+export type DescriptorSigningKey =
+  | { keyId: string; alg: 'hmac-sha256'; secret: string }
+  | { keyId: string; alg: 'ed25519'; privateKey: string | KeyObject };
+
+/**
+ * Key used by runtimes to verify descriptors
+ */
+export type DescriptorVerificationKey =
+  | { keyId: string; alg: 'hmac-sha256'; secret: string }
+  | { keyId: string; alg: 'ed25519'; publicKey: string | KeyObject };
+
+export interface DescriptorKeyring {
+  /** Accepted keys (current and not yet retired) */
+  keys: DescriptorVerificationKey[];
+  /** Accept descriptors without signature (migration only, default false) */
+  allowUnsigned?: boolean;
+}
+
+// ============================================================================
+// Canonical serialization
+// ============================================================================
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value !== null && typeof value === 'object') {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      sorted[key] = sortKeys((value as Record<string, unknown>)[key]);
+    }
+    return sorted;
+  }
+  return value;
+}
+
+/**
+ * Canonical JSON of the signed descriptor fields.
+ *
+ * Normalized through JSON first, so the host signs exactly what transports
+ * deliver (undefined fields dropped, Dates as strings, ...).
+ */
+export function canonicalizeDescriptor(descriptor: PluginContextDescriptor): string {
+  const { signature: _signature, ...fields } = descriptor;
+  return JSON.stringify(sortKeys(JSON.parse(JSON.stringify(fields))));
+}
+
+function signingPayload(
+  descriptor: PluginContextDescriptor,
+  alg: DescriptorSignatureAlgorithm,
+  keyId: string
+): Buffer {
+  return Buffer.from(`${alg}.${keyId}.${canonicalizeDescriptor(descriptor)}`);
+}
+
+function hmac(secret: string, payload: Buffer): Buffer {
+  return createHmac('sha256', secret).update(payload).digest();
+}
+
+// ============================================================================
+// Sign / verify
+// ============================================================================
+
+/**
+ * Sign a descriptor
+ *
+ * Sign last: fields added afterwards (traceId, executionId, ...) break verification.
+ *
+ * @returns Copy of the descriptor with `signature` set
+ */
+export function signDescriptor<T extends PluginContextDescriptor>(
+  descriptor: T,
+  key: DescriptorSigningKey
+): T {
+  const payload = signingPayload(descriptor, key.alg, key.keyId);
+  const value = key.alg === 'hmac-sha256'
+    ? hmac(key.secret, payload)
+    : cryptoSign(null, payload, key.privateKey);
+
+  const signature: DescriptorSignature = {
+    alg: key.alg,
+    keyId: key.keyId,
+    value: value.toString('base64'),
+  };
+  return { ...descriptor, signature };
+}
+
+/**
+ * Verify a descriptor signature against a keyring
+ *
+ * @throws DescriptorSignatureError if unsigned, signed with an unknown key, or altered
+ */
+export function verifyDescriptor(
+  descriptor: PluginContextDescriptor,
+  keyring: DescriptorKeyring
+): void {
+  const { signature } = descriptor;
+  const details = { pluginId: descriptor.pluginId, requestId: descriptor.requestId };
+
+  if (!signature) {
+    if (keyring.allowUnsigned) {return;}
+    throw new DescriptorSignatureError(
+      `Descriptor for plugin ${descriptor.pluginId} is not signed`,
+      details
+    );
+  }
+
+  const key = keyring.keys.find((k) => k.keyId === signature.keyId);
+  if (!key) {
+    throw new DescriptorSignatureError(
+      `Descriptor for plugin ${descriptor.pluginId} is signed with unknown key '${signature.keyId}'`,
+      { ...details, keyId: signature.keyId }
+    );
+  }
+  if (key.alg !== signature.alg) {
+    throw new DescriptorSignatureError(
+      `Descriptor signature algorithm '${signature.alg}' does not match key '${key.keyId}' (${key.alg})`,
+      { ...details, keyId: key.keyId }
+    );
+  }
+
+  const payload = signingPayload(descriptor, key.alg, key.keyId);
+  const actual = Buffer.from(signature.value, 'base64');
+  let valid: boolean;
+  if (key.alg === 'hmac-sha256') {
+    const expected = hmac(key.secret, payload);
+    valid = actual.length === expected.length && timingSafeEqual(actual, expected);
+  } else {
+    valid = cryptoVerify(null, payload, key.publicKey, actual);
+  }
+
+  if (!valid) {
+    throw new DescriptorSignatureError(
+      `Descriptor signature mismatch for plugin ${descriptor.pluginId}: descriptor was modified after signing`,
+      { ...details, keyId: key.keyId }
+    );
+  }
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Parse a keyring: `{ "keys": [...], "allowUnsigned"?: boolean }` or a bare key array
+ */
+export function parseDescriptorKeyring(json: string): DescriptorKeyring {
+  const parsed = JSON.parse(json) as DescriptorKeyring | DescriptorVerificationKey[];
+  const keyring = Array.isArray(parsed) ? { keys: parsed } : parsed;
+
+  if (!Array.isArray(keyring.keys)) {
+    throw new Error(`${DESCRIPTOR_KEYS_ENV} must be a key array or { keys: [...] }`);
+  }
+  return keyring;
+}
+
+/**
+ * Verification keyring configured via KB_DESCRIPTOR_KEYS
+ *
+ * @returns undefined when not configured (descriptors are not verified)
+ */
+export function descriptorKeyringFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): DescriptorKeyring | undefined {
+  const json = env[DESCRIPTOR_KEYS_ENV];
+  return json ? parseDescriptorKeyring(json) : undefined;
+}
+
+/**
+ * Host signing key configured via KB_DESCRIPTOR_SIGNING_KEY
+ *
+ * @returns undefined when not configured (descriptors are not signed)
+ */
+export function descriptorSigningKeyFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): DescriptorSigningKey | undefined {
+  const json = env[DESCRIPTOR_SIGNING_KEY_ENV];
+  return json ? (JSON.parse(json) as DescriptorSigningKey) : undefined;
+}
@@ -4,3 +4,30 @@
 
 export { createPluginContextV3, type CreateContextOptions, type CreateContextResult } from './context-factory.js';
 export { createTraceContext, type CreateTraceContextOptions } from './trace.js';
+export {
+  signDescriptor,
+  verifyDescriptor,
+  canonicalizeDescriptor,
+  parseDescriptorKeyring,
+  descriptorKeyringFromEnv,
+  descriptorSigningKeyFromEnv,
+  DESCRIPTOR_KEYS_ENV,
+  DESCRIPTOR_SIGNING_KEY_ENV,
+  type DescriptorSigningKey,
+  type DescriptorVerificationKey,
+  type DescriptorKeyring,
+} from './descriptor-signature.js';
+export {
+  createSecretRedactor,
+  createRedactingLogger,
+  REDACTED,
+  type SecretRedactor,
+} from './redaction.js';
+export {
+  loadPluginConfig,
+  applyConfigSchema,
+  findKbConfigFile,
+  KB_CONFIG_FILE,
+  PROFILE_ENV,
+  type LoadPluginConfigOptions,
+} from './plugin-config.js';
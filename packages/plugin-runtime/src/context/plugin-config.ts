@@ -0,0 +1,179 @@
+/**
+ * Plugin config resolution
+ *
+ * kb.config.json → profiles[active].products[configSection], validated
+ * against the manifest's configSchema with defaults applied:
+ *
+ * ```json
+ * {
+ *   "profiles": [
+ *     { "id": "default", "products": { "mind": { "model": "gpt-4o-mini" } } }
+ *   ]
+ * }
+ * ```
+ *
+ * The active profile is options.profile, then KB_PROFILE, then the profile
+ * with id "default", then the first one.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { ConfigSchema, PluginContextDescriptor } from '@kb-labs/plugin-contracts';
+import { ConfigError } from '@kb-labs/plugin-contracts';
+import { validateJsonSchema } from '../utils/json-schema.js';
+
+/**
+ * Config file name, looked up in `.kb/` and the directory itself
+ */
+export const KB_CONFIG_FILE = 'kb.config.json';
+
+/**
+ * Env var selecting the active profile
+ */
+export const PROFILE_ENV = 'KB_PROFILE';
+
+const DEFAULT_PROFILE_ID = 'default';
+
+export interface LoadPluginConfigOptions {
+  /** Workspace directory; kb.config.json is searched from here upwards */
+  cwd: string;
+  /** Descriptor with configSection / configSchema (from manifest) */
+  descriptor: Pick<PluginContextDescriptor, 'configSection' | 'configSchema'>;
+  /** Profile id (default: KB_PROFILE) */
+  profile?: string;
+  /** Explicit config file (skips the search) */
+  configPath?: string;
+  /** Variables to read KB_PROFILE from (default: process.env) */
+  env?: NodeJS.ProcessEnv;
+}
+
+interface KbConfigProfile {
+  id?: string;
+  products?: Record<string, unknown>;
+}
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find kb.config.json from cwd upwards (`.kb/kb.config.json` first)
+ *
+ * @returns Absolute path, or undefined if there is none
+ */
+export async function findKbConfigFile(cwd: string): Promise<string | undefined> {
+  let dir = path.resolve(cwd);
+
+  while (true) {
+    for (const candidate of [path.join(dir, '.kb', KB_CONFIG_FILE), path.join(dir, KB_CONFIG_FILE)]) {
+      if (await isFile(candidate)) {return candidate;}
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {return undefined;}
+    dir = parent;
+  }
+}
+
+/**
+ * Pick the active profile
+ */
+function selectProfile(
+  profiles: KbConfigProfile[],
+  profileId: string | undefined,
+  file: string
+): KbConfigProfile | undefined {
+  if (profileId) {
+    const profile = profiles.find((p) => p.id === profileId);
+    if (!profile) {
+      throw new ConfigError(`Profile "${profileId}" not found in ${file}`, {
+        file,
+        profile: profileId,
+        profiles: profiles.map((p) => p.id),
+      });
+    }
+    return profile;
+  }
+  return profiles.find((p) => p.id === DEFAULT_PROFILE_ID) ?? profiles[0];
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a value against a config schema, filling in defaults
+ *
+ * @param at - Path of the value, used in error messages
+ * @returns Value with defaults (input is not modified) and validation errors
+ */
+export function applyConfigSchema(
+  schema: ConfigSchema,
+  value: unknown,
+  at = 'config'
+): { value: unknown; errors: string[] } {
+  const result = validateJsonSchema(schema, value, { at });
+  return {
+    value: result.value,
+    errors: result.issues.map((issue) => `${issue.path}: ${issue.message}`),
+  };
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Resolve ctx.config for a descriptor
+ *
+ * @returns Validated section with defaults, or undefined without a configSection
+ * @throws ConfigError for unreadable config files, unknown profiles and invalid sections
+ */
+export async function loadPluginConfig(options: LoadPluginConfigOptions): Promise<unknown> {
+  const { configSection, configSchema } = options.descriptor;
+  if (!configSection) {return undefined;}
+
+  const env = options.env ?? process.env;
+  const file = options.configPath
+    ? path.resolve(options.cwd, options.configPath)
+    : await findKbConfigFile(options.cwd);
+
+  let section: unknown;
+  let profileId: string | undefined;
+  if (file) {
+    let parsed: { profiles?: unknown };
+    try {
+      parsed = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+      throw new ConfigError(`Cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`, {
+        file,
+      });
+    }
+
+    const profiles = Array.isArray(parsed?.profiles) ? (parsed.profiles as KbConfigProfile[]) : [];
+    const profile = selectProfile(profiles, options.profile ?? env[PROFILE_ENV], file);
+    profileId = profile?.id;
+    section = profile?.products?.[configSection];
+  }
+
+  if (!configSchema) {return section;}
+
+  const { value, errors } = applyConfigSchema(configSchema, section, configSection);
+  if (errors.length > 0) {
+    throw new ConfigError(`Invalid config for "${configSection}": ${errors.join('; ')}`, {
+      configSection,
+      file,
+      profile: profileId,
+      errors,
+    });
+  }
+  return value;
+}
@@ -0,0 +1,134 @@
+/**
+ * Secret redaction
+ *
+ * Every value handed out by ctx.api.secrets is registered with the
+ * execution's redactor, which masks it in log lines and meta, trace event
+ * attributes and serialized errors.
+ */
+
+import type { ILogger } from '@kb-labs/core-platform';
+import { PluginError } from '@kb-labs/plugin-contracts';
+
+/**
+ * Replacement for redacted values
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Shorter values are not redacted (would mask unrelated text)
+ */
+const MIN_SECRET_LENGTH = 4;
+
+export interface SecretRedactor {
+  /** Register a value to redact from now on */
+  add(value: string): void;
+  /** Mask registered values in a string */
+  redact(text: string): string;
+  /** Mask registered values in strings nested in arrays and plain objects (copied) */
+  redactValue<T>(value: T): T;
+  /** Mask registered values in an error's message, stack and details (in place) */
+  redactError<T>(error: T): T;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isPlainObject(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Create a redactor for one execution
+ */
+export function createSecretRedactor(): SecretRedactor {
+  const secrets = new Set<string>();
+  let pattern: RegExp | undefined;
+
+  const redact = (text: string): string =>
+    pattern && text ? text.replace(pattern, REDACTED) : text;
+
+  const redactError = <T>(error: T): T => {
+    if (typeof error === 'string') {return redact(error) as T;}
+    if (!pattern || !(error instanceof Error)) {return error;}
+
+    error.message = redact(error.message);
+    if (error.stack) {error.stack = redact(error.stack);}
+    if (error instanceof PluginError) {
+      const withDetails = error as unknown as { details?: Record<string, unknown> };
+      if (withDetails.details) {withDetails.details = redactValue(withDetails.details);}
+    }
+    return error;
+  };
+
+  const redactValue = <T>(value: T, seen = new WeakMap<object, unknown>()): T => {
+    if (!pattern) {return value;}
+    if (typeof value === 'string') {return redact(value) as T;}
+    if (value === null || typeof value !== 'object') {return value;}
+    if (value instanceof Error) {return redactError(value);}
+
+    const cached = seen.get(value);
+    if (cached !== undefined) {return cached as T;}
+
+    if (Array.isArray(value)) {
+      const copy: unknown[] = [];
+      seen.set(value, copy);
+      value.forEach((item) => copy.push(redactValue(item, seen)));
+      return copy as T;
+    }
+    if (!isPlainObject(value)) {return value;}
+
+    const copy: Record<string, unknown> = {};
+    seen.set(value, copy);
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = redactValue(item, seen);
+    }
+    return copy as T;
+  };
+
+  return {
+    add(value: string): void {
+      if (value.length < MIN_SECRET_LENGTH) {return;}
+      const before = secrets.size;
+      secrets.add(value);
+      // Also catch the value in URLs and query strings
+      secrets.add(encodeURIComponent(value));
+      if (secrets.size === before) {return;}
+
+      // Longest first, so a secret containing another is masked whole
+      const alternatives = [...secrets].sort((a, b) => b.length - a.length).map(escapeRegex);
+      pattern = new RegExp(alternatives.join('|'), 'g');
+    },
+    redact,
+    redactValue: (value) => redactValue(value),
+    redactError,
+  };
+}
+
+/**
+ * Wrap a logger so messages and meta pass through the redactor
+ */
+export function createRedactingLogger(base: ILogger, redactor: SecretRedactor): ILogger {
+  const wrap = (original: (message: string, ...args: unknown[]) => void) =>
+    (message: string, ...args: unknown[]) => {
+      original.call(
+        base,
+        redactor.redact(message),
+        ...args.map((arg) => redactor.redactValue(arg))
+      );
+    };
+
+  return {
+    trace: wrap(base.trace as (message: string, ...args: unknown[]) => void),
+    debug: wrap(base.debug as (message: string, ...args: unknown[]) => void),
+    info: wrap(base.info as (message: string, ...args: unknown[]) => void),
+    warn: wrap(base.warn as (message: string, ...args: unknown[]) => void),
+    error: wrap(base.error as (message: string, ...args: unknown[]) => void),
+    fatal: wrap(base.fatal as (message: string, ...args: unknown[]) => void),
+    getLogBuffer: base.getLogBuffer?.bind ? base.getLogBuffer.bind(base) : base.getLogBuffer,
+    child(fields: Record<string, unknown>): ILogger {
+      return createRedactingLogger(base.child(redactor.redactValue(fields)), redactor);
+    },
+  };
+}
@@ -7,12 +7,18 @@
  *   eventEmitter → onLog callback → EventBus → SSE → Studio
  *
  * trace and debug levels are NOT streamed — too noisy for UI.
+ * Streamed lines pass through the execution's secret redactor, if any.
  */
 
 import type { ILogger } from '@kb-labs/core-platform';
 import type { EventEmitterFn } from '../api/index.js';
+import type { SecretRedactor } from './redaction.js';
 
-export function createStreamingLogger(base: ILogger, emitter: EventEmitterFn): ILogger {
+export function createStreamingLogger(
+  base: ILogger,
+  emitter: EventEmitterFn,
+  redactor?: SecretRedactor
+): ILogger {
   let lineNo = 0;
 
   const wrap = (level: string, original: ILogger['info'] | ILogger['warn'] | ILogger['error'] | ILogger['fatal']) =>
@@ -21,7 +27,7 @@ export function createStreamingLogger(base: ILogger, emitter: EventEmitterFn): I
       lineNo++;
       void emitter('log.line', {
         stream: level === 'error' || level === 'warn' || level === 'fatal' ? 'stderr' : 'stdout',
-        line: message,
+        line: redactor ? redactor.redact(message) : message,
         lineNo,
         level,
       });
@@ -36,7 +42,7 @@ export function createStreamingLogger(base: ILogger, emitter: EventEmitterFn): I
     fatal: wrap('fatal', base.fatal),
     getLogBuffer: base.getLogBuffer?.bind ? base.getLogBuffer.bind(base) : base.getLogBuffer,
     child(fields: Record<string, unknown>): ILogger {
-      return createStreamingLogger(base.child(fields), emitter);
+      return createStreamingLogger(base.child(fields), emitter, redactor);
     },
   };
 }
@@ -3,19 +3,22 @@
  */
 
 import type { TraceContext, TraceEvent, Logger } from '@kb-labs/plugin-contracts';
+import type { SecretRedactor } from './redaction.js';
 
 export interface CreateTraceContextOptions {
   traceId: string;
   spanId: string;
   parentSpanId?: string;
   logger: Logger;
+  /** Masks secrets in event attributes and span attributes */
+  redactor?: SecretRedactor;
 }
 
 /**
  * Create a TraceContext implementation
  */
 export function createTraceContext(options: CreateTraceContextOptions): TraceContext {
-  const { traceId, spanId, parentSpanId, logger } = options;
+  const { traceId, spanId, parentSpanId, logger, redactor } = options;
   const attributes: Record<string, string | number | boolean> = {};
   const events: TraceEvent[] = [];
 
@@ -24,7 +27,8 @@ export function createTraceContext(options: CreateTraceContextOptions): TraceCon
     spanId,
     parentSpanId,
 
-    addEvent(name: string, eventAttributes?: Record<string, unknown>): void {
+    addEvent(name: string, rawAttributes?: Record<string, unknown>): void {
+      const eventAttributes = redactor ? redactor.redactValue(rawAttributes) : rawAttributes;
       const event: TraceEvent = {
         name,
         timestamp: Date.now(),
@@ -41,7 +45,7 @@ export function createTraceContext(options: CreateTraceContextOptions): TraceCon
     },
 
     setAttribute(key: string, value: string | number | boolean): void {
-      attributes[key] = value;
+      attributes[key] = redactor && typeof value === 'string' ? redactor.redact(value) : value;
     },
 
     recordError(error: Error): void {
@@ -8,9 +8,30 @@
 export {
   createPluginContextV3,
   createTraceContext,
+  signDescriptor,
+  verifyDescriptor,
+  canonicalizeDescriptor,
+  parseDescriptorKeyring,
+  descriptorKeyringFromEnv,
+  descriptorSigningKeyFromEnv,
+  DESCRIPTOR_KEYS_ENV,
+  DESCRIPTOR_SIGNING_KEY_ENV,
+  createSecretRedactor,
+  createRedactingLogger,
+  REDACTED,
+  loadPluginConfig,
+  applyConfigSchema,
+  findKbConfigFile,
+  KB_CONFIG_FILE,
+  PROFILE_ENV,
   type CreateContextOptions,
   type CreateContextResult,
   type CreateTraceContextOptions,
+  type DescriptorSigningKey,
+  type DescriptorVerificationKey,
+  type DescriptorKeyring,
+  type SecretRedactor,
+  type LoadPluginConfigOptions,
 } from './context/index.js';
 
 // Runtime (sandboxed shims)
@@ -19,7 +40,10 @@ export {
   createFSShim,
   createFetchShim,
   createEnvShim,
+  scrubEnv,
+  isEnvAllowed,
   type CreateFSShimOptions,
+  type ScrubEnvOptions,
   type CreateRuntimeAPIOptions,
 } from './runtime/index.js';
 
@@ -28,10 +52,23 @@ export {
   createPluginAPI,
   createLifecycleAPI,
   createStateAPI,
+  createFileStateStore,
+  migrateStateEntries,
   createArtifactsAPI,
   createShellAPI,
+  isCommandAllowed,
+  findBlockedCommand,
+  createSecretsAPI,
+  createLocalSecretProvider,
+  isSecretAllowed,
+  SECRETS_FILE_ENV,
   createEventsAPI,
   createNoopEventsAPI,
+  createStreamAPI,
+  createNoopStreamAPI,
+  toStreamEvent,
+  STREAM_PROGRESS_EVENT,
+  STREAM_CHUNK_EVENT,
   createInvokeAPI,
   createNoopInvokeAPI,
   createWorkflowsAPI,
@@ -46,24 +83,79 @@ export {
   createNoopSnapshotAPI,
   executeCleanup,
   type CreatePluginAPIOptions,
+  type StateStore,
+  type FileStateStore,
+  type FileStateStoreOptions,
+  type MigrateStateOptions,
+  type MigrateStateResult,
+  type SecretProvider,
+  type LocalSecretProviderOptions,
+  type CreateSecretsAPIOptions,
+  type CreateStreamAPIOptions,
   type EventEmitterFn,
   type PluginInvokerFn,
 } from './api/index.js';
 
+// Platform
+export {
+  createGovernedPlatformServices,
+  createEnforcedPlatformServices,
+  createGovernedStateStore,
+  checkPlatformCall,
+} from './platform/index.js';
+
 // Utils
 export {
   createId,
   createShortId,
   extractTraceId,
   createRequestId,
+  validateJsonSchema,
+  findUnsupportedJsonSchemaKeywords,
+  type SchemaIssue,
+  type ValidateJsonSchemaOptions,
 } from './utils/index.js';
 
 // Sandbox
 export {
   runInProcess,
   runInSubprocess,
+  loadHandler,
+  connectToPlatform,
+  disconnectFromPlatform,
+  getStreamSocketPath,
+  resolveQuotas,
+  needsUsageSampling,
+  heapLimitExecArgv,
+  checkUsage,
+  createTimeoutError,
+  isHeapOutOfMemoryExit,
+  startUsageSampler,
+  createIPCUI,
+  createUIMessageHandler,
+  createIPCSecretProvider,
+  createSecretMessageHandler,
+  nodePermissionExecArgv,
+  resolveNodePermissionMode,
+  toPermissionError,
+  NODE_PERMISSIONS_ENV,
   type RunInProcessOptions,
   type RunInSubprocessOptions,
+  type LoadedHandler,
+  type ResolvedQuotas,
+  type UsageSample,
+  type UsageSamplerOptions,
+  type RPCStreamRequest,
+  type RPCStreamCredit,
+  type RPCStreamCancel,
+  type RPCStreamFrame,
+  type IPCUI,
+  type UIChannel,
+  type UIMessageHandler,
+  type IPCSecretProvider,
+  type SecretMessageHandler,
+  type NodePermissionMode,
+  type NodePermissionPaths,
 } from './sandbox/index.js';
 
 // Host Wrappers
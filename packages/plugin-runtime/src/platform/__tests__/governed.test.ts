@@ -4,9 +4,9 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { createGovernedPlatformServices } from '../governed';
+import { createGovernedPlatformServices, createEnforcedPlatformServices, checkPlatformCall } from '../governed';
 import type { PlatformServices, PermissionSpec } from '@kb-labs/plugin-contracts';
-import { PermissionError } from '@kb-labs/plugin-contracts';
+import { AbortError, PermissionError } from '@kb-labs/plugin-contracts';
 
 // Mock platform services
 function createMockPlatformServices(): PlatformServices {
@@ -130,6 +130,33 @@ describe('createGovernedPlatformServices', () => {
       expect(chunks).toEqual(['mock', ' response']);
     });
 
+    it('should stop stream() and return source iterator when signal aborts', async () => {
+      // RPC-style iterator: provider never sends more, return() cancels upstream
+      const next = vi.fn()
+        .mockResolvedValueOnce({ value: 'first', done: false })
+        .mockReturnValue(new Promise(() => {}));
+      const cancel = vi.fn(async () => ({ value: undefined, done: true }));
+      rawPlatform.llm.stream = (() => ({
+        [Symbol.asyncIterator]: () => ({ next, return: cancel }),
+      })) as any;
+      const controller = new AbortController();
+      const governed = createGovernedPlatformServices(
+        rawPlatform,
+        { platform: { llm: true } },
+        'test-plugin',
+        controller.signal
+      );
+
+      const iterator = governed.llm.stream('test prompt')[Symbol.asyncIterator]();
+      expect(await iterator.next()).toEqual({ value: 'first', done: false });
+
+      const pending = iterator.next();
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(AbortError);
+      expect(cancel).toHaveBeenCalled();
+    });
+
     it('should enforce model whitelist when specified', async () => {
       const permissions: PermissionSpec = {
         platform: { llm: { models: ['gpt-4o-mini'] } },
@@ -482,3 +509,85 @@ describe('createGovernedPlatformServices', () => {
     });
   });
 });
+
+describe('createEnforcedPlatformServices (platform socket)', () => {
+  let rawPlatform: PlatformServices;
+
+  beforeEach(() => {
+    rawPlatform = createMockPlatformServices();
+  });
+
+  it('denies adapters without permission before they reach the platform', () => {
+    const enforced = createEnforcedPlatformServices(rawPlatform, { platform: { cache: { namespaces: ['my-plugin:'] } } });
+
+    expect(() => enforced.llm.complete('test')).toThrow("Platform service 'llm' access denied");
+    expect(() => enforced.storage.read('file')).toThrow(PermissionError);
+    expect(rawPlatform.llm.complete).not.toHaveBeenCalled();
+    expect(rawPlatform.storage.read).not.toHaveBeenCalled();
+  });
+
+  it('passes the logger through for the IPC server', () => {
+    const enforced = createEnforcedPlatformServices(rawPlatform, {});
+
+    enforced.logger.debug('UnixSocketServer started');
+    expect(enforced.logger).toBe(rawPlatform.logger);
+  });
+
+  it('applies governed rules to raw adapter calls', async () => {
+    const enforced = createEnforcedPlatformServices(rawPlatform, {
+      platform: {
+        llm: { models: ['gpt-4o-mini'] },
+        cache: { namespaces: ['my-plugin:'] },
+        storage: { paths: ['plugins/my-plugin/'] },
+      },
+    });
+
+    await enforced.cache.get('my-plugin:key');
+    expect(rawPlatform.cache.get).toHaveBeenCalledWith('my-plugin:key');
+    expect(() => enforced.cache.get('other:key')).toThrow("Cache key 'other:key' not allowed");
+    expect(() => enforced.cache.clear()).toThrow('requires full cache permission');
+    expect(() => enforced.storage.write('secrets/key', Buffer.from('x'))).toThrow(PermissionError);
+    expect(() => enforced.llm.stream('hi', { model: 'gpt-4o' })).toThrow("LLM model 'gpt-4o' not allowed");
+    await enforced.llm.complete('hi', { model: 'gpt-4o-mini' });
+    expect(rawPlatform.llm.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks vector namespaces without re-prefixing', async () => {
+    vi.mocked(rawPlatform.vectorStore.search).mockResolvedValue([
+      { id: 'my-plugin:1', score: 1 },
+      { id: 'other:2', score: 0.5 },
+    ] as any);
+    const enforced = createEnforcedPlatformServices(rawPlatform, {
+      platform: { vectorStore: { collections: ['my-plugin:'] } },
+    });
+
+    await enforced.vectorStore.upsert([{ id: 'my-plugin:1', vector: [0.1] }] as any);
+    expect(rawPlatform.vectorStore.upsert).toHaveBeenCalledWith([{ id: 'my-plugin:1', vector: [0.1] }]);
+    expect(() => enforced.vectorStore.delete(['other:2'])).toThrow(PermissionError);
+
+    const results = await enforced.vectorStore.search([0.1], 10);
+    expect(results.map((r) => r.id)).toEqual(['my-plugin:1']);
+  });
+
+  it('keeps always-allowed services and non-method properties', async () => {
+    const enforced = createEnforcedPlatformServices(rawPlatform, { platform: { embeddings: true } });
+
+    await enforced.eventBus.publish('topic', { a: 1 });
+    await enforced.analytics.track('event');
+    expect(rawPlatform.eventBus.publish).toHaveBeenCalledWith('topic', { a: 1 });
+    expect(enforced.embeddings.dimensions).toBe(1536);
+  });
+});
+
+describe('checkPlatformCall', () => {
+  it('denies unknown adapters and methods', () => {
+    const permissions: PermissionSpec = { platform: { cache: true } };
+
+    expect(() => checkPlatformCall(permissions, 'workflows', 'run', [])).toThrow(
+      "Platform method 'workflows.run' is not available to plugins"
+    );
+    expect(() => checkPlatformCall(permissions, 'cache', 'constructor', [])).toThrow(PermissionError);
+    expect(() => checkPlatformCall(permissions, 'logger', 'info', ['x'])).toThrow(PermissionError);
+    expect(() => checkPlatformCall(permissions, 'cache', 'get', ['any'])).not.toThrow();
+  });
+});
@@ -11,7 +11,40 @@ import type {
   VectorRecord,
   VectorFilter,
 } from '@kb-labs/plugin-contracts';
-import { PermissionError } from '@kb-labs/plugin-contracts';
+import { AbortError, PermissionError } from '@kb-labs/plugin-contracts';
+import type { StateStore } from '../api/state-store.js';
+
+/**
+ * Iterate a stream until it ends or signal aborts.
+ * On abort (or early exit by the consumer) the source iterator is returned,
+ * which cancels RPC streams upstream.
+ */
+async function* abortableStream<T>(source: AsyncIterable<T>, signal?: AbortSignal): AsyncGenerator<T> {
+  const iterator = source[Symbol.asyncIterator]();
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(new AbortError('LLM stream aborted'));
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+  aborted.catch(() => {});
+
+  try {
+    for (;;) {
+      if (signal?.aborted) {
+        throw new AbortError('LLM stream aborted');
+      }
+      const result = await (signal ? Promise.race([iterator.next(), aborted]) : iterator.next());
+      if (result.done) {
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort!);
+    // Don't await: a source blocked in next() would hold cleanup hostage
+    Promise.resolve(iterator.return?.()).catch(() => {});
+  }
+}
 
 /**
  * Check if cache key matches allowed namespaces
@@ -159,12 +192,14 @@ function createDeniedService(serviceName: string): any {
  * @param raw - Raw platform services
  * @param permissions - Plugin permissions spec
  * @param pluginId - Plugin ID for logger child context
+ * @param signal - Execution abort signal (cancels LLM streams)
  * @returns Governed platform services with permission enforcement
  */
 export function createGovernedPlatformServices(
   raw: PlatformServices,
   permissions: PermissionSpec,
-  pluginId: string
+  pluginId: string,
+  signal?: AbortSignal
 ): PlatformServices {
   return {
     // Logger: always allowed, create child logger with plugin context
@@ -201,7 +236,7 @@ export function createGovernedPlatformServices(
               );
             }
 
-            yield* raw.llm.stream(prompt, options);
+            yield* abortableStream(raw.llm.stream(prompt, options), signal);
           },
         }
       : (createDeniedService('llm') as any),
@@ -366,3 +401,256 @@ export function createGovernedPlatformServices(
     logs: raw.logs,
   };
 }
+
+/**
+ * Apply the cache permission to a state store passed in by the host.
+ *
+ * Cache-backed ctx.api.state goes through the governed cache; a durable
+ * store gets the same namespace checks, so what a handler may read and
+ * write doesn't depend on where its state is kept.
+ *
+ * @param store - Backing store for ctx.api.state
+ * @param permissions - Plugin permissions spec
+ */
+export function createGovernedStateStore(store: StateStore, permissions: PermissionSpec): StateStore {
+  const check = (key: string) => checkCacheNamespace(key, permissions.platform?.cache);
+
+  return {
+    get: async (key) => {
+      check(key);
+      return store.get(key);
+    },
+    set: async (key, value, ttl) => {
+      check(key);
+      return store.set(key, value, ttl);
+    },
+    delete: async (key) => {
+      check(key);
+      return store.delete(key);
+    },
+    setIfNotExists: async (key, value, ttl) => {
+      check(key);
+      return store.setIfNotExists(key, value, ttl);
+    },
+    zadd: async (key, score, member) => {
+      check(key);
+      return store.zadd(key, score, member);
+    },
+    zrangebyscore: async (key, min, max) => {
+      check(key);
+      return store.zrangebyscore(key, min, max);
+    },
+    zrem: async (key, member) => {
+      check(key);
+      return store.zrem(key, member);
+    },
+  };
+}
+
+// ============================================================================
+// Host-side enforcement (subprocess platform socket)
+// ============================================================================
+
+/**
+ * Checks one adapter call against permissions (throws PermissionError)
+ */
+type PlatformCallCheck = (permissions: PermissionSpec, args: unknown[]) => void;
+
+type PlatformPermissionKey = keyof NonNullable<PermissionSpec['platform']>;
+
+const allowCall: PlatformCallCheck = () => {};
+
+function checkLLMModel(permissions: PermissionSpec, options: unknown): void {
+  const allowedModels =
+    typeof permissions.platform?.llm === 'object'
+      ? (permissions.platform.llm as { models?: string[] }).models
+      : undefined;
+  const model = (options as { model?: string } | undefined)?.model;
+
+  if (allowedModels && model && !allowedModels.includes(model)) {
+    throw new PermissionError(
+      `LLM model '${model}' not allowed. Permitted models: ${allowedModels.join(', ')}`
+    );
+  }
+}
+
+function vectorPermission(permissions: PermissionSpec): string[] | boolean | undefined {
+  const rawPermission = permissions.platform?.vectorStore;
+  return rawPermission === true
+    ? true
+    : typeof rawPermission === 'object'
+      ? (rawPermission as { collections?: string[] }).collections
+      : undefined;
+}
+
+/**
+ * IDs arrive prefixed by the child's governed vectorStore
+ */
+function checkVectorIds(permissions: PermissionSpec, ids: string[]): void {
+  const permission = vectorPermission(permissions);
+  for (const id of ids) {
+    if (!isVectorIdAllowed(id, permission)) {
+      throw new PermissionError(`Vector ID '${id}' is outside the permitted namespaces`);
+    }
+  }
+}
+
+const checkCacheKey: PlatformCallCheck = (permissions, [key]) =>
+  checkCacheNamespace(String(key), permissions.platform?.cache);
+
+const checkStorage: PlatformCallCheck = (permissions, [path]) =>
+  checkStoragePath(String(path), permissions.platform?.storage);
+
+const checkLLM: PlatformCallCheck = (permissions, [, options]) => checkLLMModel(permissions, options);
+
+/**
+ * Adapter methods reachable over the platform socket, with the checks of
+ * createGovernedPlatformServices. Anything else is denied.
+ */
+const PLATFORM_CALL_RULES: Readonly<Record<string, Readonly<Record<string, PlatformCallCheck>>>> = {
+  llm: { complete: checkLLM, stream: checkLLM },
+  embeddings: { embed: allowCall, embedBatch: allowCall, getDimensions: allowCall },
+  vectorStore: {
+    search: allowCall, // results are filtered to permitted namespaces
+    upsert: (permissions, [vectors]) =>
+      checkVectorIds(permissions, ((vectors ?? []) as VectorRecord[]).map((v) => v.id)),
+    delete: (permissions, [ids]) => checkVectorIds(permissions, (ids ?? []) as string[]),
+    count: allowCall,
+  },
+  cache: {
+    get: checkCacheKey,
+    set: checkCacheKey,
+    delete: checkCacheKey,
+    clear: (permissions) => {
+      if (permissions.platform?.cache !== true) {
+        throw new PermissionError('Cache.clear() requires full cache permission');
+      }
+    },
+    zadd: checkCacheKey,
+    zrangebyscore: checkCacheKey,
+    zrem: checkCacheKey,
+    setIfNotExists: checkCacheKey,
+  },
+  storage: {
+    read: checkStorage,
+    write: checkStorage,
+    delete: checkStorage,
+    exists: checkStorage,
+    list: checkStorage,
+  },
+  analytics: { track: allowCall, identify: allowCall, flush: allowCall },
+  eventBus: { publish: allowCall, subscribe: allowCall },
+  logs: { query: allowCall, getById: allowCall, search: allowCall, subscribe: allowCall, getStats: allowCall },
+};
+
+/**
+ * Services that need a platform permission (others are always allowed)
+ */
+const PERMISSIONED_SERVICES: readonly PlatformPermissionKey[] = [
+  'llm',
+  'embeddings',
+  'vectorStore',
+  'cache',
+  'storage',
+];
+
+/**
+ * Check a platform adapter call from a sandboxed handler.
+ *
+ * Same rules as createGovernedPlatformServices; unknown adapters and
+ * methods are denied.
+ *
+ * @throws PermissionError
+ */
+export function checkPlatformCall(
+  permissions: PermissionSpec,
+  adapter: string,
+  method: string,
+  args: unknown[]
+): void {
+  // Own properties only: 'constructor', '__proto__' etc. are not methods
+  const hasOwn = (obj: object, key: string) => Object.prototype.hasOwnProperty.call(obj, key);
+  const methods = hasOwn(PLATFORM_CALL_RULES, adapter) ? PLATFORM_CALL_RULES[adapter] : undefined;
+  const check = methods && hasOwn(methods, method) ? methods[method] : undefined;
+
+  if (!check) {
+    throw new PermissionError(`Platform method '${adapter}.${method}' is not available to plugins`);
+  }
+
+  if (
+    (PERMISSIONED_SERVICES as readonly string[]).includes(adapter) &&
+    !permissions.platform?.[adapter as PlatformPermissionKey]
+  ) {
+    throw new PermissionError(`Platform service '${adapter}' access denied`);
+  }
+
+  check(permissions, args);
+}
+
+/**
+ * Wrap one adapter so every method call is checked first
+ */
+function enforceService(
+  adapter: string,
+  service: Record<string, unknown>,
+  permissions: PermissionSpec
+): Record<string, unknown> {
+  return new Proxy(service, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof prop !== 'string' || typeof value !== 'function') {return value;}
+
+      return (...args: unknown[]) => {
+        checkPlatformCall(permissions, adapter, prop, args);
+        const result = (value as (...a: unknown[]) => unknown).apply(target, args);
+
+        if (adapter === 'vectorStore' && prop === 'search') {
+          const permission = vectorPermission(permissions);
+          return Promise.resolve(result).then((results) =>
+            (results as Array<{ id: string }>).filter((r) => isVectorIdAllowed(r.id, permission))
+          );
+        }
+        return result;
+      };
+    },
+  });
+}
+
+/**
+ * Enforce permissions on the host side of the subprocess platform socket.
+ *
+ * The child governs its own ctx.platform, but a handler can open the socket
+ * itself and call adapters directly. The IPC server of an execution serves
+ * this wrapper, so every call is checked against that execution's
+ * PermissionSpec before it reaches the real adapter.
+ *
+ * Checks only (no vector ID prefixing): the child's governed layer has
+ * already applied its transforms.
+ *
+ * The logger is passed through: the IPC server logs its own diagnostics
+ * through the platform it serves, and logging is always allowed to plugins.
+ *
+ * @param raw - Real platform adapters
+ * @param permissions - Permissions of the execution the socket serves
+ */
+export function createEnforcedPlatformServices(
+  raw: PlatformServices,
+  permissions: PermissionSpec
+): PlatformServices {
+  const services = new Map<string, Record<string, unknown>>();
+
+  return new Proxy(raw, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof prop !== 'string' || typeof value !== 'object' || value === null) {return value;}
+      if (prop === 'logger') {return value;}
+
+      let service = services.get(prop);
+      if (!service) {
+        service = enforceService(prop, value as Record<string, unknown>, permissions);
+        services.set(prop, service);
+      }
+      return service;
+    },
+  });
+}
@@ -2,4 +2,9 @@
  * Platform module
  */
 
-export { createGovernedPlatformServices } from './governed.js';
+export {
+  createGovernedPlatformServices,
+  createEnforcedPlatformServices,
+  createGovernedStateStore,
+  checkPlatformCall,
+} from './governed.js';
@@ -1,5 +1,8 @@
 /**
  * Sandboxed environment variable access
+ *
+ * The same allowlist scrubs the environment of child processes
+ * (subprocess sandbox, ctx.api.shell), so host secrets don't leak into them.
  */
 
 import type { PermissionSpec, EnvShim } from '@kb-labs/plugin-contracts';
@@ -7,7 +10,7 @@ import type { PermissionSpec, EnvShim } from '@kb-labs/plugin-contracts';
 /**
  * Environment variables that are always allowed (safe)
  */
-const ALWAYS_ALLOWED = [
+export const ALWAYS_ALLOWED = [
   'NODE_ENV',
   'CI',
   'DEBUG',
@@ -16,10 +19,46 @@ const ALWAYS_ALLOWED = [
   'LC_ALL',
 ];
 
+/**
+ * Variables child processes need to locate and start programs.
+ * Passed to children only, not readable via ctx.runtime.env.
+ */
+export const PROCESS_ENV = [
+  'PATH',
+  'HOME',
+  'TMPDIR',
+  'TEMP',
+  'TMP',
+  // Windows
+  'SystemRoot',
+  'ComSpec',
+  'PATHEXT',
+];
+
 export interface CreateEnvShimOptions {
   permissions: PermissionSpec;
 }
 
+/**
+ * Check a variable against ALWAYS_ALLOWED and permissions.env.read patterns
+ */
+export function isEnvAllowed(key: string, permissions: PermissionSpec): boolean {
+  if (ALWAYS_ALLOWED.includes(key)) {
+    return true;
+  }
+
+  const allowedPatterns = permissions.env?.read ?? [];
+  return allowedPatterns.some(pattern => {
+    if (pattern.endsWith('*')) {
+      // Prefix match: "KB_*" matches "KB_ANYTHING"
+      const prefix = pattern.slice(0, -1);
+      return key.startsWith(prefix);
+    }
+    // Exact match
+    return key === pattern;
+  });
+}
+
 /**
  * Create a sandboxed env access function
  *
@@ -27,26 +66,9 @@ export interface CreateEnvShimOptions {
  */
 export function createEnvShim(options: CreateEnvShimOptions): EnvShim {
   const { permissions } = options;
-  const allowedPatterns = permissions.env?.read ?? [];
 
   return (key: string): string | undefined => {
-    // Check always allowed
-    if (ALWAYS_ALLOWED.includes(key)) {
-      return process.env[key];
-    }
-
-    // Check whitelist patterns
-    const isAllowed = allowedPatterns.some(pattern => {
-      if (pattern.endsWith('*')) {
-        // Prefix match: "KB_*" matches "KB_ANYTHING"
-        const prefix = pattern.slice(0, -1);
-        return key.startsWith(prefix);
-      }
-      // Exact match
-      return key === pattern;
-    });
-
-    if (!isAllowed) {
+    if (!isEnvAllowed(key, permissions)) {
       // Return undefined for non-allowed vars (no error)
       return undefined;
     }
@@ -54,3 +76,40 @@ export function createEnvShim(options: CreateEnvShimOptions): EnvShim {
     return process.env[key];
   };
 }
+
+export interface ScrubEnvOptions {
+  permissions: PermissionSpec;
+  /** Extra variables to keep (e.g. KB_* control variables) */
+  allow?: readonly string[];
+  /** Denied variable names are logged at debug level */
+  logger?: {
+    debug?: (message: string, meta?: Record<string, unknown>) => void;
+  };
+}
+
+/**
+ * Build a child process environment from the permitted variables only
+ */
+export function scrubEnv(env: NodeJS.ProcessEnv, options: ScrubEnvOptions): Record<string, string> {
+  const { permissions, allow = [], logger } = options;
+  const scrubbed: Record<string, string> = {};
+  const denied: string[] = [];
+
+  for (const [key, value] of Object.entries(env)) {
+    if (value === undefined) {continue;}
+
+    if (PROCESS_ENV.includes(key) || allow.includes(key) || isEnvAllowed(key, permissions)) {
+      scrubbed[key] = value;
+    } else {
+      denied.push(key);
+    }
+  }
+
+  if (denied.length > 0) {
+    logger?.debug?.('Environment variables withheld from child process', {
+      denied: denied.sort(),
+    });
+  }
+
+  return scrubbed;
+}
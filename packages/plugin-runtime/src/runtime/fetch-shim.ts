@@ -1,9 +1,21 @@
 /**
  * Sandboxed fetch implementation with URL whitelist
+ *
+ * Redirects are followed manually so every hop is re-checked against
+ * network.fetch and network.methods. network.maxResponseBytes and
+ * network.timeoutMs bound the response; the execution signal aborts it.
  */
 
 import type { PermissionSpec, FetchShim } from '@kb-labs/plugin-contracts';
-import { PermissionError } from '@kb-labs/plugin-contracts';
+import { PermissionError, QuotaExceededError, TimeoutError } from '@kb-labs/plugin-contracts';
+
+const DEFAULT_MAX_REDIRECTS = 20;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Headers not forwarded to another origin when following a redirect
+ */
+const CREDENTIAL_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
 
 /**
  * Convert glob pattern to regex
@@ -19,19 +31,59 @@ function globToRegex(pattern: string): RegExp {
 
 export interface CreateFetchShimOptions {
   permissions: PermissionSpec;
+  /** Execution signal (ctx.signal): aborts in-flight requests */
+  signal?: AbortSignal;
 }
 
 /**
  * Create a sandboxed fetch with URL whitelist
  */
 export function createFetchShim(options: CreateFetchShimOptions): FetchShim {
-  const { permissions } = options;
+  const { permissions, signal } = options;
+  const network = permissions.network ?? {};
+  const maxRedirects = network.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
 
   // Convert allowed patterns to regexes
-  const allowedPatterns = (permissions.network?.fetch ?? []).map(pattern => ({
+  const allowedPatterns = (network.fetch ?? []).map(pattern => ({
     pattern,
     regex: globToRegex(pattern),
   }));
+  const methodRules = Object.entries(network.methods ?? {}).map(([pattern, methods]) => ({
+    regex: globToRegex(pattern),
+    methods: methods.map((m) => m.toUpperCase()),
+  }));
+
+  /**
+   * @param redirectFrom - URL that redirected here (undefined for the initial request)
+   */
+  function checkRequest(url: string, method: string, redirectFrom?: string): void {
+    const isAllowed = allowedPatterns.some(({ regex }) => regex.test(url));
+
+    if (!isAllowed) {
+      if (redirectFrom) {
+        throw new PermissionError(`Network access denied: redirect from ${redirectFrom} to ${url}`, {
+          url,
+          redirectFrom,
+          allowedPatterns: network.fetch ?? [],
+        });
+      }
+      throw new PermissionError(`Network access denied`, {
+        url,
+        allowedPatterns: network.fetch ?? [],
+      });
+    }
+
+    const host = new URL(url).hostname;
+    const rule = methodRules.find(({ regex }) => regex.test(host));
+    if (rule && !rule.methods.includes(method)) {
+      throw new PermissionError(`Network access denied: ${method} is not allowed for ${host}`, {
+        url,
+        method,
+        allowedMethods: rule.methods,
+        ...(redirectFrom ? { redirectFrom } : {}),
+      });
+    }
+  }
 
   return async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
     // Extract URL
@@ -45,17 +97,158 @@ export function createFetchShim(options: CreateFetchShimOptions): FetchShim {
       url = input.url;
     }
 
-    // Check if URL is allowed
-    const isAllowed = allowedPatterns.some(({ regex }) => regex.test(url));
+    // Flatten a Request into init so redirect hops can be re-issued
+    const request: RequestInit = input instanceof Request
+      ? {
+        method: input.method,
+        headers: input.headers,
+        body: input.body ? await input.arrayBuffer() : undefined,
+        redirect: input.redirect,
+        signal: input.signal,
+        ...init,
+      }
+      : { ...init };
+    const method = (request.method ?? 'GET').toUpperCase();
 
-    if (!isAllowed) {
-      throw new PermissionError(`Network access denied`, {
-        url,
-        allowedPatterns: permissions.network?.fetch ?? [],
-      });
+    checkRequest(url, method);
+
+    const timeoutSignal = network.timeoutMs ? AbortSignal.timeout(network.timeoutMs) : undefined;
+    const signals = [signal, request.signal, timeoutSignal].filter((s): s is AbortSignal => !!s);
+    const combinedSignal = signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+
+    const toTimeoutError = (error: unknown): unknown =>
+      timeoutSignal?.aborted && !signal?.aborted
+        ? new TimeoutError(`Fetch to ${url} timed out after ${network.timeoutMs}ms`, {
+          url,
+          timeoutMs: network.timeoutMs,
+        })
+        : error;
+
+    const send = async (target: string, hopInit: RequestInit): Promise<Response> => {
+      try {
+        // Call native fetch
+        return await globalThis.fetch(target, { ...hopInit, signal: combinedSignal });
+      } catch (error) {
+        throw toTimeoutError(error);
+      }
+    };
+
+    // 'manual' and 'error' keep their native meaning (no hop is followed)
+    if (request.redirect === 'manual' || request.redirect === 'error') {
+      const response = await send(url, request);
+      return limitResponse(response, url, false, toTimeoutError);
+    }
+
+    let currentUrl = url;
+    let hopInit: RequestInit = { ...request, method, redirect: 'manual' };
+    let response = await send(currentUrl, hopInit);
+    let redirects = 0;
+
+    while (REDIRECT_STATUSES.has(response.status)) {
+      const location = response.headers.get('location');
+      if (!location) {break;}
+
+      if (++redirects > maxRedirects) {
+        await response.body?.cancel();
+        throw new TypeError(`Too many redirects fetching ${url} (max: ${maxRedirects})`);
+      }
+
+      const nextUrl = new URL(location, currentUrl).toString();
+      const previousMethod = (hopInit.method ?? 'GET').toUpperCase();
+      // 303 (and 301/302 after POST) continue as GET without a body
+      const switchToGet = (response.status === 303 && previousMethod !== 'HEAD')
+        || ((response.status === 301 || response.status === 302) && previousMethod === 'POST');
+      const nextMethod = switchToGet ? 'GET' : previousMethod;
+
+      await response.body?.cancel();
+      checkRequest(nextUrl, nextMethod, currentUrl);
+
+      const headers = new Headers(hopInit.headers);
+      if (new URL(nextUrl).origin !== new URL(currentUrl).origin) {
+        CREDENTIAL_HEADERS.forEach((name) => headers.delete(name));
+      }
+      if (switchToGet) {
+        headers.delete('content-type');
+        headers.delete('content-length');
+      } else if (hopInit.body instanceof ReadableStream) {
+        throw new TypeError(`Cannot follow redirect to ${nextUrl}: request body is a stream`);
+      }
+
+      hopInit = {
+        ...hopInit,
+        method: nextMethod,
+        headers,
+        body: switchToGet ? undefined : hopInit.body,
+      };
+      currentUrl = nextUrl;
+      response = await send(currentUrl, hopInit);
     }
 
-    // Call native fetch
-    return globalThis.fetch(input, init);
+    return limitResponse(response, currentUrl, redirects > 0, toTimeoutError);
   };
+
+  /**
+   * Apply network.maxResponseBytes and map body timeouts
+   */
+  async function limitResponse(
+    response: Response,
+    url: string,
+    redirected: boolean,
+    mapError: (error: unknown) => unknown
+  ): Promise<Response> {
+    const maxBytes = network.maxResponseBytes;
+    if (maxBytes === undefined && !network.timeoutMs && !redirected) {
+      return response;
+    }
+
+    const exceeded = (used: number) =>
+      new QuotaExceededError('responseSize', maxBytes!, used, `Response from ${url} exceeds ${maxBytes} bytes`);
+
+    const declaredLength = Number(response.headers.get('content-length'));
+    if (maxBytes !== undefined && declaredLength > maxBytes) {
+      await response.body?.cancel();
+      throw exceeded(declaredLength);
+    }
+
+    let body: ReadableStream<Uint8Array> | null = null;
+    if (response.body) {
+      const reader = response.body.getReader();
+      let received = 0;
+      body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          try {
+            const { done, value } = await reader.read();
+            if (done) {
+              controller.close();
+              return;
+            }
+            received += value.byteLength;
+            if (maxBytes !== undefined && received > maxBytes) {
+              await reader.cancel();
+              controller.error(exceeded(received));
+              return;
+            }
+            controller.enqueue(value);
+          } catch (error) {
+            controller.error(mapError(error));
+          }
+        },
+        cancel(reason) {
+          return reader.cancel(reason);
+        },
+      });
+    }
+
+    const limited = new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+    // Keep the final URL visible to the plugin, as native fetch does
+    Object.defineProperties(limited, {
+      url: { value: url },
+      redirected: { value: redirected },
+    });
+    return limited;
+  }
 }
@@ -8,24 +8,26 @@ import { createFetchShim } from './fetch-shim.js';
 import { createEnvShim } from './env-shim.js';
 
 export { createFSShim, type CreateFSShimOptions } from './fs-shim.js';
-export { createFetchShim } from './fetch-shim.js';
-export { createEnvShim } from './env-shim.js';
+export { createFetchShim, type CreateFetchShimOptions } from './fetch-shim.js';
+export { createEnvShim, scrubEnv, isEnvAllowed, type ScrubEnvOptions } from './env-shim.js';
 
 export interface CreateRuntimeAPIOptions {
   permissions: PermissionSpec;
   cwd: string;
   outdir?: string;
+  /** Execution signal: aborts in-flight fetch requests */
+  signal?: AbortSignal;
 }
 
 /**
  * Create the complete RuntimeAPI with all shims
  */
 export function createRuntimeAPI(options: CreateRuntimeAPIOptions): RuntimeAPI {
-  const { permissions, cwd, outdir } = options;
+  const { permissions, cwd, outdir, signal } = options;
 
   return {
     fs: createFSShim({ permissions, cwd, outdir }),
-    fetch: createFetchShim({ permissions }),
+    fetch: createFetchShim({ permissions, signal }),
     env: createEnvShim({ permissions }),
   };
 }
@@ -5,14 +5,20 @@
  * It receives the descriptor via IPC and creates the context.
  */
 
-import type { ParentMessage, ChildMessage, ExecuteMessage, LogMessage } from './ipc-protocol.js';
+import type { ParentMessage, ChildMessage, ExecuteMessage, LogMessage, StreamMessage } from './ipc-protocol.js';
 import type { UIFacade, MessageOptions } from '@kb-labs/plugin-contracts';
-import { PluginError, wrapError, noopUI } from '@kb-labs/plugin-contracts';
+import { wrapError, noopUI } from '@kb-labs/plugin-contracts';
 import { sideBorderBox, safeColors, safeSymbols, setJsonMode } from '@kb-labs/shared-cli-ui';
 import { createPluginContextV3 } from '../context/index.js';
-import { executeCleanup, type EventEmitterFn } from '../api/index.js';
+import { executeCleanup, createFileStateStore, toStreamEvent, type EventEmitterFn } from '../api/index.js';
 import { applySandboxPatches, type SandboxMode } from './harden.js';
 import { setGlobalContext, clearGlobalContext } from './context-holder.js';
+import { resolveQuotas, needsUsageSampling, startUsageSampler } from './quotas.js';
+import { createIPCUI, type IPCUI, type UIChannel } from './ipc-ui.js';
+import { createIPCSecretProvider } from './ipc-secrets.js';
+import { toPermissionError } from './node-permissions.js';
+import { loadHandler } from './handler-loader.js';
+import { verifyDescriptor, descriptorKeyringFromEnv, DESCRIPTOR_KEYS_ENV } from '../context/descriptor-signature.js';
 
 // ARCHITECTURE NOTE: Platform Initialization in Child Process
 //
@@ -122,9 +128,27 @@ function createStdoutUI(): UIFacade {
   };
 }
 
+// IPC channel to the parent for remote UI
+const uiChannel: UIChannel = {
+  send: (message) => {
+    process.send?.(message);
+  },
+  onMessage: (handler) => {
+    process.on('message', handler);
+    return () => {
+      process.off('message', handler);
+    };
+  },
+};
+
 // Abort controller for cancellation
 const abortController = new AbortController();
 
+// Read the descriptor keyring before sandbox patches filter process.env;
+// HMAC secrets must not reach the handler
+const descriptorKeyring = descriptorKeyringFromEnv();
+delete process.env[DESCRIPTOR_KEYS_ENV];
+
 // Handle messages from parent
 process.on('message', async (msg: ParentMessage) => {
   if (msg.type === 'abort') {
@@ -135,17 +159,34 @@ process.on('message', async (msg: ParentMessage) => {
   if (msg.type !== 'execute') {return;}
 
   const executeMsg = msg as ExecuteMessage;
-  const { descriptor, handlerPath, input, socketPath, cwd, outdir } = executeMsg;
+  const { descriptor, handlerPath, input, socketPath, cwd, outdir, config, remoteUI, stateDir } = executeMsg;
+
+  // Verify the descriptor before its permissions configure the sandbox
+  if (descriptorKeyring) {
+    try {
+      verifyDescriptor(descriptor, descriptorKeyring);
+    } catch (error) {
+      process.send?.({ type: 'error', error: wrapError(error).toJSON() } satisfies ChildMessage);
+      return;
+    }
+  }
 
   // Read sandbox mode from environment
   const sandboxMode = (process.env.KB_SANDBOX_MODE || 'enforce') as SandboxMode;
 
   // Apply sandbox patches BEFORE any plugin code runs
   // This prevents plugins from bypassing permissions via direct module imports
-  const restoreSandbox = applySandboxPatches({
-    permissions: descriptor.permissions,
-    mode: sandboxMode, // Read from KB_SANDBOX_MODE env var
-  });
+  let restoreSandbox: () => void;
+  try {
+    restoreSandbox = applySandboxPatches({
+      permissions: descriptor.permissions,
+      mode: sandboxMode, // Read from KB_SANDBOX_MODE env var
+    });
+  } catch (error) {
+    // e.g. ESM loader hooks missing in enforce mode: refuse to run unsandboxed
+    process.send?.({ type: 'error', error: wrapError(error).toJSON() } satisfies ChildMessage);
+    return;
+  }
 
   // Connect to platform services via RPC (Unix socket to parent process)
   const platform = await connectToPlatform(socketPath);
@@ -155,8 +196,12 @@ process.on('message', async (msg: ParentMessage) => {
   const jsonMode = Boolean(inputFlags.json);
   if (jsonMode) {setJsonMode(true);}
 
-  // Create stdout UI (plain text output)
-  let ui: UIFacade = createStdoutUI();
+  // Parent serves UI when it has a host UI (real prompts, live spinners),
+  // otherwise fall back to plain stdout output
+  const ipcUI: IPCUI | undefined = remoteUI
+    ? createIPCUI(uiChannel, { colors: safeColors, symbols: safeSymbols })
+    : undefined;
+  let ui: UIFacade = ipcUI ?? createStdoutUI();
   if (jsonMode) {
     ui = {
       ...noopUI,
@@ -166,8 +211,18 @@ process.on('message', async (msg: ParentMessage) => {
     };
   }
 
-  // Create eventEmitter that sends log messages to parent via IPC
+  // Parent serves ctx.api.secrets (checked against its copy of the permissions)
+  const secretProvider = createIPCSecretProvider(uiChannel);
+
+  // Create eventEmitter that sends log and stream messages to parent via IPC
   const eventEmitter: EventEmitterFn = async (name, payload) => {
+    const streamEvent = toStreamEvent(name, payload);
+    if (streamEvent) {
+      const streamMsg: StreamMessage = { type: 'stream', event: streamEvent };
+      process.send?.(streamMsg);
+      return;
+    }
+
     if ((name === 'log.line' || name.endsWith(':log.line')) && payload && typeof payload === 'object') {
       const p = payload as Record<string, unknown>;
       const logMsg: LogMessage = {
@@ -186,7 +241,7 @@ process.on('message', async (msg: ParentMessage) => {
   };
 
   // Create context
-  const { context, cleanupStack } = createPluginContextV3({
+  const { context, cleanupStack, redactor } = createPluginContextV3({
     descriptor,
     platform,
     ui,
@@ -194,6 +249,9 @@ process.on('message', async (msg: ParentMessage) => {
     eventEmitter,
     cwd,
     outdir,
+    stateStore: stateDir ? createFileStateStore({ dir: stateDir }) : undefined,
+    secretProvider,
+    config,
   });
 
   // Set global context for sandbox proxying (used in compat mode)
@@ -208,6 +266,13 @@ process.on('message', async (msg: ParentMessage) => {
   // Save original source before overriding (for subprocess mode - not strictly needed since process dies)
   let originalSource: { product: string; version: string } | undefined;
 
+  // Report resource usage so the parent can enforce memory/CPU quotas
+  let stopUsageSampler: (() => void) | undefined;
+  const stopSampling = () => {
+    stopUsageSampler?.();
+    stopUsageSampler = undefined;
+  };
+
   try {
     // Override analytics source with plugin-specific source
     // This ensures events tracked by the plugin show the correct source
@@ -227,18 +292,17 @@ process.on('message', async (msg: ParentMessage) => {
       });
     }
 
-    // Import handler
-    const handlerModule = await import(handlerPath);
-    const handler = handlerModule.default ?? handlerModule;
-
-    if (typeof handler.execute !== 'function') {
-      throw new PluginError(
-        `Handler at ${handlerPath} does not export an execute function`,
-        'INVALID_HANDLER'
-      );
+    if (needsUsageSampling(resolveQuotas(descriptor.permissions))) {
+      stopUsageSampler = startUsageSampler((sample) => {
+        process.send?.({ type: 'usage', ...sample } satisfies ChildMessage);
+      });
     }
 
+    // Import handler
+    const handler = await loadHandler(handlerPath);
+
     const handlerResult = await handler.execute(context, input);
+    stopSampling();
 
     // Send raw handler result to parent — no host-specific wrapping.
     // Host layer (CLI, REST, Workflow) is responsible for interpreting the data.
@@ -248,17 +312,22 @@ process.on('message', async (msg: ParentMessage) => {
     };
     process.send?.(resultMsg);
   } catch (error) {
-    // Send error to parent
-    const pluginError = wrapError(error);
+    stopSampling();
+
+    // Send error to parent (Node permission model denials as PermissionError)
+    const pluginError = toPermissionError(error) ?? wrapError(error);
     const errorMsg: ChildMessage = {
       type: 'error',
-      error: pluginError.toJSON(),
+      error: redactor.redactValue(pluginError.toJSON()),
     };
     process.send?.(errorMsg);
   } finally {
     // Clear global context (prevent memory leaks)
     clearGlobalContext();
 
+    ipcUI?.dispose();
+    secretProvider.dispose();
+
     // Execute cleanups
     await executeCleanup(cleanupStack, platform.logger);
 
@@ -0,0 +1,66 @@
+/**
+ * ESM loader hooks for sandbox hardening
+ *
+ * Registered with module.register() by applySandboxPatches(). Handlers are
+ * loaded with import(), which bypasses the Module.prototype.require patch,
+ * so the same module policy is applied to ESM imports here.
+ *
+ * Runs on Node's module hooks thread:
+ * - the active mode is read from shared memory, so the main thread can switch
+ *   it synchronously (0 = inactive, see SANDBOX_MODE_CODES)
+ * - governed imports are reported to the main thread over a MessagePort,
+ *   which emits the SandboxViolationEvent
+ */
+
+import type { MessagePort } from 'node:worker_threads';
+import type { SandboxMode } from './harden.js';
+import { checkModuleAccess, SANDBOX_MODE_CODES, type ModuleAccessMessage } from './module-policy.js';
+
+/**
+ * Data passed to module.register()
+ */
+export interface ESMHooksData {
+  /** Int32Array over a SharedArrayBuffer, index 0 holds the mode code */
+  state: Int32Array;
+  port: MessagePort;
+}
+
+interface ResolveContext {
+  parentURL?: string;
+  conditions?: string[];
+  importAttributes?: Record<string, string>;
+}
+
+type NextResolve = (specifier: string, context?: ResolveContext) => unknown;
+
+let state: Int32Array | undefined;
+let port: MessagePort | undefined;
+
+const MODES_BY_CODE = new Map<number, SandboxMode>(
+  Object.entries(SANDBOX_MODE_CODES).map(([mode, code]) => [code, mode as SandboxMode])
+);
+
+export async function initialize(data: ESMHooksData): Promise<void> {
+  state = data.state;
+  port = data.port;
+}
+
+export async function resolve(
+  specifier: string,
+  context: ResolveContext,
+  nextResolve: NextResolve
+): Promise<unknown> {
+  const mode = state ? MODES_BY_CODE.get(Atomics.load(state, 0)) : undefined;
+  const decision = mode ? checkModuleAccess(specifier, mode) : null;
+
+  if (decision) {
+    const message: ModuleAccessMessage = { specifier, parentURL: context.parentURL, decision };
+    port?.postMessage(message);
+
+    if (!decision.allowed) {
+      throw new Error(`[SANDBOX] ${decision.violation?.message ?? `Module "${specifier}" is blocked`}`);
+    }
+  }
+
+  return nextResolve(specifier, context);
+}
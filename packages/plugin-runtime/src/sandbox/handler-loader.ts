@@ -0,0 +1,37 @@
+/**
+ * Handler module loading
+ *
+ * Shared by runInProcess, the subprocess bootstrap and worker-pool warmup,
+ * so a warmed-up handler is the same export that later executes.
+ */
+
+import { PluginError } from '@kb-labs/plugin-contracts';
+
+/**
+ * Handler export of a plugin module
+ */
+export interface LoadedHandler {
+  execute(context: unknown, input: unknown): unknown;
+  /** Optional hook called once per worker by pool warmup */
+  warmup?(): unknown;
+}
+
+/**
+ * Import a handler module and resolve its handler export
+ * (default export, or the module itself)
+ *
+ * @throws PluginError (INVALID_HANDLER) when the export has no execute function
+ */
+export async function loadHandler(handlerPath: string): Promise<LoadedHandler> {
+  const handlerModule = await import(handlerPath);
+  const handler = handlerModule.default ?? handlerModule;
+
+  if (typeof handler?.execute !== 'function') {
+    throw new PluginError(
+      `Handler at ${handlerPath} does not export an execute function`,
+      'INVALID_HANDLER'
+    );
+  }
+
+  return handler as LoadedHandler;
+}
@@ -5,6 +5,9 @@
  * For true isolation, use container mode (future).
  * This protects against accidental misuse and honest plugins.
  *
+ * require() is patched in place; import() is covered by ESM loader hooks
+ * (esm-hooks.ts) registered via module.register with the same module policy.
+ *
  * Key principles:
  * 1. Only patch in subprocess (child process)
  * 2. Make patches reversible (save originals)
@@ -13,7 +16,12 @@
  */
 
 import type { PermissionSpec } from '@kb-labs/plugin-contracts';
-import { createRequire } from 'node:module';
+import { createRequire, register } from 'node:module';
+import { existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { MessageChannel } from 'node:worker_threads';
+import type { ESMHooksData } from './esm-hooks.js';
+import { checkModuleAccess, SANDBOX_MODE_CODES, type ModuleAccessMessage } from './module-policy.js';
 
 export type SandboxMode = 'warn' | 'enforce' | 'compat';
 
@@ -21,6 +29,8 @@ export interface SandboxPatchOptions {
   permissions: PermissionSpec;
   mode?: SandboxMode;
   onViolation?: (event: SandboxViolationEvent) => void;
+  /** ESM loader hooks module (default: compiled esm-hooks.js next to this module) */
+  esmHooksUrl?: URL;
 }
 
 export interface SandboxViolationEvent {
@@ -37,6 +47,16 @@ interface PatchRestore {
 // Store original functions for restoration
 const originals = new Map<string, any>();
 
+interface ESMHooksState {
+  /** Shared with the hooks thread, index 0 holds the mode code */
+  state: Int32Array;
+  /** Handles access reports from the hooks thread */
+  report?: (message: ModuleAccessMessage) => void;
+}
+
+// ESM hooks registered in this process
+let esmHooks: ESMHooksState | null = null;
+
 /**
  * Apply all sandbox patches
  *
@@ -59,14 +79,19 @@ export function applySandboxPatches(options: SandboxPatchOptions): PatchRestore
   })();
 
   // Helper to emit violation events
-  const emitViolation = (event: SandboxViolationEvent) => {
+  // location replaces the stack trace when it doesn't point at plugin code
+  const emitViolation = (event: SandboxViolationEvent, location?: string) => {
     // Log to stderr (visible even if stdout captured)
     const emoji = event.decision === 'block' ? '🚫' : '⚠️';
     const prefix = mode === 'enforce' ? '[SANDBOX BLOCK]' : '[SANDBOX WARN]';
     console.error(`${emoji} ${prefix} ${event.kind}: ${event.message}`);
 
     // Show stack trace to help locate the violation (if enabled)
-    if (shouldShowTrace) {
+    if (shouldShowTrace && location) {
+      console.error('\n📍 Violation location:');
+      console.error(`  ${location}`);
+      console.error('');
+    } else if (shouldShowTrace) {
       const stack = new Error().stack;
       if (stack) {
         // Skip first 3 lines (Error, emitViolation, patchXXX function)
@@ -84,6 +109,9 @@ export function applySandboxPatches(options: SandboxPatchOptions): PatchRestore
   // 1. Patch require() to block dangerous modules
   restoreFns.push(patchRequire(permissions, mode, emitViolation));
 
+  // 1b. Same policy for import() via ESM loader hooks
+  restoreFns.push(patchImports(mode, emitViolation, options.esmHooksUrl));
+
   // 2. Patch fetch() for network access control (EGRESS)
   restoreFns.push(patchFetch(permissions, mode, emitViolation));
 
@@ -113,27 +141,6 @@ function patchRequire(
   mode: SandboxMode,
   emitViolation: (event: SandboxViolationEvent) => void
 ): PatchRestore {
-  const BLOCKED_MODULES = [
-    'cluster',
-    'node:cluster',
-    'dgram',
-    'node:dgram',
-    'dns',
-    'node:dns',
-    'net',
-    'node:net',
-    'tls',
-    'node:tls',
-    'vm',
-    'node:vm',
-    'worker_threads',
-    'node:worker_threads',
-  ];
-
-  const FS_MODULES = ['fs', 'node:fs', 'fs/promises', 'node:fs/promises'];
-  const HTTP_MODULES = ['http', 'node:http', 'https', 'node:https'];
-  const CHILD_PROCESS_MODULES = ['child_process', 'node:child_process'];
-
   // Use createRequire for ESM compatibility
   const require = createRequire(import.meta.url);
   const Module = require('module');
@@ -143,84 +150,88 @@ function patchRequire(
     originals.set('require', originalRequire);
   }
 
-  function getBlockedModuleAlternative(id: string): string {
-    if (id.includes('dns')) {
-      return 'Network DNS is blocked for security. Use fetch() with hostname instead.';
-    }
-    if (id.includes('vm') || id.includes('worker_threads')) {
-      return 'Code execution/isolation is not allowed in plugins.';
-    }
-    if (id.includes('net') || id.includes('tls')) {
-      return 'Low-level network access is blocked. Use ctx.runtime.fetch() instead.';
-    }
-    return 'If you need this functionality, request it via ctx.platform APIs.';
-  }
-
   Module.prototype.require = function (id: string) {
-    // Check blocked modules (always strict - no proxying possible)
-    if (BLOCKED_MODULES.includes(id)) {
-      const message = `Module "${id}" is blocked for security.\n${getBlockedModuleAlternative(id)}`;
-      emitViolation({ kind: 'module', target: id, decision: 'block', message });
-      if (mode === 'enforce' || mode === 'compat') {
-        throw new Error(`[SANDBOX] ${message}`);
+    const decision = checkModuleAccess(id, mode);
+    if (decision) {
+      decision.warning?.forEach((line) => console.warn(line));
+      if (decision.violation) {
+        emitViolation(decision.violation);
       }
-    }
-
-    // Check direct fs access
-    if (FS_MODULES.includes(id)) {
-      if (mode === 'compat' || mode === 'warn') {
-        console.warn('⚠️  [COMPAT] Direct fs access detected. Using native fs.');
-        console.warn('   Migrate to: await ctx.runtime.fs.readFile(path)');
-        console.warn('   Set KB_SANDBOX_MODE=enforce to block this in future');
-        return originalRequire.call(this, id);
+      if (!decision.allowed) {
+        throw new Error(`[SANDBOX] ${decision.violation?.message}`);
       }
-      const message =
-        `Direct fs access is blocked. Use ctx.runtime.fs instead.\n` +
-        `Example: await ctx.runtime.fs.readFile(path)\n` +
-        `Docs: https://docs.kb-labs.dev/plugins/filesystem`;
-      emitViolation({ kind: 'fs', target: id, decision: 'block', message });
-      throw new Error(`[SANDBOX] ${message}`);
     }
 
-    // Check direct http/https access
-    if (HTTP_MODULES.includes(id)) {
-      const protocol = id.includes('https') ? 'https' : 'http';
-      if (mode === 'compat' || mode === 'warn') {
-        console.warn(`⚠️  [COMPAT] Direct ${protocol} access detected. Using native ${protocol}.`);
-        console.warn('   Migrate to: await ctx.runtime.fetch(url)');
-        console.warn('   Set KB_SANDBOX_MODE=enforce to block this in future');
-        return originalRequire.call(this, id);
-      }
-      const message = `Direct ${protocol} access is blocked. Use ctx.runtime.fetch() instead.`;
-      emitViolation({ kind: 'module', target: id, decision: 'block', message });
-      throw new Error(`[SANDBOX] ${message}`);
-    }
+    return originalRequire.call(this, id);
+  };
+
+  // Return restore function
+  return () => {
+    Module.prototype.require = originalRequire;
+  };
+}
 
-    // Check direct child_process access
-    if (CHILD_PROCESS_MODULES.includes(id)) {
-      if (mode === 'compat' || mode === 'warn') {
-        console.warn('⚠️  [COMPAT] Direct child_process access detected. Using native child_process.');
-        console.warn('   Migrate to: await ctx.api.shell.exec(command, args)');
-        console.warn('   Set KB_SANDBOX_MODE=enforce to block this in future');
-        return originalRequire.call(this, id);
+/**
+ * Register ESM loader hooks applying the require() policy to import()
+ *
+ * Hooks can't be unregistered, so they are registered once per process
+ * and the restore function only deactivates them.
+ */
+function patchImports(
+  mode: SandboxMode,
+  emitViolation: (event: SandboxViolationEvent, location?: string) => void,
+  hooksUrl?: URL
+): PatchRestore {
+  if (!esmHooks) {
+    const url = hooksUrl ?? findESMHooks();
+    if (!url) {
+      const message = 'ESM loader hooks (esm-hooks.js) not found, import() is not sandboxed';
+      if (mode === 'enforce') {
+        throw new Error(`[SANDBOX] ${message}`);
       }
-      const message =
-        `Direct child_process access is blocked. Use ctx.api.shell instead.\n` +
-        `Example: await ctx.api.shell.exec('git', ['status'])\n` +
-        `Docs: https://docs.kb-labs.dev/plugins/shell`;
-      emitViolation({ kind: 'module', target: id, decision: 'block', message });
-      throw new Error(`[SANDBOX] ${message}`);
+      console.warn(`⚠️  [SANDBOX WARN] ${message}`);
+      return () => {};
     }
 
-    return originalRequire.call(this, id);
+    const state = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT));
+    const { port1, port2 } = new MessageChannel();
+    const data: ESMHooksData = { state, port: port2 };
+    register(url, { data, transferList: [port2] });
+
+    const hooks: ESMHooksState = { state };
+    port1.on('message', (message: ModuleAccessMessage) => hooks.report?.(message));
+    port1.unref();
+    esmHooks = hooks;
+  }
+
+  // Reports arrive after the import settled, so the reporter is kept on restore
+  esmHooks.report = ({ specifier, parentURL, decision }) => {
+    decision.warning?.forEach((line) => console.warn(line));
+    if (decision.violation) {
+      emitViolation(decision.violation, parentURL ? `import "${specifier}" from ${parentURL}` : undefined);
+    }
   };
 
+  const { state } = esmHooks;
+  Atomics.store(state, 0, SANDBOX_MODE_CODES[mode]);
+
   // Return restore function
   return () => {
-    Module.prototype.require = originalRequire;
+    Atomics.store(state, 0, 0);
   };
 }
 
+/**
+ * Locate compiled esm-hooks.js (same dir in dist/sandbox, or sandbox/ subdir)
+ */
+function findESMHooks(): URL | undefined {
+  const candidates = [
+    new URL('./esm-hooks.js', import.meta.url),
+    new URL('./sandbox/esm-hooks.js', import.meta.url),
+  ];
+  return candidates.find((url) => url.protocol === 'file:' && existsSync(fileURLToPath(url)));
+}
+
 /**
  * Patch globalThis.fetch for network egress control
  */
@@ -9,6 +9,11 @@ export {
   type RunInSubprocessOptions,
 } from './runner.js';
 
+export {
+  loadHandler,
+  type LoadedHandler,
+} from './handler-loader.js';
+
 export {
   type ParentMessage,
   type ChildMessage,
@@ -17,11 +22,74 @@ export {
   type ResultMessage,
   type ErrorMessage,
   type ReadyMessage,
+  type StreamMessage,
+  type UsageMessage,
+  type UIResponseMessage,
+  type UIOutputMethod,
+  type UICallMessage,
+  type UIRequestMessage,
+  type UISpinnerMessage,
+  type UIChildMessage,
+  type SecretRequestMessage,
+  type SecretResponseMessage,
   isParentMessage,
   isChildMessage,
 } from './ipc-protocol.js';
 
+export {
+  createIPCUI,
+  createUIMessageHandler,
+  UI_OUTPUT_METHODS,
+  type IPCUI,
+  type UIChannel,
+  type UIMessageHandler,
+} from './ipc-ui.js';
+
+export {
+  createIPCSecretProvider,
+  createSecretMessageHandler,
+  type IPCSecretProvider,
+  type SecretMessageHandler,
+} from './ipc-secrets.js';
+
 export {
   connectToPlatform,
   disconnectFromPlatform,
 } from './platform-client.js';
+
+export {
+  UnixSocketClient,
+  getStreamSocketPath,
+  DEFAULT_STREAM_CREDITS,
+  type UnixSocketClientConfig,
+  type RPCStreamRequest,
+  type RPCStreamCredit,
+  type RPCStreamCancel,
+  type RPCStreamFrame,
+  type RPCStreamOptions,
+} from './unix-socket-client.js';
+
+export {
+  resolveQuotas,
+  needsUsageSampling,
+  heapLimitExecArgv,
+  checkUsage,
+  createTimeoutError,
+  isHeapOutOfMemoryExit,
+  startUsageSampler,
+  DEFAULT_USAGE_SAMPLE_INTERVAL_MS,
+  type ResolvedQuotas,
+  type UsageSample,
+  type UsageSamplerOptions,
+} from './quotas.js';
+
+export {
+  nodePermissionExecArgv,
+  resolveNodePermissionMode,
+  toPermissionError,
+  accessDeniedFromStderr,
+  isAccessDeniedError,
+  NODE_PERMISSIONS_ENV,
+  type NodePermissionMode,
+  type NodePermissionPaths,
+} from './node-permissions.js';
@@ -4,7 +4,7 @@
  * Defines message types between parent and child process.
  */
 
-import type { PluginContextDescriptor, SerializedError } from '@kb-labs/plugin-contracts';
+import type { PluginContextDescriptor, SerializedError, StreamEvent } from '@kb-labs/plugin-contracts';
 
 /**
  * Message from parent to child: Execute handler
@@ -17,6 +17,12 @@ export interface ExecuteMessage {
   input: unknown;
   cwd: string;
   outdir?: string;
+  /** ctx.config, resolved by the parent (kb.config.json may be outside the child's fs permissions) */
+  config?: unknown;
+  /** Parent serves ctx.ui over IPC (ui:* messages) instead of child stdout */
+  remoteUI?: boolean;
+  /** File state store directory for ctx.api.state (default: platform cache) */
+  stateDir?: string;
 }
 
 /**
@@ -26,10 +32,30 @@ export interface AbortMessage {
   type: 'abort';
 }
 
+/**
+ * Message from parent to child: Answer to a UIRequestMessage
+ */
+export interface UIResponseMessage {
+  type: 'ui:response';
+  id: string;
+  value?: unknown;
+  error?: SerializedError;
+}
+
+/**
+ * Message from parent to child: Answer to a SecretRequestMessage
+ */
+export interface SecretResponseMessage {
+  type: 'secret:response';
+  id: string;
+  value?: string;
+  error?: SerializedError;
+}
+
 /**
  * Union of messages from parent to child
  */
-export type ParentMessage = ExecuteMessage | AbortMessage;
+export type ParentMessage = ExecuteMessage | AbortMessage | UIResponseMessage | SecretResponseMessage;
 
 /**
  * Message from child to parent: Execution result
@@ -73,10 +99,102 @@ export interface LogMessage {
   };
 }
 
+/**
+ * Message from child to parent: Progress or chunk from ctx.api.stream.
+ * Sent in real-time, like LogMessage.
+ */
+export interface StreamMessage {
+  type: 'stream';
+  event: StreamEvent;
+}
+
+/**
+ * Message from child to parent: Resource usage sample.
+ * Sent periodically while a handler with memory/CPU quotas is running.
+ */
+export interface UsageMessage {
+  type: 'usage';
+  /** CPU time (user + system) since execution start, ms */
+  cpuMs: number;
+  /** V8 heap used, MB */
+  heapUsedMb: number;
+}
+
+/**
+ * UIFacade output methods forwarded as UICallMessage
+ */
+export type UIOutputMethod =
+  | 'write'
+  | 'info'
+  | 'success'
+  | 'warn'
+  | 'error'
+  | 'debug'
+  | 'table'
+  | 'json'
+  | 'newline'
+  | 'divider'
+  | 'box'
+  | 'sideBox';
+
+/**
+ * Message from child to parent: UIFacade output call (no response)
+ */
+export interface UICallMessage {
+  type: 'ui:call';
+  method: UIOutputMethod;
+  args: unknown[];
+}
+
+/**
+ * Message from child to parent: Interactive UIFacade call.
+ * Parent answers with UIResponseMessage carrying the same id.
+ */
+export interface UIRequestMessage {
+  type: 'ui:request';
+  id: string;
+  method: 'confirm' | 'prompt';
+  args: unknown[];
+}
+
+/**
+ * Message from child to parent: Spinner lifecycle.
+ * `start` creates the spinner on the parent UI, later actions update it.
+ */
+export interface UISpinnerMessage {
+  type: 'ui:spinner';
+  spinnerId: string;
+  action: 'start' | 'update' | 'succeed' | 'fail' | 'stop';
+  message?: string;
+}
+
+/**
+ * Union of UI messages from child to parent
+ */
+export type UIChildMessage = UICallMessage | UIRequestMessage | UISpinnerMessage;
+
+/**
+ * Message from child to parent: ctx.api.secrets.get().
+ * Parent checks permissions and answers with SecretResponseMessage carrying the same id.
+ */
+export interface SecretRequestMessage {
+  type: 'secret:request';
+  id: string;
+  name: string;
+}
+
 /**
  * Union of messages from child to parent
  */
-export type ChildMessage = ResultMessage | ErrorMessage | ReadyMessage | LogMessage;
+export type ChildMessage =
+  | ResultMessage
+  | ErrorMessage
+  | ReadyMessage
+  | LogMessage
+  | StreamMessage
+  | UsageMessage
+  | UIChildMessage
+  | SecretRequestMessage;
 
 /**
  * Type guard for ParentMessage
@@ -84,7 +202,7 @@ export type ChildMessage = ResultMessage | ErrorMessage | ReadyMessage | LogMess
 export function isParentMessage(msg: unknown): msg is ParentMessage {
   if (typeof msg !== 'object' || msg === null) {return false;}
   const m = msg as { type?: unknown };
-  return m.type === 'execute' || m.type === 'abort';
+  return m.type === 'execute' || m.type === 'abort' || m.type === 'ui:response' || m.type === 'secret:response';
 }
 
 /**
@@ -93,5 +211,6 @@ export function isParentMessage(msg: unknown): msg is ParentMessage {
 export function isChildMessage(msg: unknown): msg is ChildMessage {
   if (typeof msg !== 'object' || msg === null) {return false;}
   const m = msg as { type?: unknown };
-  return m.type === 'result' || m.type === 'error' || m.type === 'ready' || m.type === 'log';
+  return m.type === 'result' || m.type === 'error' || m.type === 'ready' || m.type === 'log' || m.type === 'stream' || m.type === 'usage'
+    || m.type === 'ui:call' || m.type === 'ui:request' || m.type === 'ui:spinner' || m.type === 'secret:request';
 }
@@ -0,0 +1,120 @@
+/**
+ * SecretProvider over the subprocess IPC channel
+ *
+ * Child side (createIPCSecretProvider): ctx.api.secrets.get() sends a
+ * secret:request and waits for the matching secret:response.
+ *
+ * Parent side (createSecretMessageHandler): re-checks the name against the
+ * parent's copy of descriptor.permissions, then answers from the host
+ * provider. Secrets never enter the child environment.
+ */
+
+import type { PermissionSpec } from '@kb-labs/plugin-contracts';
+import { PermissionError, PluginError, wrapError } from '@kb-labs/plugin-contracts';
+import { isSecretAllowed, type SecretProvider } from '../api/secrets.js';
+import type { ChildMessage, SecretResponseMessage } from './ipc-protocol.js';
+import type { UIChannel } from './ipc-ui.js';
+
+/**
+ * SecretProvider served by the parent process
+ */
+export interface IPCSecretProvider extends SecretProvider {
+  /** Stop listening for responses and reject pending requests */
+  dispose(): void;
+}
+
+// ============================================================================
+// Child side
+// ============================================================================
+
+/**
+ * Create a SecretProvider that asks the parent over IPC.
+ */
+export function createIPCSecretProvider(channel: UIChannel): IPCSecretProvider {
+  const pending = new Map<string, { resolve: (value: string | undefined) => void; reject: (error: Error) => void }>();
+  let nextId = 0;
+  let disposed = false;
+
+  const stopListening = channel.onMessage((msg) => {
+    if (msg.type !== 'secret:response') {return;}
+    const entry = pending.get(msg.id);
+    if (!entry) {return;}
+
+    pending.delete(msg.id);
+    if (msg.error) {
+      entry.reject(PluginError.fromJSON(msg.error));
+    } else {
+      entry.resolve(msg.value);
+    }
+  });
+
+  return {
+    get(name: string): Promise<string | undefined> {
+      if (disposed) {
+        return Promise.reject(new PluginError('Secrets channel is closed', 'SECRETS_UNAVAILABLE'));
+      }
+      const id = `secret-${++nextId}`;
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        channel.send({ type: 'secret:request', id, name });
+      });
+    },
+
+    dispose: () => {
+      if (disposed) {return;}
+      disposed = true;
+      stopListening();
+      for (const entry of pending.values()) {
+        entry.reject(new PluginError('Secrets channel is closed', 'SECRETS_UNAVAILABLE'));
+      }
+      pending.clear();
+    },
+  };
+}
+
+// ============================================================================
+// Parent side
+// ============================================================================
+
+/**
+ * Serves child secret:request messages
+ */
+export interface SecretMessageHandler {
+  /** @returns false if message is not a secret request */
+  handle(message: ChildMessage): boolean;
+}
+
+/**
+ * Create a handler for child secret requests.
+ *
+ * @param provider - Host secret provider
+ * @param permissions - Permissions the child was started with (trusted copy)
+ * @param reply - Sends secret:response back to the child
+ */
+export function createSecretMessageHandler(
+  provider: SecretProvider,
+  permissions: PermissionSpec,
+  reply: (message: SecretResponseMessage) => void
+): SecretMessageHandler {
+  const answer = async (name: string): Promise<string | undefined> => {
+    if (!isSecretAllowed(name, permissions)) {
+      throw new PermissionError(`Secret access denied: ${name}`, {
+        name,
+        allowedSecrets: permissions.secrets?.read ?? [],
+      });
+    }
+    return provider.get(name);
+  };
+
+  return {
+    handle(message) {
+      if (message.type !== 'secret:request') {return false;}
+
+      answer(message.name).then(
+        (value) => reply({ type: 'secret:response', id: message.id, value }),
+        (error: unknown) => reply({ type: 'secret:response', id: message.id, error: wrapError(error).toJSON() })
+      );
+      return true;
+    },
+  };
+}
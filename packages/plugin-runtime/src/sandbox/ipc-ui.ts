@@ -0,0 +1,269 @@
+/**
+ * UIFacade over the subprocess IPC channel
+ *
+ * Child side (createIPCUI): ctx.ui calls are sent to the parent as ui:*
+ * messages; confirm() and prompt() wait for the matching ui:response.
+ * Colors and symbols are plain functions/strings and stay local.
+ *
+ * Parent side (createUIMessageHandler): serves those messages with the host
+ * UIFacade (uiProvider(hostType)), so prompts get real answers and spinners
+ * update live in the user's terminal.
+ */
+
+import type { UIFacade, Spinner, PromptOptions } from '@kb-labs/plugin-contracts';
+import { PluginError, wrapError } from '@kb-labs/plugin-contracts';
+import type {
+  ChildMessage,
+  ParentMessage,
+  UIOutputMethod,
+  UIRequestMessage,
+  UIResponseMessage,
+  UISpinnerMessage,
+} from './ipc-protocol.js';
+
+/**
+ * UIFacade methods forwarded without waiting for the parent
+ */
+export const UI_OUTPUT_METHODS: readonly UIOutputMethod[] = [
+  'write',
+  'info',
+  'success',
+  'warn',
+  'error',
+  'debug',
+  'table',
+  'json',
+  'newline',
+  'divider',
+  'box',
+  'sideBox',
+];
+
+/**
+ * Child end of the IPC channel (process.send / process.on('message'))
+ */
+export interface UIChannel {
+  send(message: ChildMessage): void;
+  /** @returns Function that removes the handler */
+  onMessage(handler: (message: ParentMessage) => void): () => void;
+}
+
+/**
+ * UIFacade served by the parent process
+ */
+export interface IPCUI extends UIFacade {
+  /** Stop listening for responses and reject pending confirm/prompt calls */
+  dispose(): void;
+}
+
+/**
+ * Drop trailing undefined args (JSON turns them into null)
+ */
+function trimArgs(args: unknown[]): unknown[] {
+  let end = args.length;
+  while (end > 0 && args[end - 1] === undefined) {end--;}
+  return args.slice(0, end);
+}
+
+// ============================================================================
+// Child side
+// ============================================================================
+
+/**
+ * Create a UIFacade that forwards every call to the parent over IPC.
+ */
+export function createIPCUI(
+  channel: UIChannel,
+  local: Pick<UIFacade, 'colors' | 'symbols'>
+): IPCUI {
+  const pending = new Map<string, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  let nextId = 0;
+  let disposed = false;
+
+  const stopListening = channel.onMessage((msg) => {
+    if (msg.type !== 'ui:response') {return;}
+    const entry = pending.get(msg.id);
+    if (!entry) {return;}
+
+    pending.delete(msg.id);
+    if (msg.error) {
+      entry.reject(PluginError.fromJSON(msg.error));
+    } else {
+      entry.resolve(msg.value);
+    }
+  });
+
+  const call = (method: UIOutputMethod, ...args: unknown[]) => {
+    channel.send({ type: 'ui:call', method, args: trimArgs(args) });
+  };
+
+  const request = (method: UIRequestMessage['method'], args: unknown[]): Promise<unknown> => {
+    if (disposed) {
+      return Promise.reject(new PluginError('UI channel is closed', 'UI_UNAVAILABLE'));
+    }
+    const id = `ui-${++nextId}`;
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      channel.send({ type: 'ui:request', id, method, args: trimArgs(args) });
+    });
+  };
+
+  return {
+    colors: local.colors,
+    symbols: local.symbols,
+
+    write: (text) => call('write', text),
+    info: (message, options) => call('info', message, options),
+    success: (message, options) => call('success', message, options),
+    warn: (message, options) => call('warn', message, options),
+    // Error instances don't survive JSON serialization
+    error: (err, options) => call('error', err instanceof Error ? err.message : err, options),
+    debug: (message) => call('debug', message),
+    table: (data, columns) => call('table', data, columns),
+    json: (data) => call('json', data),
+    newline: () => call('newline'),
+    divider: () => call('divider'),
+    box: (content, title) => call('box', content, title),
+    sideBox: (options) => call('sideBox', options),
+
+    spinner: (message): Spinner => {
+      const spinnerId = `spinner-${++nextId}`;
+      const send = (action: UISpinnerMessage['action'], text?: string) => {
+        channel.send({ type: 'ui:spinner', spinnerId, action, message: text });
+      };
+
+      send('start', message);
+      return {
+        update: (text) => send('update', text),
+        succeed: (text) => send('succeed', text),
+        fail: (text) => send('fail', text),
+        stop: () => send('stop'),
+      };
+    },
+
+    confirm: async (message) => {
+      return Boolean(await request('confirm', [message]));
+    },
+
+    // validate() can't cross the process boundary, so it runs here and
+    // rejected answers are prompted again
+    prompt: async (message, options) => {
+      const { validate, ...rest } = options ?? {};
+      for (;;) {
+        const answer = await request('prompt', [message, options ? rest : undefined]);
+        const value = typeof answer === 'string' ? answer : String(answer ?? '');
+        const verdict = validate ? validate(value) : true;
+        if (verdict === true) {return value;}
+        call('warn', typeof verdict === 'string' ? verdict : `Invalid value: ${value}`);
+      }
+    },
+
+    dispose: () => {
+      if (disposed) {return;}
+      disposed = true;
+      stopListening();
+      for (const entry of pending.values()) {
+        entry.reject(new PluginError('UI channel is closed', 'UI_UNAVAILABLE'));
+      }
+      pending.clear();
+    },
+  };
+}
+
+// ============================================================================
+// Parent side
+// ============================================================================
+
+/**
+ * Serves child ui:* messages with a host UIFacade
+ */
+export interface UIMessageHandler {
+  /** @returns false if message is not a UI message */
+  handle(message: ChildMessage): boolean;
+  /** Stop spinners the child left running */
+  dispose(): void;
+}
+
+/**
+ * Create a handler for child UI messages.
+ *
+ * @param ui - Host UI (e.g. uiProvider(hostType))
+ * @param reply - Sends ui:response back to the child
+ */
+export function createUIMessageHandler(
+  ui: UIFacade,
+  reply: (message: UIResponseMessage) => void
+): UIMessageHandler {
+  const spinners = new Map<string, Spinner>();
+
+  const answer = async (msg: UIRequestMessage): Promise<unknown> => {
+    const [message, options] = msg.args as [string, PromptOptions | undefined];
+    if (msg.method === 'confirm') {return ui.confirm(message);}
+    if (msg.method === 'prompt') {return ui.prompt(message, options);}
+    throw new PluginError(`Unknown UI method: ${String(msg.method)}`, 'INVALID_REQUEST');
+  };
+
+  const spin = (msg: UISpinnerMessage) => {
+    if (msg.action === 'start') {
+      spinners.get(msg.spinnerId)?.stop();
+      spinners.set(msg.spinnerId, ui.spinner(msg.message ?? ''));
+      return;
+    }
+
+    const spinner = spinners.get(msg.spinnerId);
+    if (!spinner) {return;}
+    if (msg.action === 'update') {
+      spinner.update(msg.message ?? '');
+      return;
+    }
+
+    spinners.delete(msg.spinnerId);
+    if (msg.action === 'succeed') {
+      spinner.succeed(msg.message);
+    } else if (msg.action === 'fail') {
+      spinner.fail(msg.message);
+    } else {
+      spinner.stop();
+    }
+  };
+
+  return {
+    handle(message) {
+      if (message.type === 'ui:call') {
+        if (!UI_OUTPUT_METHODS.includes(message.method)) {return true;}
+        try {
+          (ui[message.method] as (...args: unknown[]) => void)(...message.args);
+        } catch {
+          // Output failures must not break plugin execution
+        }
+        return true;
+      }
+
+      if (message.type === 'ui:request') {
+        answer(message).then(
+          (value) => reply({ type: 'ui:response', id: message.id, value }),
+          (error: unknown) => reply({ type: 'ui:response', id: message.id, error: wrapError(error).toJSON() })
+        );
+        return true;
+      }
+
+      if (message.type === 'ui:spinner') {
+        try {
+          spin(message);
+        } catch {
+          // Output failures must not break plugin execution
+        }
+        return true;
+      }
+
+      return false;
+    },
+
+    dispose() {
+      for (const spinner of spinners.values()) {
+        spinner.stop();
+      }
+      spinners.clear();
+    },
+  };
+}
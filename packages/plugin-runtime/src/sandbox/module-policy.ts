@@ -0,0 +1,154 @@
+/**
+ * Module access policy shared by the require() patch and the ESM loader hooks
+ *
+ * Kept free of runtime imports: it is also loaded on the module hooks thread.
+ */
+
+import type { SandboxMode, SandboxViolationEvent } from './harden.js';
+
+/**
+ * Modules that are always blocked (no proxying possible)
+ */
+export const BLOCKED_MODULES: readonly string[] = [
+  'cluster',
+  'node:cluster',
+  'dgram',
+  'node:dgram',
+  'dns',
+  'node:dns',
+  'net',
+  'node:net',
+  'tls',
+  'node:tls',
+  'vm',
+  'node:vm',
+  'worker_threads',
+  'node:worker_threads',
+];
+
+export const FS_MODULES: readonly string[] = ['fs', 'node:fs', 'fs/promises', 'node:fs/promises'];
+export const HTTP_MODULES: readonly string[] = ['http', 'node:http', 'https', 'node:https'];
+export const CHILD_PROCESS_MODULES: readonly string[] = ['child_process', 'node:child_process'];
+
+/**
+ * Outcome of a module access check
+ */
+export interface ModuleAccessDecision {
+  /** Whether the require/import may proceed */
+  allowed: boolean;
+  /** Violation to report */
+  violation?: SandboxViolationEvent;
+  /** Migration hint printed in compat/warn mode (not a violation) */
+  warning?: string[];
+}
+
+function getBlockedModuleAlternative(id: string): string {
+  if (id.includes('dns')) {
+    return 'Network DNS is blocked for security. Use fetch() with hostname instead.';
+  }
+  if (id.includes('vm') || id.includes('worker_threads')) {
+    return 'Code execution/isolation is not allowed in plugins.';
+  }
+  if (id.includes('net') || id.includes('tls')) {
+    return 'Low-level network access is blocked. Use ctx.runtime.fetch() instead.';
+  }
+  return 'If you need this functionality, request it via ctx.platform APIs.';
+}
+
+/**
+ * Check whether a plugin may load a module
+ *
+ * @returns null if the module is not governed by the sandbox
+ */
+export function checkModuleAccess(id: string, mode: SandboxMode): ModuleAccessDecision | null {
+  const lenient = mode === 'compat' || mode === 'warn';
+
+  // Blocked modules (warn mode reports but allows)
+  if (BLOCKED_MODULES.includes(id)) {
+    const message = `Module "${id}" is blocked for security.\n${getBlockedModuleAlternative(id)}`;
+    return {
+      allowed: mode === 'warn',
+      violation: { kind: 'module', target: id, decision: 'block', message },
+    };
+  }
+
+  // Direct fs access
+  if (FS_MODULES.includes(id)) {
+    if (lenient) {
+      return {
+        allowed: true,
+        warning: [
+          '⚠️  [COMPAT] Direct fs access detected. Using native fs.',
+          '   Migrate to: await ctx.runtime.fs.readFile(path)',
+          '   Set KB_SANDBOX_MODE=enforce to block this in future',
+        ],
+      };
+    }
+    const message =
+      `Direct fs access is blocked. Use ctx.runtime.fs instead.\n` +
+      `Example: await ctx.runtime.fs.readFile(path)\n` +
+      `Docs: https://docs.kb-labs.dev/plugins/filesystem`;
+    return { allowed: false, violation: { kind: 'fs', target: id, decision: 'block', message } };
+  }
+
+  // Direct http/https access
+  if (HTTP_MODULES.includes(id)) {
+    const protocol = id.includes('https') ? 'https' : 'http';
+    if (lenient) {
+      return {
+        allowed: true,
+        warning: [
+          `⚠️  [COMPAT] Direct ${protocol} access detected. Using native ${protocol}.`,
+          '   Migrate to: await ctx.runtime.fetch(url)',
+          '   Set KB_SANDBOX_MODE=enforce to block this in future',
+        ],
+      };
+    }
+    const message = `Direct ${protocol} access is blocked. Use ctx.runtime.fetch() instead.`;
+    return { allowed: false, violation: { kind: 'module', target: id, decision: 'block', message } };
+  }
+
+  // Direct child_process access
+  if (CHILD_PROCESS_MODULES.includes(id)) {
+    if (lenient) {
+      return {
+        allowed: true,
+        warning: [
+          '⚠️  [COMPAT] Direct child_process access detected. Using native child_process.',
+          '   Migrate to: await ctx.api.shell.exec(command, args)',
+          '   Set KB_SANDBOX_MODE=enforce to block this in future',
+        ],
+      };
+    }
+    const message =
+      `Direct child_process access is blocked. Use ctx.api.shell instead.\n` +
+      `Example: await ctx.api.shell.exec('git', ['status'])\n` +
+      `Docs: https://docs.kb-labs.dev/plugins/shell`;
+    return { allowed: false, violation: { kind: 'module', target: id, decision: 'block', message } };
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Module hooks thread protocol
+// ============================================================================
+
+/**
+ * Mode codes stored in the shared state read by the ESM hooks (0 = inactive)
+ */
+export const SANDBOX_MODE_CODES: Readonly<Record<SandboxMode, number>> = {
+  warn: 1,
+  enforce: 2,
+  compat: 3,
+};
+
+/**
+ * Message from the hooks thread for a governed import
+ */
+export interface ModuleAccessMessage {
+  specifier: string;
+  /** Importing module, if known */
+  parentURL?: string;
+  decision: ModuleAccessDecision;
+}
@@ -0,0 +1,280 @@
+/**
+ * Node.js permission model for subprocess sandboxes
+ *
+ * When enabled, runInSubprocess forks bootstrap.js with --permission flags
+ * derived from PermissionSpec, so fs and child_process access is enforced by
+ * the runtime itself, not only by fs-shim and the harden.ts patches:
+ * - fs.read: runtime and plugin code with their dependencies, cwd, permissions.fs.read,
+ *   outdir, state dir
+ * - fs.write: outdir, permissions.fs.write, state dir
+ * - child processes: only when permissions.shell.allow is non-empty
+ *
+ * Glob patterns are widened to their static directory prefix ("**", any path
+ * in fs-shim, allows any path); fs-shim still matches the exact patterns on top.
+ *
+ * Mode is selected with KB_SANDBOX_NODE_PERMISSIONS=enforce (next to KB_SANDBOX_MODE)
+ * or RunInSubprocessOptions.nodePermissions.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { PermissionSpec } from '@kb-labs/plugin-contracts';
+import { PermissionError } from '@kb-labs/plugin-contracts';
+
+/**
+ * Env var selecting the Node permission model mode
+ */
+export const NODE_PERMISSIONS_ENV = 'KB_SANDBOX_NODE_PERMISSIONS';
+
+/**
+ * - off: no --permission flags (default)
+ * - enforce: fork with --permission and allowlists from PermissionSpec
+ */
+export type NodePermissionMode = 'off' | 'enforce';
+
+/**
+ * Paths the child needs besides PermissionSpec.fs
+ */
+export interface NodePermissionPaths {
+  /** Handler working directory (fs.read patterns are relative to it) */
+  cwd: string;
+  /** Output directory, defaults to ${cwd}/.kb/output */
+  outdir?: string;
+  /** Plugin package directory (handler code and its dependencies) */
+  pluginRoot: string;
+  /** Directory holding bootstrap.js and its chunks */
+  runtimeDir: string;
+  /** File state store directory (RunInSubprocessOptions.stateDir) */
+  stateDir?: string;
+}
+
+/**
+ * Resolve the mode from an option or the environment
+ */
+export function resolveNodePermissionMode(
+  mode: NodePermissionMode | undefined,
+  env: NodeJS.ProcessEnv = process.env
+): NodePermissionMode {
+  return (mode ?? env[NODE_PERMISSIONS_ENV]) === 'enforce' ? 'enforce' : 'off';
+}
+
+/**
+ * Flag name: --permission since Node 22.13, --experimental-permission before
+ */
+function permissionFlag(): string {
+  return process.allowedNodeEnvironmentFlags.has('--permission')
+    ? '--permission'
+    : '--experimental-permission';
+}
+
+/**
+ * Node's allowlist entry for any path
+ */
+const ANY_PATH = '*';
+
+/**
+ * Resolve a fs pattern to the directory Node should allow
+ */
+function toAllowedPath(pattern: string, cwd: string): string {
+  // "**" matches any path in the fs shim
+  if (pattern === '**') {
+    return ANY_PATH;
+  }
+  const globIndex = pattern.search(/[*?[{]/);
+  if (globIndex === -1) {
+    return path.resolve(cwd, pattern);
+  }
+  // "src/**/*.ts" -> "src", "*.json" -> cwd
+  const staticPart = pattern.slice(0, globIndex);
+  const base = staticPart.endsWith('/') || staticPart.endsWith(path.sep)
+    ? staticPart
+    : path.dirname(staticPart);
+  return path.resolve(cwd, base);
+}
+
+function unique(paths: string[]): string[] {
+  return [...new Set(paths)];
+}
+
+/**
+ * Allowlist for Node: any path covers all others
+ */
+function allowlist(paths: string[]): string[] {
+  return paths.includes(ANY_PATH) ? [ANY_PATH] : unique(paths);
+}
+
+/**
+ * Real path of a directory, or the path itself when it can't be resolved
+ */
+function realDir(dir: string): string {
+  try {
+    return fs.realpathSync(dir);
+  } catch {
+    return dir;
+  }
+}
+
+/**
+ * Targets of the symlinked packages in a node_modules directory, as written
+ * (Node checks the written target before the real path)
+ */
+function linkTargets(nodeModules: string): string[] {
+  const targets: string[] = [];
+  const visit = (dir: string, scoped: boolean) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) {continue;}
+      const entryPath = path.join(dir, entry.name);
+      if (!scoped && entry.name.startsWith('@') && entry.isDirectory()) {
+        visit(entryPath, true);
+      } else if (entry.isSymbolicLink()) {
+        targets.push(path.resolve(dir, fs.readlinkSync(entryPath)));
+      }
+    }
+  };
+  visit(nodeModules, false);
+  return targets;
+}
+
+/**
+ * Directories package code and its dependencies are read from
+ *
+ * Node loads modules from their real paths, so with pnpm dependencies are
+ * read from node_modules/.pnpm or a linked workspace package, not through
+ * the symlinks under the package. Covers each package at its real path,
+ * every node_modules on its lookup path and, transitively, the packages
+ * linked from there that lie outside what is already covered.
+ */
+function codeRoots(packageDirs: string[]): string[] {
+  const roots: string[] = [];
+  const scanned: string[] = [];
+  const within = (p: string, dirs: string[]) =>
+    dirs.some((dir) => p === dir || p.startsWith(dir + path.sep));
+  const queue = [...packageDirs];
+
+  for (let dir = queue.shift(); dir !== undefined; dir = queue.shift()) {
+    const realRoot = realDir(dir);
+    if (within(dir, roots) && within(realRoot, roots)) {continue;}
+    roots.push(dir, realRoot);
+
+    for (let current = realRoot; ; current = path.dirname(current)) {
+      const nodeModules = path.join(current, 'node_modules');
+      if (path.basename(current) !== 'node_modules' && fs.existsSync(nodeModules)) {
+        const realNodeModules = realDir(nodeModules);
+        if (!within(realNodeModules, scanned)) {
+          scanned.push(realNodeModules);
+          roots.push(nodeModules, realNodeModules);
+          queue.push(...linkTargets(nodeModules));
+        }
+      }
+      if (path.dirname(current) === current) {break;}
+    }
+  }
+
+  return unique(roots);
+}
+
+/**
+ * Fork execArgv enabling the Node permission model for a handler
+ *
+ * Worker threads are always allowed: the ESM loader hooks (harden.ts) run
+ * on a module hooks thread.
+ */
+export function nodePermissionExecArgv(
+  permissions: PermissionSpec,
+  paths: NodePermissionPaths
+): string[] {
+  const { cwd, pluginRoot, runtimeDir } = paths;
+  const outdir = path.resolve(cwd, paths.outdir ?? '.kb/output');
+  const stateDir = paths.stateDir ? [path.resolve(paths.stateDir)] : [];
+
+  const write = allowlist([
+    outdir,
+    ...(permissions.fs?.write ?? []).map((p) => toAllowedPath(p, cwd)),
+    ...stateDir,
+  ]);
+  const read = allowlist([
+    runtimeDir,
+    pluginRoot,
+    cwd,
+    ...(permissions.fs?.read ?? []).map((p) => toAllowedPath(p, cwd)),
+    ...write,
+    ...codeRoots([runtimeDir, pluginRoot]),
+  ]);
+
+  // Repeated flags: Node 20 does not split comma-separated lists
+  const args = [
+    permissionFlag(),
+    ...read.map((p) => `--allow-fs-read=${p}`),
+    ...write.map((p) => `--allow-fs-write=${p}`),
+    '--allow-worker',
+  ];
+
+  if ((permissions.shell?.allow?.length ?? 0) > 0) {
+    args.push('--allow-child-process');
+  }
+
+  return args;
+}
+
+// ============================================================================
+// Denials
+// ============================================================================
+
+const DENIAL_HINTS: Record<string, string> = {
+  FileSystemRead: 'Add the path to permissions.fs.read in the plugin manifest.',
+  FileSystemWrite: 'Add the path to permissions.fs.write in the plugin manifest.',
+  ChildProcess: 'Declare commands in permissions.shell.allow and use ctx.api.shell.',
+  WorkerThreads: 'Worker threads are not available to plugins.',
+};
+
+/**
+ * Check for an ERR_ACCESS_DENIED error from the Node permission model
+ */
+export function isAccessDeniedError(
+  error: unknown
+): error is Error & { code: 'ERR_ACCESS_DENIED'; permission?: string; resource?: string } {
+  return error instanceof Error && (error as { code?: unknown }).code === 'ERR_ACCESS_DENIED';
+}
+
+/**
+ * Map a Node permission model denial to PermissionError
+ *
+ * @returns undefined for other errors
+ */
+export function toPermissionError(error: unknown): PermissionError | undefined {
+  if (!isAccessDeniedError(error)) {return undefined;}
+
+  const { permission, resource } = error;
+  const target = resource ? ` to ${resource}` : '';
+  const hint = (permission ? DENIAL_HINTS[permission] : undefined)
+    ?? 'Request the access in the plugin manifest permissions.';
+
+  return new PermissionError(
+    `Node permission model denied ${permission ?? 'access'}${target}. ${hint}`,
+    { permission, resource }
+  );
+}
+
+/**
+ * Recognize a denial that crashed the child before it could report it
+ * (e.g. bootstrap or handler module not readable) from its stderr
+ */
+export function accessDeniedFromStderr(stderr: string): PermissionError | undefined {
+  if (!stderr.includes("code: 'ERR_ACCESS_DENIED'")) {return undefined;}
+
+  const permission = /permission: '([^']+)'/.exec(stderr)?.[1];
+  const resource = /resource: '([^']*)'/.exec(stderr)?.[1];
+  return toPermissionError(
+    Object.assign(new Error('Access to this API has been restricted'), {
+      code: 'ERR_ACCESS_DENIED',
+      permission,
+      resource: resource || undefined,
+    })
+  );
+}
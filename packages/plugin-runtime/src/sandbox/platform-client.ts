@@ -4,7 +4,7 @@
  * Connects to parent process's UnixSocketServer to access platform services via RPC.
  */
 
-import type { PlatformServices, Logger, LLMResponse } from '@kb-labs/plugin-contracts';
+import type { PlatformServices, Logger } from '@kb-labs/plugin-contracts';
 import { UnixSocketClient } from './unix-socket-client.js';
 
 /**
@@ -61,11 +61,9 @@ export async function connectToPlatform(socketPath?: string): Promise<PlatformSe
       complete: async (prompt, options?) => {
         return rpcClient!.call('llm', 'complete', [prompt, options]);
       },
-      stream: async function* (prompt, options?) {
-        // For now, streaming falls back to complete() and yields once
-        // TODO: Implement proper streaming via Unix socket
-        const response = (await rpcClient!.call('llm', 'complete', [prompt, options])) as LLMResponse;
-        yield response.content;
+      // Chunks arrive as stream frames; breaking out of the loop cancels upstream
+      stream: (prompt, options?) => {
+        return rpcClient!.stream<string>('llm', 'stream', [prompt, options]);
       },
     },
 
@@ -164,11 +162,9 @@ export async function connectToPlatform(socketPath?: string): Promise<PlatformSe
       publish: async <T>(topic: string, event: T): Promise<void> => {
         return rpcClient!.call('eventBus', 'publish', [topic, event]);
       },
-      subscribe: <T>(_topic: string, _handler: (event: T) => void | Promise<void>) => {
-        // Note: Event subscriptions in subprocess are not supported yet
-        // TODO: Implement proper cross-process event subscription via IPC
-        console.warn(`[eventBus] Subprocess subscription is not supported yet`);
-        return () => {}; // Return noop unsubscribe
+      // Events arrive over the stream socket; handler is awaited before the next one
+      subscribe: <T>(topic: string, handler: (event: T) => void | Promise<void>) => {
+        return rpcClient!.subscribe<T>('eventBus', 'subscribe', [topic], handler);
       },
     },
 
@@ -183,16 +179,14 @@ export async function connectToPlatform(socketPath?: string): Promise<PlatformSe
       search: async (searchText, options?) => {
         return rpcClient!.call('logs', 'search', [searchText, options]);
       },
-      subscribe: (_callback, _filters?) => {
-        // Real-time log subscription is not supported in subprocess context
-        console.warn(`[logs] Subprocess log subscription is not supported`);
-        return () => {};
+      subscribe: (callback, filters?) => {
+        return rpcClient!.subscribe('logs', 'subscribe', [filters], callback);
       },
       getStats: async () => {
         return rpcClient!.call('logs', 'getStats', []);
       },
       getCapabilities: () => {
-        return { hasBuffer: false, hasPersistence: false, hasSearch: false, hasStreaming: false };
+        return { hasBuffer: false, hasPersistence: false, hasSearch: false, hasStreaming: true };
       },
     },
   };
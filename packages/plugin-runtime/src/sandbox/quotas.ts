@@ -0,0 +1,193 @@
+/**
+ * Resource quota enforcement (PermissionSpec.quotas)
+ *
+ * Shared by runInSubprocess and the worker-pool backend:
+ * - timeoutMs: overrides the request timeout
+ * - memoryMb: subprocess - V8 heap cap via fork execArgv + sampled heap usage;
+ *   worker pool - sampled heap growth since the execution started. Pool workers
+ *   are shared and long-lived, so there is no per-handler heap cap there
+ *   (WorkerPoolOptions.maxHeapMb caps the whole worker)
+ * - cpuMs: CPU time sampled via process.cpuUsage() in the child, parent kills on breach
+ *
+ * Sampling runs on a timer in the child, so a handler that never yields the
+ * event loop is only stopped by the timeout quota.
+ */
+
+import type { PermissionSpec } from '@kb-labs/plugin-contracts';
+import { QuotaExceededError, TimeoutError } from '@kb-labs/plugin-contracts';
+
+/**
+ * Default interval for child usage samples (ms)
+ */
+export const DEFAULT_USAGE_SAMPLE_INTERVAL_MS = 100;
+
+/**
+ * Quotas resolved for a single handler execution
+ */
+export interface ResolvedQuotas {
+  /** Effective timeout (quota overrides request timeout) */
+  timeoutMs: number;
+  /** True when timeoutMs comes from quotas.timeoutMs */
+  timeoutFromQuota: boolean;
+  /** Heap limit in MB */
+  memoryMb?: number;
+  /** CPU time limit in ms */
+  cpuMs?: number;
+}
+
+/**
+ * Resource usage reported by the child process
+ */
+export interface UsageSample {
+  /** CPU time (user + system) since execution start, ms */
+  cpuMs: number;
+  /** V8 heap used, MB (growth since sampling started with heapBaseline) */
+  heapUsedMb: number;
+}
+
+export interface UsageSamplerOptions {
+  /** Sample interval (ms) */
+  intervalMs?: number;
+  /**
+   * Report heap growth since sampling started instead of the whole heap.
+   * For shared processes, whose heap holds modules and garbage of earlier executions.
+   */
+  heapBaseline?: boolean;
+}
+
+/**
+ * Resolve effective quotas for a handler.
+ *
+ * @param permissions - Handler permissions from the descriptor
+ * @param requestTimeoutMs - Timeout requested by the caller
+ * @param defaultTimeoutMs - Fallback when neither is set
+ */
+export function resolveQuotas(
+  permissions: PermissionSpec | undefined,
+  requestTimeoutMs?: number,
+  defaultTimeoutMs = 30000
+): ResolvedQuotas {
+  const quotas = permissions?.quotas;
+  const quotaTimeout = positive(quotas?.timeoutMs);
+
+  return {
+    timeoutMs: quotaTimeout ?? requestTimeoutMs ?? defaultTimeoutMs,
+    timeoutFromQuota: quotaTimeout !== undefined,
+    memoryMb: positive(quotas?.memoryMb),
+    cpuMs: positive(quotas?.cpuMs),
+  };
+}
+
+/**
+ * Check if usage sampling is needed for these quotas
+ */
+export function needsUsageSampling(quotas: Pick<ResolvedQuotas, 'memoryMb' | 'cpuMs'>): boolean {
+  return quotas.memoryMb !== undefined || quotas.cpuMs !== undefined;
+}
+
+/**
+ * Fork execArgv for a heap cap
+ */
+export function heapLimitExecArgv(memoryMb: number | undefined): string[] {
+  return memoryMb !== undefined ? [`--max-old-space-size=${Math.ceil(memoryMb)}`] : [];
+}
+
+/**
+ * Check a usage sample against quotas.
+ *
+ * @returns Error to reject with, or null when within limits
+ */
+export function checkUsage(
+  sample: UsageSample,
+  quotas: Pick<ResolvedQuotas, 'memoryMb' | 'cpuMs'>
+): QuotaExceededError | null {
+  if (quotas.cpuMs !== undefined && sample.cpuMs > quotas.cpuMs) {
+    return new QuotaExceededError(
+      'cpu',
+      quotas.cpuMs,
+      Math.round(sample.cpuMs),
+      `CPU time quota exceeded: ${Math.round(sample.cpuMs)}ms used, limit ${quotas.cpuMs}ms`
+    );
+  }
+
+  if (quotas.memoryMb !== undefined && sample.heapUsedMb > quotas.memoryMb) {
+    return new QuotaExceededError(
+      'memory',
+      quotas.memoryMb,
+      Math.round(sample.heapUsedMb),
+      `Memory quota exceeded: ${Math.round(sample.heapUsedMb)}MB heap used, limit ${quotas.memoryMb}MB`
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Create the error for an execution that ran past its timeout
+ */
+export function createTimeoutError(
+  quotas: Pick<ResolvedQuotas, 'timeoutMs' | 'timeoutFromQuota'>
+): QuotaExceededError | TimeoutError {
+  if (quotas.timeoutFromQuota) {
+    return new QuotaExceededError(
+      'timeout',
+      quotas.timeoutMs,
+      undefined,
+      `Timeout quota exceeded: handler ran longer than ${quotas.timeoutMs}ms`
+    );
+  }
+  return new TimeoutError(`Plugin execution timed out after ${quotas.timeoutMs}ms`);
+}
+
+/**
+ * Check if a child exit looks like a V8 heap OOM abort.
+ * V8 aborts (SIGABRT / exit 134) after printing "JavaScript heap out of memory".
+ */
+export function isHeapOutOfMemoryExit(
+  code: number | null,
+  signal: NodeJS.Signals | string | null,
+  stderrTail = ''
+): boolean {
+  return signal === 'SIGABRT' || code === 134 || stderrTail.includes('heap out of memory');
+}
+
+/**
+ * Start sampling this process' resource usage (runs in the child).
+ *
+ * CPU time is measured relative to the moment sampling starts, so a
+ * long-lived worker reports usage of the current execution only; heap
+ * too with `heapBaseline`.
+ *
+ * @returns Stop function
+ */
+export function startUsageSampler(
+  report: (sample: UsageSample) => void,
+  options: UsageSamplerOptions = {}
+): () => void {
+  const { intervalMs = DEFAULT_USAGE_SAMPLE_INTERVAL_MS, heapBaseline = false } = options;
+  const baseline = process.cpuUsage();
+  const baselineHeap = heapBaseline ? process.memoryUsage().heapUsed : 0;
+
+  const sample = (): UsageSample => {
+    const cpu = process.cpuUsage(baseline);
+    // Collected garbage of earlier executions can take the heap below the baseline
+    const heapUsed = Math.max(0, process.memoryUsage().heapUsed - baselineHeap);
+    return {
+      cpuMs: (cpu.user + cpu.system) / 1000,
+      heapUsedMb: heapUsed / (1024 * 1024),
+    };
+  };
+
+  const interval = setInterval(() => report(sample()), intervalMs);
+  interval.unref();
+
+  return () => {
+    clearInterval(interval);
+    // Final sample catches breaches between the last tick and completion
+    report(sample());
+  };
+}
+
+function positive(value: number | undefined): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+}
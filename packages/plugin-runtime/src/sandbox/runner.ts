@@ -18,11 +18,48 @@ import type {
   UIFacade,
   RunResult,
   ExecutionMeta,
+  StreamEvent,
 } from '@kb-labs/plugin-contracts';
-import { PluginError, TimeoutError, AbortError, createExecutionMeta } from '@kb-labs/plugin-contracts';
+import { PluginError, AbortError, QuotaExceededError, createExecutionMeta } from '@kb-labs/plugin-contracts';
 import type { ParentMessage, ChildMessage, ResultMessage, ErrorMessage } from './ipc-protocol.js';
-import { createPluginContextV3 } from '../context/index.js';
-import { executeCleanup, type PluginInvokerFn, type EventEmitterFn } from '../api/index.js';
+import {
+  resolveQuotas,
+  heapLimitExecArgv,
+  checkUsage,
+  createTimeoutError,
+  isHeapOutOfMemoryExit,
+} from './quotas.js';
+import { createUIMessageHandler } from './ipc-ui.js';
+import { createSecretMessageHandler } from './ipc-secrets.js';
+import {
+  resolveNodePermissionMode,
+  nodePermissionExecArgv,
+  accessDeniedFromStderr,
+  type NodePermissionMode,
+} from './node-permissions.js';
+import { loadHandler } from './handler-loader.js';
+import { scrubEnv, type ScrubEnvOptions } from '../runtime/env-shim.js';
+import { createPluginContextV3, loadPluginConfig, type DescriptorKeyring } from '../context/index.js';
+import {
+  executeCleanup,
+  createLocalSecretProvider,
+  type PluginInvokerFn,
+  type EventEmitterFn,
+  type StateStore,
+  type SecretProvider,
+} from '../api/index.js';
+
+/**
+ * KB_* control variables passed from the host environment to the child.
+ * Socket, token and execution ids are set explicitly per run.
+ */
+const SUBPROCESS_CONTROL_ENV = [
+  'KB_DESCRIPTOR_KEYS',
+  'KB_SANDBOX_MODE',
+  'KB_SANDBOX_TRACE',
+  'KB_TRACE_ID',
+  'KB_WORKFLOW_SERVICE_URL',
+];
 
 /**
  * Create execution metadata from descriptor and timing
@@ -52,6 +89,18 @@ export interface RunInProcessOptions {
   signal?: AbortSignal;
   cwd: string;
   outdir?: string;
+  stateStore?: StateStore;
+  /** Descriptor signature keyring (default: KB_DESCRIPTOR_KEYS) */
+  descriptorKeyring?: DescriptorKeyring;
+  /** Source for ctx.api.secrets (default: process.env, then KB_SECRETS_FILE) */
+  secretProvider?: SecretProvider;
+  /**
+   * ctx.config (default: descriptor.configSection of kb.config.json,
+   * validated against descriptor.configSchema)
+   */
+  config?: unknown;
+  /** kb.config.json profile (default: KB_PROFILE, then "default") */
+  profile?: string;
 }
 
 export interface RunInSubprocessOptions {
@@ -64,7 +113,40 @@ export interface RunInSubprocessOptions {
   signal?: AbortSignal;
   cwd: string;
   outdir?: string;
+  /** Plugin package directory, readable under the Node permission model (default: handler dir) */
+  pluginRoot?: string;
+  /**
+   * Fork with Node's permission model (default: KB_SANDBOX_NODE_PERMISSIONS env var).
+   * See nodePermissionExecArgv() for the derived allowlists.
+   */
+  nodePermissions?: NodePermissionMode;
+  /**
+   * Host UI that serves the handler's ctx.ui over IPC (prompts, spinners).
+   * Without it the child prints to its own stdout and confirm() returns true.
+   */
+  ui?: UIFacade;
+  /**
+   * File state store directory for ctx.api.state (default: platform cache).
+   * Writable under the Node permission model.
+   */
+  stateDir?: string;
+  /** Logs environment variables withheld from the child (debug) */
+  logger?: ScrubEnvOptions['logger'];
+  /**
+   * Serves the child's ctx.api.secrets over IPC
+   * (default: process.env, then KB_SECRETS_FILE of the host)
+   */
+  secretProvider?: SecretProvider;
+  /**
+   * ctx.config (default: descriptor.configSection of kb.config.json,
+   * validated against descriptor.configSchema)
+   */
+  config?: unknown;
+  /** kb.config.json profile (default: KB_PROFILE, then "default") */
+  profile?: string;
   onLog?: (entry: { level: string; message: string; stream: 'stdout' | 'stderr'; lineNo: number; timestamp: string; meta?: Record<string, unknown> }) => void;
+  /** Receives ctx.api.stream progress and chunks */
+  onStream?: (event: StreamEvent) => void;
 }
 
 /**
@@ -78,11 +160,12 @@ export interface RunInSubprocessOptions {
 export async function runInProcess<T = unknown>(
   options: RunInProcessOptions
 ): Promise<RunResult<T>> {
-  const { descriptor, platform, ui, pluginInvoker, eventEmitter, handlerPath, input, signal, cwd, outdir } = options;
+  const { descriptor, platform, ui, pluginInvoker, eventEmitter, handlerPath, input, signal, cwd, outdir, stateStore, descriptorKeyring, secretProvider } = options;
   const startTime = Date.now();
+  const config = options.config ?? await loadPluginConfig({ cwd, descriptor, profile: options.profile });
 
   // Create context
-  const { context, cleanupStack } = createPluginContextV3({
+  const { context, cleanupStack, redactor } = createPluginContextV3({
     descriptor,
     platform,
     ui,
@@ -91,6 +174,10 @@ export async function runInProcess<T = unknown>(
     eventEmitter,
     cwd,
     outdir,
+    stateStore,
+    descriptorKeyring,
+    secretProvider,
+    config,
   });
 
   // Set __KB_CONFIG_SECTION__ for useConfig() auto-detection (in-process mode)
@@ -123,15 +210,7 @@ export async function runInProcess<T = unknown>(
     }
 
     // Import and execute handler
-    const handlerModule = await import(handlerPath);
-    const handler = handlerModule.default ?? handlerModule;
-
-    if (typeof handler.execute !== 'function') {
-      throw new PluginError(
-        `Handler at ${handlerPath} does not export an execute function`,
-        'INVALID_HANDLER'
-      );
-    }
+    const handler = await loadHandler(handlerPath);
 
     // Execute handler and get raw result
     const data = await handler.execute(context, input) as T;
@@ -142,6 +221,9 @@ export async function runInProcess<T = unknown>(
       data,
       executionMeta: buildExecutionMeta(descriptor, startTime),
     };
+  } catch (error) {
+    // Secrets the handler read must not leave in error messages
+    throw redactor.redactError(error);
   } finally {
     // Restore original analytics source (for in-process mode)
     // In subprocess mode, this is not needed (process dies after handler)
@@ -164,6 +246,19 @@ export async function runInProcess<T = unknown>(
  * Returns raw handler result wrapped in RunResult with execution metadata.
  * Host layer is responsible for transforming this into host-specific format.
  *
+ * Enforces descriptor.permissions.quotas: timeoutMs overrides options.timeoutMs,
+ * memoryMb caps the child heap, cpuMs is checked against child usage samples.
+ * Breaches kill the child and reject with QuotaExceededError.
+ *
+ * With options.ui, the child's ctx.ui calls are served by that UI. Time spent
+ * waiting for confirm()/prompt() answers counts toward the timeout.
+ *
+ * The child environment only holds variables permitted by
+ * descriptor.permissions.env (see scrubEnv) and KB_* control variables.
+ *
+ * With nodePermissions 'enforce', fs and child_process access is also enforced
+ * by Node's permission model; denials reject with PermissionError.
+ *
  * @returns RunResult<T> with raw data from handler and execution metadata
  */
 export async function runInSubprocess<T = unknown>(
@@ -175,11 +270,17 @@ export async function runInSubprocess<T = unknown>(
     platformAuthToken,
     handlerPath,
     input,
-    timeoutMs = 30000,
+    timeoutMs: requestTimeoutMs,
     signal,
   } = options;
 
   const startTime = Date.now();
+  const quotas = resolveQuotas(descriptor.permissions, requestTimeoutMs);
+  const { timeoutMs } = quotas;
+
+  // Resolved here: kb.config.json may be outside the child's fs permissions
+  const config = options.config
+    ?? await loadPluginConfig({ cwd: options.cwd, descriptor, profile: options.profile });
 
   return new Promise((resolve, reject) => {
     // Path to bootstrap script
@@ -215,12 +316,37 @@ export async function runInSubprocess<T = unknown>(
       );
     }
 
+    // Node permission model: runtime-level fs/child_process enforcement
+    const permissionMode = resolveNodePermissionMode(options.nodePermissions);
+    let permissionExecArgv: string[] = [];
+    if (permissionMode === 'enforce') {
+      // Parent dirs are not writable in the child, so it can't create the outdir itself
+      const outdir = path.resolve(options.cwd, options.outdir ?? '.kb/output');
+      fs.mkdirSync(outdir, { recursive: true });
+
+      permissionExecArgv = nodePermissionExecArgv(descriptor.permissions, {
+        cwd: options.cwd,
+        outdir,
+        pluginRoot: options.pluginRoot ?? path.dirname(handlerPath),
+        // dist/sandbox/bootstrap.js imports chunks from dist/
+        runtimeDir: path.basename(path.dirname(bootstrapPath)) === 'sandbox'
+          ? path.dirname(path.dirname(bootstrapPath))
+          : path.dirname(bootstrapPath),
+        stateDir: options.stateDir,
+      });
+    }
+
     // Fork child process
     const child: ChildProcess = fork(bootstrapPath, [], {
       stdio: ['pipe', 'pipe', 'pipe', 'ipc'],
+      execArgv: [...process.execArgv, ...heapLimitExecArgv(quotas.memoryMb), ...permissionExecArgv],
+      // Host secrets stay in the parent: permitted variables and KB_* control only
       env: {
-        ...process.env,
-        NODE_ENV: process.env.NODE_ENV,
+        ...scrubEnv(process.env, {
+          permissions: descriptor.permissions,
+          allow: SUBPROCESS_CONTROL_ENV,
+          logger: options.logger,
+        }),
         KB_SOCKET_PATH: socketPath,
         KB_PLATFORM_SOCKET_TOKEN: platformAuthToken,
         KB_EXECUTION_ID: descriptor.requestId,
@@ -231,6 +357,26 @@ export async function runInSubprocess<T = unknown>(
     let completed = false;
     let timeoutId: ReturnType<typeof setTimeout> | undefined;
 
+    // Serve ctx.ui calls from the child with the host UI
+    const uiHandler = options.ui
+      ? createUIMessageHandler(options.ui, (response) => {
+          if (child.connected) {
+            child.send(response);
+          }
+        })
+      : undefined;
+
+    // Serve ctx.api.secrets from the host, so values never enter the child env
+    const secretHandler = createSecretMessageHandler(
+      options.secretProvider ?? createLocalSecretProvider(),
+      descriptor.permissions,
+      (response) => {
+        if (child.connected) {
+          child.send(response);
+        }
+      }
+    );
+
     // Handle abort signal
     const abortHandler = () => {
       if (!completed) {
@@ -252,18 +398,38 @@ export async function runInSubprocess<T = unknown>(
     child.stdout?.pipe(process.stdout);
     child.stderr?.pipe(process.stderr);
 
+    // Keep stderr tail to recognize V8 heap OOM and permission denials on exit
+    let stderrTail = '';
+    if (quotas.memoryMb !== undefined || permissionMode === 'enforce') {
+      child.stderr?.on('data', (chunk: Buffer) => {
+        stderrTail = (stderrTail + chunk.toString()).slice(-1024);
+      });
+    }
+
+    const failQuota = (error: QuotaExceededError) => {
+      completed = true;
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abortHandler);
+      child.kill('SIGKILL');
+      reject(error);
+    };
+
     // Set timeout
     // eslint-disable-next-line prefer-const
     timeoutId = setTimeout(() => {
       if (!completed) {
         completed = true;
         child.kill('SIGKILL');
-        reject(new TimeoutError(`Plugin execution timed out after ${timeoutMs}ms`));
+        signal?.removeEventListener('abort', abortHandler);
+        reject(createTimeoutError(quotas));
       }
     }, timeoutMs);
 
     // Handle messages from child
     child.on('message', (msg: ChildMessage) => {
+      if (uiHandler?.handle(msg)) {return;}
+      if (secretHandler.handle(msg)) {return;}
+
       if (msg.type === 'ready') {
         // Child is ready, send execute message
         const executeMsg: ParentMessage = {
@@ -274,13 +440,26 @@ export async function runInSubprocess<T = unknown>(
           input,
           cwd: options.cwd,
           outdir: options.outdir,
+          config,
+          remoteUI: uiHandler !== undefined,
+          stateDir: options.stateDir,
         };
         child.send(executeMsg);
       } else if (msg.type === 'log') {
         // Forward log entry to onLog callback
         options.onLog?.(msg.entry);
+      } else if (msg.type === 'stream') {
+        // Forward ctx.api.stream progress/chunks
+        options.onStream?.(msg.event);
+      } else if (msg.type === 'usage') {
+        if (completed) {return;}
+        const breach = checkUsage(msg, quotas);
+        if (breach) {
+          failQuota(breach);
+        }
       } else if (msg.type === 'result') {
         completed = true;
+        uiHandler?.dispose();
         clearTimeout(timeoutId);
         signal?.removeEventListener('abort', abortHandler);
 
@@ -295,6 +474,7 @@ export async function runInSubprocess<T = unknown>(
         });
       } else if (msg.type === 'error') {
         completed = true;
+        uiHandler?.dispose();
         clearTimeout(timeoutId);
         signal?.removeEventListener('abort', abortHandler);
 
@@ -304,14 +484,27 @@ export async function runInSubprocess<T = unknown>(
     });
 
     // Handle child exit
-    child.on('exit', (code) => {
+    child.on('exit', (code, exitSignal) => {
+      uiHandler?.dispose();
+
       if (!completed) {
         completed = true;
         clearTimeout(timeoutId);
         signal?.removeEventListener('abort', abortHandler);
 
+        const denial = permissionMode === 'enforce' ? accessDeniedFromStderr(stderrTail) : undefined;
+
         if (signal?.aborted) {
           reject(new AbortError());
+        } else if (quotas.memoryMb !== undefined && isHeapOutOfMemoryExit(code, exitSignal, stderrTail)) {
+          reject(new QuotaExceededError(
+            'memory',
+            quotas.memoryMb,
+            undefined,
+            `Memory quota exceeded: heap limit ${quotas.memoryMb}MB reached`
+          ));
+        } else if (denial) {
+          reject(denial);
         } else {
           reject(new PluginError(
             `Plugin process exited with code ${code}`,
@@ -3,9 +3,20 @@
  *
  * Connects to parent process's UnixSocketServer to access platform services.
  * Based on UnixSocketTransport from @kb-labs/adapters-transport.
+ *
+ * Streams (llm.stream) and subscriptions (eventBus.subscribe, logs.subscribe)
+ * use a second socket next to the RPC socket (see getStreamSocketPath),
+ * served by the parent's platform stream server:
+ * - child → parent: `adapter:stream` / `adapter:subscribe`, `stream:credit`, `stream:cancel`
+ * - parent → child: `stream:chunk`*, then `stream:end` or `stream:error`
+ *
+ * Flow control is credit-based: the request carries an initial window and
+ * the client grants more credits as chunks are consumed, so the parent never
+ * sends more than the child has asked for.
  */
 
 import * as net from 'net';
+import { AbortError } from '@kb-labs/plugin-contracts';
 
 export interface UnixSocketClientConfig {
   /** Path to Unix socket file (default: /tmp/kb-ipc.sock) */
@@ -18,6 +29,15 @@ export interface UnixSocketClientConfig {
   timeout?: number;
   /** Optional auth token for parent-side IPC authorization */
   authToken?: string;
+  /** Path to stream socket (default: getStreamSocketPath(socketPath)) */
+  streamSocketPath?: string;
+}
+
+interface RPCContext {
+  authToken?: string;
+  executionId?: string;
+  tenantId?: string;
+  traceId?: string;
 }
 
 export interface RPCRequest {
@@ -28,12 +48,7 @@ export interface RPCRequest {
   method: string;
   args: unknown[];
   timeout?: number;
-  context?: {
-    authToken?: string;
-    executionId?: string;
-    tenantId?: string;
-    traceId?: string;
-  };
+  context?: RPCContext;
 }
 
 export interface RPCResponse {
@@ -43,6 +58,103 @@ export interface RPCResponse {
   error?: unknown;
 }
 
+/**
+ * Default credit window (chunks in flight per stream)
+ */
+export const DEFAULT_STREAM_CREDITS = 64;
+
+/**
+ * Streaming call or subscription request (child → parent)
+ */
+export interface RPCStreamRequest {
+  version: number;
+  type: 'adapter:stream' | 'adapter:subscribe';
+  requestId: string;
+  adapter: string;
+  method: string;
+  args: unknown[];
+  /** Initial credits (omitted = unlimited) */
+  credits?: number;
+  context?: RPCContext;
+}
+
+/**
+ * Allow the parent to send more chunks (child → parent)
+ */
+export interface RPCStreamCredit {
+  type: 'stream:credit';
+  requestId: string;
+  credits: number;
+}
+
+/**
+ * Stop a stream early (child → parent)
+ */
+export interface RPCStreamCancel {
+  type: 'stream:cancel';
+  requestId: string;
+}
+
+/**
+ * Stream frames (parent → child)
+ */
+export type RPCStreamFrame =
+  | { type: 'stream:chunk'; requestId: string; data: unknown }
+  | { type: 'stream:end'; requestId: string }
+  | { type: 'stream:error'; requestId: string; error: { message: string; code?: string } };
+
+export interface RPCStreamOptions {
+  /** Cancel the stream when aborted */
+  signal?: AbortSignal;
+  /** Credit window (default: DEFAULT_STREAM_CREDITS) */
+  credits?: number;
+}
+
+/**
+ * Stream socket path for an RPC socket path
+ */
+export function getStreamSocketPath(socketPath: string): string {
+  return `${socketPath}.stream`;
+}
+
+function isStreamFrame(msg: unknown): msg is RPCStreamFrame {
+  if (!msg || typeof msg !== 'object' || !('type' in msg)) {
+    return false;
+  }
+  return msg.type === 'stream:chunk' || msg.type === 'stream:end' || msg.type === 'stream:error';
+}
+
+function createRequestId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * Split newline-delimited JSON, returning the incomplete remainder
+ */
+function parseLines(buffer: string, onMessage: (msg: unknown) => void): string {
+  let newlineIndex: number;
+  while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+    const line = buffer.slice(0, newlineIndex);
+    buffer = buffer.slice(newlineIndex + 1);
+
+    if (line.trim().length === 0) {
+      continue;
+    }
+
+    try {
+      onMessage(JSON.parse(line));
+    } catch (error) {
+      console.error('[UnixSocketClient] Failed to parse message:', error);
+    }
+  }
+  return buffer;
+}
+
+interface StreamSink {
+  push(frame: RPCStreamFrame): void;
+  fail(error: Error): void;
+}
+
 interface PendingRequest {
   resolve: (response: RPCResponse) => void;
   reject: (error: Error) => void;
@@ -63,10 +175,16 @@ export class UnixSocketClient {
   private reconnectAttempts = 0;
   private socketPath: string;
   private readonly authToken?: string;
+  private readonly streamSocketPath: string;
+  private streamSocket: net.Socket | null = null;
+  private streamConnecting: Promise<void> | null = null;
+  private streamBuffer = '';
+  private streams = new Map<string, StreamSink>();
 
   constructor(config: UnixSocketClientConfig = {}) {
     this.socketPath = config.socketPath ?? '/tmp/kb-ipc.sock';
     this.authToken = config.authToken;
+    this.streamSocketPath = config.streamSocketPath ?? getStreamSocketPath(this.socketPath);
   }
 
   /**
@@ -129,7 +247,7 @@ export class UnixSocketClient {
       throw new Error('Socket not available');
     }
 
-    const requestId = `rpc-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+    const requestId = createRequestId('rpc');
     const timeoutMs = timeout ?? 30000;
 
     return new Promise<T>((resolve, reject) => {
@@ -161,12 +279,7 @@ export class UnixSocketClient {
         method,
         args,
         timeout: timeoutMs,
-        context: {
-          authToken: this.authToken,
-          executionId: process.env.KB_EXECUTION_ID,
-          tenantId: process.env.KB_TENANT_ID,
-          traceId: process.env.KB_TRACE_ID,
-        },
+        context: this.createContext(),
       };
 
       const message = JSON.stringify(request) + '\n';
@@ -185,28 +298,271 @@ export class UnixSocketClient {
   }
 
   /**
-   * Handle incoming data from Unix socket.
+   * Start a streaming call to parent process.
+   *
+   * The request is sent on the first next(). Calling return() (e.g. breaking
+   * out of for-await) or aborting options.signal sends `stream:cancel`.
    */
-  private handleData(data: Buffer): void {
-    this.buffer += data.toString('utf8');
+  stream<T = unknown>(
+    adapter: string,
+    method: string,
+    args: unknown[],
+    options: RPCStreamOptions = {}
+  ): AsyncIterableIterator<T> {
+    return this.openStream<T>('adapter:stream', adapter, method, args, options);
+  }
 
-    // Process all complete messages (newline-delimited)
-    let newlineIndex: number;
-    while ((newlineIndex = this.buffer.indexOf('\n')) !== -1) {
-      const line = this.buffer.slice(0, newlineIndex);
-      this.buffer = this.buffer.slice(newlineIndex + 1);
+  /**
+   * Subscribe to a callback-style platform API (eventBus.subscribe, logs.subscribe).
+   *
+   * args are the subscribe arguments without the callback. Values are
+   * delivered to handler one at a time; a slow handler holds back credits.
+   * The subscription is established asynchronously.
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe<T = unknown>(
+    adapter: string,
+    method: string,
+    args: unknown[],
+    handler: (value: T) => void | Promise<void>,
+    options: RPCStreamOptions = {}
+  ): () => void {
+    const iterator = this.openStream<T>('adapter:subscribe', adapter, method, args, options);
+
+    void (async () => {
+      try {
+        for await (const value of iterator) {
+          try {
+            await handler(value);
+          } catch (error) {
+            console.error(`[UnixSocketClient] ${adapter}.${method} handler failed:`, error);
+          }
+        }
+      } catch (error) {
+        if (!this.closed) {
+          console.warn(`[UnixSocketClient] ${adapter}.${method} subscription ended:`, error);
+        }
+      }
+    })();
+
+    return () => {
+      void iterator.return?.();
+    };
+  }
 
-      if (line.trim().length === 0) {
-        continue;
+  private openStream<T>(
+    type: RPCStreamRequest['type'],
+    adapter: string,
+    method: string,
+    args: unknown[],
+    options: RPCStreamOptions
+  ): AsyncIterableIterator<T> {
+    const requestId = createRequestId('stream');
+    const { signal } = options;
+    const window = Math.max(1, options.credits ?? DEFAULT_STREAM_CREDITS);
+    // Grant credits in batches to keep credit frames infrequent
+    const grantThreshold = Math.ceil(window / 2);
+    let consumed = 0;
+    const frames: RPCStreamFrame[] = [];
+    let wake: (() => void) | null = null;
+    let failure: Error | null = null;
+    let finished = false;
+    let started: Promise<void> | null = null;
+
+    const notify = () => {
+      const resolve = wake;
+      wake = null;
+      resolve?.();
+    };
+
+    const finish = (cancel: boolean) => {
+      if (finished) {return;}
+      finished = true;
+      this.streams.delete(requestId);
+      signal?.removeEventListener('abort', onAbort);
+      if (cancel) {
+        frames.length = 0;
+        const message: RPCStreamCancel = { type: 'stream:cancel', requestId };
+        this.writeStream(message).catch(() => {});
       }
+      notify();
+    };
 
-      try {
-        const msg = JSON.parse(line);
-        this.handleMessage(msg);
-      } catch (error) {
-        console.error('[UnixSocketClient] Failed to parse message:', error);
+    const onAbort = () => {
+      failure = new AbortError('Stream aborted');
+      finish(true);
+    };
+
+    const start = async () => {
+      if (this.closed) {
+        throw new Error('Client is closed');
+      }
+      if (signal?.aborted) {
+        throw new AbortError('Stream aborted');
       }
+      await this.connectStream();
+
+      this.streams.set(requestId, {
+        push: (frame) => {
+          frames.push(frame);
+          notify();
+        },
+        fail: (error) => {
+          failure = error;
+          finish(false);
+        },
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const request: RPCStreamRequest = {
+        version: 2,
+        type,
+        requestId,
+        adapter,
+        method,
+        args,
+        credits: window,
+        context: this.createContext(),
+      };
+      await this.writeStream(request);
+    };
+
+    const iterator: AsyncIterableIterator<T> = {
+      next: async (): Promise<IteratorResult<T>> => {
+        if (!started && !finished) {
+          started = start().catch((error: unknown) => {
+            failure = error instanceof Error ? error : new Error(String(error));
+            finish(false);
+          });
+        }
+        await started;
+
+        for (;;) {
+          const frame = frames.shift();
+          if (frame?.type === 'stream:chunk') {
+            if (++consumed >= grantThreshold) {
+              const credit: RPCStreamCredit = { type: 'stream:credit', requestId, credits: consumed };
+              consumed = 0;
+              this.writeStream(credit).catch(() => {});
+            }
+            return { value: frame.data as T, done: false };
+          }
+          if (frame?.type === 'stream:end') {
+            finish(false);
+            return { value: undefined, done: true };
+          }
+          if (frame?.type === 'stream:error') {
+            finish(false);
+            const error = new Error(frame.error.message) as Error & { code?: string };
+            error.code = frame.error.code;
+            throw error;
+          }
+
+          if (failure) {
+            const error = failure;
+            failure = null;
+            throw error;
+          }
+          if (finished) {
+            return { value: undefined, done: true };
+          }
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+          });
+        }
+      },
+      return: async (): Promise<IteratorResult<T>> => {
+        finish(true);
+        return { value: undefined, done: true };
+      },
+      [Symbol.asyncIterator]() {
+        return iterator;
+      },
+    };
+
+    return iterator;
+  }
+
+  private createContext(): RPCContext {
+    return {
+      authToken: this.authToken,
+      executionId: process.env.KB_EXECUTION_ID,
+      tenantId: process.env.KB_TENANT_ID,
+      traceId: process.env.KB_TRACE_ID,
+    };
+  }
+
+  /**
+   * Connect to the stream socket (shared by all streams).
+   */
+  private connectStream(): Promise<void> {
+    if (this.streamSocket && !this.streamSocket.destroyed) {
+      return Promise.resolve();
+    }
+    if (this.streamConnecting) {
+      return this.streamConnecting;
     }
+
+    this.streamConnecting = new Promise<void>((resolve, reject) => {
+      const socket = net.connect(this.streamSocketPath);
+
+      socket.on('connect', () => {
+        this.streamSocket = socket;
+        this.streamConnecting = null;
+        resolve();
+      });
+
+      socket.on('error', (error) => {
+        this.streamConnecting = null;
+        reject(new Error(`Stream socket connection failed: ${error.message}`));
+      });
+
+      socket.on('data', (data) => {
+        this.streamBuffer = parseLines(this.streamBuffer + data.toString('utf8'), (msg) => {
+          if (isStreamFrame(msg)) {
+            this.streams.get(msg.requestId)?.push(msg);
+          }
+        });
+      });
+
+      socket.on('close', () => {
+        if (this.streamSocket === socket) {
+          this.streamSocket = null;
+          this.streamBuffer = '';
+        }
+        for (const sink of [...this.streams.values()]) {
+          sink.fail(new Error('Stream socket closed'));
+        }
+      });
+    });
+
+    return this.streamConnecting;
+  }
+
+  private writeStream(message: RPCStreamRequest | RPCStreamCredit | RPCStreamCancel): Promise<void> {
+    const socket = this.streamSocket;
+    if (!socket || socket.destroyed) {
+      return Promise.reject(new Error('Stream socket not available'));
+    }
+
+    return new Promise((resolve, reject) => {
+      socket.write(JSON.stringify(message) + '\n', 'utf8', (error) => {
+        if (error) {
+          reject(new Error(`Failed to write to stream socket: ${error.message}`));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Handle incoming data from Unix socket.
+   */
+  private handleData(data: Buffer): void {
+    // Process all complete messages (newline-delimited)
+    this.buffer = parseLines(this.buffer + data.toString('utf8'), (msg) => this.handleMessage(msg));
   }
 
   private handleMessage(msg: unknown): void {
@@ -243,6 +599,16 @@ export class UnixSocketClient {
       this.socket = null;
     }
 
+    // Fail active streams
+    for (const sink of [...this.streams.values()]) {
+      sink.fail(new Error('Client closed'));
+    }
+    this.streams.clear();
+    if (this.streamSocket) {
+      this.streamSocket.destroy();
+      this.streamSocket = null;
+    }
+
     // Reject all pending requests
     for (const [_requestId, pending] of this.pending) {
       clearTimeout(pending.timer);
@@ -1,2 +1,8 @@
 export { createId, createShortId, extractTraceId, createRequestId } from './id.js';
 export { resolveSafe } from './path-safe.js';
+export {
+  validateJsonSchema,
+  findUnsupportedJsonSchemaKeywords,
+  type SchemaIssue,
+  type ValidateJsonSchemaOptions,
+} from './json-schema.js';
@@ -0,0 +1,201 @@
+/**
+ * JSON Schema subset validation
+ *
+ * Validates plugin config sections and REST input/output against
+ * JsonSchema (see plugin-contracts), filling in `default` values.
+ */
+
+import type { JsonSchema, JsonSchemaType } from '@kb-labs/plugin-contracts';
+
+/**
+ * A value that failed validation
+ */
+export interface SchemaIssue {
+  /** Path of the value (e.g. 'body.items[2].name') */
+  path: string;
+  message: string;
+}
+
+export interface ValidateJsonSchemaOptions {
+  /** Path of the root value, used in issue paths (default: none) */
+  at?: string;
+  /**
+   * Convert strings to the declared number/integer/boolean type
+   * (query parameters arrive as strings)
+   */
+  coerce?: boolean;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {return 'null';}
+  if (Array.isArray(value)) {return 'array';}
+  return typeof value;
+}
+
+/**
+ * Keywords validateJsonSchema checks, and annotations it can safely ignore
+ */
+const KNOWN_KEYWORDS = new Set([
+  'type', 'default', 'enum', 'properties', 'required', 'additionalProperties', 'items',
+  'minimum', 'maximum', 'minLength', 'maxLength', 'pattern',
+  'title', 'description', 'examples', '$comment', '$id', 'deprecated', 'readOnly', 'writeOnly',
+]);
+
+const TYPES = new Set<unknown>(['object', 'array', 'string', 'number', 'integer', 'boolean', 'null']);
+
+function typesOf(node: JsonSchema): JsonSchemaType[] {
+  if (node.type === undefined) {return [];}
+  return Array.isArray(node.type) ? node.type : [node.type];
+}
+
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  if (type === 'integer') {return Number.isInteger(value);}
+  return typeOf(value) === type;
+}
+
+function coerceString(types: JsonSchemaType[], value: string): unknown {
+  // A string that is allowed as is stays a string
+  if (types.length === 0 || types.includes('string')) {return value;}
+  if ((types.includes('number') || types.includes('integer')) && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  return value;
+}
+
+function join(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Validate a value, filling in defaults
+ *
+ * @returns Value with defaults (input is not modified) and validation issues
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown,
+  options: ValidateJsonSchemaOptions = {}
+): { value: unknown; issues: SchemaIssue[] } {
+  const issues: SchemaIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ path, message });
+
+  const visit = (node: JsonSchema, current: unknown, where: string): unknown => {
+    if (current === undefined) {
+      current = node.default === undefined ? undefined : structuredClone(node.default);
+      // Objects without a value still get their property defaults
+      if (current === undefined && typesOf(node).includes('object') && node.properties) {current = {};}
+      if (current === undefined) {return undefined;}
+    }
+
+    const types = typesOf(node);
+    if (options.coerce && typeof current === 'string') {
+      current = coerceString(types, current);
+    }
+
+    if (types.length > 0 && !types.some((type) => matchesType(type, current))) {
+      report(where, `expected ${types.join(' or ')}, got ${typeOf(current)}`);
+      return current;
+    }
+
+    if (node.enum && !node.enum.some((allowed) => JSON.stringify(allowed) === JSON.stringify(current))) {
+      report(where, `must be one of ${node.enum.map((v) => JSON.stringify(v)).join(', ')}`);
+    }
+
+    if (typeof current === 'number') {
+      if (node.minimum !== undefined && current < node.minimum) {
+        report(where, `must be >= ${node.minimum}`);
+      }
+      if (node.maximum !== undefined && current > node.maximum) {
+        report(where, `must be <= ${node.maximum}`);
+      }
+    }
+
+    if (typeof current === 'string') {
+      if (node.minLength !== undefined && current.length < node.minLength) {
+        report(where, `must be at least ${node.minLength} characters`);
+      }
+      if (node.maxLength !== undefined && current.length > node.maxLength) {
+        report(where, `must be at most ${node.maxLength} characters`);
+      }
+      if (node.pattern !== undefined && !new RegExp(node.pattern, 'u').test(current)) {
+        report(where, `must match ${node.pattern}`);
+      }
+    }
+
+    if (Array.isArray(current)) {
+      const items = node.items;
+      return items ? current.map((item, i) => visit(items, item, `${where}[${i}]`)) : [...current];
+    }
+
+    if (typeOf(current) === 'object') {
+      const input = current as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      const properties = node.properties ?? {};
+
+      for (const [key, item] of Object.entries(input)) {
+        const propertySchema = properties[key];
+        if (propertySchema) {
+          output[key] = visit(propertySchema, item, join(where, key));
+        } else if (node.additionalProperties === false) {
+          report(join(where, key), 'unknown property');
+        } else if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+          output[key] = visit(node.additionalProperties, item, join(where, key));
+        } else {
+          output[key] = item;
+        }
+      }
+
+      for (const [key, propertySchema] of Object.entries(properties)) {
+        if (key in input) {continue;}
+        const filled = visit(propertySchema, undefined, join(where, key));
+        if (filled !== undefined) {output[key] = filled;}
+      }
+
+      for (const key of node.required ?? []) {
+        if (output[key] === undefined) {
+          report(join(where, key), 'required');
+        }
+      }
+      return output;
+    }
+
+    return current;
+  };
+
+  return { value: visit(schema, value, options.at ?? ''), issues };
+}
+
+/**
+ * Find keywords validateJsonSchema would silently ignore (anyOf, format, ...)
+ *
+ * Schemas from plugin files are only cast to JsonSchema; check them with this
+ * before validating so a constraint is never dropped without notice.
+ *
+ * @returns Paths of the unsupported keywords (e.g. 'properties.id.format')
+ */
+export function findUnsupportedJsonSchemaKeywords(schema: unknown, at = ''): string[] {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    return [at || '(root)'];
+  }
+
+  const found: string[] = [];
+  for (const [key, value] of Object.entries(schema)) {
+    const where = join(at, key);
+    if (!KNOWN_KEYWORDS.has(key)) {
+      found.push(where);
+    } else if (key === 'type') {
+      const types: unknown[] = Array.isArray(value) ? value : [value];
+      if (!types.every((type) => TYPES.has(type))) {found.push(where);}
+    } else if (key === 'properties' && typeof value === 'object' && value !== null) {
+      for (const [name, property] of Object.entries(value)) {
+        found.push(...findUnsupportedJsonSchemaKeywords(property, join(where, name)));
+      }
+    } else if (key === 'items' || (key === 'additionalProperties' && typeof value !== 'boolean')) {
+      found.push(...findUnsupportedJsonSchemaKeywords(value, where));
+    }
+  }
+  return found;
+}
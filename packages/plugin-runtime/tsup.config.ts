@@ -8,6 +8,8 @@ export default defineConfig({
     index: 'src/index.ts',
     'sandbox/index': 'src/sandbox/index.ts',
     'sandbox/bootstrap': 'src/sandbox/bootstrap.ts',
+    // Loaded by module.register() from bootstrap (harden.ts)
+    'sandbox/esm-hooks': 'src/sandbox/esm-hooks.ts',
   },
   // Override external to bundle plugin-contracts-v3 into bootstrap
   // Bootstrap needs to be standalone when forked as subprocess (no access to node_modules)